@@ -25,6 +25,8 @@ vi.mock('@lorachain/core', () => ({
   })),
   CompressionAlgorithm: { GZIP: 'gzip' },
   CompressionLevel: { BALANCED: 'balanced' },
+  isValidAmount: (value: number): boolean =>
+    Number.isSafeInteger(value) && value >= 0,
 }));
 
 describe('HttpWebSocketServer', () => {
@@ -40,6 +42,11 @@ describe('HttpWebSocketServer', () => {
         getDifficulty: vi.fn().mockReturnValue(1),
         getMiningReward: vi.fn().mockReturnValue(5000000000),
         getPendingTransactions: vi.fn().mockReturnValue([]),
+        getPruneState: vi
+          .fn()
+          .mockReturnValue({ pruned: false, pruneHeight: 0 }),
+        getChainWork: vi.fn().mockReturnValue(0n),
+        getDeploymentStatus: vi.fn().mockReturnValue([]),
         addTransaction: vi.fn(),
       }),
       isNodeRunning: vi.fn().mockReturnValue(true),
@@ -73,6 +80,12 @@ describe('HttpWebSocketServer', () => {
         maxOutputsPerTransaction: 500,
         minRelayFee: BigInt(1000),
         mempoolMaxSize: 10000,
+        mempoolMaxChainLength: 25,
+      },
+      bundles: {
+        signingKey: '11'.repeat(32),
+        trustedSigners: [],
+        maxSize: '50mb',
       },
     };
 
@@ -28,6 +28,7 @@ import {
   CryptoAuthChallenge,
   CryptoAuthResponse,
   AuthenticatedClient,
+  AuthenticatedRequest,
   ValidationResult,
   UTXOServerMetrics,
 } from './types.js';
@@ -36,6 +37,7 @@ import {
 import { createBlockchainRouter } from './routes/blockchain.js';
 import { createUTXOTransactionRouter } from './routes/utxo-transactions.js';
 import { createUTXORouter } from './routes/utxo.js';
+import { createAdminRouter } from './routes/admin.js';
 
 export class HttpWebSocketServer {
   private app: Express;
@@ -313,6 +315,7 @@ export class HttpWebSocketServer {
     const utxoRouter = createUTXORouter(this.nodeServer);
     const spvRouter = this.createSPVRouter();
     const nodeRouter = this.createNodeRouter();
+    const adminRouter = createAdminRouter(this.nodeServer, this.config.bundles);
 
     // Mount routers
     router.use('/blockchain', blockchainRouter);
@@ -320,6 +323,7 @@ export class HttpWebSocketServer {
     router.use('/', utxoRouter); // UTXO endpoints are at root level
     router.use('/spv', spvRouter);
     router.use('/node', nodeRouter);
+    router.use('/admin', adminRouter);
 
     // API root endpoint
     router.get('/', (req: Request, res: Response) => {
@@ -343,6 +347,7 @@ export class HttpWebSocketServer {
             utxos: '/api/v1/blockchain/address/:address/utxos',
             spv: '/api/v1/spv/*',
             node: '/api/v1/node/*',
+            admin: '/api/v1/admin/*',
           },
         },
         timestamp: Date.now(),
@@ -401,6 +406,7 @@ export class HttpWebSocketServer {
             pendingTransactions: this.nodeServer
               .getBlockchain()
               .getPendingTransactions().length,
+            ...this.nodeServer.getBlockchain().getPruneState(),
           },
           httpServer: {
             running: this.isRunning,
@@ -824,7 +830,7 @@ export class HttpWebSocketServer {
       client.lastActivity = Date.now();
 
       // Add user info to request
-      (req as any).user = {
+      (req as AuthenticatedRequest).user = {
         clientId: decoded.clientId,
         publicKey: client.publicKey,
         algorithm: client.algorithm,
@@ -1070,9 +1076,9 @@ export class HttpWebSocketServer {
     router.post(
       '/refresh',
       this.authMiddleware.bind(this),
-      (req: Request, res: Response) => {
+      (req: AuthenticatedRequest, res: Response) => {
         try {
-          const user = (req as any).user;
+          const user = req.user!;
           const client = this.authenticatedClients.get(user.clientId);
 
           if (!client) {
@@ -1130,9 +1136,9 @@ export class HttpWebSocketServer {
     router.delete(
       '/logout',
       this.authMiddleware.bind(this),
-      (req: Request, res: Response) => {
+      (req: AuthenticatedRequest, res: Response) => {
         try {
-          const user = (req as any).user;
+          const user = req.user!;
           this.authenticatedClients.delete(user.clientId);
 
           res.json({
@@ -1164,9 +1170,9 @@ export class HttpWebSocketServer {
     router.get(
       '/status',
       this.authMiddleware.bind(this),
-      (req: Request, res: Response) => {
+      (req: AuthenticatedRequest, res: Response) => {
         try {
-          const user = (req as any).user;
+          const user = req.user!;
           const client = this.authenticatedClients.get(user.clientId);
 
           res.json({
@@ -15,6 +15,8 @@ const mockNode = {
       .mockReturnValue([{ id: 'tx1' }, { id: 'tx2' }]),
     getDifficulty: vi.fn().mockReturnValue(4),
     getMiningReward: vi.fn().mockReturnValue(50),
+    setMempoolMaxSize: vi.fn(),
+    setMempoolMaxChainLength: vi.fn(),
   }),
 };
 
@@ -1,7 +1,9 @@
 import { LorachainNode } from '@lorachain/node';
 import { MeshProtocol } from '@lorachain/mesh-protocol';
 import { Logger } from '@lorachain/shared';
+import { BlockBundleImportResult, CryptographicService } from '@lorachain/core';
 import { randomBytes } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
 import { HttpWebSocketServer } from './HttpWebSocketServer.js';
 import { ServerConfig } from './types.js';
 
@@ -11,9 +13,19 @@ export class NodeServer {
   private httpWebSocketServer?: HttpWebSocketServer;
   private logger = Logger.getInstance();
   private nodeId: string;
+  private bundleConfig: ServerConfig['bundles'];
 
   constructor() {
-    this.nodeId = randomBytes(16).toString('hex');
+    // A fixed ID keeps the node's data directory across restarts
+    this.nodeId = process.env.NODE_ID || randomBytes(16).toString('hex');
+    this.bundleConfig = {
+      signingKey: process.env.BUNDLE_SIGNING_KEY || undefined,
+      trustedSigners: (process.env.BUNDLE_TRUSTED_SIGNERS ?? '')
+        .split(',')
+        .map(address => address.trim())
+        .filter(Boolean),
+      maxSize: '50mb',
+    };
 
     this.node = new LorachainNode({
       id: this.nodeId,
@@ -111,9 +123,17 @@ export class NodeServer {
         maxOutputsPerTransaction: 500,
         minRelayFee: BigInt(1000), // 1000 satoshis
         mempoolMaxSize: 10000,
+        mempoolMaxChainLength: 25,
       },
+      bundles: this.bundleConfig,
     };
 
+    const blockchain = this.node.getBlockchain();
+    blockchain.setMempoolMaxSize(serverConfig.utxo.mempoolMaxSize);
+    blockchain.setMempoolMaxChainLength(
+      serverConfig.utxo.mempoolMaxChainLength
+    );
+
     this.httpWebSocketServer = new HttpWebSocketServer(this.node, serverConfig);
     await this.httpWebSocketServer.start();
 
@@ -123,6 +143,63 @@ export class NodeServer {
     });
   }
 
+  /**
+   * Write a signed bundle of main chain blocks and pending transactions to
+   * a file, for carrying to an offline node. Bundles are signed with
+   * BUNDLE_SIGNING_KEY, which must be set.
+   * @returns the bundle size in bytes
+   */
+  async exportBlockBundle(
+    path: string,
+    fromHeight: number,
+    toHeight?: number
+  ): Promise<number> {
+    const { signingKey } = this.bundleConfig;
+    if (!signingKey) {
+      throw new Error('BUNDLE_SIGNING_KEY must be set to export block bundles');
+    }
+    const blockchain = this.node.getBlockchain();
+    await blockchain.waitForInitialization();
+
+    const data = await blockchain.exportBlockBundle(
+      fromHeight,
+      toHeight ?? blockchain.getLatestBlock().index,
+      CryptographicService.generateKeyPairFromPrivateKey(
+        Buffer.from(signingKey, 'hex'),
+        'secp256k1'
+      )
+    );
+    await writeFile(path, data);
+
+    this.logger.info('Exported block bundle', { path, bytes: data.length });
+    return data.length;
+  }
+
+  /**
+   * Import a block bundle file through normal block validation. Only
+   * bundles signed by BUNDLE_TRUSTED_SIGNERS are accepted.
+   */
+  async importBlockBundle(path: string): Promise<BlockBundleImportResult> {
+    const blockchain = this.node.getBlockchain();
+    await blockchain.waitForInitialization();
+
+    const result = await blockchain.importBlockBundle(
+      new Uint8Array(await readFile(path)),
+      this.bundleConfig.trustedSigners
+    );
+
+    this.logger.info('Imported block bundle', { path, ...result });
+    return result;
+  }
+
+  /**
+   * Flush and close the blockchain after offline commands, when the node
+   * was never started
+   */
+  async closeBlockchain(): Promise<void> {
+    await this.node.getBlockchain().close();
+  }
+
   private setupMessageHandling(): void {
     this.logger.info('Setting up mesh message handling');
   }
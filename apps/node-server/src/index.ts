@@ -1,6 +1,68 @@
 import { NodeServer } from './NodeServer.js';
 
+const USAGE = `Usage:
+  node-server                                         start the node server
+  node-server bundle-export <file> <fromHeight> [toHeight]
+  node-server bundle-import <file>`;
+
+/**
+ * Offline block bundle commands for moving blocks between nodes on USB
+ * sticks or SD cards
+ * @returns the process exit code
+ */
+async function runBundleCommand(
+  command: string,
+  args: string[]
+): Promise<number> {
+  const [file, fromHeight, toHeight] = args;
+  if (
+    !file ||
+    (command === 'bundle-export' && fromHeight === undefined) ||
+    (command === 'bundle-import' && args.length > 1)
+  ) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const server = new NodeServer();
+  try {
+    if (command === 'bundle-export') {
+      const bytes = await server.exportBlockBundle(
+        file,
+        Number(fromHeight),
+        toHeight === undefined ? undefined : Number(toHeight)
+      );
+      console.log(`Wrote ${bytes} byte block bundle to ${file}`);
+      return 0;
+    }
+
+    const result = await server.importBlockBundle(file);
+    console.log('Signer:', result.signer ?? 'unknown');
+    console.log('Blocks added:', result.blocksAdded);
+    console.log('Blocks already known:', result.blocksKnown);
+    console.log('Pending transactions added:', result.transactionsAdded);
+    for (const error of result.errors) {
+      console.error('Error:', error);
+    }
+    return result.isValid ? 0 : 1;
+  } catch (error) {
+    console.error('Error:', (error as Error).message);
+    return 1;
+  } finally {
+    await server.closeBlockchain();
+  }
+}
+
 async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === 'bundle-export' || command === 'bundle-import') {
+    process.exit(await runBundleCommand(command, args));
+  }
+  if (command !== undefined) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
   const server = new NodeServer();
 
   process.on('SIGINT', async () => {
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { createAdminRouter } from './admin.js';
+import { LorachainNode } from '@lorachain/node';
+import { ServerConfig } from '../types.js';
+
+describe('Admin Router', () => {
+  let app: express.Application;
+  let mockBlockchain: any;
+  let permissions: string[];
+  let bundleConfig: ServerConfig['bundles'];
+
+  const importResult = {
+    isValid: true,
+    errors: [],
+    signer: 'lora1signer',
+    blocksAdded: 2,
+    blocksKnown: 1,
+    transactionsAdded: 3,
+  };
+
+  beforeEach(() => {
+    permissions = ['read', 'write'];
+    mockBlockchain = {
+      getLatestBlock: vi.fn().mockReturnValue({ index: 5 }),
+      exportBlockBundle: vi
+        .fn()
+        .mockResolvedValue(new Uint8Array([0x04, 0x09, 0x01, 0x02])),
+      importBlockBundle: vi.fn().mockResolvedValue(importResult),
+    };
+    const mockNode = {
+      getBlockchain: vi.fn().mockReturnValue(mockBlockchain),
+    } as unknown as LorachainNode;
+
+    bundleConfig = {
+      signingKey: '11'.repeat(32),
+      trustedSigners: ['lora1signer'],
+      maxSize: '1mb',
+    };
+
+    app = express();
+    app.use((req, res, next) => {
+      (req as any).user = { permissions };
+      next();
+    });
+    app.use('/admin', createAdminRouter(mockNode, bundleConfig));
+  });
+
+  describe('GET /bundles', () => {
+    it('should download a signed bundle of the requested range', async () => {
+      const response = await request(app)
+        .get('/admin/bundles?fromHeight=2&toHeight=4')
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', chunk => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/octet-stream');
+      expect(response.headers['content-disposition']).toContain(
+        'blocks-2-4.bundle'
+      );
+      expect([...response.body]).toEqual([0x04, 0x09, 0x01, 0x02]);
+      const [fromHeight, toHeight, keyPair] =
+        mockBlockchain.exportBlockBundle.mock.calls[0];
+      expect([fromHeight, toHeight]).toEqual([2, 4]);
+      expect(keyPair.algorithm).toBe('secp256k1');
+    });
+
+    it('should default to the whole chain', async () => {
+      await request(app).get('/admin/bundles').expect(200);
+
+      expect(mockBlockchain.exportBlockBundle).toHaveBeenCalledWith(
+        0,
+        5,
+        expect.anything()
+      );
+    });
+
+    it('should report ranges that cannot be bundled', async () => {
+      mockBlockchain.exportBlockBundle.mockRejectedValue(
+        new Error('Bundle range 4-9 is not on the main chain')
+      );
+
+      const response = await request(app)
+        .get('/admin/bundles?fromHeight=4&toHeight=9')
+        .expect(400);
+
+      expect(response.body.error).toEqual({
+        code: 'UTXO_INVALID_BUNDLE',
+        message: 'Bundle range 4-9 is not on the main chain',
+      });
+    });
+
+    it('should require write permission', async () => {
+      permissions = ['read'];
+
+      const response = await request(app).get('/admin/bundles').expect(403);
+
+      expect(response.body.error.code).toBe('UTXO_UNAUTHORIZED');
+      expect(mockBlockchain.exportBlockBundle).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to export without a configured signing key', async () => {
+      bundleConfig.signingKey = undefined;
+
+      const response = await request(app).get('/admin/bundles').expect(503);
+
+      expect(response.body.error).toEqual({
+        code: 'UTXO_BUNDLES_DISABLED',
+        message: 'No block bundle signing key is configured',
+      });
+      expect(mockBlockchain.exportBlockBundle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /bundles', () => {
+    it('should import an uploaded bundle from trusted signers', async () => {
+      const response = await request(app)
+        .post('/admin/bundles')
+        .set('Content-Type', 'application/octet-stream')
+        .send(Buffer.from([0x04, 0x09, 0x01]))
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toEqual(importResult);
+      expect(mockBlockchain.importBlockBundle).toHaveBeenCalledWith(
+        new Uint8Array([0x04, 0x09, 0x01]),
+        ['lora1signer']
+      );
+    });
+
+    it('should report rejected bundles with the import counts', async () => {
+      mockBlockchain.importBlockBundle.mockResolvedValue({
+        ...importResult,
+        isValid: false,
+        errors: ['Block bundle signer lora1other is not trusted'],
+        blocksAdded: 0,
+        blocksKnown: 0,
+        transactionsAdded: 0,
+      });
+
+      const response = await request(app)
+        .post('/admin/bundles')
+        .set('Content-Type', 'application/octet-stream')
+        .send(Buffer.from([0x04]))
+        .expect(400);
+
+      expect(response.body.error.message).toBe(
+        'Block bundle signer lora1other is not trusted'
+      );
+      expect(response.body.data.blocksAdded).toBe(0);
+    });
+
+    it('should require a bundle in the request body', async () => {
+      await request(app).post('/admin/bundles').expect(400);
+
+      expect(mockBlockchain.importBlockBundle).not.toHaveBeenCalled();
+    });
+
+    it('should require write permission', async () => {
+      permissions = ['read'];
+
+      const response = await request(app)
+        .post('/admin/bundles')
+        .set('Content-Type', 'application/octet-stream')
+        .send(Buffer.from([0x04]))
+        .expect(403);
+
+      expect(response.body.error.code).toBe('UTXO_UNAUTHORIZED');
+      expect(mockBlockchain.importBlockBundle).not.toHaveBeenCalled();
+    });
+  });
+});
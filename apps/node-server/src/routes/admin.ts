@@ -0,0 +1,145 @@
+import express, { Router, Response, NextFunction } from 'express';
+import { LorachainNode } from '@lorachain/node';
+import { Logger } from '@lorachain/shared';
+import { CryptographicService } from '@lorachain/core';
+import {
+  AuthenticatedRequest,
+  UTXOAPIResponse,
+  UTXOErrorCode,
+  ServerConfig,
+} from '../types.js';
+
+export function createAdminRouter(
+  nodeServer: LorachainNode,
+  bundleConfig: ServerConfig['bundles']
+): Router {
+  const router = Router();
+  const logger = Logger.getInstance();
+
+  // Helper function to create standardized API responses
+  const createResponse = <T>(data?: T, error?: any): UTXOAPIResponse<T> => {
+    return {
+      success: !error,
+      data,
+      error: error
+        ? {
+            code: error.code || UTXOErrorCode.INTERNAL_ERROR,
+            message: error.message || 'Internal error',
+          }
+        : undefined,
+      timestamp: Date.now(),
+      chainId: 'lorachain-mainnet',
+      version: '1.0.0',
+    };
+  };
+
+  // Bundles carry blocks around normal peer sync in both directions, so
+  // exporting and importing them both need write permission
+  const requireWritePermission = (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    if (!req.user?.permissions.includes('write')) {
+      res.status(403).json(
+        createResponse(null, {
+          code: UTXOErrorCode.UNAUTHORIZED,
+          message: 'Write permission required',
+        })
+      );
+      return;
+    }
+    next();
+  };
+
+  // GET /api/v1/admin/bundles?fromHeight=&toHeight=
+  // Signed block bundle for carrying to offline nodes on removable media
+  router.get(
+    '/bundles',
+    requireWritePermission,
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!bundleConfig.signingKey) {
+        return res.status(503).json(
+          createResponse(null, {
+            code: UTXOErrorCode.BUNDLES_DISABLED,
+            message: 'No block bundle signing key is configured',
+          })
+        );
+      }
+      const blockchain = nodeServer.getBlockchain();
+      const fromHeight = Number(req.query.fromHeight ?? 0);
+      const toHeight = Number(
+        req.query.toHeight ?? blockchain.getLatestBlock().index
+      );
+
+      try {
+        const data = await blockchain.exportBlockBundle(
+          fromHeight,
+          toHeight,
+          CryptographicService.generateKeyPairFromPrivateKey(
+            Buffer.from(bundleConfig.signingKey, 'hex'),
+            'secp256k1'
+          )
+        );
+        res
+          .type('application/octet-stream')
+          .attachment(`blocks-${fromHeight}-${toHeight}.bundle`)
+          .send(Buffer.from(data));
+      } catch (error) {
+        logger.error('Error exporting block bundle', {
+          error,
+          fromHeight,
+          toHeight,
+        });
+        res.status(400).json(
+          createResponse(null, {
+            code: UTXOErrorCode.INVALID_BUNDLE,
+            message: (error as Error).message,
+          })
+        );
+      }
+    }
+  );
+
+  // POST /api/v1/admin/bundles
+  // Import a block bundle sent as the raw request body
+  router.post(
+    '/bundles',
+    requireWritePermission,
+    express.raw({ type: () => true, limit: bundleConfig.maxSize }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json(
+          createResponse(null, {
+            code: UTXOErrorCode.INVALID_BUNDLE,
+            message: 'Request body must contain a block bundle',
+          })
+        );
+      }
+
+      try {
+        const result = await nodeServer
+          .getBlockchain()
+          .importBlockBundle(
+            new Uint8Array(req.body),
+            bundleConfig.trustedSigners
+          );
+        // Blocks added before a rejected one stay connected
+        if (!result.isValid) {
+          return res.status(400).json(
+            createResponse(result, {
+              code: UTXOErrorCode.INVALID_BUNDLE,
+              message: result.errors.join('; '),
+            })
+          );
+        }
+        res.json(createResponse(result));
+      } catch (error) {
+        logger.error('Error importing block bundle', { error });
+        res.status(500).json(createResponse(null, error));
+      }
+    }
+  );
+
+  return router;
+}
@@ -49,6 +49,54 @@ describe('Blockchain Router', () => {
         getDifficulty: vi.fn().mockReturnValue(1),
         getMiningReward: vi.fn().mockReturnValue(5000000000),
         getPendingTransactions: vi.fn().mockReturnValue([]),
+        getPruneState: vi
+          .fn()
+          .mockReturnValue({ pruned: false, pruneHeight: 0 }),
+        getChainWork: vi.fn().mockReturnValue(2n ** 80n + 1n),
+        getDeploymentStatus: vi.fn().mockReturnValue([
+          {
+            name: 'relative-locktime',
+            bit: 0,
+            state: 'started',
+            since: 0,
+            period: 10,
+            threshold: 8,
+            elapsed: 2,
+            count: 1,
+          },
+        ]),
+        isBlockPruned: vi.fn().mockReturnValue(false),
+        getSupplyInfo: vi.fn().mockReturnValue({
+          height: 1,
+          circulatingSupply: 1005000000000,
+          issuedSupply: 1005000000000,
+          projectedSupply: 2100000000000000,
+          maxSupply: 2100000000000000,
+          blockSubsidy: 5000000000,
+          nextHalvingHeight: 210000,
+        }),
+        getMiner: vi.fn().mockReturnValue({
+          getStats: vi.fn().mockReturnValue({
+            isMining: true,
+            height: 2,
+            workerCount: 3,
+            hashrate: 125000,
+            totalHashes: 5000000,
+            blocksFound: 1,
+            jobsCancelled: 2,
+          }),
+        }),
+        getLatestBlock: vi.fn().mockReturnValue(mockBlocks[1]),
+        addBlock: vi.fn().mockResolvedValue({ isValid: true, errors: [] }),
+        createBlockTemplate: vi.fn().mockReturnValue({
+          block: { ...mockBlocks[1], index: 2, nonce: 0 },
+          transactions: mockBlocks[1].transactions,
+          coinbase: mockBlocks[1].transactions[0],
+          subsidy: 5000000000,
+          totalFees: 0,
+          size: 250,
+          maxBlockSize: 1048576,
+        }),
       }),
     } as any;
 
@@ -74,8 +122,19 @@ describe('Blockchain Router', () => {
           networkHashRate: 0,
           totalUTXOs: 0,
           totalSupply: '0',
+          chainWork: '1208925819614629174706177',
           averageBlockTime: 300000,
           nextDifficultyAdjustment: 10,
+          pruned: false,
+          pruneHeight: 0,
+          deployments: [
+            {
+              name: 'relative-locktime',
+              state: 'started',
+              elapsed: 2,
+              count: 1,
+            },
+          ],
         },
         timestamp: expect.any(Number),
         chainId: 'lorachain-mainnet',
@@ -178,6 +237,25 @@ describe('Blockchain Router', () => {
       expect(response.body.success).toBe(false);
       expect(response.body.error.code).toBe('UTXO_NOT_FOUND');
     });
+
+    it('should return 410 for a block pruned from this node', async () => {
+      const blockchain = mockNode.getBlockchain();
+      blockchain.getPruneState.mockReturnValue({
+        pruned: true,
+        pruneHeight: 1,
+      });
+      blockchain.isBlockPruned.mockImplementation((index: number) => index < 1);
+
+      const response = await request(app)
+        .get('/api/v1/blockchain/blocks/0')
+        .expect(410);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('UTXO_BLOCK_PRUNED');
+      expect(response.body.error.message).toContain('serves blocks from 1');
+
+      await request(app).get('/api/v1/blockchain/blocks/1').expect(200);
+    });
   });
 
   describe('GET /blocks/:index/utxo-transactions', () => {
@@ -225,6 +303,16 @@ describe('Blockchain Router', () => {
       expect(response.body.success).toBe(false);
       expect(response.body.error.code).toBe('UTXO_NOT_FOUND');
     });
+
+    it('should return 410 for a block pruned from this node', async () => {
+      mockNode.getBlockchain().isBlockPruned.mockReturnValue(true);
+
+      const response = await request(app)
+        .get('/api/v1/blockchain/blocks/0/utxo-transactions')
+        .expect(410);
+
+      expect(response.body.error.code).toBe('UTXO_BLOCK_PRUNED');
+    });
   });
 
   describe('GET /stats', () => {
@@ -318,4 +406,149 @@ describe('Blockchain Router', () => {
       expect(response.body.data.current).toBe(0);
     });
   });
+
+  describe('GET /mining', () => {
+    it('should return live hashrate of the local miner', async () => {
+      const response = await request(app)
+        .get('/api/v1/blockchain/mining')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: {
+          isMining: true,
+          height: 2,
+          workerCount: 3,
+          hashrate: 125000,
+          unit: 'hashes/second',
+          totalHashes: 5000000,
+          blocksFound: 1,
+          jobsCancelled: 2,
+        },
+      });
+    });
+  });
+
+  describe('GET /supply', () => {
+    it('should return circulating and projected supply', async () => {
+      const response = await request(app)
+        .get('/api/v1/blockchain/supply')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: {
+          height: 1,
+          circulatingSupply: 1005000000000,
+          projectedSupply: 2100000000000000,
+          blockSubsidy: 5000000000,
+          nextHalvingHeight: 210000,
+        },
+      });
+    });
+  });
+
+  describe('GET /template', () => {
+    it('should return a block template for the miner', async () => {
+      const response = await request(app)
+        .get('/api/v1/blockchain/template')
+        .query({ minerAddress: 'miner-address' })
+        .expect(200);
+
+      expect(mockNode.getBlockchain().createBlockTemplate).toHaveBeenCalledWith(
+        'miner-address'
+      );
+      expect(response.body.data).toMatchObject({
+        block: { index: 2 },
+        subsidy: 5000000000,
+        totalFees: 0,
+        maxBlockSize: 1048576,
+      });
+    });
+
+    it('should require a miner address', async () => {
+      const response = await request(app)
+        .get('/api/v1/blockchain/template')
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('UTXO_INVALID_INPUT');
+    });
+  });
+
+  describe('POST /submit', () => {
+    const minedBlock = {
+      index: 2,
+      hash: 'block-2-hash',
+      previousHash: 'block-1-hash',
+      timestamp: 1640995800000,
+      nonce: 678,
+      difficulty: 1,
+      transactions: [],
+      merkleRoot: 'block-2-merkle',
+    };
+
+    it('should add a block mined on the tip', async () => {
+      const transactions = [
+        {
+          id: 'coinbase-2',
+          inputs: [],
+          outputs: [{ value: 5000000000, lockingScript: 'miner-address' }],
+          timestamp: 1640995800000,
+          lockTime: 0,
+          fee: 0,
+        },
+      ];
+      const response = await request(app)
+        .post('/api/v1/blockchain/submit')
+        .send({ block: minedBlock, transactions })
+        .expect(200);
+
+      expect(mockNode.getBlockchain().addBlock).toHaveBeenCalledWith(
+        minedBlock,
+        transactions
+      );
+      expect(response.body).toMatchObject({
+        success: true,
+        data: { index: 2, hash: 'block-2-hash' },
+      });
+    });
+
+    it('should reject blocks that do not extend the tip', async () => {
+      const response = await request(app)
+        .post('/api/v1/blockchain/submit')
+        .send({ block: { ...minedBlock, previousHash: 'genesis-hash' } })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('UTXO_STALE_BLOCK');
+      expect(mockNode.getBlockchain().addBlock).not.toHaveBeenCalled();
+    });
+
+    it('should report why the chain rejected a block', async () => {
+      vi.mocked(mockNode.getBlockchain().addBlock).mockResolvedValueOnce({
+        isValid: false,
+        errors: ['Invalid proof of work', 'Invalid merkle root'],
+      });
+
+      const response = await request(app)
+        .post('/api/v1/blockchain/submit')
+        .send({ block: minedBlock })
+        .expect(400);
+
+      expect(response.body.error).toEqual({
+        code: 'UTXO_INVALID_BLOCK',
+        message: 'Invalid proof of work; Invalid merkle root',
+      });
+    });
+
+    it('should require a block', async () => {
+      const response = await request(app)
+        .post('/api/v1/blockchain/submit')
+        .send({ transactions: [] })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('UTXO_INVALID_INPUT');
+      expect(mockNode.getBlockchain().addBlock).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,13 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { LorachainNode } from '@lorachain/node';
 import { Logger } from '@lorachain/shared';
-import { UTXOTransaction } from '@lorachain/core';
+import { Block, UTXOTransaction } from '@lorachain/core';
 import { UTXOAPIResponse, UTXOErrorCode, BlockchainInfo } from '../types.js';
 
 export function createBlockchainRouter(nodeServer: LorachainNode): Router {
   const router = Router();
   const logger = Logger.getInstance();
 
+  // Pruned nodes keep headers only below their prune height
+  const createPrunedResponse = (
+    index: number,
+    pruneHeight: number
+  ): UTXOAPIResponse<null> =>
+    createResponse(null, {
+      code: UTXOErrorCode.BLOCK_PRUNED,
+      message: `Block ${index} has been pruned; this node serves blocks from ${pruneHeight}`,
+    });
+
   // Helper function to create standardized API responses
   const createResponse = <T>(data?: T, error?: any): UTXOAPIResponse<T> => {
     return {
@@ -31,6 +41,7 @@ export function createBlockchainRouter(nodeServer: LorachainNode): Router {
       const blockchain = nodeServer.getBlockchain();
       const blocks = blockchain.getBlocks();
       const latestBlock = blocks[blocks.length - 1];
+      const { pruned, pruneHeight } = blockchain.getPruneState();
 
       const info: BlockchainInfo = {
         height: blocks.length,
@@ -40,8 +51,12 @@ export function createBlockchainRouter(nodeServer: LorachainNode): Router {
         networkHashRate: 0, // TODO: Implement when DifficultyManager is available
         totalUTXOs: 0, // TODO: Implement when UTXOManager is available
         totalSupply: '0', // TODO: Implement supply calculation
+        chainWork: blockchain.getChainWork().toString(),
         averageBlockTime: 300000, // 5 minutes in milliseconds (default)
         nextDifficultyAdjustment: Math.ceil(blocks.length / 10) * 10, // Next 10-block boundary
+        pruned,
+        pruneHeight,
+        deployments: blockchain.getDeploymentStatus(),
       };
 
       res.json(createResponse(info));
@@ -107,6 +122,14 @@ export function createBlockchainRouter(nodeServer: LorachainNode): Router {
         );
       }
 
+      if (blockchain.isBlockPruned(index)) {
+        return res
+          .status(410)
+          .json(
+            createPrunedResponse(index, blockchain.getPruneState().pruneHeight)
+          );
+      }
+
       const block = blocks[index];
       const blockData = {
         index: block.index,
@@ -148,6 +171,17 @@ export function createBlockchainRouter(nodeServer: LorachainNode): Router {
           );
         }
 
+        if (blockchain.isBlockPruned(index)) {
+          return res
+            .status(410)
+            .json(
+              createPrunedResponse(
+                index,
+                blockchain.getPruneState().pruneHeight
+              )
+            );
+        }
+
         const block = blocks[index];
         const transactions = block.transactions || [];
 
@@ -286,5 +320,116 @@ export function createBlockchainRouter(nodeServer: LorachainNode): Router {
     }
   });
 
+  // GET /api/v1/blockchain/mining
+  router.get('/mining', (req: Request, res: Response) => {
+    try {
+      const stats = nodeServer.getBlockchain().getMiner().getStats();
+
+      res.json(createResponse({ ...stats, unit: 'hashes/second' }));
+    } catch (error) {
+      logger.error('Error getting mining stats', { error });
+      res.status(500).json(createResponse(null, error));
+    }
+  });
+
+  // GET /api/v1/blockchain/supply
+  router.get('/supply', (req: Request, res: Response) => {
+    try {
+      const supply = nodeServer.getBlockchain().getSupplyInfo();
+
+      res.json(createResponse(supply));
+    } catch (error) {
+      logger.error('Error getting supply info', { error });
+      res.status(500).json(createResponse(null, error));
+    }
+  });
+
+  // GET /api/v1/blockchain/template?minerAddress=...
+  router.get('/template', (req: Request, res: Response) => {
+    try {
+      const minerAddress = req.query.minerAddress;
+      if (typeof minerAddress !== 'string' || minerAddress.length === 0) {
+        return res.status(400).json(
+          createResponse(null, {
+            code: UTXOErrorCode.INVALID_INPUT,
+            message: 'minerAddress query parameter is required',
+          })
+        );
+      }
+
+      // External miners search for a nonce meeting the block difficulty
+      const template = nodeServer
+        .getBlockchain()
+        .createBlockTemplate(minerAddress);
+
+      res.json(createResponse(template));
+    } catch (error) {
+      logger.error('Error creating block template', { error });
+      res.status(500).json(createResponse(null, error));
+    }
+  });
+
+  // POST /api/v1/blockchain/submit
+  // Body: { block, transactions? } with a block mined from /template and,
+  // optionally, the template's UTXO transactions
+  router.post('/submit', async (req: Request, res: Response) => {
+    const { block, transactions } = (req.body ?? {}) as {
+      block?: Block;
+      transactions?: UTXOTransaction[];
+    };
+    if (
+      !block ||
+      typeof block.hash !== 'string' ||
+      typeof block.previousHash !== 'string' ||
+      !Number.isInteger(block.index) ||
+      !Array.isArray(block.transactions) ||
+      (transactions !== undefined && !Array.isArray(transactions))
+    ) {
+      return res.status(400).json(
+        createResponse(null, {
+          code: UTXOErrorCode.INVALID_INPUT,
+          message: 'Request body must contain a mined block',
+        })
+      );
+    }
+
+    try {
+      const blockchain = nodeServer.getBlockchain();
+
+      // Templates build on the tip, so a block for an older tip is stale
+      const parent = blockchain.getLatestBlock();
+      if (
+        block.previousHash !== parent.hash ||
+        block.index !== parent.index + 1
+      ) {
+        return res.status(409).json(
+          createResponse(null, {
+            code: UTXOErrorCode.STALE_BLOCK,
+            message: `Block ${block.index} does not extend the tip at height ${parent.index}; request a new template`,
+          })
+        );
+      }
+
+      const result = await blockchain.addBlock(block, transactions);
+      if (!result.isValid) {
+        return res.status(400).json(
+          createResponse(result, {
+            code: UTXOErrorCode.INVALID_BLOCK,
+            message: result.errors.join('; '),
+          })
+        );
+      }
+
+      logger.info('Submitted block accepted', {
+        index: block.index,
+        hash: block.hash,
+      });
+      res.json(createResponse({ index: block.index, hash: block.hash }));
+    } catch (error) {
+      logger.error('Error submitting block', { error });
+      res.status(500).json(createResponse(null, error));
+    }
+  });
+
   return router;
 }
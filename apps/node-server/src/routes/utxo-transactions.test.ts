@@ -303,7 +303,9 @@ describe('UTXO Transaction Router', () => {
       expect(response.body.data.errors).toEqual(
         expect.arrayContaining([
           expect.stringContaining('txId is required'),
-          expect.stringContaining('value must be positive'),
+          expect.stringContaining(
+            'value must be a positive integer of base units'
+          ),
           expect.stringContaining('lockingScript is required'),
         ])
       );
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { LorachainNode } from '@lorachain/node';
 import { Logger } from '@lorachain/shared';
-import { UTXOTransaction } from '@lorachain/core';
+import { UTXOTransaction, isValidAmount } from '@lorachain/core';
 import { UTXOAPIResponse, UTXOErrorCode } from '../types.js';
 
 export function createUTXOTransactionRouter(nodeServer: LorachainNode): Router {
@@ -283,9 +283,9 @@ export function createUTXOTransactionRouter(nodeServer: LorachainNode): Router {
 
         // Output validation
         outputs.forEach((output: any, index: number) => {
-          if (!output.value || output.value <= 0) {
+          if (!isValidAmount(output.value) || output.value === 0) {
             validationResults.errors.push(
-              `Output ${index}: value must be positive`
+              `Output ${index}: value must be a positive integer of base units`
             );
             validationResults.isValid = false;
           }
@@ -83,12 +83,55 @@ describe('UTXO Router', () => {
           },
         ],
       },
+      {
+        index: 2,
+        hash: 'block-2-hash',
+        transactions: [
+          {
+            id: 'coinbase-2',
+            inputs: [],
+            outputs: [
+              {
+                value: 1000,
+                lockingScript: 'carol-address',
+              },
+            ],
+            timestamp: 1640996100000,
+            lockTime: 1,
+            fee: 0,
+          },
+        ],
+      },
     ];
 
     // Create mock node
     mockNode = {
       getBlockchain: vi.fn().mockReturnValue({
         getBlocks: vi.fn().mockReturnValue(mockBlocks),
+        getCoinbaseMaturity: vi.fn().mockReturnValue(2),
+        getIndexes: vi
+          .fn()
+          .mockReturnValue({ txIndex: true, addressIndex: true }),
+        getAddressHistory: vi.fn().mockResolvedValue({
+          address: 'alice-address',
+          total: 2,
+          entries: [
+            { height: 1, txId: 'tx-2', direction: 'sent', amount: 501000 },
+            { height: 1, txId: 'tx-1', direction: 'received', amount: 1000000 },
+          ],
+        }),
+        getTransactionLocation: vi
+          .fn()
+          .mockImplementation(async (txId: string) =>
+            txId === 'tx-2'
+              ? {
+                  txId,
+                  blockHash: 'block-1-hash',
+                  blockIndex: 1,
+                  position: 1,
+                }
+              : null
+          ),
       }),
     } as any;
 
@@ -137,6 +180,16 @@ describe('UTXO Router', () => {
       expect(response.body.data.spendableBalance).toBe('499000');
     });
 
+    it('should report immature coinbase outputs separately', async () => {
+      const response = await request(app)
+        .get('/api/v1/blockchain/address/carol-address/utxos')
+        .expect(200);
+
+      expect(response.body.data.totalBalance).toBe('1000');
+      expect(response.body.data.spendableBalance).toBe('0');
+      expect(response.body.data.immatureBalance).toBe('1000');
+    });
+
     it('should return empty UTXOs for non-existent address', async () => {
       const response = await request(app)
         .get('/api/v1/blockchain/address/non-existent-address/utxos')
@@ -202,6 +255,84 @@ describe('UTXO Router', () => {
     });
   });
 
+  describe('GET /blockchain/address/:address/transactions', () => {
+    it('should return a page of indexed history', async () => {
+      const response = await request(app)
+        .get('/api/v1/blockchain/address/alice-address/transactions')
+        .query({ limit: 2, offset: 0 })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        address: 'alice-address',
+        total: 2,
+        limit: 2,
+        offset: 0,
+      });
+      expect(response.body.data.transactions[0]).toEqual({
+        height: 1,
+        txId: 'tx-2',
+        direction: 'sent',
+        amount: 501000,
+        confirmations: 2,
+      });
+      expect(mockNode.getBlockchain().getAddressHistory).toHaveBeenCalledWith(
+        'alice-address',
+        0,
+        2
+      );
+    });
+
+    it('should return 503 when the address index is disabled', async () => {
+      vi.mocked(mockNode.getBlockchain().getIndexes).mockReturnValue({
+        txIndex: true,
+        addressIndex: false,
+      });
+
+      const response = await request(app)
+        .get('/api/v1/blockchain/address/alice-address/transactions')
+        .expect(503);
+
+      expect(response.body.error.code).toBe('UTXO_INDEX_DISABLED');
+    });
+  });
+
+  describe('GET /blockchain/transaction/:txId/location', () => {
+    it('should return the block containing the transaction', async () => {
+      const response = await request(app)
+        .get('/api/v1/blockchain/transaction/tx-2/location')
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        txId: 'tx-2',
+        blockHash: 'block-1-hash',
+        blockIndex: 1,
+        position: 1,
+        confirmations: 2,
+      });
+    });
+
+    it('should return 404 for unknown transactions', async () => {
+      const response = await request(app)
+        .get('/api/v1/blockchain/transaction/unknown/location')
+        .expect(404);
+
+      expect(response.body.error.code).toBe('UTXO_NOT_FOUND');
+    });
+
+    it('should return 503 when the transaction index is disabled', async () => {
+      vi.mocked(mockNode.getBlockchain().getIndexes).mockReturnValue({
+        txIndex: false,
+        addressIndex: true,
+      });
+
+      const response = await request(app)
+        .get('/api/v1/blockchain/transaction/tx-2/location')
+        .expect(503);
+
+      expect(response.body.error.code).toBe('UTXO_INDEX_DISABLED');
+    });
+  });
+
   describe('GET /blockchain/utxo/:outputId', () => {
     it('should return UTXO details for valid output ID', async () => {
       const response = await request(app)
@@ -424,7 +555,29 @@ describe('UTXO Router', () => {
 
       expect(response.body.success).toBe(false);
       expect(response.body.error.code).toBe('UTXO_INVALID_INPUT');
-      expect(response.body.error.message).toContain('Amount must be positive');
+      expect(response.body.error.message).toContain(
+        'Amount must be a positive integer of base units'
+      );
+    });
+
+    it('should reject fractional amounts', async () => {
+      const transaction = {
+        fromAddress: 'test-address',
+        toAddress: 'recipient-address',
+        amount: '1000.5',
+        feeRate: '20',
+      };
+
+      const response = await request(app)
+        .post('/api/v1/utxo-transactions/build')
+        .send(transaction)
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('UTXO_INVALID_INPUT');
+      expect(response.body.error.message).toContain(
+        'Amount must be a positive integer of base units'
+      );
     });
 
     it('should use default fee rate when not provided', async () => {
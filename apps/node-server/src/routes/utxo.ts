@@ -1,7 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { LorachainNode } from '@lorachain/node';
 import { Logger } from '@lorachain/shared';
-import { UTXO, UTXOTransaction } from '@lorachain/core';
+import {
+  UTXO,
+  UTXOManager,
+  UTXOTransaction,
+  isValidAmount,
+} from '@lorachain/core';
 import { UTXOAPIResponse, UTXOErrorCode, UTXOSetResponse } from '../types.js';
 
 export function createUTXORouter(nodeServer: LorachainNode): Router {
@@ -50,8 +55,11 @@ export function createUTXORouter(nodeServer: LorachainNode): Router {
     // Second pass: collect unspent outputs for the address
     for (const block of blocks) {
       if (block.transactions) {
-        for (const tx of block.transactions) {
+        for (const [txIndex, tx] of block.transactions.entries()) {
           const utxoTx = tx as unknown as UTXOTransaction;
+          // Each block after genesis opens with its coinbase
+          const isCoinbase =
+            block.index > 0 && txIndex === 0 && utxoTx.inputs?.length === 0;
           if (utxoTx.outputs) {
             utxoTx.outputs.forEach((output, outputIndex) => {
               const utxoId = `${utxoTx.id}:${outputIndex}`;
@@ -68,6 +76,7 @@ export function createUTXORouter(nodeServer: LorachainNode): Router {
                   lockingScript: output.lockingScript,
                   blockHeight: block.index,
                   isSpent: false,
+                  isCoinbase,
                 });
               }
             });
@@ -118,18 +127,28 @@ export function createUTXORouter(nodeServer: LorachainNode): Router {
         // Apply pagination
         const paginatedUTXOs = filteredUTXOs.slice(offset, offset + limit);
 
-        // Calculate balances
+        // Get current blockchain height for confirmations
+        const blockchain = nodeServer.getBlockchain();
+        const currentHeight = blockchain.getBlocks().length;
+        const coinbaseMaturity = blockchain.getCoinbaseMaturity();
+
+        // Calculate balances, holding back coinbase outputs that cannot be
+        // spent in the next block
         const totalBalance = filteredUTXOs.reduce(
           (sum, utxo) => sum + utxo.value,
           0
         );
-        const spendableBalance = filteredUTXOs
-          .filter(utxo => !utxo.isSpent)
+        const unspentUTXOs = filteredUTXOs.filter(utxo => !utxo.isSpent);
+        const spendableBalance = unspentUTXOs
+          .filter(utxo =>
+            UTXOManager.isMature(utxo, currentHeight, coinbaseMaturity)
+          )
+          .reduce((sum, utxo) => sum + utxo.value, 0);
+        const immatureBalance = unspentUTXOs
+          .filter(
+            utxo => !UTXOManager.isMature(utxo, currentHeight, coinbaseMaturity)
+          )
           .reduce((sum, utxo) => sum + utxo.value, 0);
-
-        // Get current blockchain height for confirmations
-        const blockchain = nodeServer.getBlockchain();
-        const currentHeight = blockchain.getBlocks().length;
 
         const response: UTXOSetResponse = {
           address,
@@ -144,6 +163,7 @@ export function createUTXORouter(nodeServer: LorachainNode): Router {
           })),
           totalBalance: totalBalance.toString(),
           spendableBalance: spendableBalance.toString(),
+          immatureBalance: immatureBalance.toString(),
         };
 
         res.json(createResponse(response));
@@ -157,6 +177,102 @@ export function createUTXORouter(nodeServer: LorachainNode): Router {
     }
   );
 
+  // GET /api/v1/blockchain/address/:address/transactions
+  router.get(
+    '/blockchain/address/:address/transactions',
+    async (req: Request, res: Response) => {
+      try {
+        const address = req.params.address;
+        const blockchain = nodeServer.getBlockchain();
+
+        if (!blockchain.getIndexes().addressIndex) {
+          return res.status(503).json(
+            createResponse(null, {
+              code: UTXOErrorCode.INDEX_DISABLED,
+              message: 'Address index is not enabled on this node',
+            })
+          );
+        }
+
+        const limit = Math.min(
+          parseInt(req.query.limit as string) || 100,
+          1000
+        );
+        const offset = parseInt(req.query.offset as string) || 0;
+
+        const history = await blockchain.getAddressHistory(
+          address,
+          offset,
+          limit
+        );
+        const currentHeight = blockchain.getBlocks().length;
+
+        res.json(
+          createResponse({
+            address,
+            transactions: history.entries.map(entry => ({
+              ...entry,
+              confirmations: currentHeight - entry.height,
+            })),
+            total: history.total,
+            limit,
+            offset,
+          })
+        );
+      } catch (error) {
+        logger.error('Error getting transactions for address', {
+          error,
+          address: req.params.address,
+        });
+        res.status(500).json(createResponse(null, error));
+      }
+    }
+  );
+
+  // GET /api/v1/blockchain/transaction/:txId/location
+  router.get(
+    '/blockchain/transaction/:txId/location',
+    async (req: Request, res: Response) => {
+      try {
+        const blockchain = nodeServer.getBlockchain();
+
+        if (!blockchain.getIndexes().txIndex) {
+          return res.status(503).json(
+            createResponse(null, {
+              code: UTXOErrorCode.INDEX_DISABLED,
+              message: 'Transaction index is not enabled on this node',
+            })
+          );
+        }
+
+        const location = await blockchain.getTransactionLocation(
+          req.params.txId
+        );
+        if (!location) {
+          return res.status(404).json(
+            createResponse(null, {
+              code: UTXOErrorCode.UTXO_NOT_FOUND,
+              message: 'Transaction not found in the main chain',
+            })
+          );
+        }
+
+        res.json(
+          createResponse({
+            ...location,
+            confirmations: blockchain.getBlocks().length - location.blockIndex,
+          })
+        );
+      } catch (error) {
+        logger.error('Error getting transaction location', {
+          error,
+          txId: req.params.txId,
+        });
+        res.status(500).json(createResponse(null, error));
+      }
+    }
+  );
+
   // GET /api/v1/blockchain/utxo/:outputId
   router.get('/blockchain/utxo/:outputId', (req: Request, res: Response) => {
     try {
@@ -277,14 +393,15 @@ export function createUTXORouter(nodeServer: LorachainNode): Router {
         );
       }
 
-      const targetAmount = parseInt(amount);
+      const targetAmount = Number(amount);
       const targetFeeRate = parseInt(feeRate) || 20; // satoshis per byte
 
-      if (targetAmount <= 0) {
+      // Amounts are whole base units, never fractions of one
+      if (!isValidAmount(targetAmount) || targetAmount === 0) {
         return res.status(400).json(
           createResponse(null, {
             code: UTXOErrorCode.INVALID_INPUT,
-            message: 'Amount must be positive',
+            message: 'Amount must be a positive integer of base units',
           })
         );
       }
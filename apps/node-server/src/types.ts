@@ -1,4 +1,5 @@
 // Types are imported in files that use them
+import type { Request } from 'express';
 
 // Server Configuration
 export interface ServerConfig {
@@ -28,6 +29,12 @@ export interface ServerConfig {
     maxOutputsPerTransaction: number;
     minRelayFee: bigint;
     mempoolMaxSize: number;
+    mempoolMaxChainLength: number;
+  };
+  bundles: {
+    signingKey?: string; // Hex secp256k1 private key signing exported block bundles; export is refused when unset
+    trustedSigners: string[]; // Addresses whose bundles may be imported; import is refused when empty
+    maxSize: string; // Largest block bundle upload accepted, e.g. '50mb'
   };
 }
 
@@ -61,6 +68,12 @@ export enum UTXOErrorCode {
   TRANSACTION_TOO_LARGE = 'UTXO_TRANSACTION_TOO_LARGE',
   RATE_LIMITED = 'UTXO_RATE_LIMITED',
   UNAUTHORIZED = 'UTXO_UNAUTHORIZED',
+  BLOCK_PRUNED = 'UTXO_BLOCK_PRUNED',
+  INDEX_DISABLED = 'UTXO_INDEX_DISABLED',
+  INVALID_BUNDLE = 'UTXO_INVALID_BUNDLE',
+  BUNDLES_DISABLED = 'UTXO_BUNDLES_DISABLED',
+  INVALID_BLOCK = 'UTXO_INVALID_BLOCK',
+  STALE_BLOCK = 'UTXO_STALE_BLOCK',
   INTERNAL_ERROR = 'UTXO_INTERNAL_ERROR',
 }
 
@@ -78,6 +91,7 @@ export interface UTXOSetResponse {
   }>;
   totalBalance: string; // BigInt as string
   spendableBalance: string; // BigInt as string
+  immatureBalance: string; // Coinbase outputs short of maturity
 }
 
 export interface BlockchainInfo {
@@ -88,8 +102,23 @@ export interface BlockchainInfo {
   networkHashRate: number;
   totalUTXOs: number;
   totalSupply: string; // BigInt as string
+  chainWork: string; // Cumulative main chain work, BigInt as string
   averageBlockTime: number;
   nextDifficultyAdjustment: number;
+  pruned: boolean; // Old block bodies have been discarded
+  pruneHeight: number; // Lowest block index this node can serve
+  deployments: SoftForkDeploymentInfo[];
+}
+
+export interface SoftForkDeploymentInfo {
+  name: string;
+  bit: number;
+  state: 'defined' | 'started' | 'locked_in' | 'active' | 'failed';
+  since: number; // Height the current state began at
+  period: number;
+  threshold: number;
+  elapsed: number; // Blocks so far in the current signalling window
+  count: number; // Signalling blocks so far in the current window
 }
 
 // WebSocket Event Types
@@ -141,6 +170,18 @@ export interface AuthenticatedClient {
   lastActivity: number;
 }
 
+// Client the auth middleware attaches to API requests
+export interface AuthenticatedUser {
+  clientId: string;
+  publicKey: string;
+  algorithm: 'secp256k1' | 'ed25519';
+  permissions: string[];
+}
+
+export interface AuthenticatedRequest extends Request {
+  user?: AuthenticatedUser;
+}
+
 // Validation Types
 export interface ValidationResult {
   isValid: boolean;
@@ -0,0 +1,13 @@
+/**
+ * Amounts in the UTXO model (output values, fees, rewards and supply) are
+ * integer counts of the smallest unit. They stay within the safe integer
+ * range so arithmetic on them is exact and they convert to bigint without
+ * loss.
+ */
+
+// Smallest units in one coin
+export const BASE_UNITS_PER_COIN = 100_000_000;
+
+export function isValidAmount(value: number): boolean {
+  return Number.isSafeInteger(value) && value >= 0;
+}
@@ -0,0 +1,117 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type { BlockBundle } from './types.js';
+import type { ICompressionEngine } from './compression-interfaces.js';
+import { BinaryCodec } from './codec.js';
+import { CryptographicService, type KeyPair } from './cryptographic.js';
+import { ScriptInterpreter } from './script.js';
+import {
+  GzipCompressionEngine,
+  LZ4CompressionEngine,
+} from './compression-engines.js';
+import { CompressionAlgorithm, CompressionLevel } from './compression-types.js';
+
+// Engines a bundle payload may be compressed with, by algorithm name
+const BUNDLE_ENGINES: Record<string, () => ICompressionEngine> = {
+  [CompressionAlgorithm.GZIP]: () => new GzipCompressionEngine(),
+  [CompressionAlgorithm.LZ4]: () => new LZ4CompressionEngine(),
+};
+
+// Largest uncompressed bundle encoding accepted for decompression
+export const MAX_BLOCK_BUNDLE_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Signed, compressed block bundle archives for carrying blocks between
+ * nodes on removable media where no network link exists.
+ *
+ * The bundle encoding is compressed with one of the shared compression
+ * engines, then signed by the exporting node: the signature covers the
+ * sha256 of the compressed payload, so a damaged or altered archive, or
+ * one from an untrusted signer, is rejected before it is decompressed.
+ */
+export class BlockBundleFile {
+  static encode(
+    bundle: BlockBundle,
+    keyPair: KeyPair,
+    compression: string = CompressionAlgorithm.GZIP
+  ): Uint8Array {
+    const encoded = BinaryCodec.encodeBlockBundle(bundle);
+    const payload = this.getEngine(compression).compress(encoded, {
+      level: CompressionLevel.MAXIMUM,
+    }).data;
+    const signature = CryptographicService.sign(
+      CryptographicService.hashMessage(payload),
+      keyPair.privateKey,
+      keyPair.algorithm
+    );
+
+    return BinaryCodec.encodeBlockBundleArchive({
+      compression,
+      originalSize: encoded.length,
+      publicKey: bytesToHex(keyPair.publicKey),
+      signature: bytesToHex(signature.signature),
+      payload,
+    });
+  }
+
+  /**
+   * @param trustedSigners - addresses whose bundles are accepted
+   * @returns the bundle and the address of the key that signed it
+   * @throws if the signature does not match, the signer is not trusted, or
+   * the payload is damaged or too large
+   */
+  static decode(
+    data: Uint8Array,
+    trustedSigners: string[]
+  ): { bundle: BlockBundle; signer: string } {
+    const archive = BinaryCodec.decodeBlockBundleArchive(data);
+
+    const algorithm = ScriptInterpreter.getPublicKeyAlgorithm(
+      archive.publicKey
+    );
+    if (
+      !algorithm ||
+      !CryptographicService.verify(
+        { signature: hexToBytes(archive.signature), algorithm },
+        CryptographicService.hashMessage(archive.payload),
+        hexToBytes(archive.publicKey)
+      )
+    ) {
+      throw new Error('Block bundle signature is invalid');
+    }
+
+    const signer = CryptographicService.generateAddress(
+      hexToBytes(archive.publicKey),
+      algorithm
+    );
+    if (!trustedSigners.includes(signer)) {
+      throw new Error(`Block bundle signer ${signer} is not trusted`);
+    }
+    if (archive.originalSize > MAX_BLOCK_BUNDLE_SIZE) {
+      throw new Error(
+        `Block bundle is ${archive.originalSize} bytes uncompressed, over the ${MAX_BLOCK_BUNDLE_SIZE} byte limit`
+      );
+    }
+
+    const encoded = this.getEngine(archive.compression).decompress({
+      algorithm: archive.compression as CompressionAlgorithm,
+      data: archive.payload,
+      originalSize: archive.originalSize,
+      metadata: { version: 1 },
+    });
+    if (encoded.length !== archive.originalSize) {
+      throw new Error(
+        `Block bundle is ${encoded.length} bytes uncompressed, expected ${archive.originalSize}`
+      );
+    }
+
+    return { bundle: BinaryCodec.decodeBlockBundle(encoded), signer };
+  }
+
+  private static getEngine(compression: string): ICompressionEngine {
+    const createEngine = BUNDLE_ENGINES[compression];
+    if (!createEngine) {
+      throw new Error(`Unsupported block bundle compression ${compression}`);
+    }
+    return createEngine();
+  }
+}
@@ -11,6 +11,13 @@ import type {
 import { TransactionManager } from './transaction.js';
 import { MerkleTree } from './merkle/index.js';
 import { GenesisConfigManager } from './genesis/index.js';
+import { BinaryCodec } from './codec.js';
+import {
+  checkBlockTarget,
+  getBlockTarget,
+  meetsTarget,
+  targetToHex,
+} from './pow-target.js';
 
 export class BlockManager {
   /**
@@ -28,11 +35,14 @@ export class BlockManager {
     transactions: Transaction[],
     previousHash: string,
     difficulty: number,
-    validator?: string
+    validator?: string,
+    utxoRoot?: string,
+    version?: number,
+    timestamp: number = Date.now()
   ): Block {
     const block: Block = {
       index,
-      timestamp: Date.now(),
+      timestamp,
       transactions,
       previousHash,
       hash: '',
@@ -40,6 +50,8 @@ export class BlockManager {
       merkleRoot: this.calculateMerkleRoot(transactions),
       difficulty,
       validator,
+      utxoRoot,
+      version,
     };
 
     block.hash = this.calculateHash(block);
@@ -47,18 +59,24 @@ export class BlockManager {
   }
 
   static calculateHash(block: Omit<Block, 'hash'>): string {
-    const blockString = JSON.stringify({
-      index: block.index,
-      timestamp: block.timestamp,
-      transactions: block.transactions,
-      previousHash: block.previousHash,
-      nonce: block.nonce,
-      merkleRoot: block.merkleRoot,
-      difficulty: block.difficulty,
-      validator: block.validator,
-    });
+    return createHash('sha256')
+      .update(BinaryCodec.encodeBlockHashPreimage(block))
+      .digest('hex');
+  }
 
-    return createHash('sha256').update(blockString).digest('hex');
+  /**
+   * Block hash computed from the header alone; transactions are committed
+   * to through the merkle root
+   */
+  static calculateHeaderHash(header: BlockHeader): string {
+    return createHash('sha256')
+      .update(
+        BinaryCodec.encodeBlockHashPreimage({
+          ...header,
+          difficulty: header.difficulty ?? 0,
+        })
+      )
+      .digest('hex');
   }
 
   static calculateMerkleRoot(transactions: Transaction[]): string {
@@ -67,7 +85,9 @@ export class BlockManager {
     }
 
     const hashes = transactions.map(tx =>
-      createHash('sha256').update(JSON.stringify(tx)).digest('hex')
+      createHash('sha256')
+        .update(BinaryCodec.encodeTransaction(tx))
+        .digest('hex')
     );
 
     while (hashes.length > 1) {
@@ -88,10 +108,11 @@ export class BlockManager {
   }
 
   static mineBlock(block: Block): Block {
-    const target = Array(block.difficulty + 1).join('0');
+    // Hex strings of equal length compare like the numbers they encode
+    const target = targetToHex(getBlockTarget(block));
     const minedBlock = { ...block };
 
-    while (minedBlock.hash.substring(0, block.difficulty) !== target) {
+    while (minedBlock.hash > target) {
       minedBlock.nonce++;
       minedBlock.hash = this.calculateHash(minedBlock);
     }
@@ -99,9 +120,44 @@ export class BlockManager {
     return minedBlock;
   }
 
+  /**
+   * Structural checks plus the proof of work the block's hash must meet
+   */
   static validateBlock(
     block: Block,
     previousBlock: Block | null
+  ): ValidationResult {
+    const { errors } = this.validateBlockStructure(block, previousBlock);
+
+    const targetError = checkBlockTarget(block);
+    if (targetError) {
+      errors.push(targetError);
+    }
+
+    // Validate block meets its own target (only if difficulty is valid and not genesis block)
+    if (
+      !targetError &&
+      block.difficulty !== undefined &&
+      block.difficulty >= 1 &&
+      block.index > 0 &&
+      !meetsTarget(block.hash, getBlockTarget(block))
+    ) {
+      errors.push('Block does not meet its difficulty requirement');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Checks every block must pass whatever consensus engine sealed it:
+   * linkage to the previous block, hash, merkle root and transactions
+   */
+  static validateBlockStructure(
+    block: Block,
+    previousBlock: Block | null
   ): ValidationResult {
     const errors: string[] = [];
 
@@ -117,7 +173,13 @@ export class BlockManager {
       errors.push('Block previous hash does not match');
     }
 
-    if (block.hash !== this.calculateHash(block)) {
+    let calculatedHash: string | null = null;
+    try {
+      calculatedHash = this.calculateHash(block);
+    } catch (error) {
+      errors.push(`Block cannot be encoded: ${(error as Error).message}`);
+    }
+    if (calculatedHash !== null && block.hash !== calculatedHash) {
       errors.push('Block hash is invalid');
     }
 
@@ -141,18 +203,6 @@ export class BlockManager {
       }
     }
 
-    // Validate block meets its own difficulty requirement (only if difficulty is valid and not genesis block)
-    if (
-      block.difficulty !== undefined &&
-      block.difficulty >= 1 &&
-      block.index > 0
-    ) {
-      const target = Array(block.difficulty + 1).join('0');
-      if (block.hash.substring(0, block.difficulty) !== target) {
-        errors.push('Block does not meet its difficulty requirement');
-      }
-    }
-
     return {
       isValid: errors.length === 0,
       errors,
@@ -160,7 +210,7 @@ export class BlockManager {
   }
 
   static getBlockSize(block: Block): number {
-    return JSON.stringify(block).length;
+    return BinaryCodec.encodeBlock(block).length;
   }
 
   // Enhanced Merkle Tree Methods
@@ -191,9 +241,7 @@ export class BlockManager {
     }
 
     // Verify transaction hash matches proof
-    const txHash = createHash('sha256')
-      .update(JSON.stringify(transaction))
-      .digest('hex');
+    const txHash = MerkleTree.hashTransaction(transaction);
     if (txHash !== proof.transactionHash) {
       return false;
     }
@@ -219,7 +267,36 @@ export class BlockManager {
       hash: block.hash,
       nonce: block.nonce,
       transactionCount: block.transactions.length,
+      difficulty: block.difficulty,
       validator: block.validator,
+      signature: block.signature,
+      vote: block.vote,
+      utxoRoot: block.utxoRoot,
+      version: block.version,
+      bits: block.bits,
+    };
+  }
+
+  /**
+   * Header-only stand-in for a block whose body is not stored, as kept by
+   * pruned nodes and nodes bootstrapped from a UTXO snapshot
+   */
+  static createPrunedBlock(header: BlockHeader): Block {
+    return {
+      index: header.index,
+      timestamp: header.timestamp,
+      transactions: [],
+      previousHash: header.previousHash,
+      hash: header.hash,
+      nonce: header.nonce,
+      merkleRoot: header.merkleRoot,
+      difficulty: header.difficulty ?? 0,
+      validator: header.validator,
+      signature: header.signature,
+      vote: header.vote,
+      utxoRoot: header.utxoRoot,
+      version: header.version,
+      bits: header.bits,
     };
   }
 
@@ -256,19 +333,8 @@ export class BlockManager {
       validator,
     };
 
-    // Calculate hash for UTXO block structure
-    const blockString = JSON.stringify({
-      index: utxoBlock.index,
-      timestamp: utxoBlock.timestamp,
-      transactions: utxoBlock.transactions,
-      previousHash: utxoBlock.previousHash,
-      nonce: utxoBlock.nonce,
-      merkleRoot: utxoBlock.merkleRoot,
-      difficulty: utxoBlock.difficulty,
-      validator: utxoBlock.validator,
-    });
-
-    utxoBlock.hash = createHash('sha256').update(blockString).digest('hex');
+    // Transactions are committed to through the merkle root
+    utxoBlock.hash = this.calculateHash({ ...utxoBlock, transactions: [] });
     return utxoBlock;
   }
 
@@ -1,26 +1,78 @@
 import type {
   Block,
+  BlockTemplate,
   Transaction,
   UTXOTransaction,
   UTXO,
+  IUTXOManager,
   BlockchainState,
   ValidationResult,
   UTXOBlockchainState,
   GenesisConfig,
   NetworkParameters,
   InitialAllocation,
+  ConsensusAlgorithm,
+  SignerVote,
+  BlockValidationOptions,
+  BlockUndoRecord,
+  PruneState,
+  AddressBalance,
+  AddressHistory,
+  TransactionLocation,
+  BlockHeader,
+  UTXOExistenceProof,
+  UTXOSnapshot,
+  ImportedUTXOSnapshot,
+  SnapshotValidationStatus,
+  BlockBundle,
+  BlockBundleImportResult,
+  DeploymentStatus,
+  DifficultyAlgorithmType,
 } from './types.js';
+import type { ReorgInfo } from './sync-types.js';
+import { EventEmitter } from 'events';
 import { BlockManager } from './block.js';
-import { UTXOManager } from './utxo.js';
+import { BinaryCodec } from './codec.js';
+import { BlockUTXOView, UTXOManager } from './utxo.js';
 import { UTXOTransactionManager } from './utxo-transaction.js';
 import { UTXOPersistenceManager } from './persistence.js';
-import { CryptographicService } from './cryptographic.js';
+import { Mempool, MempoolUTXOView } from './mempool.js';
+import { ScriptInterpreter, LOCKTIME_THRESHOLD } from './script.js';
 import {
   DifficultyManager,
   type DifficultyConfig,
   type DifficultyState,
 } from './difficulty.js';
+import {
+  DEFAULT_LWMA_WINDOW,
+  DifficultyAlgorithmFactory,
+  IntervalDifficulty,
+  type BlockDifficulty,
+  type DifficultyAlgorithm,
+} from './difficulty-algorithm.js';
 import { GenesisConfigManager } from './genesis/index.js';
+import { RewardSchedule, type SupplyInfo } from './reward.js';
+import {
+  ConsensusFactory,
+  ProofOfAuthorityConsensus,
+  ProofOfWorkConsensus,
+} from './consensus.js';
+import { BlockMiner } from './miner.js';
+import { ChainCheckpoints } from './checkpoints.js';
+import {
+  SoftForkDeployments,
+  UTXO_COMMITMENT_DEPLOYMENT,
+} from './version-bits.js';
+import { NetworkTime } from './network-time.js';
+import {
+  HeaderChain,
+  MAX_HEADERS_PER_BATCH,
+  type HeaderChainResult,
+} from './header-chain.js';
+import { UTXOCommitment } from './merkle/UTXOCommitment.js';
+import { UTXOSnapshotFile } from './utxo-snapshot.js';
+import { BlockBundleFile } from './block-bundle.js';
+import type { KeyPair, SignatureAlgorithm } from './cryptographic.js';
 
 // Simple logger for development
 class SimpleLogger {
@@ -36,21 +88,61 @@ class SimpleLogger {
   }
 }
 
-export class Blockchain {
+/**
+ * Entry in the block tree covering both main chain and side chain blocks
+ */
+interface BlockTreeNode {
+  block: Block;
+  cumulativeWork: bigint;
+  // UTXO forms of a side chain block's transactions, for connecting it in
+  // a reorganization; main chain blocks keep them in their undo records
+  utxoTransactions?: UTXOTransaction[];
+}
+
+/**
+ * Background check of an imported UTXO snapshot: historical blocks are
+ * connected to a UTXO set of their own until it reaches the snapshot height
+ */
+interface SnapshotValidation {
+  snapshot: ImportedUTXOSnapshot;
+  status: SnapshotValidationStatus;
+  utxoManager?: UTXOManager; // Released once validation finishes
+}
+
+export class Blockchain extends EventEmitter {
   private blocks: Block[] = [];
+  private blockTree: Map<string, BlockTreeNode> = new Map();
+  private headerChain!: HeaderChain; // Rebuilt along with the block tree
+  private blockUndo: Map<string, BlockUndoRecord> = new Map();
+  private maxReorgDepth: number = 100;
   private utxoManager: UTXOManager;
   private utxoTransactionManager: UTXOTransactionManager;
-  private pendingUTXOTransactions: UTXOTransaction[] = [];
+  private mempool: Mempool;
+  private mempoolUTXOView: MempoolUTXOView; // Confirmed plus pooled outputs
   private difficulty: number = 2;
-  private miningReward: number = 10;
+  private rewardSchedule: RewardSchedule = new RewardSchedule();
+  private consensus: ConsensusAlgorithm = new ProofOfWorkConsensus();
+  private miner: BlockMiner = new BlockMiner();
+  private checkpoints: ChainCheckpoints = new ChainCheckpoints();
+  private deployments: SoftForkDeployments = new SoftForkDeployments();
+  private networkTime: NetworkTime = new NetworkTime();
   private maxBlockSize: number = 1024 * 1024; // 1MB in bytes
   private persistence?: UTXOPersistenceManager;
+  private pruneState: PruneState = { pruned: false, pruneHeight: 0 };
+  private snapshotValidation?: SnapshotValidation;
+  private pendingWrites: Promise<void> = Promise.resolve();
   private autoSave: boolean = true;
   private logger = new SimpleLogger('Blockchain');
   private difficultyManager: DifficultyManager = new DifficultyManager();
+  private difficultyAlgorithmType: DifficultyAlgorithmType = 'interval';
+  private difficultyWindow: number = DEFAULT_LWMA_WINDOW; // LWMA blocks
+  private difficultyAlgorithm: DifficultyAlgorithm = new IntervalDifficulty(
+    this.difficultyManager
+  );
   private targetBlockTime: number = 300; // 5 minutes
   private adjustmentPeriod: number = 10; // 10 blocks
   private maxDifficultyRatio: number = 4; // 4x max change
+  private coinbaseMaturity: number = 0; // blocks before coinbase can be spent
   private genesisConfigManager?: GenesisConfigManager;
   private genesisConfig?: GenesisConfig;
   private chainId?: string;
@@ -62,9 +154,12 @@ export class Blockchain {
     difficultyConfig: Partial<DifficultyConfig>,
     genesisConfig: GenesisConfig | string // REQUIRED - config object or chain ID
   ) {
+    super();
     this.persistence = persistence;
     this.utxoManager = utxoManager;
     this.utxoTransactionManager = new UTXOTransactionManager();
+    this.mempool = new Mempool({}, this.persistence);
+    this.mempoolUTXOView = new MempoolUTXOView(utxoManager, this.mempool);
 
     // Initialize GenesisConfigManager - now required
     this.genesisConfigManager = new GenesisConfigManager(this.persistence);
@@ -117,6 +212,11 @@ export class Blockchain {
 
     // Apply network parameters from genesis config
     this.applyNetworkParameters(config.networkParams, difficultyConfig);
+    this.rewardSchedule = RewardSchedule.fromGenesisConfig(config);
+    this.consensus = ConsensusFactory.fromGenesisConfig(config);
+    this.checkpoints = ChainCheckpoints.fromGenesisConfig(config);
+    this.deployments = SoftForkDeployments.fromGenesisConfig(config);
+    this.networkTime = NetworkTime.fromGenesisConfig(config);
 
     // Initialize blockchain state with persistence (required)
     await this.initializeBlockchainWithPersistence(config);
@@ -132,11 +232,15 @@ export class Blockchain {
   ): void {
     // Apply network parameters from genesis config (genesis config takes precedence)
     this.difficulty = networkParams.initialDifficulty;
-    this.miningReward = networkParams.miningReward;
     this.maxBlockSize = networkParams.maxBlockSize;
     this.targetBlockTime = networkParams.targetBlockTime;
     this.adjustmentPeriod = networkParams.adjustmentPeriod;
     this.maxDifficultyRatio = networkParams.maxDifficultyRatio;
+    this.coinbaseMaturity = networkParams.coinbaseMaturity ?? 0;
+    this.difficultyAlgorithmType =
+      networkParams.difficultyAlgorithm ?? 'interval';
+    this.difficultyWindow =
+      networkParams.difficultyWindow ?? DEFAULT_LWMA_WINDOW;
 
     // Initialize difficulty manager with combined config
     const difficultyConfig: DifficultyConfig = {
@@ -148,6 +252,7 @@ export class Blockchain {
     };
 
     this.difficultyManager = new DifficultyManager(difficultyConfig);
+    this.updateDifficultyAlgorithm();
   }
 
   private async initializeBlockchainWithPersistence(
@@ -164,15 +269,22 @@ export class Blockchain {
         if (existingGenesisBlock.hash === expectedGenesisBlock.hash) {
           // Compatible blockchain state found, load it
           this.blocks = loadedState.blocks;
+          this.rebuildBlockTree();
+          await this.restoreHeaderTree();
           this.difficulty = loadedState.difficulty;
-          this.miningReward = loadedState.miningReward;
-          this.pendingUTXOTransactions = loadedState.pendingUTXOTransactions;
+          this.restorePruneState(loadedState);
+          await this.restoreSnapshotValidation();
 
           // Rebuild UTXO manager from loaded state
           this.utxoManager = new UTXOManager();
+          this.mempoolUTXOView = new MempoolUTXOView(
+            this.utxoManager,
+            this.mempool
+          );
           for (const [, utxo] of loadedState.utxoSet) {
             this.utxoManager.addUTXO(utxo);
           }
+          this.restoreMempool(loadedState.pendingUTXOTransactions);
 
           this.logger.debug(
             `Loaded compatible blockchain state with ${this.blocks.length} blocks`
@@ -198,6 +310,7 @@ export class Blockchain {
     // Create genesis block from configuration
     const genesisBlock = BlockManager.createGenesisBlock(config);
     this.blocks = [genesisBlock];
+    this.rebuildBlockTree();
     this.initializeUTXOFromGenesisConfig(genesisBlock, config);
   }
 
@@ -208,6 +321,7 @@ export class Blockchain {
     const genesisBlock =
       await this.genesisConfigManager!.createAndPersistGenesisBlock(config);
     this.blocks = [genesisBlock];
+    this.rebuildBlockTree();
 
     // Initialize UTXO set from genesis allocations
     this.initializeUTXOFromGenesisConfig(genesisBlock, config);
@@ -220,12 +334,14 @@ export class Blockchain {
 
   private initializeUTXOFromGenesisConfig(
     genesisBlock: Block,
-    config: GenesisConfig
+    config: GenesisConfig,
+    utxoManager: UTXOManager = this.utxoManager
   ): void {
     // Create UTXOs from genesis configuration allocations
     const genesisTransactions =
       GenesisConfigManager.createGenesisUTXOTransactions(
-        config.initialAllocations
+        config.initialAllocations,
+        config.metadata.timestamp
       );
 
     for (const utxoTx of genesisTransactions) {
@@ -238,7 +354,7 @@ export class Blockchain {
           blockHeight: 0, // Genesis block
           isSpent: false,
         };
-        this.utxoManager.addUTXO(utxo);
+        utxoManager.addUTXO(utxo);
       }
     }
 
@@ -261,6 +377,95 @@ export class Blockchain {
     return this.blocks[this.blocks.length - 1];
   }
 
+  /**
+   * Get the cumulative work of the current main chain
+   */
+  getChainWork(): bigint {
+    return this.blockTree.get(this.getLatestBlock().hash)?.cumulativeWork ?? 0n;
+  }
+
+  /**
+   * Tip of the best known header chain, which may run ahead of the blocks
+   * downloaded so far
+   */
+  getBestHeader(): BlockHeader {
+    return this.headerChain.getBestHeader();
+  }
+
+  /**
+   * Locator to send in a header request, describing the best header chain
+   */
+  getBlockLocator(): string[] {
+    return this.headerChain.getLocator();
+  }
+
+  /**
+   * Validate headers received from a peer, oldest first, and add them to
+   * the header tree
+   */
+  async addHeaders(headers: BlockHeader[]): Promise<HeaderChainResult> {
+    const result = this.headerChain.addHeaders(headers);
+    if (result.accepted.length > 0) {
+      await this.queueChainWrite(async persistence => {
+        await persistence.saveHeaderTree(result.accepted);
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Answer a header request: main chain headers after the first locator
+   * hash found on the main chain, through stopHash if given. Starts after
+   * genesis when no locator hash is on the main chain.
+   */
+  getHeadersAfter(
+    locator: string[],
+    stopHash?: string,
+    maxHeaders: number = MAX_HEADERS_PER_BATCH
+  ): BlockHeader[] {
+    const forkBlock = locator
+      .map(hash => this.blockTree.get(hash)?.block)
+      .find(block => block && this.isMainChainBlock(block));
+    const limit = Math.min(maxHeaders, MAX_HEADERS_PER_BATCH);
+
+    const headers: BlockHeader[] = [];
+    for (
+      let i = (forkBlock?.index ?? 0) + 1;
+      i < this.blocks.length && headers.length < limit;
+      i++
+    ) {
+      const block = this.blocks[i];
+      headers.push(
+        this.headerChain.getHeader(block.hash) ??
+          BlockManager.createBlockHeader(block)
+      );
+      if (block.hash === stopHash) {
+        break;
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * Blocks on the best header chain that have not been downloaded yet,
+   * oldest first
+   */
+  getBlocksToDownload(limit: number = 16): BlockHeader[] {
+    return this.headerChain.getMissingBlocks(
+      hash => this.blockTree.has(hash),
+      limit
+    );
+  }
+
+  /**
+   * Get blocks stored on side chains that are not part of the main chain
+   */
+  getSideChainBlocks(): Block[] {
+    return Array.from(this.blockTree.values())
+      .map(node => node.block)
+      .filter(block => !this.isMainChainBlock(block));
+  }
+
   async addTransaction(
     transaction: UTXOTransaction
   ): Promise<ValidationResult> {
@@ -270,34 +475,33 @@ export class Blockchain {
   async addUTXOTransaction(
     transaction: UTXOTransaction
   ): Promise<ValidationResult> {
-    const validation = this.utxoTransactionManager.validateTransaction(
-      transaction,
-      this.utxoManager
-    );
+    // Inputs may spend outputs of transactions still in the pool
+    const validation = this.validatePendingTransaction(transaction);
     if (!validation.isValid) {
       return validation;
     }
 
-    const existingTransaction = this.pendingUTXOTransactions.find(
-      tx => tx.id === transaction.id
-    );
-    if (existingTransaction) {
-      return {
-        isValid: false,
-        errors: ['UTXO Transaction already exists in pending pool'],
-      };
+    // Post-dated transactions wait in the pool until their lock time passes
+    const result = this.mempool.add(transaction);
+    if (!result.isValid) {
+      return { isValid: false, errors: result.errors };
     }
 
-    this.pendingUTXOTransactions.push(transaction);
-
     // Save to persistence if enabled
     if (this.persistence && this.autoSave) {
       await this.persistence.saveUTXOTransaction(transaction);
+      await this.mempool.flush();
     }
 
-    this.logger.debug(
-      `Added UTXO transaction ${transaction.id} to pending pool`
-    );
+    if (!this.isFinalForNextBlock(transaction, this.getNextBlockTime())) {
+      this.logger.debug(
+        `Holding UTXO transaction ${transaction.id} in pending pool until lock time ${transaction.lockTime}`
+      );
+    } else {
+      this.logger.debug(
+        `Added UTXO transaction ${transaction.id} to pending pool`
+      );
+    }
     return { isValid: true, errors: [] };
   }
 
@@ -308,63 +512,257 @@ export class Blockchain {
   minePendingUTXOTransactions(minerAddress: string): Block | null {
     this.logger.debug(`Starting to mine block for ${minerAddress}`);
 
-    // Check if difficulty should be adjusted
-    const nextBlockIndex = this.getLatestBlock().index + 1;
+    const template = this.createBlockTemplate(minerAddress);
+
+    // Proof of work mines for a nonce; proof of authority signs the block
+    let minedBlock: Block;
+    try {
+      minedBlock = this.consensus.sealBlock(template.block, this.blocks);
+    } catch (error) {
+      this.logger.warn(
+        `Cannot seal block ${template.block.index}: ${(error as Error).message}`
+      );
+      return null;
+    }
+
+    this.connectMinedBlock(minedBlock, template);
+    return minedBlock;
+  }
+
+  minePendingTransactionsAsync(minerAddress: string): Promise<Block | null> {
+    return this.minePendingUTXOTransactionsAsync(minerAddress);
+  }
+
+  /**
+   * Mine the next block with proof of work running on the block miner's
+   * worker threads, so the event loop stays responsive. Resolves with null
+   * if the job is cancelled, which happens when a competing block is
+   * connected while mining.
+   */
+  async minePendingUTXOTransactionsAsync(
+    minerAddress: string
+  ): Promise<Block | null> {
+    this.logger.debug(`Starting to mine block for ${minerAddress}`);
+
+    const template = this.createBlockTemplate(minerAddress);
+
+    let minedBlock: Block | null;
+    try {
+      minedBlock =
+        this.consensus.type === 'pow'
+          ? await this.miner.mine(template.block)
+          : this.consensus.sealBlock(template.block, this.blocks);
+    } catch (error) {
+      this.logger.warn(
+        `Cannot seal block ${template.block.index}: ${(error as Error).message}`
+      );
+      return null;
+    }
+
+    // The tip may have moved while the workers were searching
+    if (!minedBlock || minedBlock.previousHash !== this.getLatestBlock().hash) {
+      this.logger.debug(
+        `Abandoned block ${template.block.index}: mining was cancelled`
+      );
+      return null;
+    }
+
+    this.connectMinedBlock(minedBlock, template);
+    return minedBlock;
+  }
+
+  /**
+   * Stop mining the current block
+   * @returns whether a mining job was running
+   */
+  cancelMining(): boolean {
+    return this.miner.cancel();
+  }
+
+  getMiner(): BlockMiner {
+    return this.miner;
+  }
+
+  setMiner(miner: BlockMiner): void {
+    this.miner.cancel();
+    this.miner = miner;
+  }
+
+  private connectMinedBlock(minedBlock: Block, template: BlockTemplate): void {
+    if (this.consensus.type === 'pow' && this.shouldAdjustDifficulty()) {
+      this.logger.debug(
+        `Adjusting difficulty from ${this.difficulty} to ${minedBlock.difficulty} at block ${minedBlock.index}`
+      );
+      this.difficulty = minedBlock.difficulty;
+    }
+
     this.logger.debug(
-      `Next block index: ${nextBlockIndex}, should adjust: ${this.shouldAdjustDifficulty()}`
+      `Mining block ${minedBlock.index} with ${minedBlock.transactions.length} transactions at difficulty ${minedBlock.difficulty}`
+    );
+
+    // Connect the block and process UTXO updates with the original UTXO
+    // transactions, which also clears them from the mempool
+    this.connectBlock(minedBlock, template.transactions);
+    // Mining returns synchronously, so the write is not awaited. The write
+    // queue logs a failure, and the block stays connected in memory.
+    this.persistConnectedBlocks([minedBlock]).catch(() => undefined);
+  }
+
+  /**
+   * Assemble the next block from the mempool without mining it. Final
+   * transactions are taken by package fee rate until the serialized block
+   * would exceed the maximum block size; the coinbase pays the mining reward
+   * plus the fees of everything included.
+   */
+  createBlockTemplate(minerAddress: string): BlockTemplate {
+    const nextBlockIndex = this.getLatestBlock().index + 1;
+    const blockTime = this.getNextBlockTime();
+    const version = this.deployments.computeBlockVersion(this.blocks);
+    const nextDifficulty = this.getNextBlockDifficulty();
+
+    // The coinbase is always included, so measure the block with it first.
+    // Its encoded size does not depend on the amount it pays.
+    const placeholderBlock = BlockManager.createBlock(
+      nextBlockIndex,
+      [
+        Blockchain.toLegacyTransaction(
+          this.createCoinbaseTransaction(minerAddress, nextBlockIndex, 0)
+        ),
+      ],
+      this.getLatestBlock().hash,
+      nextDifficulty.difficulty,
+      minerAddress,
+      '0'.repeat(64),
+      version,
+      blockTime
+    );
+    if (nextDifficulty.bits !== undefined) {
+      placeholderBlock.bits = nextDifficulty.bits;
+    }
+    // Reserve room for the transaction count to grow by two varint bytes,
+    // and for whatever sealing adds
+    let size =
+      BlockManager.getBlockSize(placeholderBlock) + 2 + this.consensus.sealSize;
+
+    // Transactions whose lock time has not passed stay in the pool, along
+    // with their descendants; the rest are ordered by package fee rate
+    const selected: UTXOTransaction[] = [];
+    const skipped = new Set<string>();
+    let totalFees = 0;
+    for (const tx of this.mempool.selectPackages(tx =>
+      this.isFinalForNextBlock(tx, blockTime)
+    )) {
+      // A transaction's encoded size includes a two-byte codec prefix, which
+      // covers its length prefix inside the block
+      const txSize = BinaryCodec.encodeTransaction(
+        Blockchain.toLegacyTransaction(tx)
+      ).length;
+      if (
+        tx.inputs.some(input => skipped.has(input.previousTxId)) ||
+        size + txSize > this.maxBlockSize
+      ) {
+        skipped.add(tx.id);
+        continue;
+      }
+      selected.push(tx);
+      size += txSize;
+      totalFees += tx.fee;
+    }
+
+    const subsidy = this.rewardSchedule.getBlockSubsidy(nextBlockIndex);
+    const coinbase = this.createCoinbaseTransaction(
+      minerAddress,
+      nextBlockIndex,
+      subsidy + totalFees
+    );
+    const transactions = [coinbase, ...selected];
+    const block = BlockManager.createBlock(
+      nextBlockIndex,
+      transactions.map(tx => Blockchain.toLegacyTransaction(tx)),
+      this.getLatestBlock().hash,
+      nextDifficulty.difficulty,
+      minerAddress,
+      undefined,
+      version,
+      blockTime
     );
+    if (nextDifficulty.bits !== undefined) {
+      block.bits = nextDifficulty.bits;
+    }
+    block.utxoRoot = this.calculateNextUTXORoot(block, transactions);
+    block.hash = BlockManager.calculateHash(block);
 
-    if (this.shouldAdjustDifficulty()) {
-      this.logger.debug(`Calculating next difficulty...`);
-      const newDifficulty = this.calculateNextDifficulty();
+    if (skipped.size > 0) {
       this.logger.debug(
-        `Adjusting difficulty from ${this.difficulty} to ${newDifficulty} at block ${nextBlockIndex}`
-      );
-      this.difficulty = newDifficulty;
-    }
-
-    // Always create a mining reward transaction, even if no pending transactions
-
-    // Create mining reward as UTXO transaction
-    const availableUTXOs = this.utxoManager.getUTXOsForAddress('network');
-    let rewardTransaction: UTXOTransaction;
-
-    if (availableUTXOs.length === 0) {
-      // Genesis-style reward transaction
-      rewardTransaction = {
-        id: `reward-${Date.now()}-${Math.random()}`,
-        inputs: [],
-        outputs: [
-          {
-            value: this.miningReward,
-            lockingScript: minerAddress,
-            outputIndex: 0,
-          },
-        ],
-        lockTime: 0,
-        timestamp: Date.now(),
-        fee: 0,
-      };
-    } else {
-      rewardTransaction = this.utxoTransactionManager.createTransaction(
-        'network',
-        minerAddress,
-        this.miningReward,
-        'network-private-key',
-        availableUTXOs
+        `Left ${skipped.size} transactions out of block ${nextBlockIndex} to stay within ${this.maxBlockSize} bytes`
       );
     }
 
-    const blockTransactions = [
-      ...this.pendingUTXOTransactions,
-      rewardTransaction,
-    ];
+    return {
+      block,
+      transactions,
+      coinbase,
+      subsidy,
+      totalFees,
+      size: BlockManager.getBlockSize(block),
+      maxBlockSize: this.maxBlockSize,
+    };
+  }
+
+  /**
+   * UTXO root the set will have once the block is connected, found by
+   * applying the block's transactions and rolling them back. The
+   * transactions were validated on entering the pending pool.
+   */
+  private calculateNextUTXORoot(
+    block: Block,
+    utxoTransactions: UTXOTransaction[]
+  ): string {
+    const undo = this.processBlockUTXOs(
+      block,
+      utxoTransactions,
+      this.utxoManager,
+      false
+    );
+    const utxoRoot = this.utxoManager.getUTXORoot();
+    this.utxoManager.applyUTXOUpdates(undo.spentUTXOs, undo.createdUTXOs);
+    return utxoRoot;
+  }
 
-    // Save the UTXO transactions for processing (before legacy conversion)
-    const originalUTXOTransactions = [...blockTransactions];
+  /**
+   * Reward transaction paying the subsidy plus collected fees to the miner.
+   * It has no inputs, and its lockTime commits to the previous height so
+   * rewards to the same miner never share an ID.
+   */
+  private createCoinbaseTransaction(
+    minerAddress: string,
+    blockIndex: number,
+    reward: number
+  ): UTXOTransaction {
+    const rewardTransaction: UTXOTransaction = {
+      id: '',
+      inputs: [],
+      outputs: [
+        {
+          value: reward,
+          lockingScript: minerAddress,
+          outputIndex: 0,
+        },
+      ],
+      lockTime: blockIndex - 1,
+      timestamp: Date.now(),
+      fee: 0,
+    };
+    rewardTransaction.id =
+      UTXOTransactionManager.calculateTransactionId(rewardTransaction);
+    return rewardTransaction;
+  }
 
-    // Convert UTXOTransactions to legacy Transaction format for block creation
-    const legacyTransactions = blockTransactions.map(utxoTx => ({
+  /**
+   * Legacy Transaction form in which UTXO transactions are stored in blocks
+   */
+  private static toLegacyTransaction(utxoTx: UTXOTransaction): Transaction {
+    return {
       id: utxoTx.id,
       from: utxoTx.inputs.length > 0 ? 'utxo-based' : 'network',
       to: utxoTx.outputs[0]?.lockingScript || 'unknown',
@@ -373,44 +771,59 @@ export class Blockchain {
       timestamp: utxoTx.timestamp,
       signature: 'utxo-signed',
       nonce: 0,
-    }));
-
-    const newBlock = BlockManager.createBlock(
-      nextBlockIndex,
-      legacyTransactions,
-      this.getLatestBlock().hash,
-      this.difficulty,
-      minerAddress
-    );
-
-    const minedBlock = BlockManager.mineBlock(newBlock);
-    this.blocks.push(minedBlock);
-
-    this.logger.debug(
-      `Mining block ${minedBlock.index} with ${minedBlock.transactions.length} transactions at difficulty ${minedBlock.difficulty}`
-    );
+    };
+  }
 
-    // Process UTXO updates with the original UTXO transactions
-    this.processBlockUTXOs(minedBlock, originalUTXOTransactions);
+  /**
+   * @param utxoTransactions - the block's transactions in UTXO form, for
+   * blocks whose transactions are not in the pending pool
+   */
+  async addBlock(
+    block: Block,
+    utxoTransactions?: UTXOTransaction[]
+  ): Promise<ValidationResult> {
+    if (this.blockTree.has(block.hash)) {
+      return { isValid: false, errors: ['Block already known'] };
+    }
 
-    // Clear pending transactions after processing
-    this.pendingUTXOTransactions = [];
+    const previousBlock = this.getLatestBlock();
 
-    return minedBlock;
-  }
+    // Blocks building on a known non-tip block go to the side chain store
+    if (block.previousHash !== previousBlock.hash) {
+      const parentNode = this.blockTree.get(block.previousHash);
+      if (parentNode) {
+        return await this.addSideChainBlock(
+          block,
+          parentNode,
+          utxoTransactions
+        );
+      }
+    }
 
-  async addBlock(block: Block): Promise<ValidationResult> {
-    const previousBlock = this.getLatestBlock();
-    const validation = BlockManager.validateBlock(block, previousBlock);
-
-    // Additional validation for difficulty
-    if (validation.isValid && block.difficulty !== this.difficulty) {
-      // Allow difficulty changes only at adjustment intervals
-      if (this.difficultyManager.shouldAdjustDifficulty(block.index)) {
-        const expectedDifficulty = this.calculateNextDifficulty();
-        if (block.difficulty !== expectedDifficulty) {
+    const validation = this.consensus.validateBlock(
+      block,
+      this.blocks,
+      this.getValidationOptions(block)
+    );
+    this.validateCheckpoint(block, validation);
+    this.validateBlockTimestamp(block, this.blocks, validation);
+    this.validateBlockSize(block, validation);
+    this.validateCoinbase(block, validation, utxoTransactions);
+    this.validateBlockTransactionFinality(block, validation, utxoTransactions);
+    this.validateCoinbaseSpends(block, validation, utxoTransactions);
+
+    // Additional validation for proof-of-work difficulty
+    const expected = this.getNextBlockDifficulty();
+    if (
+      validation.isValid &&
+      this.consensus.type === 'pow' &&
+      block.difficulty !== this.difficulty
+    ) {
+      // Allow difficulty changes only where the retarget rule allows them
+      if (this.difficultyAlgorithm.shouldRetarget(block.index)) {
+        if (block.difficulty !== expected.difficulty) {
           validation.errors.push(
-            `Invalid difficulty adjustment: expected ${expectedDifficulty}, got ${block.difficulty}`
+            `Invalid difficulty adjustment: expected ${expected.difficulty}, got ${block.difficulty}`
           );
           validation.isValid = false;
         }
@@ -421,38 +834,41 @@ export class Blockchain {
         validation.isValid = false;
       }
     }
+    if (
+      validation.isValid &&
+      this.consensus.type === 'pow' &&
+      block.bits !== expected.bits
+    ) {
+      validation.errors.push(
+        `Invalid difficulty target: expected bits ${expected.bits}, got ${block.bits}`
+      );
+      validation.isValid = false;
+    }
 
     if (!validation.isValid) {
       return validation;
     }
 
-    this.blocks.push(block);
+    // Process and update UTXO set for block transactions, resolving them
+    // from the given list or the mempool
+    try {
+      this.connectBlock(block, utxoTransactions);
+    } catch (error) {
+      return { isValid: false, errors: [(error as Error).message] };
+    }
 
     // Update difficulty if this was an adjustment block
-    if (this.difficultyManager.shouldAdjustDifficulty(block.index)) {
+    if (
+      this.consensus.type === 'pow' &&
+      this.difficultyAlgorithm.shouldRetarget(block.index)
+    ) {
       this.difficulty = block.difficulty;
       this.logger.debug(
         `Difficulty adjusted to ${this.difficulty} at block ${block.index}`
       );
     }
 
-    // Process UTXO transactions
-    block.transactions.forEach(tx => {
-      const index = this.pendingUTXOTransactions.findIndex(
-        pending => pending.id === tx.id
-      );
-      if (index > -1) {
-        this.pendingUTXOTransactions.splice(index, 1);
-      }
-    });
-
-    // Process and update UTXO set for block transactions
-    this.processBlockUTXOs(block);
-
-    // Save to persistence if enabled
-    if (this.persistence && this.autoSave) {
-      await this.persistence.saveBlock(block);
-    }
+    await this.persistConnectedBlocks([block]);
 
     this.logger.debug(
       `Added block ${block.index} with ${block.transactions.length} transactions`
@@ -460,88 +876,976 @@ export class Blockchain {
     return { isValid: true, errors: [] };
   }
 
-  private processBlockUTXOs(
+  /**
+   * Store a block that extends a non-tip block and reorganize onto its
+   * branch when that branch carries more cumulative work than the main chain
+   */
+  private async addSideChainBlock(
     block: Block,
-    originalUTXOTransactions?: UTXOTransaction[]
-  ): void {
-    const utxosToAdd: UTXO[] = [];
-    const utxosToRemove: Array<{ txId: string; outputIndex: number }> = [];
+    parentNode: BlockTreeNode,
+    utxoTransactions?: UTXOTransaction[]
+  ): Promise<ValidationResult> {
+    const { forkBlock, branch } = this.getBranchFromFork(parentNode.block.hash);
+    const parentChain = [
+      ...this.blocks.slice(0, forkBlock.index + 1),
+      ...branch,
+    ];
 
-    // Process UTXO transactions properly by reconstructing original UTXO structure
-    for (const tx of block.transactions) {
-      // Try to find the original UTXO transaction from the provided list or pending
-      const originalUTXOTx =
-        originalUTXOTransactions?.find(utxoTx => utxoTx.id === tx.id) ||
-        this.pendingUTXOTransactions.find(utxoTx => utxoTx.id === tx.id);
+    const validation = this.consensus.validateBlock(
+      block,
+      parentChain,
+      this.getValidationOptions(block)
+    );
+    this.validateCheckpoint(block, validation);
+    this.validateBlockTimestamp(block, parentChain, validation);
+    this.validateBlockSize(block, validation);
+    this.validateCoinbase(block, validation, utxoTransactions);
+    this.validateBlockTransactionFinality(block, validation, utxoTransactions);
+    this.validateCoinbaseSpends(block, validation, utxoTransactions, branch);
+
+    const expected = this.difficultyAlgorithm.getNextDifficulty(
+      parentChain,
+      parentNode.block.difficulty
+    );
+    if (
+      this.consensus.type === 'pow' &&
+      block.difficulty !== expected.difficulty
+    ) {
+      validation.errors.push(
+        `Invalid side chain difficulty: expected ${expected.difficulty}, got ${block.difficulty}`
+      );
+      validation.isValid = false;
+    } else if (this.consensus.type === 'pow' && block.bits !== expected.bits) {
+      validation.errors.push(
+        `Invalid side chain difficulty target: expected bits ${expected.bits}, got ${block.bits}`
+      );
+      validation.isValid = false;
+    }
 
-      if (originalUTXOTx) {
-        // Process each output from the original UTXO transaction
-        for (const output of originalUTXOTx.outputs) {
-          const newUTXO: UTXO = {
-            txId: tx.id,
-            outputIndex: output.outputIndex,
-            value: output.value,
-            lockingScript: output.lockingScript,
-            blockHeight: block.index,
-            isSpent: false,
-          };
-          this.logger.debug(
-            `Creating UTXO for tx ${tx.id}[${output.outputIndex}]: value=${output.value}, lockingScript=${output.lockingScript}`
-          );
-          utxosToAdd.push(newUTXO);
-        }
+    const reorgDepth = this.getLatestBlock().index - forkBlock.index;
+    if (reorgDepth > this.maxReorgDepth) {
+      validation.errors.push(
+        `Fork point at block ${forkBlock.index} exceeds maximum reorganization depth of ${this.maxReorgDepth}`
+      );
+      validation.isValid = false;
+    }
 
-        // Remove spent UTXOs for inputs
-        for (const input of originalUTXOTx.inputs) {
-          utxosToRemove.push({
-            txId: input.previousTxId,
-            outputIndex: input.outputIndex,
-          });
-        }
-      } else {
-        // Fallback for genesis/reward transactions - create single UTXO
-        const newUTXO: UTXO = {
-          txId: tx.id,
-          outputIndex: 0,
-          value: tx.amount,
-          lockingScript: tx.to,
-          blockHeight: block.index,
-          isSpent: false,
-        };
-        this.logger.debug(
-          `Creating genesis UTXO for tx ${tx.id}: value=${tx.amount}, lockingScript=${tx.to}`
-        );
-        utxosToAdd.push(newUTXO);
-      }
+    const lastCheckpoint = this.checkpoints.getLastCheckpoint(
+      this.getLatestBlock().index
+    );
+    if (lastCheckpoint && forkBlock.index < lastCheckpoint.height) {
+      validation.errors.push(
+        `Fork point at block ${forkBlock.index} is below the checkpoint at height ${lastCheckpoint.height}`
+      );
+      validation.isValid = false;
+    }
+
+    if (!validation.isValid) {
+      return validation;
     }
 
-    // Process any UTXO transactions that might be in the block
-    // (This would be expanded when blocks can contain UTXOTransactions)
+    const blockTransactionIds = new Set(block.transactions.map(tx => tx.id));
+    const node: BlockTreeNode = {
+      block,
+      cumulativeWork:
+        parentNode.cumulativeWork + DifficultyManager.getBlockWork(block),
+      utxoTransactions: utxoTransactions?.filter(tx =>
+        blockTransactionIds.has(tx.id)
+      ),
+    };
+    this.blockTree.set(block.hash, node);
+    this.headerChain.connectHeader(BlockManager.createBlockHeader(block));
 
-    // Apply all UTXO updates atomically
-    if (utxosToAdd.length > 0 || utxosToRemove.length > 0) {
-      this.utxoManager.applyUTXOUpdates(utxosToAdd, utxosToRemove);
+    if (node.cumulativeWork <= this.getChainWork()) {
       this.logger.debug(
-        `Processed ${utxosToAdd.length} UTXO additions and ${utxosToRemove.length} removals for block ${block.index}`
+        `Stored side chain block ${block.index} (${block.hash}) forking from block ${forkBlock.index}`
       );
+      return { isValid: true, errors: [] };
     }
-  }
 
-  getBalance(address: string): number {
-    return this.utxoManager.calculateBalance(address);
+    return await this.reorganize(block, utxoTransactions);
   }
 
-  validateChain(): ValidationResult {
-    const errors: string[] = [];
-
-    for (let i = 1; i < this.blocks.length; i++) {
+  /**
+   * Switch the main chain to the branch ending at newTip, rolling back the
+   * UTXO set to the common ancestor and returning orphaned transactions to
+   * the pending pool
+   * @param utxoTransactions - UTXO forms of the new tip's transactions;
+   * earlier branch blocks keep theirs in the block tree
+   */
+  private async reorganize(
+    newTip: Block,
+    utxoTransactions: UTXOTransaction[] = []
+  ): Promise<ValidationResult> {
+    const oldTip = this.getLatestBlock();
+    const { forkBlock, branch } = this.getBranchFromFork(newTip.hash);
+
+    // Every block being disconnected needs undo data to restore the UTXO set
+    const blocksToDisconnect = this.blocks.slice(forkBlock.index + 1);
+    for (const block of blocksToDisconnect) {
+      await this.loadBlockUndo(block);
+    }
+    const missingUndo = blocksToDisconnect.find(
+      b => !this.blockUndo.has(b.hash)
+    );
+    if (missingUndo) {
+      return {
+        isValid: false,
+        errors: [
+          `Cannot reorganize past block ${missingUndo.index}: no undo data available`,
+        ],
+      };
+    }
+
+    this.logger.debug(
+      `Reorganizing chain from ${oldTip.hash} (height ${oldTip.index}) to ${newTip.hash} (height ${newTip.index}), common ancestor ${forkBlock.index}`
+    );
+
+    const disconnected: Array<{ block: Block; undo: BlockUndoRecord }> = [];
+    while (this.getLatestBlock().index > forkBlock.index) {
+      disconnected.unshift(this.disconnectTip());
+    }
+
+    // Coinbase-style transactions are only valid in the block that created them
+    const orphanedTransactions = disconnected.flatMap(({ undo }) =>
+      undo.utxoTransactions.filter(tx => tx.inputs.length > 0)
+    );
+    const candidateTransactions = [
+      ...orphanedTransactions,
+      ...this.mempool.getTransactions(),
+      ...branch.flatMap(
+        block => this.blockTree.get(block.hash)?.utxoTransactions ?? []
+      ),
+      ...utxoTransactions,
+    ];
+
+    const connected: Block[] = [];
+    try {
+      for (const block of branch) {
+        this.connectBlock(block, candidateTransactions);
+        connected.push(block);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Reorganization failed, restoring previous chain: ${error}`
+      );
+      // Forget the block that failed to connect and its descendants, so the
+      // invalid branch is not reorganized to again
+      for (const block of branch.slice(connected.length)) {
+        this.blockTree.delete(block.hash);
+      }
+      while (connected.length > 0) {
+        connected.pop();
+        this.disconnectTip();
+      }
+      for (const { block, undo } of disconnected) {
+        this.connectBlock(block, undo.utxoTransactions);
+      }
+      return {
+        isValid: false,
+        errors: [`Chain reorganization failed: ${error}`],
+      };
+    }
+
+    // Rebuild the pending pool against the new UTXO set
+    const confirmedIds = new Set(
+      branch.flatMap(block => block.transactions.map(tx => tx.id))
+    );
+    this.mempool.clear();
+    for (const tx of candidateTransactions) {
+      if (confirmedIds.has(tx.id) || this.mempool.has(tx.id)) {
+        continue;
+      }
+      const validation = this.validatePendingTransaction(tx);
+      const errors = validation.isValid
+        ? this.mempool.add(tx).errors
+        : validation.errors;
+      if (errors.length > 0) {
+        this.logger.debug(
+          `Dropped transaction ${tx.id} after reorganization: ${errors.join(', ')}`
+        );
+      }
+    }
+
+    if (this.consensus.type === 'pow') {
+      this.difficulty = newTip.difficulty;
+    }
+
+    await this.queueChainWrite(async persistence => {
+      for (let i = 0; i < disconnected.length; i++) {
+        await persistence.disconnectBlock();
+      }
+    });
+    await this.persistConnectedBlocks(branch);
+
+    const reorgInfo: ReorgInfo = {
+      oldTip: oldTip.hash,
+      newTip: newTip.hash,
+      commonAncestor: forkBlock.hash,
+      orphanedBlocks: disconnected.map(({ block }) => block.hash),
+      newBlocks: branch.map(block => block.hash),
+    };
+    this.emit('reorg', reorgInfo);
+
+    this.logger.debug(
+      `Reorganization complete: ${reorgInfo.orphanedBlocks.length} blocks orphaned, ${reorgInfo.newBlocks.length} blocks connected`
+    );
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Append a block to the main chain and record its UTXO undo data. Blocks
+   * that commit to a UTXO root are rolled back and rejected if the set
+   * they leave behind has a different root.
+   */
+  private connectBlock(
+    block: Block,
+    utxoTransactions?: UTXOTransaction[]
+  ): void {
+    // A block being mined on the old tip can no longer extend the chain
+    if (this.miner.isMining()) {
+      this.miner.cancel();
+    }
+
+    const undo = this.processBlockUTXOs(
+      block,
+      utxoTransactions,
+      this.utxoManager,
+      true,
+      this.getValidationOptions(block)
+    );
+    const utxoRootError = this.checkUTXORoot(
+      block,
+      this.blocks,
+      this.utxoManager
+    );
+    if (utxoRootError) {
+      this.utxoManager.applyUTXOUpdates(undo.spentUTXOs, undo.createdUTXOs);
+      throw new Error(utxoRootError);
+    }
+    this.blocks.push(block);
+    this.blockUndo.set(block.hash, undo);
+    this.mempool.removeConfirmed(undo.utxoTransactions);
+
+    const parentWork =
+      this.blockTree.get(block.previousHash)?.cumulativeWork ?? 0n;
+    this.blockTree.set(block.hash, {
+      block,
+      cumulativeWork: parentWork + DifficultyManager.getBlockWork(block),
+    });
+    this.headerChain.connectHeader(BlockManager.createBlockHeader(block));
+
+    this.pruneBlockTree();
+  }
+
+  /**
+   * Remove the tip from the main chain, restoring the UTXOs it spent
+   */
+  private disconnectTip(): { block: Block; undo: BlockUndoRecord } {
+    const block = this.getLatestBlock();
+    const undo = this.blockUndo.get(block.hash);
+    if (!undo) {
+      throw new Error(`No undo data available for block ${block.index}`);
+    }
+
+    this.utxoManager.applyUTXOUpdates(undo.spentUTXOs, undo.createdUTXOs);
+    this.blocks.pop();
+    this.blockUndo.delete(block.hash);
+    // The block may be connected again by a later reorganization
+    const node = this.blockTree.get(block.hash);
+    if (node) {
+      node.utxoTransactions = undo.utxoTransactions;
+    }
+
+    this.logger.debug(`Disconnected block ${block.index} (${block.hash})`);
+    return { block, undo };
+  }
+
+  /**
+   * Roll back the tip block with its undo record and return its
+   * transactions to the pending pool
+   * @returns the disconnected block
+   */
+  async disconnectBlock(): Promise<Block> {
+    const tip = this.getLatestBlock();
+    if (tip.index === 0) {
+      throw new Error('Cannot disconnect the genesis block');
+    }
+    await this.loadBlockUndo(tip);
+
+    const { block, undo } = this.disconnectTip();
+    if (this.miner.isMining()) {
+      this.miner.cancel();
+    }
+
+    // Forget the block so it can be connected again later
+    this.blockTree.delete(block.hash);
+    this.restoreMempool(
+      undo.utxoTransactions.filter(tx => tx.inputs.length > 0)
+    );
+    if (this.consensus.type === 'pow') {
+      this.difficulty = this.getLatestBlock().difficulty;
+    }
+
+    await this.queueChainWrite(async persistence => {
+      await persistence.disconnectBlock();
+    });
+    return block;
+  }
+
+  /**
+   * Fetch a main chain block's undo record from persistence, for blocks
+   * connected before the chain was loaded
+   */
+  private async loadBlockUndo(block: Block): Promise<void> {
+    if (this.blockUndo.has(block.hash) || !this.persistence) {
+      return;
+    }
+    const undo = await this.persistence.getBlockUndo(block.index);
+    if (undo?.blockHash === block.hash) {
+      this.blockUndo.set(block.hash, undo);
+    }
+  }
+
+  /**
+   * Store newly connected blocks with their undo records, then prune
+   */
+  private persistConnectedBlocks(blocks: Block[]): Promise<void> {
+    const undoRecords = blocks.map(block => this.blockUndo.get(block.hash)!);
+    return this.queueChainWrite(async persistence => {
+      for (let i = 0; i < blocks.length; i++) {
+        await persistence.connectBlock(blocks[i], undoRecords[i]);
+      }
+      await this.pruneBlockStore();
+    });
+  }
+
+  /**
+   * Write chain changes to persistence in the order they were made, so
+   * blocks mined synchronously are stored before any that follow them
+   */
+  private queueChainWrite(
+    write: (persistence: UTXOPersistenceManager) => Promise<void>
+  ): Promise<void> {
+    const persistence = this.persistence;
+    if (!persistence || !this.autoSave) {
+      return Promise.resolve();
+    }
+
+    const result = this.pendingWrites.then(() => write(persistence));
+    this.pendingWrites = result.catch(error => {
+      this.logger.error(`Failed to persist chain update: ${error}`);
+    });
+    return result;
+  }
+
+  /**
+   * Walk back from a known block to the main chain
+   * @returns the main chain block where the branch forks and the side chain
+   * blocks after it, oldest first
+   */
+  private getBranchFromFork(tipHash: string): {
+    forkBlock: Block;
+    branch: Block[];
+  } {
+    const branch: Block[] = [];
+    let node = this.blockTree.get(tipHash);
+
+    while (node && !this.isMainChainBlock(node.block)) {
+      branch.unshift(node.block);
+      node = this.blockTree.get(node.block.previousHash);
+    }
+
+    if (!node) {
+      throw new Error(`Block ${tipHash} does not connect to the main chain`);
+    }
+
+    return { forkBlock: node.block, branch };
+  }
+
+  private validateCheckpoint(block: Block, validation: ValidationResult): void {
+    const conflict = this.checkpoints.checkBlock(block);
+    if (conflict) {
+      validation.errors.push(conflict);
+      validation.isValid = false;
+    }
+  }
+
+  /**
+   * Require a timestamp after the median time past of the chain the block
+   * builds on and not too far ahead of network-adjusted time
+   */
+  private validateBlockTimestamp(
+    block: Block,
+    chain: Block[],
+    validation: ValidationResult
+  ): void {
+    const result = DifficultyManager.validateBlockTimestamp(
+      block,
+      chain,
+      this.networkTime.now()
+    );
+    if (!result.isValid) {
+      validation.errors.push(...result.errors);
+      validation.isValid = false;
+    }
+  }
+
+  /**
+   * Reject blocks whose serialized size exceeds the network maximum
+   */
+  private validateBlockSize(block: Block, validation: ValidationResult): void {
+    let size: number;
+    try {
+      size = BlockManager.getBlockSize(block);
+    } catch {
+      // Encoding failures are reported by BlockManager.validateBlock
+      return;
+    }
+    if (size > this.maxBlockSize) {
+      validation.errors.push(
+        `Block size ${size} exceeds maximum of ${this.maxBlockSize} bytes`
+      );
+      validation.isValid = false;
+    }
+  }
+
+  /**
+   * Check a block's UTXO root against the set left once it is applied.
+   * Blocks may omit the root until the UTXO commitment deployment is
+   * active, and must carry it from then on.
+   * @returns an error message, or null if the root is acceptable
+   */
+  private checkUTXORoot(
+    block: Block,
+    parentChain: Block[],
+    utxoManager: UTXOManager
+  ): string | null {
+    if (block.utxoRoot === undefined) {
+      return this.deployments.isActive(
+        UTXO_COMMITMENT_DEPLOYMENT,
+        parentChain,
+        block.index
+      )
+        ? `Block ${block.index} is missing its UTXO root`
+        : null;
+    }
+
+    const utxoRoot = utxoManager.getUTXORoot();
+    return utxoRoot === block.utxoRoot
+      ? null
+      : `Block ${block.index} UTXO root ${block.utxoRoot} does not match the resulting UTXO set root ${utxoRoot}`;
+  }
+
+  /**
+   * Ancestors of the assume-valid block skip signature verification, both
+   * of the block seal and of transaction scripts
+   */
+  private getValidationOptions(block: Block): BlockValidationOptions {
+    return {
+      skipSignatures: this.checkpoints.shouldSkipSignatures(
+        block,
+        this.headerChain
+      ),
+    };
+  }
+
+  /**
+   * Require exactly one coinbase transaction, at position zero, paying no
+   * more than the subsidy for the block's height plus the fees of its other
+   * transactions
+   */
+  private validateCoinbase(
+    block: Block,
+    validation: ValidationResult,
+    utxoTransactions?: UTXOTransaction[]
+  ): void {
+    const coinbaseCount = block.transactions.filter(
+      tx => tx.from === 'network'
+    ).length;
+    if (coinbaseCount !== 1) {
+      validation.errors.push(
+        `Block must contain exactly one coinbase transaction, found ${coinbaseCount}`
+      );
+      validation.isValid = false;
+      return;
+    }
+    if (block.transactions[0].from !== 'network') {
+      validation.errors.push('Coinbase must be the first transaction');
+      validation.isValid = false;
+    }
+
+    let reward = 0;
+    let fees = 0;
+    for (const tx of block.transactions) {
+      if (tx.from === 'network') {
+        reward += tx.amount;
+      } else {
+        fees +=
+          this.findUTXOTransaction(tx.id, utxoTransactions)?.fee ?? tx.fee;
+      }
+    }
+
+    const maxReward = this.rewardSchedule.getBlockSubsidy(block.index) + fees;
+    if (reward > maxReward) {
+      validation.errors.push(
+        `Coinbase pays ${reward}, more than the subsidy plus fees of ${maxReward}`
+      );
+      validation.isValid = false;
+    }
+  }
+
+  /**
+   * Reject blocks that include known UTXO transactions whose lock time has
+   * not passed at the block's height and timestamp
+   */
+  private validateBlockTransactionFinality(
+    block: Block,
+    validation: ValidationResult,
+    utxoTransactions?: UTXOTransaction[]
+  ): void {
+    for (const tx of block.transactions) {
+      const utxoTx = this.findUTXOTransaction(tx.id, utxoTransactions);
+      if (
+        utxoTx &&
+        !UTXOTransactionManager.isFinalTransaction(
+          utxoTx,
+          block.index,
+          block.timestamp
+        )
+      ) {
+        validation.errors.push(
+          `Transaction ${tx.id} is not final at height ${block.index}`
+        );
+        validation.isValid = false;
+      }
+    }
+  }
+
+  /**
+   * Reject blocks whose known UTXO transactions spend coinbase outputs that
+   * have not reached maturity at the block's height
+   * @param branch - side chain blocks between the fork point and the block
+   */
+  private validateCoinbaseSpends(
+    block: Block,
+    validation: ValidationResult,
+    utxoTransactions?: UTXOTransaction[],
+    branch: Block[] = []
+  ): void {
+    for (const tx of block.transactions) {
+      const utxoTx = this.findUTXOTransaction(tx.id, utxoTransactions);
+      const error =
+        utxoTx && this.findImmatureSpend(utxoTx, block.index, branch);
+      if (error) {
+        validation.errors.push(`Transaction ${tx.id} ${error}`);
+        validation.isValid = false;
+      }
+    }
+  }
+
+  /**
+   * Resolve a block transaction to its UTXO form from the given list,
+   * falling back to the pending pool
+   */
+  private findUTXOTransaction(
+    id: string,
+    utxoTransactions?: UTXOTransaction[]
+  ): UTXOTransaction | undefined {
+    return (
+      utxoTransactions?.find(utxoTx => utxoTx.id === id) ?? this.mempool.get(id)
+    );
+  }
+
+  /**
+   * Describe the first input spending a coinbase output that is still
+   * immature at the given height, if any. Coinbase outputs of side chain
+   * branch blocks are not in the UTXO set, so they are found in the branch.
+   */
+  private findImmatureSpend(
+    tx: UTXOTransaction,
+    spendHeight: number,
+    branch: Block[] = []
+  ): string | null {
+    for (const input of tx.inputs) {
+      const branchBlock = branch.find(
+        block => block.transactions[0]?.id === input.previousTxId
+      );
+      const utxo = branchBlock
+        ? { isCoinbase: true, blockHeight: branchBlock.index }
+        : this.utxoManager.getUTXO(input.previousTxId, input.outputIndex);
+      if (
+        utxo &&
+        !UTXOManager.isMature(utxo, spendHeight, this.coinbaseMaturity)
+      ) {
+        return `spends coinbase output ${input.previousTxId}:${input.outputIndex} before maturity at height ${utxo.blockHeight + this.coinbaseMaturity}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Validate a non-coinbase transaction of a block against the UTXO set it
+   * spends from, including its scripts and signatures unless the block's
+   * options skip them
+   * @returns the reasons the transaction is invalid, if any
+   */
+  private validateBlockTransaction(
+    tx: UTXOTransaction,
+    utxoView: IUTXOManager,
+    options: BlockValidationOptions
+  ): string[] {
+    if (tx.inputs.length === 0) {
+      return ['only the coinbase may have no inputs'];
+    }
+    return this.utxoTransactionManager.validateTransaction(
+      tx,
+      utxoView,
+      undefined,
+      options
+    ).errors;
+  }
+
+  /**
+   * Validate a transaction for the pending pool: against the UTXO set
+   * including pool outputs, and without spending coinbase outputs that are
+   * still immature at the next block's height. Input-less transactions are
+   * only valid as a block's coinbase.
+   */
+  private validatePendingTransaction(tx: UTXOTransaction): ValidationResult {
+    if (tx.inputs.length === 0) {
+      return {
+        isValid: false,
+        errors: ['Coinbase transactions are only valid in a block'],
+      };
+    }
+
+    const validation = this.utxoTransactionManager.validateTransaction(
+      tx,
+      this.mempoolUTXOView
+    );
+    const immatureSpend = this.findImmatureSpend(tx, this.blocks.length);
+    if (immatureSpend) {
+      validation.errors.push(`Transaction ${immatureSpend}`);
+      validation.isValid = false;
+    }
+    return validation;
+  }
+
+  /**
+   * Timestamp for the next block: network-adjusted time, but always after
+   * the median time past so the block stays valid
+   */
+  private getNextBlockTime(): number {
+    return Math.max(
+      this.networkTime.now(),
+      DifficultyManager.getMedianTimePast(this.blocks) + 1
+    );
+  }
+
+  private isFinalForNextBlock(tx: UTXOTransaction, blockTime: number): boolean {
+    // The next block's height, also before the chain has been loaded
+    return UTXOTransactionManager.isFinalTransaction(
+      tx,
+      this.blocks.length,
+      blockTime
+    );
+  }
+
+  /**
+   * Re-admit stored pending transactions that are still valid against the
+   * loaded UTXO set
+   */
+  private restoreMempool(transactions: UTXOTransaction[]): void {
+    this.mempool.restore(transactions, tx =>
+      this.validatePendingTransaction(tx)
+    );
+  }
+
+  private isMainChainBlock(block: Block): boolean {
+    return this.blocks[block.index]?.hash === block.hash;
+  }
+
+  /**
+   * Drop undo data and side chain blocks that can no longer be reorganized to
+   */
+  private pruneBlockTree(): void {
+    const minHeight = this.getLatestBlock().index - this.maxReorgDepth;
+    if (minHeight <= 0) {
+      return;
+    }
+
+    for (const [hash, node] of this.blockTree) {
+      if (node.block.index < minHeight && !this.isMainChainBlock(node.block)) {
+        this.blockTree.delete(hash);
+      }
+    }
+
+    const expiredBlock = this.blocks[minHeight - 1];
+    if (expiredBlock) {
+      this.blockUndo.delete(expiredBlock.hash);
+    }
+  }
+
+  private rebuildBlockTree(): void {
+    this.blockTree.clear();
+    this.blockUndo.clear();
+
+    let cumulativeWork = 0n;
+    for (const block of this.blocks) {
+      cumulativeWork += DifficultyManager.getBlockWork(block);
+      this.blockTree.set(block.hash, { block, cumulativeWork });
+    }
+
+    this.headerChain = this.createHeaderChain();
+    for (const block of this.blocks.slice(1)) {
+      this.headerChain.connectHeader(BlockManager.createBlockHeader(block));
+    }
+  }
+
+  /**
+   * Empty header tree rooted at this chain's genesis block
+   */
+  private createHeaderChain(): HeaderChain {
+    const consensus = this.consensus;
+    return new HeaderChain(BlockManager.createBlockHeader(this.blocks[0]), {
+      checkpoints: this.checkpoints,
+      proofOfWork: consensus.type === 'pow',
+      clock: (): number => this.networkTime.now(),
+      validateSeal:
+        consensus instanceof ProofOfAuthorityConsensus
+          ? (header, chain): ValidationResult =>
+              consensus.validateHeader(header, chain)
+          : undefined,
+    });
+  }
+
+  /**
+   * Re-add stored headers that were received ahead of their blocks. Headers
+   * whose branch no longer connects, such as those building on a side chain
+   * block forgotten over the restart, are dropped.
+   */
+  private async restoreHeaderTree(): Promise<void> {
+    const headers = await this.persistence!.loadHeaderTree();
+    let dropped = 0;
+    for (const header of headers) {
+      if (!this.headerChain.addHeaders([header]).isValid) {
+        dropped++;
+      }
+    }
+    if (dropped > 0) {
+      this.logger.warn(
+        `Dropped ${dropped} stored headers that no longer connect`
+      );
+    }
+  }
+
+  /**
+   * Apply a block's transactions to a UTXO set. Every transaction but the
+   * leading coinbase must resolve to its UTXO form and spend existing
+   * outputs; only the coinbase creates value.
+   * @param validateTransactions - whether to check every non-coinbase
+   * transaction against the set first, throwing if any is invalid
+   * @param options - the block's validation options, which may skip
+   * transaction scripts
+   */
+  private processBlockUTXOs(
+    block: Block,
+    originalUTXOTransactions?: UTXOTransaction[],
+    utxoManager: UTXOManager = this.utxoManager,
+    validateTransactions: boolean = true,
+    options: BlockValidationOptions = {}
+  ): BlockUndoRecord {
+    const utxosToAdd: UTXO[] = [];
+    const utxosToRemove: Array<{ txId: string; outputIndex: number }> = [];
+    const spentUTXOs: UTXO[] = [];
+    const utxoTransactions: UTXOTransaction[] = [];
+
+    // Process UTXO transactions properly by reconstructing original UTXO structure
+    for (const [position, tx] of block.transactions.entries()) {
+      const isLeadingCoinbase = position === 0 && tx.from === 'network';
+
+      // Try to find the original UTXO transaction from the provided list or pending
+      const originalUTXOTx = this.findUTXOTransaction(
+        tx.id,
+        originalUTXOTransactions
+      );
+
+      if (originalUTXOTx) {
+        // The coinbase pays exactly the amount checked against the subsidy
+        if (validateTransactions && isLeadingCoinbase) {
+          const paid = originalUTXOTx.outputs.reduce(
+            (sum, output) => sum + output.value,
+            0
+          );
+          if (originalUTXOTx.inputs.length > 0 || paid !== tx.amount) {
+            throw new Error(
+              `Block ${block.index} coinbase ${tx.id} must pay ${tx.amount} without inputs, pays ${paid} with ${originalUTXOTx.inputs.length} inputs`
+            );
+          }
+          if (
+            UTXOTransactionManager.calculateTransactionId(originalUTXOTx) !==
+            tx.id
+          ) {
+            throw new Error(
+              `Block ${block.index} coinbase ${tx.id} does not match its contents`
+            );
+          }
+        }
+
+        // Everything but the coinbase spends outputs left by the chain and
+        // the block's earlier transactions
+        if (validateTransactions && !isLeadingCoinbase) {
+          const errors = this.validateBlockTransaction(
+            originalUTXOTx,
+            new BlockUTXOView(utxoManager, utxosToAdd, utxosToRemove),
+            options
+          );
+          if (errors.length > 0) {
+            throw new Error(
+              `Block ${block.index} transaction ${tx.id} is invalid: ${errors.join(', ')}`
+            );
+          }
+        }
+
+        utxoTransactions.push(originalUTXOTx);
+        const isCoinbase = originalUTXOTx.inputs.length === 0;
+
+        // Process each output from the original UTXO transaction
+        for (const output of originalUTXOTx.outputs) {
+          const newUTXO: UTXO = {
+            txId: tx.id,
+            outputIndex: output.outputIndex,
+            value: output.value,
+            lockingScript: output.lockingScript,
+            blockHeight: block.index,
+            isSpent: false,
+            isCoinbase,
+          };
+          this.logger.debug(
+            `Creating UTXO for tx ${tx.id}[${output.outputIndex}]: value=${output.value}, lockingScript=${output.lockingScript}`
+          );
+          utxosToAdd.push(newUTXO);
+        }
+
+        // Remove spent UTXOs for inputs. An output created earlier in this
+        // block is dropped from the additions instead, since removals are
+        // applied before additions.
+        for (const input of originalUTXOTx.inputs) {
+          const createdIndex = utxosToAdd.findIndex(
+            utxo =>
+              utxo.txId === input.previousTxId &&
+              utxo.outputIndex === input.outputIndex
+          );
+          const spentUTXO =
+            createdIndex !== -1
+              ? utxosToAdd[createdIndex]
+              : utxoManager.getUTXO(input.previousTxId, input.outputIndex);
+          if (!spentUTXO) {
+            throw new Error(
+              `Block ${block.index} spends missing output ${input.previousTxId}:${input.outputIndex}`
+            );
+          }
+          if (
+            !UTXOManager.isMature(spentUTXO, block.index, this.coinbaseMaturity)
+          ) {
+            throw new Error(
+              `Block ${block.index} spends immature coinbase output ${input.previousTxId}:${input.outputIndex}`
+            );
+          }
+          if (createdIndex !== -1) {
+            utxosToAdd.splice(createdIndex, 1);
+            continue;
+          }
+          spentUTXOs.push(spentUTXO);
+          utxosToRemove.push({
+            txId: input.previousTxId,
+            outputIndex: input.outputIndex,
+          });
+        }
+      } else if (isLeadingCoinbase) {
+        // A coinbase without its UTXO form pays its amount to one output
+        const newUTXO: UTXO = {
+          txId: tx.id,
+          outputIndex: 0,
+          value: tx.amount,
+          lockingScript: tx.to,
+          blockHeight: block.index,
+          isSpent: false,
+          isCoinbase: true,
+        };
+        this.logger.debug(
+          `Creating coinbase UTXO for tx ${tx.id}: value=${tx.amount}, lockingScript=${tx.to}`
+        );
+        utxosToAdd.push(newUTXO);
+      } else {
+        throw new Error(
+          `Block ${block.index} transaction ${tx.id} has no known UTXO form`
+        );
+      }
+    }
+
+    // Apply all UTXO updates atomically
+    if (utxosToAdd.length > 0 || utxosToRemove.length > 0) {
+      utxoManager.applyUTXOUpdates(utxosToAdd, utxosToRemove);
+      this.logger.debug(
+        `Processed ${utxosToAdd.length} UTXO additions and ${utxosToRemove.length} removals for block ${block.index}`
+      );
+    }
+
+    return {
+      blockHash: block.hash,
+      blockIndex: block.index,
+      spentUTXOs,
+      createdUTXOs: utxosToAdd,
+      utxoTransactions,
+    };
+  }
+
+  getBalance(address: string): number {
+    return this.utxoManager.calculateBalance(address);
+  }
+
+  /**
+   * Confirmed balance of an address with coinbase outputs that cannot be
+   * spent in the next block reported as immature
+   */
+  getAddressBalance(address: string): AddressBalance {
+    const balance: AddressBalance = { total: 0, spendable: 0, immature: 0 };
+    for (const utxo of this.utxoManager.getUTXOsForAddress(address)) {
+      balance.total += utxo.value;
+      if (
+        UTXOManager.isMature(utxo, this.blocks.length, this.coinbaseMaturity)
+      ) {
+        balance.spendable += utxo.value;
+      } else {
+        balance.immature += utxo.value;
+      }
+    }
+    return balance;
+  }
+
+  /**
+   * Blocks a coinbase output must be buried under before it can be spent
+   */
+  getCoinbaseMaturity(): number {
+    return this.coinbaseMaturity;
+  }
+
+  validateChain(): ValidationResult {
+    const errors: string[] = [];
+
+    // Pruned blocks were validated when connected and no longer have bodies
+    const firstBlock = Math.max(1, this.pruneState.pruneHeight);
+    for (let i = firstBlock; i < this.blocks.length; i++) {
       const currentBlock = this.blocks[i];
-      const previousBlock = this.blocks[i - 1];
 
-      const blockValidation = BlockManager.validateBlock(
+      const blockValidation = this.consensus.validateBlock(
         currentBlock,
-        previousBlock
+        this.blocks.slice(0, i),
+        this.getValidationOptions(currentBlock)
       );
+      this.validateCheckpoint(currentBlock, blockValidation);
 
       if (!blockValidation.isValid) {
         errors.push(
@@ -571,24 +1875,63 @@ export class Blockchain {
   }
 
   getPendingTransactions(): UTXOTransaction[] {
-    return [...this.pendingUTXOTransactions];
+    return this.mempool.getTransactions();
   }
 
   getPendingUTXOTransactions(): UTXOTransaction[] {
-    return [...this.pendingUTXOTransactions];
+    return this.mempool.getTransactions();
+  }
+
+  getMempool(): Mempool {
+    return this.mempool;
+  }
+
+  /**
+   * Set how many pending transactions the mempool holds before evicting
+   * the lowest fee-rate ones
+   */
+  setMempoolMaxSize(maxSize: number): void {
+    this.mempool.setMaxSize(maxSize);
+  }
+
+  /**
+   * Set how many generations of unconfirmed transactions may be chained
+   */
+  setMempoolMaxChainLength(maxChainLength: number): void {
+    this.mempool.setMaxChainLength(maxChainLength);
   }
 
   getUTXOManager(): UTXOManager {
     return this.utxoManager;
   }
 
+  /**
+   * Prove that an output is unspent at the tip, against the UTXO root the
+   * tip block commits to
+   * @returns null if the output is not in the set or the tip has no UTXO
+   * root
+   */
+  getUTXOProof(txId: string, outputIndex: number): UTXOExistenceProof | null {
+    if (this.getLatestBlock().utxoRoot === undefined) {
+      return null;
+    }
+    return this.utxoManager.generateUTXOProof(txId, outputIndex);
+  }
+
   createUTXOTransaction(
     fromAddress: string,
     toAddress: string,
     amount: number,
     privateKey: string
   ): UTXOTransaction {
-    const availableUTXOs = this.utxoManager.getUTXOsForAddress(fromAddress);
+    // Includes unconfirmed change, minus outputs pending transactions spend
+    const availableUTXOs = this.mempoolUTXOView
+      .getUTXOsForAddress(fromAddress)
+      .filter(
+        utxo =>
+          this.isUTXOUnlocked(utxo) &&
+          UTXOManager.isMature(utxo, this.blocks.length, this.coinbaseMaturity)
+      );
     return this.utxoTransactionManager.createTransaction(
       fromAddress,
       toAddress,
@@ -598,6 +1941,20 @@ export class Blockchain {
     );
   }
 
+  /**
+   * Whether a time-locked output could be spent in the next block. Outputs
+   * without a lock are always unlocked.
+   */
+  private isUTXOUnlocked(utxo: UTXO): boolean {
+    const parsed = ScriptInterpreter.parseLockingScript(utxo.lockingScript);
+    if (parsed.template !== 'cltv') {
+      return true;
+    }
+    return parsed.lockTime! < LOCKTIME_THRESHOLD
+      ? parsed.lockTime! < this.blocks.length
+      : parsed.lockTime! < this.getNextBlockTime();
+  }
+
   getBlocks(): Block[] {
     return [...this.blocks];
   }
@@ -607,7 +1964,7 @@ export class Blockchain {
       blocks: this.getBlocks(),
       pendingTransactions: [], // Legacy field - now empty
       difficulty: this.difficulty,
-      miningReward: this.miningReward,
+      miningReward: this.getMiningReward(),
       networkNodes: [],
     };
   }
@@ -616,12 +1973,118 @@ export class Blockchain {
     this.difficulty = Math.max(1, difficulty);
   }
 
-  getDifficulty(): number {
-    return this.difficulty;
+  getDifficulty(): number {
+    return this.difficulty;
+  }
+
+  /**
+   * Subsidy of the next block under the genesis reward schedule
+   */
+  getMiningReward(): number {
+    return this.rewardSchedule.getBlockSubsidy(this.getLatestBlock().index + 1);
+  }
+
+  getRewardSchedule(): RewardSchedule {
+    return this.rewardSchedule;
+  }
+
+  getCheckpoints(): ChainCheckpoints {
+    return this.checkpoints;
+  }
+
+  getConsensus(): ConsensusAlgorithm {
+    return this.consensus;
+  }
+
+  /**
+   * Seal blocks with this signer key on a proof-of-authority chain
+   * @returns the signer address the key seals blocks as
+   */
+  setBlockSigner(
+    privateKey: string,
+    algorithm: SignatureAlgorithm = 'secp256k1'
+  ): string {
+    return this.getProofOfAuthority().setSigner(privateKey, algorithm);
+  }
+
+  /**
+   * Signers authorized to seal the next block, empty under proof of work
+   */
+  getSigners(): string[] {
+    return this.consensus instanceof ProofOfAuthorityConsensus
+      ? this.consensus.getSigners(this.blocks)
+      : [];
+  }
+
+  /**
+   * Vote to add or remove a signer in the blocks this node seals
+   */
+  proposeSignerVote(address: string, authorize: boolean): void {
+    this.getProofOfAuthority().propose(address, authorize);
+  }
+
+  discardSignerVote(address: string): void {
+    this.getProofOfAuthority().discard(address);
+  }
+
+  getSignerVotes(): SignerVote[] {
+    return this.consensus instanceof ProofOfAuthorityConsensus
+      ? this.consensus.getProposals()
+      : [];
+  }
+
+  private getProofOfAuthority(): ProofOfAuthorityConsensus {
+    if (!(this.consensus instanceof ProofOfAuthorityConsensus)) {
+      throw new Error(
+        `Chain ${this.chainId} does not use proof-of-authority consensus`
+      );
+    }
+    return this.consensus;
+  }
+
+  /**
+   * Circulating supply alongside the supply the reward schedule has issued
+   * and will issue
+   */
+  getSupplyInfo(): SupplyInfo {
+    const height = this.getLatestBlock().index;
+    return {
+      height,
+      circulatingSupply: this.utxoManager.getTotalValue(),
+      issuedSupply: this.rewardSchedule.getIssuedSupply(height),
+      projectedSupply: this.rewardSchedule.getProjectedSupply(),
+      maxSupply: this.rewardSchedule.getConfig().maxSupply,
+      blockSubsidy: this.rewardSchedule.getBlockSubsidy(height + 1),
+      nextHalvingHeight: this.rewardSchedule.getNextHalvingHeight(height),
+    };
+  }
+
+  /**
+   * Clock adjusted by peers' reported times, used for block timestamps and
+   * lock time checks
+   */
+  getNetworkTime(): NetworkTime {
+    return this.networkTime;
+  }
+
+  /**
+   * State of every soft fork deployment for the next block, with the
+   * signalling progress of the current window
+   */
+  getDeploymentStatus(): DeploymentStatus[] {
+    return this.deployments.getStatus(this.blocks);
   }
 
-  getMiningReward(): number {
-    return this.miningReward;
+  /**
+   * Whether a soft fork's rules apply to the main chain block at a height,
+   * the next block by default. Rules introduced by a deployment are gated
+   * on this.
+   */
+  isDeploymentActive(
+    name: string,
+    height: number = this.blocks.length
+  ): boolean {
+    return this.deployments.isActive(name, this.blocks, height);
   }
 
   // Persistence-aware methods (UTXO-focused)
@@ -635,11 +2098,11 @@ export class Blockchain {
       const state: UTXOBlockchainState = {
         blocks: this.blocks,
         utxoSet: this.utxoManager.getUTXOSetSnapshot(),
-        pendingUTXOTransactions: this.pendingUTXOTransactions,
+        pendingUTXOTransactions: this.mempool.getTransactions(),
         difficulty: this.difficulty,
-        miningReward: this.miningReward,
+        miningReward: this.getMiningReward(),
         latestBlockIndex: this.blocks.length - 1,
-        utxoRootHash: this.calculateUTXORootHash(),
+        utxoRootHash: this.utxoManager.getUTXORoot(),
         cryptographicKeys: new Map(),
       };
 
@@ -658,20 +2121,29 @@ export class Blockchain {
     }
 
     try {
-      // Load existing blockchain state
+      // Load existing blockchain state once queued chain writes have landed
+      await this.pendingWrites;
       const loadedState = await this.persistence.loadBlockchainState();
       if (loadedState && loadedState.blocks.length > 0) {
         // Load the blockchain state
         this.blocks = loadedState.blocks;
+        this.rebuildBlockTree();
+        await this.restoreHeaderTree();
         this.difficulty = loadedState.difficulty;
-        this.miningReward = loadedState.miningReward;
-        this.pendingUTXOTransactions = loadedState.pendingUTXOTransactions;
+        this.restorePruneState(loadedState);
+        await this.restoreSnapshotValidation();
 
         // Rebuild UTXO manager from loaded state
         this.utxoManager = new UTXOManager();
+        this.mempoolUTXOView = new MempoolUTXOView(
+          this.utxoManager,
+          this.mempool
+        );
         for (const [, utxo] of loadedState.utxoSet) {
           this.utxoManager.addUTXO(utxo);
         }
+        this.mempool.clear();
+        this.restoreMempool(loadedState.pendingUTXOTransactions);
 
         this.logger.debug(
           `Loaded blockchain state with ${this.blocks.length} blocks`
@@ -685,6 +2157,623 @@ export class Blockchain {
     }
   }
 
+  // Pruned node support
+  getPruneState(): PruneState {
+    return { ...this.pruneState };
+  }
+
+  isBlockPruned(index: number): boolean {
+    return index < this.pruneState.pruneHeight;
+  }
+
+  /**
+   * Discard block bodies beyond the persistence prune target, leaving
+   * header-only blocks in their place, and emit 'prune' when any go
+   */
+  private async pruneBlockStore(): Promise<void> {
+    const state = await this.persistence!.pruneBlocks(this.blocks.length - 1);
+    if (state.pruneHeight <= this.pruneState.pruneHeight) {
+      return;
+    }
+
+    for (let i = this.pruneState.pruneHeight; i < state.pruneHeight; i++) {
+      this.blocks[i] = { ...this.blocks[i], transactions: [] };
+    }
+    this.pruneState = state;
+    this.emit('prune', { ...state });
+  }
+
+  private restorePruneState(loadedState: UTXOBlockchainState): void {
+    const pruneHeight = loadedState.pruneHeight ?? 0;
+    this.pruneState = { pruned: pruneHeight > 0, pruneHeight };
+  }
+
+  // UTXO snapshots
+  /**
+   * UTXO set at a main chain height with the headers leading to it, rolled
+   * back from the tip with block undo data
+   * @throws if a block above the height has no undo data left
+   */
+  async createUTXOSnapshot(
+    height: number = this.getLatestBlock().index
+  ): Promise<UTXOSnapshot> {
+    const tip = this.getLatestBlock().index;
+    if (!Number.isInteger(height) || height < 0 || height > tip) {
+      throw new Error(`Snapshot height ${height} is not on the main chain`);
+    }
+
+    const utxoManager = new UTXOManager();
+    for (const utxo of this.utxoManager.getUTXOSetSnapshot().values()) {
+      utxoManager.addUTXO(utxo);
+    }
+    for (let i = tip; i > height; i--) {
+      const undo = await this.getBlockUndoRecord(this.blocks[i]);
+      if (!undo) {
+        throw new Error(
+          `Cannot create a UTXO snapshot at height ${height}: no undo data available for block ${i}`
+        );
+      }
+      utxoManager.applyUTXOUpdates(undo.spentUTXOs, undo.createdUTXOs);
+    }
+
+    const utxos = UTXOCommitment.sortUTXOs(
+      utxoManager.getUTXOSetSnapshot().values()
+    );
+    return {
+      chainId: this.getChainId(),
+      height,
+      blockHash: this.blocks[height].hash,
+      utxoRoot: UTXOCommitment.calculateRoot(utxos),
+      headers: this.blocks
+        .slice(0, height + 1)
+        .map(
+          block =>
+            this.headerChain.getHeader(block.hash) ??
+            BlockManager.createBlockHeader(block)
+        ),
+      utxos,
+    };
+  }
+
+  /**
+   * Write a UTXO snapshot file other nodes can bootstrap from
+   * @returns the snapshot hash, as pinned in genesis configs
+   */
+  async exportUTXOSnapshot(path: string, height?: number): Promise<string> {
+    const snapshot = await this.createUTXOSnapshot(height);
+    const hash = await UTXOSnapshotFile.write(path, snapshot);
+    this.logger.debug(
+      `Exported UTXO snapshot at height ${snapshot.height} with ${snapshot.utxos.length} UTXOs`
+    );
+    return hash;
+  }
+
+  /**
+   * Bootstrap a chain still at genesis from a UTXO snapshot file. The
+   * snapshot is trusted if its hash is pinned in the genesis config at its
+   * height, or else if its block commits to its UTXO root; its headers must
+   * form a valid chain from genesis either way. Blocks below the snapshot
+   * are then checked in the background as they are passed to
+   * validateSnapshotBlock.
+   */
+  async importUTXOSnapshot(path: string): Promise<ValidationResult> {
+    let file: { snapshot: UTXOSnapshot; hash: string };
+    try {
+      file = await UTXOSnapshotFile.read(path);
+    } catch (error) {
+      return {
+        isValid: false,
+        errors: [`Failed to read UTXO snapshot: ${(error as Error).message}`],
+      };
+    }
+
+    const errors = this.verifyUTXOSnapshot(file.snapshot, file.hash);
+    if (errors.length > 0) {
+      return { isValid: false, errors };
+    }
+
+    await this.applyUTXOSnapshot(file.snapshot, file.hash);
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Progress of checking the imported UTXO snapshot against historical
+   * blocks
+   * @returns null if the chain was not bootstrapped from a snapshot
+   */
+  getSnapshotValidation(): SnapshotValidationStatus | null {
+    return this.snapshotValidation
+      ? { ...this.snapshotValidation.status }
+      : null;
+  }
+
+  /**
+   * Headers of the historical blocks background validation needs next,
+   * oldest first
+   */
+  getSnapshotBlocksToValidate(limit: number = 16): BlockHeader[] {
+    const validation = this.snapshotValidation;
+    if (!validation?.utxoManager) {
+      return [];
+    }
+
+    const from = validation.status.validatedHeight + 1;
+    return this.blocks
+      .slice(from, Math.min(from + limit, validation.snapshot.height + 1))
+      .map(
+        block =>
+          this.headerChain.getHeader(block.hash) ??
+          BlockManager.createBlockHeader(block)
+      );
+  }
+
+  /**
+   * Connect the next historical block below the imported snapshot to the
+   * background UTXO set. A block that fails validation invalidates the
+   * snapshot, as does a different UTXO root once the snapshot height is
+   * reached; 'snapshotValidated' or 'snapshotInvalid' is emitted with the
+   * final status.
+   * @param utxoTransactions - the block's transactions in UTXO form
+   */
+  async validateSnapshotBlock(
+    block: Block,
+    utxoTransactions: UTXOTransaction[] = []
+  ): Promise<ValidationResult> {
+    const validation = this.snapshotValidation;
+    const utxoManager = validation?.utxoManager;
+    if (!validation || !utxoManager) {
+      return {
+        isValid: false,
+        errors: ['No UTXO snapshot is being validated'],
+      };
+    }
+
+    const expected = this.blocks[validation.status.validatedHeight + 1];
+    if (block.hash !== expected.hash) {
+      return {
+        isValid: false,
+        errors: [
+          `Expected block ${expected.index} (${expected.hash}), got ${block.hash}`,
+        ],
+      };
+    }
+
+    const parentChain = this.blocks.slice(0, block.index);
+    const options = this.getValidationOptions(block);
+    const result = this.consensus.validateBlock(block, parentChain, options);
+    this.validateBlockTimestamp(block, parentChain, result);
+    this.validateBlockSize(block, result);
+    this.validateCoinbase(block, result, utxoTransactions);
+    if (result.isValid) {
+      try {
+        this.processBlockUTXOs(
+          block,
+          utxoTransactions,
+          utxoManager,
+          true,
+          options
+        );
+        const utxoRootError = this.checkUTXORoot(
+          block,
+          parentChain,
+          utxoManager
+        );
+        if (utxoRootError) {
+          throw new Error(utxoRootError);
+        }
+      } catch (error) {
+        result.errors.push((error as Error).message);
+        result.isValid = false;
+      }
+    }
+
+    if (!result.isValid) {
+      await this.finishSnapshotValidation(result.errors[0]);
+      return result;
+    }
+
+    validation.status.validatedHeight = block.index;
+    if (block.index === validation.snapshot.height) {
+      const utxoRoot = utxoManager.getUTXORoot();
+      if (utxoRoot !== validation.snapshot.utxoRoot) {
+        const error = `Historical blocks produce UTXO root ${utxoRoot}, not the snapshot root ${validation.snapshot.utxoRoot}`;
+        await this.finishSnapshotValidation(error);
+        return { isValid: false, errors: [error] };
+      }
+      await this.finishSnapshotValidation();
+    }
+    return result;
+  }
+
+  /**
+   * Check a snapshot against this chain's genesis block, checkpoints and
+   * trusted snapshot hashes. A snapshot missing from the genesis config's
+   * pins must be committed to by its block, and that block must be vouched
+   * for by a checkpoint.
+   * @returns the reasons the snapshot cannot be imported, if any
+   */
+  private verifyUTXOSnapshot(snapshot: UTXOSnapshot, hash: string): string[] {
+    if (this.blocks.length > 1) {
+      return ['UTXO snapshots can only be imported into a chain at genesis'];
+    }
+    if (snapshot.chainId !== this.getChainId()) {
+      return [
+        `Snapshot is for chain ${snapshot.chainId}, not ${this.getChainId()}`,
+      ];
+    }
+
+    const { headers, height } = snapshot;
+    if (
+      height < 1 ||
+      headers.length !== height + 1 ||
+      headers.some((header, i) => header.index !== i) ||
+      headers[0].hash !== this.blocks[0].hash
+    ) {
+      return [
+        `Snapshot must include every header from genesis to height ${height}`,
+      ];
+    }
+    if (headers[height].hash !== snapshot.blockHash) {
+      return [
+        `Snapshot block ${snapshot.blockHash} does not match its header at height ${height}`,
+      ];
+    }
+
+    const headerChain = this.createHeaderChain();
+    const headerResult = headerChain.addHeaders(headers.slice(1));
+    if (!headerResult.isValid) {
+      return headerResult.errors;
+    }
+
+    const utxoRoot = UTXOCommitment.calculateRoot(snapshot.utxos);
+    if (utxoRoot !== snapshot.utxoRoot) {
+      return [
+        `Snapshot UTXO set root ${utxoRoot} does not match its recorded root ${snapshot.utxoRoot}`,
+      ];
+    }
+    const committedRoot = headers[height].utxoRoot;
+    if (
+      committedRoot === undefined &&
+      this.deployments.isActive(UTXO_COMMITMENT_DEPLOYMENT, headers, height)
+    ) {
+      return [`Snapshot header at height ${height} is missing its UTXO root`];
+    }
+    if (committedRoot !== undefined && committedRoot !== utxoRoot) {
+      return [
+        `Snapshot UTXO root ${utxoRoot} does not match the root ${committedRoot} committed at height ${height}`,
+      ];
+    }
+
+    const pinned = this.genesisConfig?.networkParams.assumeUTXO?.find(
+      checkpoint => checkpoint.height === height
+    );
+    if (pinned) {
+      return pinned.hash === hash
+        ? []
+        : [
+            `Snapshot hash ${hash} does not match the hash pinned at height ${height}`,
+          ];
+    }
+    if (committedRoot === undefined) {
+      return [
+        `Snapshot at height ${height} is neither pinned in the genesis config nor committed to by its block`,
+      ];
+    }
+    if (!this.isBuriedByCheckpoint(height, snapshot.blockHash)) {
+      return [
+        `Snapshot at height ${height} is neither pinned in the genesis config nor an ancestor of a checkpoint on the best header chain`,
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Whether a block is a checkpoint or the assume-valid block, or an
+   * ancestor of one on the best header chain. Headers supplied with a
+   * snapshot prove nothing by themselves, as anyone can build a chain of
+   * valid headers with little work. The best header chain carries the most
+   * work this node has seen and is held to the configured checkpoints.
+   */
+  private isBuriedByCheckpoint(height: number, hash: string): boolean {
+    return this.checkpoints
+      .getCheckpoints()
+      .some(
+        checkpoint =>
+          (checkpoint.height === height && checkpoint.hash === hash) ||
+          (checkpoint.height > height &&
+            this.headerChain.getHeaderAt(checkpoint.height)?.hash ===
+              checkpoint.hash &&
+            this.headerChain.getAncestor(checkpoint.hash, height)?.hash ===
+              hash)
+      );
+  }
+
+  /**
+   * Replace the chain with a verified snapshot: header-only blocks up to
+   * the snapshot height and its UTXO set
+   */
+  private async applyUTXOSnapshot(
+    snapshot: UTXOSnapshot,
+    hash: string
+  ): Promise<void> {
+    if (this.miner.isMining()) {
+      this.miner.cancel();
+    }
+
+    this.blocks = [
+      this.blocks[0],
+      ...snapshot.headers
+        .slice(1)
+        .map(header => BlockManager.createPrunedBlock(header)),
+    ];
+    this.rebuildBlockTree();
+    this.pruneState = { pruned: true, pruneHeight: snapshot.height + 1 };
+    if (this.consensus.type === 'pow') {
+      this.difficulty = this.getLatestBlock().difficulty;
+    }
+
+    this.utxoManager = new UTXOManager();
+    this.mempoolUTXOView = new MempoolUTXOView(this.utxoManager, this.mempool);
+    for (const utxo of snapshot.utxos) {
+      this.utxoManager.addUTXO(utxo);
+    }
+    const pendingTransactions = this.mempool.getTransactions();
+    this.mempool.clear();
+    this.restoreMempool(pendingTransactions);
+
+    await this.queueChainWrite(async persistence => {
+      await persistence.importUTXOSnapshot(snapshot, hash);
+    });
+
+    this.startSnapshotValidation({
+      height: snapshot.height,
+      blockHash: snapshot.blockHash,
+      utxoRoot: snapshot.utxoRoot,
+      hash,
+      validated: false,
+    });
+    this.logger.debug(
+      `Imported UTXO snapshot at height ${snapshot.height} with ${snapshot.utxos.length} UTXOs`
+    );
+  }
+
+  /**
+   * Begin checking a snapshot from the genesis allocations up
+   */
+  private startSnapshotValidation(snapshot: ImportedUTXOSnapshot): void {
+    const utxoManager = new UTXOManager();
+    this.initializeUTXOFromGenesisConfig(
+      this.blocks[0],
+      this.genesisConfig!,
+      utxoManager
+    );
+    this.snapshotValidation = {
+      snapshot,
+      status: {
+        height: snapshot.height,
+        blockHash: snapshot.blockHash,
+        state: 'validating',
+        validatedHeight: 0,
+      },
+      utxoManager,
+    };
+  }
+
+  private async finishSnapshotValidation(error?: string): Promise<void> {
+    const validation = this.snapshotValidation!;
+    delete validation.utxoManager;
+
+    if (error) {
+      validation.status.state = 'invalid';
+      validation.status.error = error;
+      this.logger.error(
+        `UTXO snapshot at height ${validation.snapshot.height} failed validation: ${error}`
+      );
+      this.emit('snapshotInvalid', { ...validation.status });
+      return;
+    }
+
+    validation.status.state = 'valid';
+    validation.snapshot.validated = true;
+    const snapshot = { ...validation.snapshot };
+    await this.queueChainWrite(async persistence => {
+      await persistence.saveImportedUTXOSnapshot(snapshot);
+    });
+    this.emit('snapshotValidated', { ...validation.status });
+  }
+
+  /**
+   * Resume checking an imported snapshot after a restart. The background
+   * UTXO set is not stored, so validation starts again from genesis.
+   */
+  private async restoreSnapshotValidation(): Promise<void> {
+    const snapshot = await this.persistence!.getImportedUTXOSnapshot();
+    if (
+      !snapshot ||
+      this.blocks[snapshot.height]?.hash !== snapshot.blockHash
+    ) {
+      this.snapshotValidation = undefined;
+      return;
+    }
+
+    if (!snapshot.validated) {
+      this.startSnapshotValidation(snapshot);
+      return;
+    }
+    this.snapshotValidation = {
+      snapshot,
+      status: {
+        height: snapshot.height,
+        blockHash: snapshot.blockHash,
+        state: 'valid',
+        validatedHeight: snapshot.height,
+      },
+    };
+  }
+
+  // Block bundles
+  /**
+   * Main chain blocks in a height range with their transactions in UTXO
+   * form, taken from block undo data, and the current pending pool
+   * @throws if a block in the range is pruned or has no undo data left
+   */
+  async createBlockBundle(
+    fromHeight: number,
+    toHeight: number = this.getLatestBlock().index
+  ): Promise<BlockBundle> {
+    if (
+      !Number.isInteger(fromHeight) ||
+      !Number.isInteger(toHeight) ||
+      fromHeight < 0 ||
+      fromHeight > toHeight ||
+      toHeight > this.getLatestBlock().index
+    ) {
+      throw new Error(
+        `Bundle range ${fromHeight}-${toHeight} is not on the main chain`
+      );
+    }
+    if (fromHeight < this.pruneState.pruneHeight) {
+      throw new Error(
+        `Cannot bundle blocks below height ${this.pruneState.pruneHeight}: block bodies have been pruned`
+      );
+    }
+
+    const blocks = this.blocks.slice(fromHeight, toHeight + 1);
+    const utxoTransactions: UTXOTransaction[] = [];
+    // Genesis allocations are created from the genesis config, not undo data
+    for (const block of blocks.filter(block => block.index > 0)) {
+      const undo = await this.getBlockUndoRecord(block);
+      if (!undo) {
+        throw new Error(
+          `Cannot bundle block ${block.index}: no undo data available`
+        );
+      }
+      utxoTransactions.push(...undo.utxoTransactions);
+    }
+
+    return {
+      chainId: this.getChainId(),
+      fromHeight,
+      toHeight,
+      createdAt: Date.now(),
+      blocks,
+      utxoTransactions,
+      pendingTransactions: this.mempool.getTransactions(),
+    };
+  }
+
+  /**
+   * Signed, compressed archive of a block range and the pending pool for
+   * carrying to offline nodes on removable media
+   */
+  async exportBlockBundle(
+    fromHeight: number,
+    toHeight: number,
+    keyPair: KeyPair
+  ): Promise<Uint8Array> {
+    const bundle = await this.createBlockBundle(fromHeight, toHeight);
+    const data = BlockBundleFile.encode(bundle, keyPair);
+    this.logger.debug(
+      `Exported blocks ${fromHeight}-${toHeight} and ${bundle.pendingTransactions.length} pending transactions in a ${data.length} byte bundle`
+    );
+    return data;
+  }
+
+  /**
+   * Feed a block bundle through normal block validation, skipping blocks
+   * already known and stopping at the first rejected one, then offer its
+   * pending transactions to the pending pool
+   * @param trustedSigners - addresses whose bundles are accepted; nothing
+   * is accepted while the list is empty
+   */
+  async importBlockBundle(
+    data: Uint8Array,
+    trustedSigners: string[]
+  ): Promise<BlockBundleImportResult> {
+    const result: BlockBundleImportResult = {
+      isValid: true,
+      errors: [],
+      blocksAdded: 0,
+      blocksKnown: 0,
+      transactionsAdded: 0,
+    };
+    if (trustedSigners.length === 0) {
+      return {
+        ...result,
+        isValid: false,
+        errors: ['No trusted block bundle signers are configured'],
+      };
+    }
+
+    let bundle: BlockBundle;
+    try {
+      const decoded = BlockBundleFile.decode(data, trustedSigners);
+      bundle = decoded.bundle;
+      result.signer = decoded.signer;
+    } catch (error) {
+      return {
+        ...result,
+        isValid: false,
+        errors: [`Failed to read block bundle: ${(error as Error).message}`],
+      };
+    }
+
+    if (bundle.chainId !== this.getChainId()) {
+      return {
+        ...result,
+        isValid: false,
+        errors: [
+          `Block bundle is for chain ${bundle.chainId}, not ${this.getChainId()}`,
+        ],
+      };
+    }
+
+    for (const block of bundle.blocks) {
+      if (this.blockTree.has(block.hash)) {
+        result.blocksKnown++;
+        continue;
+      }
+      const validation = await this.addBlock(block, bundle.utxoTransactions);
+      if (!validation.isValid) {
+        result.isValid = false;
+        result.errors.push(
+          ...validation.errors.map(
+            error => `Block ${block.index} (${block.hash}): ${error}`
+          )
+        );
+        return result;
+      }
+      result.blocksAdded++;
+    }
+
+    for (const tx of bundle.pendingTransactions) {
+      if (this.mempool.has(tx.id)) {
+        continue;
+      }
+      // Transactions confirmed or spent since export fail validation here
+      if ((await this.addUTXOTransaction(tx)).isValid) {
+        result.transactionsAdded++;
+      }
+    }
+
+    this.logger.debug(
+      `Imported block bundle from ${result.signer}: ${result.blocksAdded} blocks added, ${result.blocksKnown} known, ${result.transactionsAdded} pending transactions added`
+    );
+    return result;
+  }
+
+  /**
+   * Undo record of a main chain block from memory or persistence
+   */
+  private async getBlockUndoRecord(
+    block: Block
+  ): Promise<BlockUndoRecord | null> {
+    const undo =
+      this.blockUndo.get(block.hash) ??
+      (await this.persistence?.getBlockUndo(block.index));
+    return undo?.blockHash === block.hash ? undo : null;
+  }
+
   // UTXO-focused storage queries
   async getBlockByIndex(index: number): Promise<Block | null> {
     if (this.persistence) {
@@ -697,7 +2786,7 @@ export class Blockchain {
     // First check in-memory blocks
     for (const block of this.blocks) {
       if (block.hash === hash) {
-        return block;
+        return this.isBlockPruned(block.index) ? null : block;
       }
     }
 
@@ -708,7 +2797,7 @@ export class Blockchain {
 
   async getUTXOTransactionById(id: string): Promise<UTXOTransaction | null> {
     // First check pending transactions
-    const pendingTx = this.pendingUTXOTransactions.find(tx => tx.id === id);
+    const pendingTx = this.mempool.get(id);
     if (pendingTx) {
       return pendingTx;
     }
@@ -728,6 +2817,42 @@ export class Blockchain {
     return this.utxoManager.getUTXOsForAddress(address);
   }
 
+  /**
+   * Which optional persistent indexes are maintained
+   */
+  getIndexes(): { txIndex: boolean; addressIndex: boolean } {
+    return (
+      this.persistence?.getIndexes() ?? { txIndex: false, addressIndex: false }
+    );
+  }
+
+  /**
+   * Find a confirmed transaction through the transaction index
+   */
+  async getTransactionLocation(
+    txId: string
+  ): Promise<TransactionLocation | null> {
+    if (!this.persistence) {
+      throw new Error('Transaction index is not enabled');
+    }
+    return await this.persistence.getTransactionLocation(txId);
+  }
+
+  /**
+   * Page through an address's confirmed transactions through the address
+   * index, newest first
+   */
+  async getAddressHistory(
+    address: string,
+    offset?: number,
+    limit?: number
+  ): Promise<AddressHistory> {
+    if (!this.persistence) {
+      throw new Error('Address index is not enabled');
+    }
+    return await this.persistence.getAddressHistory(address, offset, limit);
+  }
+
   async getBalanceFromStorage(address: string): Promise<number> {
     const utxos = await this.getUTXOsForAddress(address);
     return utxos.reduce((total, utxo) => total + utxo.value, 0);
@@ -798,18 +2923,10 @@ export class Blockchain {
     );
   }
 
-  // Utility methods
-  private calculateUTXORootHash(): string {
-    // Simple hash calculation for UTXO set root
-    // In a full implementation, this would be a proper merkle root
-    const utxoSet = this.utxoManager.getUTXOSetSnapshot();
-    const utxoKeys = Array.from(utxoSet.keys()).sort();
-    return CryptographicService.hashMessage(utxoKeys.join('')).toString();
-  }
-
   // Configuration methods
   setAutoSave(enabled: boolean): void {
     this.autoSave = enabled;
+    this.mempool.setPersistenceEnabled(enabled);
     this.logger.debug(`Auto-save ${enabled ? 'enabled' : 'disabled'}`);
   }
 
@@ -823,7 +2940,10 @@ export class Blockchain {
 
   // Cleanup
   async close(): Promise<void> {
+    this.miner.cancel();
     if (this.persistence) {
+      await this.pendingWrites;
+      await this.mempool.flush();
       await this.persistence.close();
       this.logger.debug('Blockchain persistence closed');
     }
@@ -853,17 +2973,23 @@ export class Blockchain {
    */
   shouldAdjustDifficulty(): boolean {
     const nextBlockHeight = this.getLatestBlock().index + 1;
-    return this.difficultyManager.shouldAdjustDifficulty(nextBlockHeight);
+    return this.difficultyAlgorithm.shouldRetarget(nextBlockHeight);
   }
 
   /**
    * Get current difficulty state
    */
   getDifficultyState(): DifficultyState {
-    return this.difficultyManager.getDifficultyState(
+    const state = this.difficultyManager.getDifficultyState(
       this.blocks,
       this.difficulty
     );
+    if (this.difficultyAlgorithm.type === 'lwma') {
+      // LWMA retargets on every block
+      state.nextDifficulty = this.getNextDifficulty();
+      state.adjustmentHeight = this.getLatestBlock().index + 1;
+    }
+    return state;
   }
 
   /**
@@ -877,10 +3003,28 @@ export class Blockchain {
    * Get next difficulty (what it would be if adjusted now)
    */
   getNextDifficulty(): number {
-    if (this.shouldAdjustDifficulty()) {
-      return this.calculateNextDifficulty();
-    }
-    return this.difficulty;
+    return this.getNextBlockDifficulty().difficulty;
+  }
+
+  /**
+   * Difficulty and target of the block extending the tip
+   */
+  private getNextBlockDifficulty(): BlockDifficulty {
+    return this.difficultyAlgorithm.getNextDifficulty(
+      this.blocks,
+      this.difficulty
+    );
+  }
+
+  /**
+   * Rebuild the retarget rule on the current difficulty manager
+   */
+  private updateDifficultyAlgorithm(): void {
+    this.difficultyAlgorithm = DifficultyAlgorithmFactory.create(
+      this.difficultyAlgorithmType,
+      this.difficultyManager,
+      this.difficultyWindow
+    );
   }
 
   /**
@@ -899,6 +3043,7 @@ export class Blockchain {
       minDifficulty: 1,
       maxDifficulty: Math.pow(2, 32),
     });
+    this.updateDifficultyAlgorithm();
   }
 
   /**
@@ -924,6 +3069,7 @@ export class Blockchain {
       minDifficulty: 1,
       maxDifficulty: Math.pow(2, 32),
     });
+    this.updateDifficultyAlgorithm();
   }
 
   /**
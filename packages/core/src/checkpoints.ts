@@ -0,0 +1,96 @@
+import type { Block, Checkpoint, GenesisConfig } from './types.js';
+import type { HeaderChain } from './header-chain.js';
+
+export interface CheckpointConfig {
+  checkpoints: Checkpoint[]; // Blocks every valid chain must contain
+  assumeValid?: Checkpoint; // Block whose ancestors skip signature checks
+}
+
+/**
+ * Hard-coded checkpoints and the assume-valid block of a network.
+ *
+ * A chain that holds a different block at a checkpoint height is invalid,
+ * and no fork may start below a checkpoint the main chain has passed.
+ * Ancestors of the assume-valid block have their signatures trusted rather
+ * than verified. The assume-valid block is enforced like a checkpoint, so a
+ * chain accepted without those checks can only grow past its height by
+ * containing it.
+ */
+export class ChainCheckpoints {
+  private checkpoints: Map<number, string> = new Map();
+  private assumeValid?: Checkpoint;
+
+  constructor(config?: Partial<CheckpointConfig>) {
+    for (const checkpoint of config?.checkpoints ?? []) {
+      this.checkpoints.set(checkpoint.height, checkpoint.hash);
+    }
+    if (config?.assumeValid) {
+      this.assumeValid = { ...config.assumeValid };
+      this.checkpoints.set(config.assumeValid.height, config.assumeValid.hash);
+    }
+  }
+
+  static fromGenesisConfig(config: GenesisConfig): ChainCheckpoints {
+    return new ChainCheckpoints({
+      checkpoints: config.networkParams.checkpoints ?? [],
+      assumeValid: config.networkParams.assumeValid,
+    });
+  }
+
+  /**
+   * All enforced checkpoints, including the assume-valid block, by height
+   */
+  getCheckpoints(): Checkpoint[] {
+    return [...this.checkpoints.entries()]
+      .map(([height, hash]) => ({ height, hash }))
+      .sort((a, b) => a.height - b.height);
+  }
+
+  getAssumeValid(): Checkpoint | undefined {
+    return this.assumeValid ? { ...this.assumeValid } : undefined;
+  }
+
+  /**
+   * Error describing how the block conflicts with a checkpoint, or null
+   */
+  checkBlock(block: Pick<Block, 'index' | 'hash'>): string | null {
+    const expectedHash = this.checkpoints.get(block.index);
+    if (expectedHash !== undefined && expectedHash !== block.hash) {
+      return `Block ${block.index} conflicts with checkpoint ${expectedHash}`;
+    }
+    return null;
+  }
+
+  /**
+   * Highest checkpoint at or below the given height
+   */
+  getLastCheckpoint(height: number): Checkpoint | null {
+    let last: Checkpoint | null = null;
+    for (const [checkpointHeight, hash] of this.checkpoints) {
+      if (
+        checkpointHeight <= height &&
+        (!last || checkpointHeight > last.height)
+      ) {
+        last = { height: checkpointHeight, hash };
+      }
+    }
+    return last;
+  }
+
+  /**
+   * Whether signatures of a block are assumed valid: the assume-valid
+   * header must be known and the block must be one of its ancestors
+   */
+  shouldSkipSignatures(
+    block: Pick<Block, 'index' | 'hash'>,
+    headers: Pick<HeaderChain, 'getAncestor'>
+  ): boolean {
+    if (!this.assumeValid || block.index >= this.assumeValid.height) {
+      return false;
+    }
+    return (
+      headers.getAncestor(this.assumeValid.hash, block.index)?.hash ===
+      block.hash
+    );
+  }
+}
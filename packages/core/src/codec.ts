@@ -0,0 +1,937 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type {
+  Block,
+  BlockBundle,
+  BlockBundleArchive,
+  BlockHeader,
+  SignerVote,
+  Transaction,
+  TransactionInput,
+  TransactionOutput,
+  UTXO,
+  UTXOSnapshot,
+  UTXOTransaction,
+} from './types.js';
+
+/**
+ * Canonical binary codec for transactions, block headers, blocks, UTXOs,
+ * UTXO snapshots and block bundles, and for the preimages hashed into block
+ * hashes, transaction IDs and signature hashes.
+ *
+ * Every encoding starts with two bytes: the codec version and a type tag.
+ * The body is a fixed sequence of fields using these primitives:
+ *   - varuint: unsigned LEB128 integer (up to Number.MAX_SAFE_INTEGER);
+ *              also UTXO output values and fees, in base units
+ *   - f64:     IEEE-754 double, big-endian (legacy transaction amounts)
+ *   - bytes:   varuint length followed by the raw bytes
+ *   - string:  UTF-8 bytes, length-prefixed like `bytes`
+ *   - hexref:  one tag byte (0 = raw bytes of a lowercase hex string,
+ *              1 = UTF-8 string) followed by `bytes`; used for IDs, hashes
+ *              and signatures so that hex values travel at half size
+ *   - option:  one presence byte (0 or 1) followed by the value if present
+ * Lists are a varuint count followed by the items. Block transactions are
+ * individually length-prefixed so a reader can skip them.
+ *
+ * The same input always produces the same bytes, and decode(encode(x))
+ * returns a value deep-equal to x.
+ */
+export const CODEC_VERSION = 6;
+
+export enum CodecType {
+  UTXO_TRANSACTION = 0x01,
+  BLOCK_HEADER = 0x02,
+  BLOCK = 0x03,
+  TRANSACTION = 0x04,
+  BLOCK_HASH_PREIMAGE = 0x05,
+  UTXO = 0x06,
+  UTXO_SNAPSHOT = 0x07,
+  BLOCK_BUNDLE = 0x08,
+  BLOCK_BUNDLE_ARCHIVE = 0x09,
+  TRANSACTION_ID_PREIMAGE = 0x0a,
+  SIGNATURE_HASH_PREIMAGE = 0x0b,
+}
+
+const HEXREF_HEX = 0x00;
+const HEXREF_UTF8 = 0x01;
+const HEX_PATTERN = /^(?:[0-9a-f]{2})+$/;
+
+class ByteWriter {
+  private chunks: number[] = [];
+
+  writeByte(value: number): void {
+    this.chunks.push(value & 0xff);
+  }
+
+  writeVarUint(value: number, field: string): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new Error(
+        `Cannot encode ${field}: expected a non-negative safe integer, got ${value}`
+      );
+    }
+
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.writeByte(remaining % 0x80 | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.writeByte(remaining);
+  }
+
+  writeFloat64(value: number, field: string): void {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      throw new Error(
+        `Cannot encode ${field}: expected a number, got ${value}`
+      );
+    }
+
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    for (let i = 0; i < 8; i++) {
+      this.writeByte(view.getUint8(i));
+    }
+  }
+
+  writeBytes(bytes: Uint8Array, field: string): void {
+    this.writeVarUint(bytes.length, `${field} length`);
+    for (const byte of bytes) {
+      this.writeByte(byte);
+    }
+  }
+
+  writeString(value: string, field: string): void {
+    if (typeof value !== 'string') {
+      throw new Error(`Cannot encode ${field}: expected a string`);
+    }
+    this.writeBytes(new TextEncoder().encode(value), field);
+  }
+
+  writeHexRef(value: string, field: string): void {
+    if (typeof value === 'string' && HEX_PATTERN.test(value)) {
+      this.writeByte(HEXREF_HEX);
+      this.writeBytes(hexToBytes(value), field);
+    } else {
+      this.writeByte(HEXREF_UTF8);
+      this.writeString(value, field);
+    }
+  }
+
+  writeOptionalString(value: string | undefined, field: string): void {
+    if (value === undefined) {
+      this.writeByte(0);
+    } else {
+      this.writeByte(1);
+      this.writeString(value, field);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  readByte(field: string): number {
+    if (this.offset >= this.data.length) {
+      throw new Error(`Unexpected end of data while reading ${field}`);
+    }
+    return this.data[this.offset++];
+  }
+
+  readVarUint(field: string): number {
+    let result = 0;
+    let multiplier = 1;
+
+    for (;;) {
+      const byte = this.readByte(field);
+      result += (byte & 0x7f) * multiplier;
+      if (!Number.isSafeInteger(result)) {
+        throw new Error(`Varuint overflow while reading ${field}`);
+      }
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      multiplier *= 0x80;
+    }
+  }
+
+  readFloat64(field: string): number {
+    const bytes = this.readRaw(8, field);
+    return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0);
+  }
+
+  readBytes(field: string): Uint8Array {
+    const length = this.readVarUint(`${field} length`);
+    return this.readRaw(length, field);
+  }
+
+  readString(field: string): string {
+    return new TextDecoder('utf-8', { fatal: true }).decode(
+      this.readBytes(field)
+    );
+  }
+
+  readHexRef(field: string): string {
+    const tag = this.readByte(field);
+    if (tag === HEXREF_HEX) {
+      return bytesToHex(this.readBytes(field));
+    }
+    if (tag === HEXREF_UTF8) {
+      return this.readString(field);
+    }
+    throw new Error(`Invalid encoding tag ${tag} for ${field}`);
+  }
+
+  readOptionalString(field: string): string | undefined {
+    const present = this.readByte(field);
+    if (present === 0) {
+      return undefined;
+    }
+    if (present === 1) {
+      return this.readString(field);
+    }
+    throw new Error(`Invalid presence flag ${present} for ${field}`);
+  }
+
+  expectEnd(): void {
+    if (this.offset !== this.data.length) {
+      throw new Error(
+        `Unexpected ${this.data.length - this.offset} trailing bytes`
+      );
+    }
+  }
+
+  private readRaw(length: number, field: string): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error(`Unexpected end of data while reading ${field}`);
+    }
+    const bytes = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
+
+export class BinaryCodec {
+  static encodeUTXOTransaction(transaction: UTXOTransaction): Uint8Array {
+    const writer = this.createWriter(CodecType.UTXO_TRANSACTION);
+    this.writeUTXOTransaction(writer, transaction);
+    return writer.toBytes();
+  }
+
+  static decodeUTXOTransaction(data: Uint8Array): UTXOTransaction {
+    const reader = this.createReader(data, CodecType.UTXO_TRANSACTION);
+    const transaction = this.readUTXOTransaction(reader);
+    reader.expectEnd();
+    return transaction;
+  }
+
+  static encodeTransaction(transaction: Transaction): Uint8Array {
+    const writer = this.createWriter(CodecType.TRANSACTION);
+    this.writeTransaction(writer, transaction);
+    return writer.toBytes();
+  }
+
+  static decodeTransaction(data: Uint8Array): Transaction {
+    const reader = this.createReader(data, CodecType.TRANSACTION);
+    const transaction = this.readTransaction(reader);
+    reader.expectEnd();
+    return transaction;
+  }
+
+  static encodeBlockHeader(header: BlockHeader): Uint8Array {
+    const writer = this.createWriter(CodecType.BLOCK_HEADER);
+    this.writeBlockHeader(writer, header);
+    return writer.toBytes();
+  }
+
+  static decodeBlockHeader(data: Uint8Array): BlockHeader {
+    const reader = this.createReader(data, CodecType.BLOCK_HEADER);
+    const header = this.readBlockHeader(reader);
+    reader.expectEnd();
+    return header;
+  }
+
+  static encodeBlock(block: Block): Uint8Array {
+    const writer = this.createWriter(CodecType.BLOCK);
+    this.writeBlock(writer, block);
+    return writer.toBytes();
+  }
+
+  static decodeBlock(data: Uint8Array): Block {
+    const reader = this.createReader(data, CodecType.BLOCK);
+    const block = this.readBlock(reader);
+    reader.expectEnd();
+    return block;
+  }
+
+  /**
+   * Unspent output as a UTXO set entry
+   */
+  static encodeUTXO(utxo: UTXO): Uint8Array {
+    const writer = this.createWriter(CodecType.UTXO);
+    this.writeUTXO(writer, utxo);
+    return writer.toBytes();
+  }
+
+  static decodeUTXO(data: Uint8Array): UTXO {
+    const reader = this.createReader(data, CodecType.UTXO);
+    const utxo = this.readUTXO(reader);
+    reader.expectEnd();
+    return utxo;
+  }
+
+  /**
+   * The UTXO set at a block with the main chain headers leading to it.
+   * Headers and UTXOs are stored inline, without the per-item prefix of
+   * their own encodings.
+   */
+  static encodeUTXOSnapshot(snapshot: UTXOSnapshot): Uint8Array {
+    const writer = this.createWriter(CodecType.UTXO_SNAPSHOT);
+    writer.writeString(snapshot.chainId, 'chainId');
+    writer.writeVarUint(snapshot.height, 'height');
+    writer.writeHexRef(snapshot.blockHash, 'blockHash');
+    writer.writeHexRef(snapshot.utxoRoot, 'utxoRoot');
+    writer.writeVarUint(snapshot.headers.length, 'header count');
+    for (const header of snapshot.headers) {
+      this.writeBlockHeader(writer, header);
+    }
+    writer.writeVarUint(snapshot.utxos.length, 'UTXO count');
+    for (const utxo of snapshot.utxos) {
+      this.writeUTXO(writer, utxo);
+    }
+    return writer.toBytes();
+  }
+
+  static decodeUTXOSnapshot(data: Uint8Array): UTXOSnapshot {
+    const reader = this.createReader(data, CodecType.UTXO_SNAPSHOT);
+    const chainId = reader.readString('chainId');
+    const height = reader.readVarUint('height');
+    const blockHash = reader.readHexRef('blockHash');
+    const utxoRoot = reader.readHexRef('utxoRoot');
+
+    const headers: BlockHeader[] = [];
+    const headerCount = reader.readVarUint('header count');
+    for (let i = 0; i < headerCount; i++) {
+      headers.push(this.readBlockHeader(reader));
+    }
+    const utxos: UTXO[] = [];
+    const utxoCount = reader.readVarUint('UTXO count');
+    for (let i = 0; i < utxoCount; i++) {
+      utxos.push(this.readUTXO(reader));
+    }
+    reader.expectEnd();
+
+    return { chainId, height, blockHash, utxoRoot, headers, utxos };
+  }
+
+  /**
+   * Main chain blocks with their transactions in UTXO form and the pending
+   * transactions of the node that made the bundle. Blocks and transactions
+   * are stored inline like snapshot entries.
+   */
+  static encodeBlockBundle(bundle: BlockBundle): Uint8Array {
+    const writer = this.createWriter(CodecType.BLOCK_BUNDLE);
+    writer.writeString(bundle.chainId, 'chainId');
+    writer.writeVarUint(bundle.fromHeight, 'fromHeight');
+    writer.writeVarUint(bundle.toHeight, 'toHeight');
+    writer.writeVarUint(bundle.createdAt, 'createdAt');
+    writer.writeVarUint(bundle.blocks.length, 'block count');
+    for (const block of bundle.blocks) {
+      this.writeBlock(writer, block);
+    }
+    writer.writeVarUint(bundle.utxoTransactions.length, 'transaction count');
+    for (const transaction of bundle.utxoTransactions) {
+      this.writeUTXOTransaction(writer, transaction);
+    }
+    writer.writeVarUint(
+      bundle.pendingTransactions.length,
+      'pending transaction count'
+    );
+    for (const transaction of bundle.pendingTransactions) {
+      this.writeUTXOTransaction(writer, transaction);
+    }
+    return writer.toBytes();
+  }
+
+  static decodeBlockBundle(data: Uint8Array): BlockBundle {
+    const reader = this.createReader(data, CodecType.BLOCK_BUNDLE);
+    const chainId = reader.readString('chainId');
+    const fromHeight = reader.readVarUint('fromHeight');
+    const toHeight = reader.readVarUint('toHeight');
+    const createdAt = reader.readVarUint('createdAt');
+
+    const blocks: Block[] = [];
+    const blockCount = reader.readVarUint('block count');
+    for (let i = 0; i < blockCount; i++) {
+      blocks.push(this.readBlock(reader));
+    }
+    const utxoTransactions: UTXOTransaction[] = [];
+    const transactionCount = reader.readVarUint('transaction count');
+    for (let i = 0; i < transactionCount; i++) {
+      utxoTransactions.push(this.readUTXOTransaction(reader));
+    }
+    const pendingTransactions: UTXOTransaction[] = [];
+    const pendingCount = reader.readVarUint('pending transaction count');
+    for (let i = 0; i < pendingCount; i++) {
+      pendingTransactions.push(this.readUTXOTransaction(reader));
+    }
+    reader.expectEnd();
+
+    return {
+      chainId,
+      fromHeight,
+      toHeight,
+      createdAt,
+      blocks,
+      utxoTransactions,
+      pendingTransactions,
+    };
+  }
+
+  /**
+   * Signed container for a compressed block bundle encoding
+   */
+  static encodeBlockBundleArchive(archive: BlockBundleArchive): Uint8Array {
+    const writer = this.createWriter(CodecType.BLOCK_BUNDLE_ARCHIVE);
+    writer.writeString(archive.compression, 'compression');
+    writer.writeVarUint(archive.originalSize, 'originalSize');
+    writer.writeHexRef(archive.publicKey, 'publicKey');
+    writer.writeHexRef(archive.signature, 'signature');
+    writer.writeBytes(archive.payload, 'payload');
+    return writer.toBytes();
+  }
+
+  static decodeBlockBundleArchive(data: Uint8Array): BlockBundleArchive {
+    const reader = this.createReader(data, CodecType.BLOCK_BUNDLE_ARCHIVE);
+    const archive: BlockBundleArchive = {
+      compression: reader.readString('compression'),
+      originalSize: reader.readVarUint('originalSize'),
+      publicKey: reader.readHexRef('publicKey'),
+      signature: reader.readHexRef('signature'),
+      payload: reader.readBytes('payload'),
+    };
+    reader.expectEnd();
+    return archive;
+  }
+
+  /**
+   * Bytes hashed to produce a block hash: every header field except the
+   * hash itself and the signature over it. Transactions are committed to
+   * through the merkle root, and the UTXO set after the block through the
+   * UTXO root.
+   */
+  static encodeBlockHashPreimage(
+    block: Pick<
+      Block,
+      | 'index'
+      | 'timestamp'
+      | 'previousHash'
+      | 'merkleRoot'
+      | 'nonce'
+      | 'difficulty'
+      | 'validator'
+      | 'vote'
+      | 'utxoRoot'
+      | 'version'
+      | 'bits'
+    >
+  ): Uint8Array {
+    const { prefix, suffix } = this.encodeBlockHashPreimageParts(block);
+    const nonceWriter = new ByteWriter();
+    nonceWriter.writeVarUint(block.nonce, 'nonce');
+    const nonce = nonceWriter.toBytes();
+
+    const preimage = new Uint8Array(
+      prefix.length + nonce.length + suffix.length
+    );
+    preimage.set(prefix);
+    preimage.set(nonce, prefix.length);
+    preimage.set(suffix, prefix.length + nonce.length);
+    return preimage;
+  }
+
+  /**
+   * The block hash preimage without its nonce: the preimage is
+   * prefix + varuint(nonce) + suffix, so miners can try nonces without
+   * re-encoding the rest of the header
+   */
+  static encodeBlockHashPreimageParts(
+    block: Pick<
+      Block,
+      | 'index'
+      | 'timestamp'
+      | 'previousHash'
+      | 'merkleRoot'
+      | 'difficulty'
+      | 'validator'
+      | 'vote'
+      | 'utxoRoot'
+      | 'version'
+      | 'bits'
+    >
+  ): { prefix: Uint8Array; suffix: Uint8Array } {
+    const prefix = this.createWriter(CodecType.BLOCK_HASH_PREIMAGE);
+    prefix.writeVarUint(block.index, 'index');
+    prefix.writeVarUint(block.timestamp, 'timestamp');
+    prefix.writeHexRef(block.previousHash, 'previousHash');
+    prefix.writeHexRef(block.merkleRoot, 'merkleRoot');
+
+    const suffix = new ByteWriter();
+    this.writeOptionalVarUint(suffix, block.difficulty, 'difficulty');
+    suffix.writeOptionalString(block.validator, 'validator');
+    this.writeOptionalVote(suffix, block.vote);
+    this.writeOptionalHexRef(suffix, block.utxoRoot, 'utxoRoot');
+    this.writeOptionalVarUint(suffix, block.version, 'version');
+    this.writeOptionalVarUint(suffix, block.bits, 'bits');
+
+    return { prefix: prefix.toBytes(), suffix: suffix.toBytes() };
+  }
+
+  /**
+   * Bytes hashed to produce a transaction ID: its inputs without unlocking
+   * scripts, its outputs, lock time and timestamp. Unlocking scripts are
+   * left out so re-encoding a signature cannot change the ID of an
+   * otherwise identical transaction.
+   */
+  static encodeTransactionIdPreimage(
+    transaction: Pick<
+      UTXOTransaction,
+      'inputs' | 'outputs' | 'lockTime' | 'timestamp'
+    >
+  ): Uint8Array {
+    const writer = this.createWriter(CodecType.TRANSACTION_ID_PREIMAGE);
+    this.writeTransactionCommitment(writer, transaction);
+    return writer.toBytes();
+  }
+
+  /**
+   * Bytes hashed to produce the signature hash of one input: the input's
+   * index, the fields committed to by the transaction ID, the fee, and the
+   * output the input spends. Unlocking scripts and the ID are left out, so
+   * signing an input never changes what other inputs' signatures cover.
+   */
+  static encodeSignatureHashPreimage(
+    transaction: Pick<
+      UTXOTransaction,
+      'inputs' | 'outputs' | 'lockTime' | 'timestamp' | 'fee'
+    >,
+    inputIndex: number,
+    spentOutput: Pick<UTXO, 'lockingScript' | 'value'>
+  ): Uint8Array {
+    const writer = this.createWriter(CodecType.SIGNATURE_HASH_PREIMAGE);
+    writer.writeVarUint(inputIndex, 'inputIndex');
+    this.writeTransactionCommitment(writer, transaction);
+    writer.writeVarUint(transaction.fee, 'fee');
+    writer.writeString(spentOutput.lockingScript, 'spent lockingScript');
+    writer.writeVarUint(spentOutput.value, 'spent value');
+    return writer.toBytes();
+  }
+
+  // Private helper methods
+  private static createWriter(type: CodecType): ByteWriter {
+    const writer = new ByteWriter();
+    writer.writeByte(CODEC_VERSION);
+    writer.writeByte(type);
+    return writer;
+  }
+
+  private static createReader(data: Uint8Array, type: CodecType): ByteReader {
+    const reader = new ByteReader(data);
+    const version = reader.readByte('codec version');
+    if (version !== CODEC_VERSION) {
+      throw new Error(`Unsupported codec version: ${version}`);
+    }
+    const actualType = reader.readByte('codec type');
+    if (actualType !== type) {
+      throw new Error(
+        `Unexpected codec type: expected ${type}, got ${actualType}`
+      );
+    }
+    return reader;
+  }
+
+  private static writeOptionalVarUint(
+    writer: ByteWriter,
+    value: number | undefined,
+    field: string
+  ): void {
+    if (value === undefined) {
+      writer.writeByte(0);
+    } else {
+      writer.writeByte(1);
+      writer.writeVarUint(value, field);
+    }
+  }
+
+  private static readOptionalVarUint(
+    reader: ByteReader,
+    field: string
+  ): number | undefined {
+    const present = reader.readByte(field);
+    if (present === 1) {
+      return reader.readVarUint(field);
+    }
+    if (present !== 0) {
+      throw new Error(`Invalid presence flag ${present} for ${field}`);
+    }
+    return undefined;
+  }
+
+  private static writeBlock(writer: ByteWriter, block: Block): void {
+    writer.writeVarUint(block.index, 'index');
+    writer.writeVarUint(block.timestamp, 'timestamp');
+    writer.writeHexRef(block.previousHash, 'previousHash');
+    writer.writeHexRef(block.merkleRoot, 'merkleRoot');
+    writer.writeHexRef(block.hash, 'hash');
+    writer.writeVarUint(block.nonce, 'nonce');
+    writer.writeVarUint(block.difficulty, 'difficulty');
+    writer.writeOptionalString(block.validator, 'validator');
+    writer.writeOptionalString(block.signature, 'signature');
+    this.writeOptionalVote(writer, block.vote);
+    this.writeOptionalHexRef(writer, block.utxoRoot, 'utxoRoot');
+    this.writeOptionalVarUint(writer, block.version, 'version');
+    this.writeOptionalVarUint(writer, block.bits, 'bits');
+
+    writer.writeVarUint(block.transactions.length, 'transaction count');
+    for (const transaction of block.transactions) {
+      const txWriter = new ByteWriter();
+      this.writeTransaction(txWriter, transaction);
+      writer.writeBytes(txWriter.toBytes(), 'transaction');
+    }
+  }
+
+  private static readBlock(reader: ByteReader): Block {
+    const index = reader.readVarUint('index');
+    const timestamp = reader.readVarUint('timestamp');
+    const previousHash = reader.readHexRef('previousHash');
+    const merkleRoot = reader.readHexRef('merkleRoot');
+    const hash = reader.readHexRef('hash');
+    const nonce = reader.readVarUint('nonce');
+    const difficulty = reader.readVarUint('difficulty');
+    const validator = reader.readOptionalString('validator');
+    const signature = reader.readOptionalString('signature');
+    const vote = this.readOptionalVote(reader);
+    const utxoRoot = this.readOptionalHexRef(reader, 'utxoRoot');
+    const version = this.readOptionalVarUint(reader, 'version');
+    const bits = this.readOptionalVarUint(reader, 'bits');
+
+    const transactions: Transaction[] = [];
+    const count = reader.readVarUint('transaction count');
+    for (let i = 0; i < count; i++) {
+      const txReader = new ByteReader(reader.readBytes('transaction'));
+      transactions.push(this.readTransaction(txReader));
+      txReader.expectEnd();
+    }
+
+    const block: Block = {
+      index,
+      timestamp,
+      transactions,
+      previousHash,
+      hash,
+      nonce,
+      merkleRoot,
+      difficulty,
+    };
+    if (validator !== undefined) {
+      block.validator = validator;
+    }
+    if (signature !== undefined) {
+      block.signature = signature;
+    }
+    if (vote !== undefined) {
+      block.vote = vote;
+    }
+    if (utxoRoot !== undefined) {
+      block.utxoRoot = utxoRoot;
+    }
+    if (version !== undefined) {
+      block.version = version;
+    }
+    if (bits !== undefined) {
+      block.bits = bits;
+    }
+    return block;
+  }
+
+  private static writeBlockHeader(
+    writer: ByteWriter,
+    header: BlockHeader
+  ): void {
+    writer.writeVarUint(header.index, 'index');
+    writer.writeVarUint(header.timestamp, 'timestamp');
+    writer.writeHexRef(header.previousHash, 'previousHash');
+    writer.writeHexRef(header.merkleRoot, 'merkleRoot');
+    writer.writeHexRef(header.hash, 'hash');
+    writer.writeVarUint(header.nonce, 'nonce');
+    writer.writeVarUint(header.transactionCount, 'transactionCount');
+    this.writeOptionalVarUint(writer, header.difficulty, 'difficulty');
+    writer.writeOptionalString(header.validator, 'validator');
+    writer.writeOptionalString(header.signature, 'signature');
+    this.writeOptionalVote(writer, header.vote);
+    this.writeOptionalHexRef(writer, header.utxoRoot, 'utxoRoot');
+    this.writeOptionalVarUint(writer, header.version, 'version');
+    this.writeOptionalVarUint(writer, header.bits, 'bits');
+  }
+
+  private static readBlockHeader(reader: ByteReader): BlockHeader {
+    const header: BlockHeader = {
+      index: reader.readVarUint('index'),
+      timestamp: reader.readVarUint('timestamp'),
+      previousHash: reader.readHexRef('previousHash'),
+      merkleRoot: reader.readHexRef('merkleRoot'),
+      hash: reader.readHexRef('hash'),
+      nonce: reader.readVarUint('nonce'),
+      transactionCount: reader.readVarUint('transactionCount'),
+    };
+
+    const difficulty = this.readOptionalVarUint(reader, 'difficulty');
+    if (difficulty !== undefined) {
+      header.difficulty = difficulty;
+    }
+
+    const validator = reader.readOptionalString('validator');
+    if (validator !== undefined) {
+      header.validator = validator;
+    }
+    const signature = reader.readOptionalString('signature');
+    if (signature !== undefined) {
+      header.signature = signature;
+    }
+    const vote = this.readOptionalVote(reader);
+    if (vote !== undefined) {
+      header.vote = vote;
+    }
+    const utxoRoot = this.readOptionalHexRef(reader, 'utxoRoot');
+    if (utxoRoot !== undefined) {
+      header.utxoRoot = utxoRoot;
+    }
+    const version = this.readOptionalVarUint(reader, 'version');
+    if (version !== undefined) {
+      header.version = version;
+    }
+    const bits = this.readOptionalVarUint(reader, 'bits');
+    if (bits !== undefined) {
+      header.bits = bits;
+    }
+
+    return header;
+  }
+
+  /**
+   * The spent flag is not encoded: entries in the set are always unspent
+   */
+  private static writeUTXO(writer: ByteWriter, utxo: UTXO): void {
+    writer.writeHexRef(utxo.txId, 'txId');
+    writer.writeVarUint(utxo.outputIndex, 'outputIndex');
+    writer.writeVarUint(utxo.value, 'value');
+    writer.writeString(utxo.lockingScript, 'lockingScript');
+    writer.writeVarUint(utxo.blockHeight, 'blockHeight');
+    if (utxo.isCoinbase === undefined) {
+      writer.writeByte(0);
+    } else {
+      writer.writeByte(1);
+      writer.writeByte(utxo.isCoinbase ? 1 : 0);
+    }
+  }
+
+  private static readUTXO(reader: ByteReader): UTXO {
+    const utxo: UTXO = {
+      txId: reader.readHexRef('txId'),
+      outputIndex: reader.readVarUint('outputIndex'),
+      value: reader.readVarUint('value'),
+      lockingScript: reader.readString('lockingScript'),
+      blockHeight: reader.readVarUint('blockHeight'),
+      isSpent: false,
+    };
+
+    const hasCoinbase = reader.readByte('isCoinbase');
+    if (hasCoinbase === 1) {
+      const isCoinbase = reader.readByte('isCoinbase');
+      if (isCoinbase > 1) {
+        throw new Error(`Invalid isCoinbase flag ${isCoinbase}`);
+      }
+      utxo.isCoinbase = isCoinbase === 1;
+    } else if (hasCoinbase !== 0) {
+      throw new Error(`Invalid presence flag ${hasCoinbase} for isCoinbase`);
+    }
+
+    return utxo;
+  }
+
+  private static writeOptionalHexRef(
+    writer: ByteWriter,
+    value: string | undefined,
+    field: string
+  ): void {
+    if (value === undefined) {
+      writer.writeByte(0);
+    } else {
+      writer.writeByte(1);
+      writer.writeHexRef(value, field);
+    }
+  }
+
+  private static readOptionalHexRef(
+    reader: ByteReader,
+    field: string
+  ): string | undefined {
+    const present = reader.readByte(field);
+    if (present === 0) {
+      return undefined;
+    }
+    if (present !== 1) {
+      throw new Error(`Invalid presence flag ${present} for ${field}`);
+    }
+    return reader.readHexRef(field);
+  }
+
+  private static writeOptionalVote(
+    writer: ByteWriter,
+    vote: SignerVote | undefined
+  ): void {
+    if (vote === undefined) {
+      writer.writeByte(0);
+    } else {
+      writer.writeByte(1);
+      writer.writeString(vote.address, 'vote address');
+      writer.writeByte(vote.authorize ? 1 : 0);
+    }
+  }
+
+  private static readOptionalVote(reader: ByteReader): SignerVote | undefined {
+    const present = reader.readByte('vote');
+    if (present === 0) {
+      return undefined;
+    }
+    if (present !== 1) {
+      throw new Error(`Invalid presence flag ${present} for vote`);
+    }
+
+    const address = reader.readString('vote address');
+    const authorize = reader.readByte('vote authorize');
+    if (authorize > 1) {
+      throw new Error(`Invalid vote authorize flag ${authorize}`);
+    }
+    return { address, authorize: authorize === 1 };
+  }
+
+  private static writeUTXOTransaction(
+    writer: ByteWriter,
+    transaction: UTXOTransaction
+  ): void {
+    writer.writeHexRef(transaction.id, 'id');
+
+    writer.writeVarUint(transaction.inputs.length, 'input count');
+    for (const input of transaction.inputs) {
+      writer.writeHexRef(input.previousTxId, 'previousTxId');
+      writer.writeVarUint(input.outputIndex, 'input outputIndex');
+      writer.writeString(input.unlockingScript, 'unlockingScript');
+      writer.writeVarUint(input.sequence, 'sequence');
+    }
+
+    writer.writeVarUint(transaction.outputs.length, 'output count');
+    for (const output of transaction.outputs) {
+      writer.writeVarUint(output.value, 'output value');
+      writer.writeString(output.lockingScript, 'lockingScript');
+      writer.writeVarUint(output.outputIndex, 'output outputIndex');
+    }
+
+    writer.writeVarUint(transaction.lockTime, 'lockTime');
+    writer.writeVarUint(transaction.timestamp, 'timestamp');
+    writer.writeVarUint(transaction.fee, 'fee');
+  }
+
+  /**
+   * Transaction fields shared by the ID and signature hash preimages
+   */
+  private static writeTransactionCommitment(
+    writer: ByteWriter,
+    transaction: Pick<
+      UTXOTransaction,
+      'inputs' | 'outputs' | 'lockTime' | 'timestamp'
+    >
+  ): void {
+    const inputs = transaction.inputs ?? [];
+    writer.writeVarUint(inputs.length, 'input count');
+    for (const input of inputs) {
+      writer.writeHexRef(input.previousTxId, 'previousTxId');
+      writer.writeVarUint(input.outputIndex, 'input outputIndex');
+      writer.writeVarUint(input.sequence, 'sequence');
+    }
+
+    writer.writeVarUint(transaction.outputs.length, 'output count');
+    for (const output of transaction.outputs) {
+      writer.writeVarUint(output.value, 'output value');
+      writer.writeString(output.lockingScript, 'lockingScript');
+      writer.writeVarUint(output.outputIndex, 'output outputIndex');
+    }
+
+    writer.writeVarUint(transaction.lockTime, 'lockTime');
+    writer.writeVarUint(transaction.timestamp, 'timestamp');
+  }
+
+  private static readUTXOTransaction(reader: ByteReader): UTXOTransaction {
+    const id = reader.readHexRef('id');
+
+    const inputCount = reader.readVarUint('input count');
+    const inputs: TransactionInput[] = [];
+    for (let i = 0; i < inputCount; i++) {
+      inputs.push({
+        previousTxId: reader.readHexRef('previousTxId'),
+        outputIndex: reader.readVarUint('input outputIndex'),
+        unlockingScript: reader.readString('unlockingScript'),
+        sequence: reader.readVarUint('sequence'),
+      });
+    }
+
+    const outputCount = reader.readVarUint('output count');
+    const outputs: TransactionOutput[] = [];
+    for (let i = 0; i < outputCount; i++) {
+      outputs.push({
+        value: reader.readVarUint('output value'),
+        lockingScript: reader.readString('lockingScript'),
+        outputIndex: reader.readVarUint('output outputIndex'),
+      });
+    }
+
+    return {
+      id,
+      inputs,
+      outputs,
+      lockTime: reader.readVarUint('lockTime'),
+      timestamp: reader.readVarUint('timestamp'),
+      fee: reader.readVarUint('fee'),
+    };
+  }
+
+  private static writeTransaction(
+    writer: ByteWriter,
+    transaction: Transaction
+  ): void {
+    writer.writeHexRef(transaction.id, 'id');
+    writer.writeString(transaction.from, 'from');
+    writer.writeString(transaction.to, 'to');
+    writer.writeFloat64(transaction.amount, 'amount');
+    writer.writeFloat64(transaction.fee, 'fee');
+    writer.writeVarUint(transaction.timestamp, 'timestamp');
+    writer.writeHexRef(transaction.signature, 'signature');
+    writer.writeVarUint(transaction.nonce, 'nonce');
+  }
+
+  private static readTransaction(reader: ByteReader): Transaction {
+    return {
+      id: reader.readHexRef('id'),
+      from: reader.readString('from'),
+      to: reader.readString('to'),
+      amount: reader.readFloat64('amount'),
+      fee: reader.readFloat64('fee'),
+      timestamp: reader.readVarUint('timestamp'),
+      signature: reader.readHexRef('signature'),
+      nonce: reader.readVarUint('nonce'),
+    };
+  }
+}
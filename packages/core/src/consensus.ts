@@ -0,0 +1,484 @@
+import type {
+  Block,
+  BlockHeader,
+  BlockValidationOptions,
+  ConsensusAlgorithm,
+  GenesisConfig,
+  NetworkNode,
+  SignerVote,
+  ValidationResult,
+} from './types.js';
+import { BlockManager } from './block.js';
+import {
+  CryptographicService,
+  type KeyPair,
+  type SignatureAlgorithm,
+} from './cryptographic.js';
+import { ScriptInterpreter } from './script.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+
+// Simple logger for development
+class SimpleLogger {
+  constructor(private context: string) {}
+  debug(message: string): void {
+    console.log(`[DEBUG] ${this.context}: ${message}`);
+  }
+  warn(message: string): void {
+    console.warn(`[WARN] ${this.context}: ${message}`);
+  }
+  error(message: string): void {
+    console.error(`[ERROR] ${this.context}: ${message}`);
+  }
+}
+
+// Block difficulty of a proof-of-authority block sealed by the signer whose
+// turn it is, and by any other signer. In-turn blocks carry more chain work.
+export const DIFF_IN_TURN = 2;
+export const DIFF_OUT_OF_TURN = 1;
+
+// Upper bound on the bytes a proof-of-authority seal (signature, public key
+// and vote) adds to an encoded block
+const POA_SEAL_SIZE = 256;
+
+// Signer snapshots kept for recently seen blocks
+const MAX_SNAPSHOTS = 128;
+
+// What proof of authority reads from a block, which its header carries too
+type SealedHeader = Pick<
+  BlockHeader,
+  'index' | 'hash' | 'difficulty' | 'validator' | 'signature' | 'vote'
+>;
+
+/**
+ * Miners search for a nonce whose block hash meets the block difficulty.
+ * Difficulty retargeting stays with the Blockchain and DifficultyManager.
+ */
+export class ProofOfWorkConsensus implements ConsensusAlgorithm {
+  readonly type = 'pow';
+  readonly sealSize = 0;
+
+  validateBlock(block: Block, blockchain: Block[]): ValidationResult {
+    return BlockManager.validateBlock(
+      block,
+      blockchain[blockchain.length - 1] ?? null
+    );
+  }
+
+  /**
+   * Any node may mine the next block, so none is designated
+   */
+  selectValidator(): NetworkNode | null {
+    return null;
+  }
+
+  sealBlock(block: Block): Block {
+    return BlockManager.mineBlock(block);
+  }
+}
+
+export interface ProofOfAuthorityConfig {
+  signers: string[]; // Authorized signers at genesis
+  genesisHash: string; // Chain the signer set belongs to
+}
+
+/**
+ * Authorized signer set in effect after a block, with the votes cast so far
+ * on candidates. Each candidate maps voting signers to their vote.
+ */
+interface SignerSnapshot {
+  signers: string[];
+  tally: Map<string, Map<string, boolean>>;
+}
+
+/**
+ * Proof of authority: blocks are signed by an authorized set of signers
+ * instead of mined. Signers take turns in address order; the in-turn signer
+ * seals with DIFF_IN_TURN and any other signer may step in with
+ * DIFF_OUT_OF_TURN, but no signer may seal more than one of any
+ * floor(n / 2) + 1 consecutive blocks. A signer may vote in the blocks it
+ * seals to add or remove a signer; a vote passes once more than half of the
+ * signers agree.
+ */
+export class ProofOfAuthorityConsensus implements ConsensusAlgorithm {
+  readonly type = 'poa';
+  readonly sealSize = POA_SEAL_SIZE;
+
+  private config: ProofOfAuthorityConfig;
+  private signerKey?: { keyPair: KeyPair; address: string };
+  private proposals: Map<string, boolean> = new Map();
+  private snapshots: Map<string, SignerSnapshot> = new Map();
+  private logger = new SimpleLogger('ProofOfAuthorityConsensus');
+
+  constructor(config?: Partial<ProofOfAuthorityConfig>) {
+    this.config = {
+      signers: [],
+      genesisHash: '',
+      ...config,
+    };
+  }
+
+  static fromGenesisConfig(config: GenesisConfig): ProofOfAuthorityConsensus {
+    return new ProofOfAuthorityConsensus({
+      signers: config.consensus?.signers ?? [],
+      genesisHash: BlockManager.createGenesisBlock(config).hash,
+    });
+  }
+
+  /**
+   * Use a private key to seal blocks. A 32-byte hex string is used as the
+   * raw key; anything else is treated as a seed phrase.
+   * @returns the signer address the key seals blocks as
+   */
+  setSigner(
+    privateKey: string,
+    algorithm: SignatureAlgorithm = 'secp256k1'
+  ): string {
+    const keyPair = /^[0-9a-fA-F]{64}$/.test(privateKey)
+      ? CryptographicService.generateKeyPairFromPrivateKey(
+          hexToBytes(privateKey),
+          algorithm
+        )
+      : CryptographicService.generateKeyPairFromSeed(
+          CryptographicService.hashMessage(privateKey),
+          algorithm
+        );
+    const address = CryptographicService.generateAddress(
+      keyPair.publicKey,
+      algorithm
+    );
+    this.signerKey = { keyPair, address };
+    return address;
+  }
+
+  getSignerAddress(): string | null {
+    return this.signerKey?.address ?? null;
+  }
+
+  /**
+   * Vote to add (authorize) or remove an address in the blocks this node
+   * seals, until the proposal is discarded
+   */
+  propose(address: string, authorize: boolean): void {
+    this.proposals.set(address, authorize);
+  }
+
+  discard(address: string): void {
+    this.proposals.delete(address);
+  }
+
+  getProposals(): SignerVote[] {
+    return Array.from(this.proposals, ([address, authorize]) => ({
+      address,
+      authorize,
+    }));
+  }
+
+  /**
+   * Signers authorized to seal the block after the chain tip, in turn order
+   */
+  getSigners(blockchain: Block[]): string[] {
+    return [...this.getSnapshot(blockchain).signers];
+  }
+
+  /**
+   * Signer whose turn it is to seal the block after the chain tip
+   */
+  getInTurnSigner(blockchain: SealedHeader[]): string | null {
+    const signers = this.getSnapshot(blockchain).signers;
+    if (signers.length === 0) {
+      return null;
+    }
+    return signers[blockchain.length % signers.length];
+  }
+
+  validateBlock(
+    block: Block,
+    blockchain: Block[],
+    options: BlockValidationOptions = {}
+  ): ValidationResult {
+    const { errors } = BlockManager.validateBlockStructure(
+      block,
+      blockchain[blockchain.length - 1] ?? null
+    );
+    if (block.index === 0) {
+      return { isValid: errors.length === 0, errors };
+    }
+
+    errors.push(...this.checkSeal(block, blockchain, options));
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Check a header's seal ahead of its block, against the signer set after
+   * the headers it extends
+   */
+  validateHeader(header: BlockHeader, chain: BlockHeader[]): ValidationResult {
+    const errors = this.checkSeal(header, chain);
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Online node whose ID is the in-turn signer for the next block
+   */
+  selectValidator(
+    nodes: NetworkNode[],
+    blockchain: Block[]
+  ): NetworkNode | null {
+    const inTurnSigner = this.getInTurnSigner(blockchain);
+    return (
+      nodes.find(node => node.isOnline && node.id === inTurnSigner) ?? null
+    );
+  }
+
+  /**
+   * Sign the block with this node's signer key, casting the first proposal
+   * that would still change the signer set
+   */
+  sealBlock(block: Block, blockchain: Block[]): Block {
+    if (!this.signerKey) {
+      throw new Error('No signer key configured');
+    }
+
+    const { keyPair, address } = this.signerKey;
+    const snapshot = this.getSnapshot(blockchain);
+    if (!snapshot.signers.includes(address)) {
+      throw new Error(`Signer ${address} is not authorized`);
+    }
+    if (this.hasSignedRecently(address, snapshot.signers, blockchain)) {
+      throw new Error(`Signer ${address} has signed too recently`);
+    }
+
+    const vote = this.getProposals().find(proposal =>
+      this.isEffectiveVote(proposal, snapshot)
+    );
+    const sealedBlock: Block = {
+      ...block,
+      nonce: 0,
+      difficulty:
+        this.getInTurnSigner(blockchain) === address
+          ? DIFF_IN_TURN
+          : DIFF_OUT_OF_TURN,
+      validator: address,
+    };
+    delete sealedBlock.signature;
+    delete sealedBlock.vote;
+    if (vote) {
+      sealedBlock.vote = vote;
+    }
+    sealedBlock.hash = BlockManager.calculateHash(sealedBlock);
+
+    const { signature } = CryptographicService.sign(
+      hexToBytes(sealedBlock.hash),
+      keyPair.privateKey,
+      keyPair.algorithm
+    );
+    sealedBlock.signature = `${bytesToHex(signature)}:${bytesToHex(keyPair.publicKey)}`;
+
+    this.logger.debug(
+      `Sealed block ${sealedBlock.index} as ${address}${vote ? ` voting to ${vote.authorize ? 'add' : 'remove'} ${vote.address}` : ''}`
+    );
+    return sealedBlock;
+  }
+
+  /**
+   * Errors in the block's signer, signature, turn difficulty and vote
+   */
+  private checkSeal(
+    block: SealedHeader,
+    blockchain: SealedHeader[],
+    options: BlockValidationOptions = {}
+  ): string[] {
+    const errors: string[] = [];
+    const snapshot = this.getSnapshot(blockchain);
+    const validator = block.validator;
+    if (!validator) {
+      errors.push('Block must name the signer that sealed it');
+    } else if (!snapshot.signers.includes(validator)) {
+      errors.push(`Block signer ${validator} is not authorized`);
+    } else {
+      if (!options.skipSignatures && !this.verifySeal(block, validator)) {
+        errors.push(`Block signature does not match signer ${validator}`);
+      }
+
+      const expectedDifficulty =
+        this.getInTurnSigner(blockchain) === validator
+          ? DIFF_IN_TURN
+          : DIFF_OUT_OF_TURN;
+      if (block.difficulty !== expectedDifficulty) {
+        errors.push(
+          `Invalid signer difficulty: expected ${expectedDifficulty}, got ${block.difficulty}`
+        );
+      }
+
+      if (this.hasSignedRecently(validator, snapshot.signers, blockchain)) {
+        errors.push(`Signer ${validator} has signed too recently`);
+      }
+    }
+
+    if (block.vote && !this.isEffectiveVote(block.vote, snapshot)) {
+      errors.push(
+        `Vote to ${block.vote.authorize ? 'add' : 'remove'} ${block.vote.address} has no effect`
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether the block's signature is over its hash by the named signer
+   */
+  private verifySeal(block: SealedHeader, validator: string): boolean {
+    const [signatureHex, publicKeyHex] = (block.signature ?? '').split(':');
+    if (!signatureHex || !publicKeyHex) {
+      return false;
+    }
+
+    const algorithm = ScriptInterpreter.getPublicKeyAlgorithm(publicKeyHex);
+    if (
+      !algorithm ||
+      CryptographicService.generateAddress(
+        hexToBytes(publicKeyHex),
+        algorithm
+      ) !== validator
+    ) {
+      return false;
+    }
+
+    return ScriptInterpreter.verifySignature(
+      signatureHex,
+      publicKeyHex,
+      hexToBytes(block.hash)
+    );
+  }
+
+  /**
+   * Whether the signer sealed one of the last floor(n / 2) blocks
+   */
+  private hasSignedRecently(
+    signer: string,
+    signers: string[],
+    blockchain: SealedHeader[]
+  ): boolean {
+    const limit = Math.floor(signers.length / 2);
+    return blockchain
+      .slice(Math.max(1, blockchain.length - limit))
+      .some(block => block.validator === signer);
+  }
+
+  private isEffectiveVote(vote: SignerVote, snapshot: SignerSnapshot): boolean {
+    return snapshot.signers.includes(vote.address) !== vote.authorize;
+  }
+
+  /**
+   * Signer set after the last block of the chain, replayed from the latest
+   * cached snapshot or from genesis
+   */
+  private getSnapshot(blockchain: SealedHeader[]): SignerSnapshot {
+    let start = blockchain.length;
+    let cached: SignerSnapshot | undefined;
+    while (start > 0 && !cached) {
+      start--;
+      cached = this.snapshots.get(blockchain[start].hash);
+    }
+
+    let snapshot: SignerSnapshot;
+    if (cached) {
+      snapshot = ProofOfAuthorityConsensus.cloneSnapshot(cached);
+    } else {
+      if (
+        blockchain.length > 0 &&
+        blockchain[0].hash !== this.config.genesisHash
+      ) {
+        throw new Error('Chain does not start at the configured genesis block');
+      }
+      snapshot = {
+        signers: [...this.config.signers].sort(),
+        tally: new Map(),
+      };
+    }
+
+    for (const block of blockchain.slice(start + 1)) {
+      this.applyVote(snapshot, block);
+    }
+
+    const tip = blockchain[blockchain.length - 1];
+    if (tip && !this.snapshots.has(tip.hash)) {
+      if (this.snapshots.size >= MAX_SNAPSHOTS) {
+        this.snapshots.delete(this.snapshots.keys().next().value as string);
+      }
+      this.snapshots.set(
+        tip.hash,
+        ProofOfAuthorityConsensus.cloneSnapshot(snapshot)
+      );
+    }
+    return snapshot;
+  }
+
+  /**
+   * Count the block's vote and apply it once a majority of signers agree
+   */
+  private applyVote(snapshot: SignerSnapshot, block: SealedHeader): void {
+    const { vote, validator } = block;
+    if (
+      !vote ||
+      !validator ||
+      !snapshot.signers.includes(validator) ||
+      !this.isEffectiveVote(vote, snapshot)
+    ) {
+      return;
+    }
+
+    const votes = snapshot.tally.get(vote.address) ?? new Map();
+    votes.set(validator, vote.authorize);
+    snapshot.tally.set(vote.address, votes);
+
+    const agreeing = Array.from(votes.values()).filter(
+      authorize => authorize === vote.authorize
+    ).length;
+    if (agreeing * 2 <= snapshot.signers.length) {
+      return;
+    }
+
+    snapshot.tally.delete(vote.address);
+    if (vote.authorize) {
+      snapshot.signers = [...snapshot.signers, vote.address].sort();
+    } else {
+      snapshot.signers = snapshot.signers.filter(
+        signer => signer !== vote.address
+      );
+      // A removed signer's open votes no longer count
+      for (const candidateVotes of snapshot.tally.values()) {
+        candidateVotes.delete(vote.address);
+      }
+    }
+
+    this.logger.debug(
+      `Signer ${vote.address} ${vote.authorize ? 'added' : 'removed'} at block ${block.index}`
+    );
+  }
+
+  private static cloneSnapshot(snapshot: SignerSnapshot): SignerSnapshot {
+    return {
+      signers: [...snapshot.signers],
+      tally: new Map(
+        Array.from(snapshot.tally, ([candidate, votes]) => [
+          candidate,
+          new Map(votes),
+        ])
+      ),
+    };
+  }
+}
+
+export class ConsensusFactory {
+  /**
+   * Consensus engine named by the genesis configuration, proof of work
+   * when none is given
+   */
+  static fromGenesisConfig(config: GenesisConfig): ConsensusAlgorithm {
+    if (config.consensus?.engine === 'poa') {
+      return ProofOfAuthorityConsensus.fromGenesisConfig(config);
+    }
+    return new ProofOfWorkConsensus();
+  }
+}
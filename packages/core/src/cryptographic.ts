@@ -84,6 +84,21 @@ export class CryptographicService {
     }
   }
 
+  static generateKeyPairFromPrivateKey(
+    privateKey: Uint8Array,
+    algorithm: SignatureAlgorithm
+  ): KeyPair {
+    const publicKey =
+      algorithm === 'secp256k1'
+        ? secp256k1.getPublicKey(privateKey)
+        : ed25519.getPublicKey(privateKey);
+    return {
+      privateKey,
+      publicKey,
+      algorithm,
+    };
+  }
+
   static generateAddress(
     publicKey: Uint8Array,
     algorithm: SignatureAlgorithm
@@ -97,6 +112,15 @@ export class CryptographicService {
     return this.base58Encode(address);
   }
 
+  static generateScriptAddress(script: string): string {
+    // Pay-to-script style address for outputs not owned by a single key
+    const scriptHash = ripemd160(sha256(new TextEncoder().encode(script)));
+    const payload = new Uint8Array([0x05, ...scriptHash]);
+    const checksum = sha256(sha256(payload)).slice(0, 4);
+    const address = new Uint8Array([...payload, ...checksum]);
+    return this.base58Encode(address);
+  }
+
   static validateAddress(address: string): boolean {
     try {
       const decoded = this.base58Decode(address);
@@ -31,6 +31,11 @@ class SimpleLogger {
 // Sublevel prefixes for different data types
 export const SubLevels = {
   BLOCKS: 'blocks',
+  BLOCK_HEADERS: 'block_headers',
+  BLOCK_UNDO: 'block_undo',
+  HEADER_TREE: 'header_tree',
+  TX_INDEX: 'tx_index',
+  ADDRESS_INDEX: 'address_index',
   UTXO_TRANSACTIONS: 'utxo_transactions',
   UTXO_SET: 'utxo_set',
   PENDING_UTXO_TX: 'pending_utxo_tx',
@@ -43,6 +48,11 @@ export const SubLevels = {
 // Key prefixes within sublevels
 export const KeyPrefixes = {
   BLOCK: 'block:',
+  BLOCK_HEADER: 'header:',
+  BLOCK_UNDO: 'undo:',
+  HEADER_TREE: 'hdrtree:',
+  TX_INDEX: 'txidx:',
+  ADDRESS_INDEX: 'addridx:',
   UTXO_TX: 'utxo_tx:',
   UTXO: 'utxo:',
   PENDING_TX: 'pending:',
@@ -206,35 +216,22 @@ export class LevelDatabase implements IDatabase {
     try {
       await this.ensureOpen();
 
-      // Group operations by sublevel
-      const sublevelOps = new Map<string, BatchOperation[]>();
+      // A single batch across sublevels, so all operations land or none do
+      const batch = this.db.batch();
 
       for (const op of operations) {
-        const sublevelName = op.sublevel || 'default';
-        if (!sublevelOps.has(sublevelName)) {
-          sublevelOps.set(sublevelName, []);
+        const options = op.sublevel
+          ? { sublevel: this.getSublevel(op.sublevel) }
+          : {};
+        if (op.type === 'put' && op.value !== undefined) {
+          const serialized = await this.serialize(op.value);
+          batch.put(op.key, serialized, options);
+        } else if (op.type === 'del') {
+          batch.del(op.key, options);
         }
-        sublevelOps.get(sublevelName)!.push(op);
       }
 
-      // Execute batch operations for each sublevel
-      for (const [sublevelName, ops] of sublevelOps) {
-        const db = this.getSublevel(
-          sublevelName === 'default' ? undefined : sublevelName
-        );
-        const batch = db.batch();
-
-        for (const op of ops) {
-          if (op.type === 'put' && op.value !== undefined) {
-            const serialized = await this.serialize(op.value);
-            batch.put(op.key, serialized);
-          } else if (op.type === 'del') {
-            batch.del(op.key);
-          }
-        }
-
-        await batch.write();
-      }
+      await batch.write();
 
       this.logger.debug(
         `Executed batch operation with ${operations.length} operations`
@@ -469,7 +466,10 @@ export class MemoryDatabase implements IDatabase {
 
   async *iterator(options: IteratorOptions): AsyncIterable<KeyValue> {
     const storage = this.getSublevelStorage(options.sublevel);
-    const entries = Array.from(storage.entries());
+    // Iterate in key order, as LevelDB does
+    const entries = Array.from(storage.entries()).sort(([a], [b]) =>
+      a < b ? -1 : a > b ? 1 : 0
+    );
 
     // Apply filtering and sorting
     let filtered = entries;
@@ -0,0 +1,156 @@
+import type { Block, DifficultyAlgorithmType } from './types.js';
+import { DifficultyManager } from './difficulty.js';
+import {
+  decodeCompactTarget,
+  encodeCompactTarget,
+  getBlockTarget,
+  getLeadingZeroTarget,
+  getTargetLeadingZeros,
+} from './pow-target.js';
+
+// Blocks LWMA averages solve times over unless the network sets its own
+export const DEFAULT_LWMA_WINDOW = 45;
+
+/**
+ * Difficulty fields of a block: LWMA blocks carry a compact target in bits
+ * and the difficulty derived from it, interval blocks only a difficulty
+ */
+export interface BlockDifficulty {
+  difficulty: number;
+  bits?: number;
+}
+
+/**
+ * Retarget rule deciding the difficulty of each proof-of-work block.
+ * `chain` is the chain a block builds on, from genesis up to and including
+ * its parent.
+ */
+export interface DifficultyAlgorithm {
+  readonly type: DifficultyAlgorithmType;
+  /**
+   * Whether the block at a height may have a different difficulty from its
+   * parent
+   */
+  shouldRetarget(height: number): boolean;
+  /**
+   * @param currentDifficulty - difficulty the chain is at before the block
+   */
+  getNextDifficulty(chain: Block[], currentDifficulty: number): BlockDifficulty;
+}
+
+/**
+ * Bitcoin-style retargeting once every adjustment period, in steps of whole
+ * leading hex zeros
+ */
+export class IntervalDifficulty implements DifficultyAlgorithm {
+  readonly type = 'interval';
+
+  constructor(private difficultyManager: DifficultyManager) {}
+
+  shouldRetarget(height: number): boolean {
+    return this.difficultyManager.shouldAdjustDifficulty(height);
+  }
+
+  getNextDifficulty(
+    chain: Block[],
+    currentDifficulty: number
+  ): BlockDifficulty {
+    return {
+      difficulty: this.shouldRetarget(chain.length)
+        ? this.difficultyManager.calculateNextDifficulty(
+            currentDifficulty,
+            chain
+          )
+        : currentDifficulty,
+    };
+  }
+}
+
+export interface LWMAConfig {
+  targetBlockTime: number; // seconds
+  window: number; // blocks
+  powLimit: bigint; // easiest target allowed
+}
+
+/**
+ * Linearly weighted moving average retargeting (LWMA-1) on every block.
+ *
+ * The next target is the average target of the last `window` blocks scaled
+ * by their solve times, weighting recent blocks most, so difficulty follows
+ * a miner joining or leaving within a few blocks instead of a whole period.
+ * Timestamps are made monotonic and solve times capped at six block times,
+ * so one out-of-order or stalled block moves the target only a little.
+ */
+export class LWMADifficulty implements DifficultyAlgorithm {
+  readonly type = 'lwma';
+
+  constructor(private config: LWMAConfig) {}
+
+  shouldRetarget(height: number): boolean {
+    return height > 0;
+  }
+
+  getNextDifficulty(chain: Block[]): BlockDifficulty {
+    const blockTime = this.config.targetBlockTime * 1000;
+    const count = Math.min(this.config.window, chain.length - 1);
+    let target: bigint;
+
+    if (count < 1) {
+      target = getBlockTarget(chain[chain.length - 1]);
+    } else {
+      const blocks = chain.slice(-(count + 1));
+      let previousTimestamp = blocks[0].timestamp;
+      let weightedSolveTime = 0;
+      let targetSum = 0n;
+      for (let i = 1; i <= count; i++) {
+        const timestamp = Math.max(blocks[i].timestamp, previousTimestamp + 1);
+        weightedSolveTime +=
+          i * Math.min(6 * blockTime, timestamp - previousTimestamp);
+        previousTimestamp = timestamp;
+        targetSum += getBlockTarget(blocks[i]);
+      }
+
+      // Solve times summed with weights 1..count at exactly the block time
+      const expectedWeightedSolveTime = (count * (count + 1) * blockTime) / 2;
+      // A burst of fast blocks raises difficulty at most tenfold at once
+      weightedSolveTime = Math.max(
+        weightedSolveTime,
+        Math.floor(expectedWeightedSolveTime / 10)
+      );
+      target =
+        (targetSum * BigInt(weightedSolveTime)) /
+        (BigInt(count) * BigInt(expectedWeightedSolveTime));
+    }
+
+    if (target > this.config.powLimit) {
+      target = this.config.powLimit;
+    }
+    const bits = encodeCompactTarget(target > 0n ? target : 1n);
+    return {
+      difficulty: getTargetLeadingZeros(decodeCompactTarget(bits)),
+      bits,
+    };
+  }
+}
+
+export class DifficultyAlgorithmFactory {
+  /**
+   * Retarget rule of the given type, using the difficulty manager's target
+   * block time, adjustment period and minimum difficulty
+   */
+  static create(
+    type: DifficultyAlgorithmType,
+    difficultyManager: DifficultyManager,
+    window: number = DEFAULT_LWMA_WINDOW
+  ): DifficultyAlgorithm {
+    if (type === 'lwma') {
+      const config = difficultyManager.getConfig();
+      return new LWMADifficulty({
+        targetBlockTime: config.targetBlockTime,
+        window,
+        powLimit: getLeadingZeroTarget(config.minDifficulty),
+      });
+    }
+    return new IntervalDifficulty(difficultyManager);
+  }
+}
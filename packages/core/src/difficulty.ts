@@ -1,4 +1,11 @@
 import type { Block, ValidationResult } from './types.js';
+import { calculateTargetWork, getBlockTarget } from './pow-target.js';
+
+// Blocks whose timestamps make up the median time past
+export const MEDIAN_TIME_SPAN = 11;
+
+// Furthest a block timestamp may run ahead of network-adjusted time
+export const MAX_FUTURE_BLOCK_TIME = 2 * 60 * 60 * 1000;
 
 export interface DifficultyConfig {
   targetBlockTime: number; // seconds
@@ -124,6 +131,16 @@ export class DifficultyManager {
     return hashrate;
   }
 
+  /**
+   * Work represented by a block, from its target. Without bits, difficulty
+   * counts leading hex zeros, so each step is 16x more work.
+   */
+  static getBlockWork(
+    block: Pick<Block, 'bits'> & { difficulty?: number }
+  ): bigint {
+    return calculateTargetWork(getBlockTarget(block));
+  }
+
   /**
    * Check if difficulty should be adjusted at given block height
    */
@@ -301,39 +318,46 @@ export class DifficultyManager {
   }
 
   /**
-   * Validate block timestamp
+   * Median timestamp of the last MEDIAN_TIME_SPAN blocks, or of all of them
+   * early in the chain. Unlike the tip's own timestamp it cannot be dragged
+   * around by a single miner with a wrong clock.
+   * @returns 0 for an empty chain
+   */
+  static getMedianTimePast(
+    blocks: ReadonlyArray<Pick<Block, 'timestamp'>>
+  ): number {
+    if (blocks.length === 0) {
+      return 0;
+    }
+    const timestamps = blocks
+      .slice(-MEDIAN_TIME_SPAN)
+      .map(b => b.timestamp)
+      .sort((a, b) => a - b);
+    return timestamps[Math.floor(timestamps.length / 2)];
+  }
+
+  /**
+   * Validate block timestamp: later than the median time past of the
+   * blocks before it, and no further than MAX_FUTURE_BLOCK_TIME ahead of
+   * the current time
+   * @param now - network-adjusted time, since local clocks may be unset
    */
   static validateBlockTimestamp(
-    block: Block,
-    previousBlocks: Block[]
+    block: Pick<Block, 'timestamp'>,
+    previousBlocks: ReadonlyArray<Pick<Block, 'timestamp'>>,
+    now: number = Date.now()
   ): ValidationResult {
     const errors: string[] = [];
 
-    // Check if timestamp is not too far in the future (2 hours)
-    const maxFutureTime = Date.now() + 2 * 60 * 60 * 1000;
-    if (block.timestamp > maxFutureTime) {
+    if (block.timestamp > now + MAX_FUTURE_BLOCK_TIME) {
       errors.push('Block timestamp is too far in the future');
     }
 
-    // Check against median of last 11 blocks
-    if (previousBlocks.length >= 11) {
-      const recentBlocks = previousBlocks.slice(-11);
-      const timestamps = recentBlocks
-        .map(b => b.timestamp)
-        .sort((a, b) => a - b);
-      const medianTimestamp = timestamps[Math.floor(timestamps.length / 2)];
-
-      if (block.timestamp <= medianTimestamp) {
-        errors.push(
-          'Block timestamp must be greater than median of last 11 blocks'
-        );
-      }
-    } else if (previousBlocks.length > 0) {
-      // For early blocks, just check it's after the previous block
-      const previousBlock = previousBlocks[previousBlocks.length - 1];
-      if (block.timestamp <= previousBlock.timestamp) {
-        errors.push('Block timestamp must be greater than previous block');
-      }
+    if (
+      previousBlocks.length > 0 &&
+      block.timestamp <= this.getMedianTimePast(previousBlocks)
+    ) {
+      errors.push('Block timestamp must be greater than median time past');
     }
 
     return {
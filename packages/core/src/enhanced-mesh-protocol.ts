@@ -45,6 +45,7 @@ import {
   RoutingMessageOptimizer,
 } from './routing-messages.js';
 import { CryptographicService, type KeyPair } from './cryptographic.js';
+import { BinaryCodec } from './codec.js';
 import { DutyCycleManager } from './duty-cycle.js';
 import { UTXOReliableDeliveryManager } from './utxo-reliable-delivery-manager.js';
 import { NodeDiscoveryProtocol } from './node-discovery-protocol.js';
@@ -579,7 +580,7 @@ export class UTXOEnhancedMeshProtocol
 
   // Calculate message priority based on UTXO transaction fee
   private calculateUTXOPriority(utxoTx: UTXOTransaction): MessagePriority {
-    const messageSize = JSON.stringify(utxoTx).length;
+    const messageSize = BinaryCodec.encodeUTXOTransaction(utxoTx).length;
     const feePerByte = utxoTx.fee / messageSize;
 
     // Fee-based priority thresholds (in satoshis per byte equivalent)
@@ -22,6 +22,7 @@ import {
   EnhancedFragmentationConfig,
 } from './types.js';
 import { CryptographicService, type KeyPair } from './cryptographic.js';
+import { BinaryCodec } from './codec.js';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
 // Simple CRC32 implementation for fragment checksums
 function crc32(data: Uint8Array): number {
@@ -259,14 +260,11 @@ export class UTXOMessageFragmenter {
   }
 
   private serializeUTXOTransaction(tx: UTXOTransaction): Uint8Array {
-    // Use MessagePack-style serialization for efficiency
-    const serialized = JSON.stringify(tx);
-    return new TextEncoder().encode(serialized);
+    return BinaryCodec.encodeUTXOTransaction(tx);
   }
 
   private serializeBlock(block: Block): Uint8Array {
-    const serialized = JSON.stringify(block);
-    return new TextEncoder().encode(serialized);
+    return BinaryCodec.encodeBlock(block);
   }
 
   private serializeMerkleProof(proof: CompressedMerkleProof): Uint8Array {
@@ -344,13 +342,14 @@ export class UTXOFragmentReassembler {
     }
 
     const reassembledData = this.reassembleMessage(session);
-    this.sessions.delete(id);
 
     try {
-      const serialized = new TextDecoder().decode(reassembledData);
-      return JSON.parse(serialized) as UTXOTransaction;
+      const transaction = BinaryCodec.decodeUTXOTransaction(reassembledData);
+      this.sessions.delete(id);
+      return transaction;
     } catch (error) {
-      this.logger.error(`Failed to deserialize UTXO transaction: ${error}`);
+      // Keep the session so the message can still be read as another type
+      this.logger.debug(`Message ${id} is not a UTXO transaction: ${error}`);
       return null;
     }
   }
@@ -364,13 +363,13 @@ export class UTXOFragmentReassembler {
     }
 
     const reassembledData = this.reassembleMessage(session);
-    this.sessions.delete(id);
 
     try {
-      const serialized = new TextDecoder().decode(reassembledData);
-      return JSON.parse(serialized) as Block;
+      const block = BinaryCodec.decodeBlock(reassembledData);
+      this.sessions.delete(id);
+      return block;
     } catch (error) {
-      this.logger.error(`Failed to deserialize block: ${error}`);
+      this.logger.debug(`Message ${id} is not a block: ${error}`);
       return null;
     }
   }
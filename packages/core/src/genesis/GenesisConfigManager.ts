@@ -8,10 +8,17 @@ import type {
   UTXOTransaction,
   UTXO,
   TransactionOutput,
+  Checkpoint,
+  SoftForkDeployment,
 } from '../types.js';
 import type { UTXOPersistenceManager } from '../persistence.js';
 import type { DifficultyConfig } from '../difficulty.js';
 import { SubLevels, KeyPrefixes } from '../database.js';
+import { UTXOTransactionManager } from '../utxo-transaction.js';
+import { BinaryCodec } from '../codec.js';
+import { isValidAmount } from '../amount.js';
+import { CryptographicService } from '../cryptographic.js';
+import { VERSIONBITS_NUM_BITS } from '../version-bits.js';
 
 // Simple logger for development
 class SimpleLogger {
@@ -180,8 +187,8 @@ export class GenesisConfigManager {
     }
 
     // Validate total supply
-    if (config.totalSupply <= 0 || !Number.isFinite(config.totalSupply)) {
-      errors.push('Total supply must be a positive finite number');
+    if (!isValidAmount(config.totalSupply) || config.totalSupply === 0) {
+      errors.push('Total supply must be a positive integer of base units');
     }
 
     // Validate allocation sum doesn't exceed total supply
@@ -226,8 +233,165 @@ export class GenesisConfigManager {
       errors.push('Max block size must be between 1KB and 32MB');
     }
 
-    if (config.networkParams.miningReward <= 0) {
-      errors.push('Mining reward must be positive');
+    if (
+      !isValidAmount(config.networkParams.miningReward) ||
+      config.networkParams.miningReward === 0
+    ) {
+      errors.push('Mining reward must be a positive integer of base units');
+    }
+
+    const { halvingInterval, tailEmission } = config.networkParams;
+    if (
+      halvingInterval !== undefined &&
+      (!Number.isInteger(halvingInterval) || halvingInterval < 0)
+    ) {
+      errors.push('Halving interval must be a non-negative integer');
+    }
+
+    if (
+      tailEmission !== undefined &&
+      (!isValidAmount(tailEmission) ||
+        tailEmission > config.networkParams.miningReward)
+    ) {
+      errors.push('Tail emission must be between 0 and the mining reward');
+    }
+
+    const { coinbaseMaturity } = config.networkParams;
+    if (
+      coinbaseMaturity !== undefined &&
+      (!Number.isInteger(coinbaseMaturity) || coinbaseMaturity < 0)
+    ) {
+      errors.push('Coinbase maturity must be a non-negative integer');
+    }
+
+    const { difficultyAlgorithm, difficultyWindow } = config.networkParams;
+    if (
+      difficultyAlgorithm !== undefined &&
+      difficultyAlgorithm !== 'interval' &&
+      difficultyAlgorithm !== 'lwma'
+    ) {
+      errors.push(`Unknown difficulty algorithm ${difficultyAlgorithm}`);
+    }
+    if (
+      difficultyWindow !== undefined &&
+      (!Number.isInteger(difficultyWindow) || difficultyWindow < 2)
+    ) {
+      errors.push('Difficulty window must be an integer of at least 2 blocks');
+    }
+
+    // Validate checkpoints and the assume-valid block
+    const { checkpoints, assumeValid } = config.networkParams;
+    if (checkpoints !== undefined) {
+      if (!Array.isArray(checkpoints)) {
+        errors.push('Checkpoints must be an array');
+      } else {
+        checkpoints.forEach((checkpoint, i) => {
+          errors.push(
+            ...this.validateCheckpoint(checkpoint, `Checkpoint ${i}`)
+          );
+        });
+        const heights = new Set(
+          checkpoints.map(checkpoint => checkpoint.height)
+        );
+        if (heights.size !== checkpoints.length) {
+          errors.push('Duplicate checkpoint heights found');
+        }
+      }
+    }
+
+    if (assumeValid !== undefined) {
+      errors.push(
+        ...this.validateCheckpoint(assumeValid, 'Assume-valid block')
+      );
+      const conflict = Array.isArray(checkpoints)
+        ? checkpoints.find(
+            checkpoint =>
+              checkpoint.height === assumeValid.height &&
+              checkpoint.hash !== assumeValid.hash
+          )
+        : undefined;
+      if (conflict) {
+        errors.push(
+          `Assume-valid block conflicts with checkpoint at height ${conflict.height}`
+        );
+      }
+    }
+
+    // Validate trusted UTXO snapshot hashes
+    const { assumeUTXO } = config.networkParams;
+    if (assumeUTXO !== undefined) {
+      if (!Array.isArray(assumeUTXO)) {
+        errors.push('Assume-UTXO snapshots must be an array');
+      } else {
+        assumeUTXO.forEach((snapshot, i) => {
+          errors.push(
+            ...this.validateCheckpoint(
+              snapshot,
+              `Assume-UTXO snapshot ${i}`,
+              'snapshot hash'
+            )
+          );
+        });
+        const heights = new Set(assumeUTXO.map(snapshot => snapshot.height));
+        if (heights.size !== assumeUTXO.length) {
+          errors.push('Duplicate assume-UTXO snapshot heights found');
+        }
+      }
+    }
+
+    // Validate soft fork deployments
+    const { deployments } = config.networkParams;
+    if (deployments !== undefined) {
+      if (!Array.isArray(deployments)) {
+        errors.push('Soft fork deployments must be an array');
+      } else {
+        deployments.forEach((deployment, i) => {
+          errors.push(
+            ...this.validateDeployment(deployment, `Deployment ${i}`)
+          );
+        });
+        const names = new Set(deployments.map(deployment => deployment.name));
+        if (names.size !== deployments.length) {
+          errors.push('Duplicate deployment names found');
+        }
+        // A bit can only be reused once the earlier deployment has timed out
+        deployments.forEach((deployment, i) => {
+          const overlapping = deployments
+            .slice(i + 1)
+            .find(
+              other =>
+                other.bit === deployment.bit &&
+                other.startHeight < deployment.timeoutHeight &&
+                deployment.startHeight < other.timeoutHeight
+            );
+          if (overlapping) {
+            errors.push(
+              `Deployments ${deployment.name} and ${overlapping.name} signal on bit ${deployment.bit} at the same time`
+            );
+          }
+        });
+      }
+    }
+
+    // Validate consensus engine
+    if (config.consensus) {
+      const { engine, signers = [] } = config.consensus;
+      if (!['pow', 'poa'].includes(engine)) {
+        errors.push('Consensus engine must be one of: pow, poa');
+      }
+      if (engine === 'poa' && signers.length === 0) {
+        errors.push(
+          'Proof-of-authority consensus requires at least one signer'
+        );
+      }
+      signers.forEach((signer, i) => {
+        if (!CryptographicService.validateAddress(signer)) {
+          errors.push(`Signer ${i}: Invalid address ${signer}`);
+        }
+      });
+      if (new Set(signers).size !== signers.length) {
+        errors.push('Duplicate signer addresses found');
+      }
     }
 
     // Validate metadata
@@ -300,8 +464,10 @@ export class GenesisConfigManager {
       addressSet.add(allocation.address);
 
       // Validate amount
-      if (allocation.amount <= 0 || !Number.isFinite(allocation.amount)) {
-        errors.push(`Allocation ${i}: Amount must be a positive finite number`);
+      if (!isValidAmount(allocation.amount) || allocation.amount === 0) {
+        errors.push(
+          `Allocation ${i}: Amount must be a positive integer of base units`
+        );
       }
 
       // Validate description if provided
@@ -338,7 +504,8 @@ export class GenesisConfigManager {
 
       // Create and persist genesis UTXOs
       const genesisUTXOs = await this.createAndStoreInitialUTXOSet(
-        config.initialAllocations
+        config.initialAllocations,
+        config.metadata.timestamp
       );
 
       this.logger.debug(
@@ -368,29 +535,27 @@ export class GenesisConfigManager {
       merkleRoot: this.calculateMerkleRoot([]),
       difficulty: config.networkParams.initialDifficulty,
     };
+    // A proof-of-authority genesis block commits to its initial signers
+    if (config.consensus?.engine === 'poa') {
+      genesisBlock.validator = (config.consensus.signers ?? []).join(',');
+    }
 
     // Calculate hash using standard block hash calculation for consistency
-    const blockString = JSON.stringify({
-      index: genesisBlock.index,
-      timestamp: genesisBlock.timestamp,
-      transactions: genesisBlock.transactions,
-      previousHash: genesisBlock.previousHash,
-      nonce: genesisBlock.nonce,
-      merkleRoot: genesisBlock.merkleRoot,
-      difficulty: genesisBlock.difficulty,
-      validator: genesisBlock.validator,
-    });
-    genesisBlock.hash = createHash('sha256').update(blockString).digest('hex');
+    genesisBlock.hash = createHash('sha256')
+      .update(BinaryCodec.encodeBlockHashPreimage(genesisBlock))
+      .digest('hex');
     return genesisBlock;
   }
 
   /**
    * Create genesis UTXO transactions from initial allocations
+   * All allocations share the genesis timestamp so their IDs are reproducible
    */
   static createGenesisUTXOTransactions(
-    allocations: InitialAllocation[]
+    allocations: InitialAllocation[],
+    timestamp: number
   ): UTXOTransaction[] {
-    return allocations.map((allocation, index) => {
+    return allocations.map(allocation => {
       const outputs: TransactionOutput[] = [
         {
           value: allocation.amount,
@@ -399,17 +564,17 @@ export class GenesisConfigManager {
         },
       ];
 
-      return {
-        id: `genesis-${index}-${createHash('sha256')
-          .update(allocation.address + allocation.amount)
-          .digest('hex')
-          .substring(0, 16)}`,
+      const transaction: UTXOTransaction = {
+        id: '',
         inputs: [], // Genesis transactions have no inputs
         outputs,
         lockTime: 0,
-        timestamp: Date.now(),
+        timestamp,
         fee: 0,
-      } as UTXOTransaction;
+      };
+      transaction.id =
+        UTXOTransactionManager.calculateTransactionId(transaction);
+      return transaction;
     });
   }
 
@@ -466,13 +631,17 @@ export class GenesisConfigManager {
    * Create and store initial UTXO set from allocations
    */
   async createAndStoreInitialUTXOSet(
-    allocations: InitialAllocation[]
+    allocations: InitialAllocation[],
+    timestamp: number
   ): Promise<UTXO[]> {
     const utxos: UTXO[] = [];
 
     try {
       const genesisTransactions =
-        GenesisConfigManager.createGenesisUTXOTransactions(allocations);
+        GenesisConfigManager.createGenesisUTXOTransactions(
+          allocations,
+          timestamp
+        );
 
       for (const tx of genesisTransactions) {
         for (const output of tx.outputs) {
@@ -539,6 +708,74 @@ export class GenesisConfigManager {
   }
 
   // Utility methods
+  private static validateCheckpoint(
+    checkpoint: Checkpoint,
+    label: string,
+    hashName: string = 'block hash'
+  ): string[] {
+    const errors: string[] = [];
+
+    // The genesis block is fixed by the configuration itself
+    if (!Number.isInteger(checkpoint?.height) || checkpoint.height < 1) {
+      errors.push(`${label}: height must be a positive integer`);
+    }
+    if (
+      typeof checkpoint?.hash !== 'string' ||
+      !/^[0-9a-f]{64}$/.test(checkpoint.hash)
+    ) {
+      errors.push(`${label}: hash must be a 64-character hex ${hashName}`);
+    }
+
+    return errors;
+  }
+
+  private static validateDeployment(
+    deployment: SoftForkDeployment,
+    label: string
+  ): string[] {
+    const errors: string[] = [];
+    const isHeight = (value: unknown): boolean =>
+      Number.isInteger(value) && (value as number) >= 0;
+
+    if (typeof deployment?.name !== 'string' || deployment.name === '') {
+      errors.push(`${label}: name must be a non-empty string`);
+    }
+    if (
+      !Number.isInteger(deployment?.bit) ||
+      deployment.bit < 0 ||
+      deployment.bit >= VERSIONBITS_NUM_BITS
+    ) {
+      errors.push(
+        `${label}: bit must be an integer from 0 to ${VERSIONBITS_NUM_BITS - 1}`
+      );
+    }
+    if (!isHeight(deployment?.startHeight)) {
+      errors.push(`${label}: start height must be a non-negative integer`);
+    }
+    if (
+      !isHeight(deployment?.timeoutHeight) ||
+      deployment.timeoutHeight <= deployment.startHeight
+    ) {
+      errors.push(
+        `${label}: timeout height must be an integer above the start height`
+      );
+    }
+    if (!Number.isInteger(deployment?.period) || deployment.period < 1) {
+      errors.push(`${label}: period must be a positive integer`);
+    }
+    if (
+      !Number.isInteger(deployment?.threshold) ||
+      deployment.threshold < 1 ||
+      deployment.threshold > deployment.period
+    ) {
+      errors.push(
+        `${label}: threshold must be an integer from 1 to the period`
+      );
+    }
+
+    return errors;
+  }
+
   private static calculateMerkleRoot(transactions: unknown[]): string {
     if (transactions.length === 0) {
       return createHash('sha256').update('').digest('hex');
@@ -4,5 +4,7 @@ export type {
   GenesisConfig,
   InitialAllocation,
   NetworkParameters,
+  ConsensusParameters,
+  Checkpoint,
   GenesisMetadata,
 } from './types.js';
@@ -5,5 +5,7 @@ export type {
   GenesisConfig,
   InitialAllocation,
   NetworkParameters,
+  ConsensusParameters,
+  Checkpoint,
   GenesisMetadata,
 } from '../types.js';
@@ -0,0 +1,304 @@
+import type { BlockHeader, ValidationResult } from './types.js';
+import { BlockManager } from './block.js';
+import { ChainCheckpoints } from './checkpoints.js';
+import { DifficultyManager, MEDIAN_TIME_SPAN } from './difficulty.js';
+import { checkBlockTarget, getBlockTarget, meetsTarget } from './pow-target.js';
+
+// Most headers sent in reply to a single header request
+export const MAX_HEADERS_PER_BATCH = 2000;
+
+// Locator entries taken one block apart before the step starts doubling
+const LOCATOR_DENSE_ENTRIES = 10;
+
+export interface HeaderChainConfig {
+  checkpoints: ChainCheckpoints;
+  proofOfWork: boolean; // Whether header hashes must meet their difficulty
+  clock: () => number; // Network-adjusted time for the future timestamp limit
+  // Consensus seal check against the headers from genesis to the parent,
+  // for chains not secured by proof of work
+  validateSeal?: (
+    header: BlockHeader,
+    chain: BlockHeader[]
+  ) => ValidationResult;
+}
+
+export interface HeaderChainResult extends ValidationResult {
+  accepted: BlockHeader[]; // Headers new to the tree, in the order given
+}
+
+/**
+ * Entry in the header tree, with the work of the chain ending at it
+ */
+interface HeaderTreeNode {
+  header: BlockHeader;
+  cumulativeWork: bigint;
+}
+
+/**
+ * Tree of block headers across every known branch, ahead of the blocks
+ * themselves. The best header chain is the branch with the most cumulative
+ * work; nodes download block bodies along it once it is known.
+ *
+ * Headers are checked on their own: linkage, hash, proof of work or the
+ * consensus seal, timestamps and checkpoints. Difficulty retargeting and
+ * transactions are checked when the block is connected.
+ */
+export class HeaderChain {
+  private headers: Map<string, HeaderTreeNode> = new Map();
+  private bestChain: BlockHeader[] = []; // Best chain headers by height
+  private config: HeaderChainConfig;
+
+  constructor(genesis: BlockHeader, config?: Partial<HeaderChainConfig>) {
+    this.config = {
+      checkpoints: new ChainCheckpoints(),
+      proofOfWork: true,
+      clock: (): number => Date.now(),
+      ...config,
+    };
+    this.headers.set(genesis.hash, {
+      header: genesis,
+      cumulativeWork: DifficultyManager.getBlockWork(genesis),
+    });
+    this.bestChain = [genesis];
+  }
+
+  /**
+   * Validate and store headers, oldest first. Stops at the first invalid
+   * header; headers already in the tree are skipped.
+   */
+  addHeaders(headers: BlockHeader[]): HeaderChainResult {
+    const accepted: BlockHeader[] = [];
+
+    for (const header of headers) {
+      if (this.headers.has(header.hash)) {
+        continue;
+      }
+
+      const parent = this.headers.get(header.previousHash);
+      const error = parent
+        ? this.validateHeader(header, parent.header)
+        : `Header ${header.index} (${header.hash}) does not connect to a known header`;
+      if (error) {
+        return { isValid: false, errors: [error], accepted };
+      }
+
+      this.insert(header, parent!);
+      accepted.push(header);
+    }
+
+    return { isValid: true, errors: [], accepted };
+  }
+
+  /**
+   * Store the header of a block that has passed full validation
+   */
+  connectHeader(header: BlockHeader): void {
+    if (this.headers.has(header.hash)) {
+      return;
+    }
+
+    const parent = this.headers.get(header.previousHash);
+    if (!parent) {
+      throw new Error(
+        `Header ${header.index} (${header.hash}) does not connect to a known header`
+      );
+    }
+    this.insert(header, parent);
+  }
+
+  hasHeader(hash: string): boolean {
+    return this.headers.has(hash);
+  }
+
+  getHeader(hash: string): BlockHeader | null {
+    return this.headers.get(hash)?.header ?? null;
+  }
+
+  /**
+   * Header at a height on the best header chain
+   */
+  getHeaderAt(height: number): BlockHeader | null {
+    return this.bestChain[height] ?? null;
+  }
+
+  /**
+   * Header at a height on the branch ending at the given header
+   */
+  getAncestor(hash: string, height: number): BlockHeader | null {
+    let node = this.headers.get(hash);
+    if (!node || height < 0 || height > node.header.index) {
+      return null;
+    }
+    if (this.bestChain[node.header.index]?.hash === hash) {
+      return this.bestChain[height] ?? null;
+    }
+
+    while (node && node.header.index > height) {
+      node = this.headers.get(node.header.previousHash);
+    }
+    return node?.header ?? null;
+  }
+
+  getBestHeader(): BlockHeader {
+    return this.bestChain[this.bestChain.length - 1];
+  }
+
+  getChainWork(): bigint {
+    return this.headers.get(this.getBestHeader().hash)!.cumulativeWork;
+  }
+
+  getHeaderCount(): number {
+    return this.headers.size;
+  }
+
+  /**
+   * Hashes describing the best header chain to a peer: the ten most recent
+   * headers, then exponentially further apart, always ending with genesis
+   */
+  getLocator(): string[] {
+    const locator: string[] = [];
+    let step = 1;
+
+    for (let height = this.bestChain.length - 1; height > 0; height -= step) {
+      locator.push(this.bestChain[height].hash);
+      if (locator.length >= LOCATOR_DENSE_ENTRIES) {
+        step *= 2;
+      }
+    }
+
+    locator.push(this.bestChain[0].hash);
+    return locator;
+  }
+
+  /**
+   * Headers on the best chain whose blocks are still missing, oldest first
+   * @param hasBlock - whether the block with this hash is already stored
+   */
+  getMissingBlocks(
+    hasBlock: (hash: string) => boolean,
+    limit: number
+  ): BlockHeader[] {
+    let height = this.bestChain.length - 1;
+    while (height > 0 && !hasBlock(this.bestChain[height].hash)) {
+      height--;
+    }
+
+    return this.bestChain.slice(height + 1, height + 1 + limit);
+  }
+
+  private validateHeader(
+    header: BlockHeader,
+    parent: BlockHeader
+  ): string | null {
+    const prefix = `Header ${header.index} (${header.hash})`;
+
+    if (header.index !== parent.index + 1) {
+      return `${prefix} index does not follow its parent at ${parent.index}`;
+    }
+
+    if (header.difficulty === undefined || header.difficulty < 1) {
+      return `${prefix} must have a valid difficulty`;
+    }
+
+    const targetError = checkBlockTarget(header);
+    if (targetError) {
+      return `${prefix}: ${targetError}`;
+    }
+
+    let calculatedHash: string;
+    try {
+      calculatedHash = BlockManager.calculateHeaderHash(header);
+    } catch (error) {
+      return `${prefix} cannot be encoded: ${(error as Error).message}`;
+    }
+    if (calculatedHash !== header.hash) {
+      return `${prefix} hash is invalid`;
+    }
+
+    if (
+      this.config.proofOfWork &&
+      !meetsTarget(header.hash, getBlockTarget(header))
+    ) {
+      return `${prefix} does not meet its difficulty requirement`;
+    }
+
+    const seal = this.config.validateSeal?.(header, this.getBranch(parent));
+    if (seal && !seal.isValid) {
+      return `${prefix}: ${seal.errors[0]}`;
+    }
+
+    const timestamp = DifficultyManager.validateBlockTimestamp(
+      header,
+      this.getAncestors(parent, MEDIAN_TIME_SPAN),
+      this.config.clock()
+    );
+    if (!timestamp.isValid) {
+      return `${prefix}: ${timestamp.errors[0]}`;
+    }
+
+    return this.config.checkpoints.checkBlock(header);
+  }
+
+  /**
+   * Up to count headers ending at the given one, oldest first
+   */
+  private getAncestors(header: BlockHeader, count: number): BlockHeader[] {
+    const ancestors: BlockHeader[] = [];
+    let node = this.headers.get(header.hash);
+    while (node && ancestors.length < count) {
+      ancestors.unshift(node.header);
+      node = this.headers.get(node.header.previousHash);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Headers from genesis to the given one, oldest first
+   */
+  private getBranch(header: BlockHeader): BlockHeader[] {
+    const branch: BlockHeader[] = [];
+    let node = this.headers.get(header.hash);
+    while (
+      node &&
+      this.bestChain[node.header.index]?.hash !== node.header.hash
+    ) {
+      branch.unshift(node.header);
+      node = this.headers.get(node.header.previousHash);
+    }
+
+    const forkHeight = node ? node.header.index + 1 : 0;
+    return [...this.bestChain.slice(0, forkHeight), ...branch];
+  }
+
+  private insert(header: BlockHeader, parent: HeaderTreeNode): void {
+    const node: HeaderTreeNode = {
+      header,
+      cumulativeWork:
+        parent.cumulativeWork + DifficultyManager.getBlockWork(header),
+    };
+    this.headers.set(header.hash, node);
+
+    if (node.cumulativeWork > this.getChainWork()) {
+      this.setBestTip(node);
+    }
+  }
+
+  /**
+   * Move the best chain onto the branch ending at the given node
+   */
+  private setBestTip(tip: HeaderTreeNode): void {
+    const branch: BlockHeader[] = [];
+    let node: HeaderTreeNode | undefined = tip;
+
+    while (
+      node &&
+      this.bestChain[node.header.index]?.hash !== node.header.hash
+    ) {
+      branch.unshift(node.header);
+      node = this.headers.get(node.header.previousHash);
+    }
+
+    this.bestChain.length = tip.header.index - branch.length + 1;
+    this.bestChain.push(...branch);
+  }
+}
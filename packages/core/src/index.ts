@@ -17,15 +17,32 @@ export {
   type SignatureAlgorithm,
 } from './cryptographic.js';
 
+// Binary serialization exports
+export * from './codec.js';
+export { BinaryCodec, CODEC_VERSION, CodecType } from './codec.js';
+
 // UTXO Model exports
 export * from './utxo.js';
 export * from './utxo-transaction.js';
 export { UTXOManager } from './utxo.js';
 export { UTXOTransactionManager } from './utxo-transaction.js';
 
+// Script exports
+export * from './script.js';
+export { ScriptBuilder, ScriptInterpreter } from './script.js';
+
+// Mempool exports
+export * from './mempool.js';
+export { Mempool } from './mempool.js';
+
 // Merkle Tree and SPV exports
 export * from './merkle/index.js';
-export { MerkleTree, SPVManager } from './merkle/index.js';
+export {
+  MerkleTree,
+  SPVManager,
+  UTXOCommitment,
+  UTXOCommitmentTree,
+} from './merkle/index.js';
 
 // Persistence exports
 export * from './database.js';
@@ -46,6 +63,38 @@ export {
   type DifficultyConfig,
   type DifficultyState,
 } from './difficulty.js';
+export * from './difficulty-algorithm.js';
+export * from './pow-target.js';
+
+// Mining reward schedule exports
+export * from './reward.js';
+
+// Amount exports
+export * from './amount.js';
+
+// Consensus engine exports
+export * from './consensus.js';
+
+// Checkpoint exports
+export * from './checkpoints.js';
+
+// Soft fork deployment exports
+export * from './version-bits.js';
+
+// Network-adjusted time exports
+export * from './network-time.js';
+
+// Header chain exports
+export * from './header-chain.js';
+
+// UTXO snapshot file exports
+export * from './utxo-snapshot.js';
+
+// Block bundle exports
+export * from './block-bundle.js';
+
+// Off-thread mining exports
+export * from './miner.js';
 
 // Genesis Configuration exports
 export * from './genesis/index.js';
@@ -210,6 +259,9 @@ export type {
   UTXOSyncMessage,
   UTXOSyncMessageType,
   UTXOBlockHeader,
+  UTXOHeaderRequest,
+  UTXOHeaderBatch,
+  UTXOSyncPayload,
   UTXOSetSnapshot,
   UTXOSetDelta,
   SyncPeer,
@@ -0,0 +1,735 @@
+import type {
+  UTXO,
+  UTXOTransaction,
+  IUTXOManager,
+  ValidationResult,
+} from './types.js';
+import type { UTXOPersistenceManager } from './persistence.js';
+import type { UTXOManager } from './utxo.js';
+import { BinaryCodec } from './codec.js';
+import { MAX_REPLACEABLE_SEQUENCE, ScriptInterpreter } from './script.js';
+
+// Simple logger for development
+class SimpleLogger {
+  constructor(private context: string) {}
+  debug(message: string): void {
+    console.log(`[DEBUG] ${this.context}: ${message}`);
+  }
+  warn(message: string): void {
+    console.warn(`[WARN] ${this.context}: ${message}`);
+  }
+  error(message: string): void {
+    console.error(`[ERROR] ${this.context}: ${message}`);
+  }
+}
+
+// Block height reported for outputs of transactions still in the mempool
+export const UNCONFIRMED_HEIGHT = -1;
+
+export interface MempoolConfig {
+  maxSize: number; // Maximum number of pending transactions
+  minReplacementFeeRate: number; // Fee per byte a replacement pays on top
+  maxChainLength: number; // Longest chain of unconfirmed transactions
+}
+
+export interface MempoolEntry {
+  transaction: UTXOTransaction;
+  size: number; // Encoded size in bytes
+  feeRate: number; // Fee per byte
+  addedAt: number;
+}
+
+export interface MempoolAddResult extends ValidationResult {
+  replaced: string[]; // IDs of conflicting transactions replaced by fee
+  evicted: string[]; // IDs of low fee-rate transactions evicted for space
+}
+
+/**
+ * Pool of validated transactions waiting to be mined.
+ *
+ * Every spent outpoint is indexed so a second spend of the same UTXO is
+ * rejected, unless all transactions it conflicts with opt into
+ * replace-by-fee (an input sequence at or below MAX_REPLACEABLE_SEQUENCE)
+ * and the replacement pays more. When the pool is full the lowest fee-rate
+ * transactions are evicted. Changes are written through to the persistence
+ * manager so the pool survives restarts.
+ *
+ * Transactions may spend outputs of other pooled transactions, up to
+ * maxChainLength unconfirmed generations. Removing a transaction for any
+ * reason other than confirmation also removes its descendants.
+ */
+export class Mempool {
+  private entries: Map<string, MempoolEntry> = new Map();
+  private spentOutpoints: Map<string, string> = new Map(); // outpoint -> txId
+  private config: MempoolConfig;
+  private persistence?: UTXOPersistenceManager;
+  private persistenceEnabled = true;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private logger = new SimpleLogger('Mempool');
+
+  constructor(
+    config?: Partial<MempoolConfig>,
+    persistence?: UTXOPersistenceManager
+  ) {
+    this.config = {
+      maxSize: 10000,
+      minReplacementFeeRate: 1,
+      maxChainLength: 25,
+      ...config,
+    };
+    if (!Number.isInteger(this.config.maxSize) || this.config.maxSize < 1) {
+      throw new Error(`Invalid mempool max size: ${this.config.maxSize}`);
+    }
+    if (
+      !Number.isInteger(this.config.maxChainLength) ||
+      this.config.maxChainLength < 1
+    ) {
+      throw new Error(
+        `Invalid mempool chain length: ${this.config.maxChainLength}`
+      );
+    }
+    this.persistence = persistence;
+  }
+
+  static signalsReplaceByFee(transaction: UTXOTransaction): boolean {
+    return transaction.inputs.some(
+      input => input.sequence <= MAX_REPLACEABLE_SEQUENCE
+    );
+  }
+
+  static getOutpointKey(txId: string, outputIndex: number): string {
+    return `${txId}:${outputIndex}`;
+  }
+
+  /**
+   * Add a transaction that already passed validation against the UTXO set.
+   * Conflicts, replace-by-fee rules and capacity are checked here.
+   */
+  add(transaction: UTXOTransaction): MempoolAddResult {
+    const result: MempoolAddResult = {
+      isValid: false,
+      errors: [],
+      replaced: [],
+      evicted: [],
+    };
+
+    if (this.entries.has(transaction.id)) {
+      result.errors.push('UTXO Transaction already exists in pending pool');
+      return result;
+    }
+
+    const chainLength = this.getChainLength(transaction);
+    if (chainLength > this.config.maxChainLength) {
+      result.errors.push(
+        `Transaction exceeds the unconfirmed chain length limit of ${this.config.maxChainLength}`
+      );
+      return result;
+    }
+
+    const entry = this.createEntry(transaction);
+    const ancestors = this.getAncestors(transaction);
+    const conflicts = this.getConflicts(transaction);
+
+    // Replacing a transaction also replaces everything built on it
+    const replaced = new Set<string>();
+    for (const id of conflicts) {
+      replaced.add(id);
+      this.getDescendants(id).forEach(descendant => replaced.add(descendant));
+    }
+
+    if (conflicts.length > 0) {
+      const replacementError = this.checkReplacement(
+        entry,
+        conflicts,
+        replaced,
+        ancestors
+      );
+      if (replacementError) {
+        result.errors.push(replacementError);
+        return result;
+      }
+    }
+
+    // Make room by evicting cheaper transactions and their descendants,
+    // never the ones replaced or the new transaction's own ancestors
+    const evictable = [...this.entries.values()]
+      .filter(
+        existing =>
+          !replaced.has(existing.transaction.id) &&
+          !ancestors.has(existing.transaction.id)
+      )
+      .sort((a, b) => a.feeRate - b.feeRate);
+    let size = this.entries.size - replaced.size;
+    const toEvict = new Set<string>();
+    while (size >= this.config.maxSize) {
+      const cheapest = evictable.find(
+        existing => !toEvict.has(existing.transaction.id)
+      );
+      if (!cheapest || cheapest.feeRate >= entry.feeRate) {
+        result.errors.push(
+          `Mempool is full: fee rate ${entry.feeRate} is not above the minimum of ${cheapest?.feeRate ?? entry.feeRate}`
+        );
+        return result;
+      }
+      const id = cheapest.transaction.id;
+      for (const evicted of [id, ...this.getDescendants(id)]) {
+        if (!toEvict.has(evicted)) {
+          toEvict.add(evicted);
+          size--;
+        }
+      }
+    }
+
+    for (const id of replaced) {
+      this.removeEntry(id);
+      result.replaced.push(id);
+    }
+    for (const id of toEvict) {
+      this.removeEntry(id);
+      result.evicted.push(id);
+    }
+
+    this.insert(entry);
+    this.queueWrite(persistence =>
+      persistence.savePendingUTXOTransaction(transaction)
+    );
+
+    if (result.replaced.length > 0) {
+      this.logger.debug(
+        `Transaction ${transaction.id} replaced ${result.replaced.join(', ')}`
+      );
+    }
+    if (result.evicted.length > 0) {
+      this.logger.debug(
+        `Evicted ${result.evicted.length} low fee-rate transactions for ${transaction.id}`
+      );
+    }
+
+    result.isValid = true;
+    return result;
+  }
+
+  /**
+   * Remove a transaction and its descendants, which can no longer be mined
+   * without it. Returns whether the transaction was in the pool.
+   */
+  remove(id: string): boolean {
+    if (!this.entries.has(id)) {
+      return false;
+    }
+
+    for (const descendant of this.getDescendants(id)) {
+      this.removeEntry(descendant);
+    }
+    this.removeEntry(id);
+    return true;
+  }
+
+  /**
+   * Drop transactions confirmed in a block along with pending transactions
+   * that spend the same outpoints, which can no longer be mined. Children of
+   * confirmed transactions stay, as their inputs are now confirmed.
+   * @returns IDs of the removed transactions
+   */
+  removeConfirmed(transactions: UTXOTransaction[]): string[] {
+    const removed: string[] = [];
+    for (const transaction of transactions) {
+      if (this.entries.has(transaction.id)) {
+        this.removeEntry(transaction.id);
+        removed.push(transaction.id);
+      }
+      for (const id of this.getConflicts(transaction)) {
+        const descendants = this.getDescendants(id);
+        if (this.remove(id)) {
+          removed.push(id, ...descendants);
+          this.logger.debug(
+            `Removed ${id}: conflicts with confirmed transaction ${transaction.id}`
+          );
+        }
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Output of a pooled transaction as a UTXO, whether or not another pooled
+   * transaction spends it
+   */
+  getUnconfirmedUTXO(txId: string, outputIndex: number): UTXO | null {
+    const output = this.entries
+      .get(txId)
+      ?.transaction.outputs.find(o => o.outputIndex === outputIndex);
+    if (!output) {
+      return null;
+    }
+
+    return {
+      txId,
+      outputIndex,
+      value: output.value,
+      lockingScript: output.lockingScript,
+      blockHeight: UNCONFIRMED_HEIGHT,
+      isSpent: false,
+    };
+  }
+
+  /**
+   * Unspent outputs of pooled transactions that pay to an address
+   */
+  getUnconfirmedUTXOsForAddress(address: string): UTXO[] {
+    const utxos: UTXO[] = [];
+    for (const { transaction } of this.entries.values()) {
+      for (const output of transaction.outputs) {
+        if (
+          !this.isSpent(transaction.id, output.outputIndex) &&
+          ScriptInterpreter.extractAddress(output.lockingScript) === address
+        ) {
+          utxos.push(
+            this.getUnconfirmedUTXO(transaction.id, output.outputIndex)!
+          );
+        }
+      }
+    }
+    return utxos;
+  }
+
+  /**
+   * IDs of pooled transactions the given one depends on, directly or not
+   */
+  getAncestors(transaction: UTXOTransaction): Set<string> {
+    const ancestors = new Set<string>();
+    const visit = (tx: UTXOTransaction): void => {
+      for (const input of tx.inputs) {
+        const parent = this.entries.get(input.previousTxId);
+        if (parent && !ancestors.has(input.previousTxId)) {
+          ancestors.add(input.previousTxId);
+          visit(parent.transaction);
+        }
+      }
+    };
+    visit(transaction);
+    return ancestors;
+  }
+
+  /**
+   * IDs of pooled transactions spending outputs of the given one, directly
+   * or not
+   */
+  getDescendants(id: string): Set<string> {
+    const descendants = new Set<string>();
+    const visit = (txId: string): void => {
+      const entry = this.entries.get(txId);
+      if (!entry) {
+        return;
+      }
+      for (const output of entry.transaction.outputs) {
+        const spender = this.spentOutpoints.get(
+          Mempool.getOutpointKey(txId, output.outputIndex)
+        );
+        if (spender && !descendants.has(spender)) {
+          descendants.add(spender);
+          visit(spender);
+        }
+      }
+    };
+    visit(id);
+    return descendants;
+  }
+
+  /**
+   * Order eligible transactions for a block by ancestor package fee rate:
+   * repeatedly take the transaction whose fee rate together with its not yet
+   * selected ancestors is highest, adding the ancestors first. A high-fee
+   * child thereby pulls in its low-fee parents. Transactions that are not
+   * eligible exclude their descendants too.
+   */
+  selectPackages(
+    isEligible: (transaction: UTXOTransaction) => boolean = () => true
+  ): UTXOTransaction[] {
+    const excluded = new Set<string>();
+    for (const { transaction } of this.entries.values()) {
+      if (!isEligible(transaction)) {
+        excluded.add(transaction.id);
+        this.getDescendants(transaction.id).forEach(id => excluded.add(id));
+      }
+    }
+
+    const ancestorsById = new Map<string, Set<string>>();
+    for (const { transaction } of this.entries.values()) {
+      ancestorsById.set(transaction.id, this.getAncestors(transaction));
+    }
+
+    const selected = new Set<string>();
+    const ordered: UTXOTransaction[] = [];
+    for (;;) {
+      let best: { members: string[]; feeRate: number } | null = null;
+      for (const id of this.entries.keys()) {
+        if (selected.has(id) || excluded.has(id)) {
+          continue;
+        }
+        const members = [id, ...ancestorsById.get(id)!].filter(
+          member => !selected.has(member)
+        );
+        let fee = 0;
+        let size = 0;
+        for (const member of members) {
+          const entry = this.entries.get(member)!;
+          fee += entry.transaction.fee;
+          size += entry.size;
+        }
+        if (!best || fee / size > best.feeRate) {
+          best = { members, feeRate: fee / size };
+        }
+      }
+      if (!best) {
+        break;
+      }
+
+      // Ancestors always have fewer ancestors than their descendants
+      best.members
+        .sort((a, b) => ancestorsById.get(a)!.size - ancestorsById.get(b)!.size)
+        .forEach(member => {
+          selected.add(member);
+          ordered.push(this.entries.get(member)!.transaction);
+        });
+    }
+
+    return ordered;
+  }
+
+  /**
+   * IDs of pooled transactions spending any outpoint the given one spends
+   */
+  getConflicts(transaction: UTXOTransaction): string[] {
+    const conflicts = new Set<string>();
+    for (const input of transaction.inputs) {
+      const spender = this.spentOutpoints.get(
+        Mempool.getOutpointKey(input.previousTxId, input.outputIndex)
+      );
+      if (spender && spender !== transaction.id) {
+        conflicts.add(spender);
+      }
+    }
+    return [...conflicts];
+  }
+
+  isSpent(txId: string, outputIndex: number): boolean {
+    return this.spentOutpoints.has(Mempool.getOutpointKey(txId, outputIndex));
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  get(id: string): UTXOTransaction | undefined {
+    return this.entries.get(id)?.transaction;
+  }
+
+  getEntry(id: string): MempoolEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Pending transactions in the order they were accepted
+   */
+  getTransactions(): UTXOTransaction[] {
+    return [...this.entries.values()].map(entry => entry.transaction);
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  getMaxSize(): number {
+    return this.config.maxSize;
+  }
+
+  /**
+   * Change the capacity, evicting the lowest fee-rate transactions if the
+   * pool is now over it
+   */
+  setMaxSize(maxSize: number): void {
+    if (!Number.isInteger(maxSize) || maxSize < 1) {
+      throw new Error(`Invalid mempool max size: ${maxSize}`);
+    }
+    this.config.maxSize = maxSize;
+
+    const byFeeRate = [...this.entries.values()].sort(
+      (a, b) => a.feeRate - b.feeRate
+    );
+    while (this.entries.size > maxSize) {
+      this.remove(byFeeRate.shift()!.transaction.id);
+    }
+  }
+
+  getMaxChainLength(): number {
+    return this.config.maxChainLength;
+  }
+
+  /**
+   * Limit how many unconfirmed generations a chain of pooled transactions
+   * may span. Applies to transactions added from now on.
+   */
+  setMaxChainLength(maxChainLength: number): void {
+    if (!Number.isInteger(maxChainLength) || maxChainLength < 1) {
+      throw new Error(`Invalid mempool chain length: ${maxChainLength}`);
+    }
+    this.config.maxChainLength = maxChainLength;
+  }
+
+  clear(): void {
+    for (const id of [...this.entries.keys()]) {
+      this.remove(id);
+    }
+  }
+
+  /**
+   * Reload transactions read back from storage. Transactions the validator
+   * rejects, or that no longer fit in the pool, are deleted from storage.
+   * Storage order is arbitrary, so rejected transactions are retried while
+   * others are still being restored in case their parents come later.
+   */
+  restore(
+    transactions: UTXOTransaction[],
+    validate: (transaction: UTXOTransaction) => ValidationResult
+  ): void {
+    let remaining = transactions;
+    let errors = new Map<string, string[]>();
+    let restored = 0;
+    for (;;) {
+      const rejected: UTXOTransaction[] = [];
+      errors = new Map();
+      for (const transaction of remaining) {
+        const validation = validate(transaction);
+        const result = validation.isValid ? this.add(transaction) : validation;
+        if (result.isValid) {
+          restored++;
+        } else {
+          rejected.push(transaction);
+          errors.set(transaction.id, result.errors);
+        }
+      }
+      if (rejected.length === remaining.length) {
+        break;
+      }
+      remaining = rejected;
+    }
+
+    for (const transaction of remaining) {
+      this.logger.debug(
+        `Dropped stored transaction ${transaction.id}: ${errors.get(transaction.id)!.join(', ')}`
+      );
+      this.queueWrite(persistence =>
+        persistence.deletePendingUTXOTransaction(transaction.id)
+      );
+    }
+
+    this.logger.debug(
+      `Restored ${restored} of ${transactions.length} stored transactions`
+    );
+  }
+
+  setPersistenceEnabled(enabled: boolean): void {
+    this.persistenceEnabled = enabled;
+  }
+
+  /**
+   * Wait until every queued storage write has completed
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+  }
+
+  // Private helper methods
+
+  private createEntry(transaction: UTXOTransaction): MempoolEntry {
+    const size = BinaryCodec.encodeUTXOTransaction(transaction).length;
+    return {
+      transaction,
+      size,
+      feeRate: transaction.fee / size,
+      addedAt: Date.now(),
+    };
+  }
+
+  private removeEntry(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(id);
+    for (const input of entry.transaction.inputs) {
+      const outpoint = Mempool.getOutpointKey(
+        input.previousTxId,
+        input.outputIndex
+      );
+      if (this.spentOutpoints.get(outpoint) === id) {
+        this.spentOutpoints.delete(outpoint);
+      }
+    }
+    this.queueWrite(persistence =>
+      persistence.deletePendingUTXOTransaction(id)
+    );
+  }
+
+  /**
+   * Number of unconfirmed generations ending in the given transaction
+   */
+  private getChainLength(transaction: UTXOTransaction): number {
+    let longestParentChain = 0;
+    for (const input of transaction.inputs) {
+      const parent = this.entries.get(input.previousTxId);
+      if (parent) {
+        longestParentChain = Math.max(
+          longestParentChain,
+          this.getChainLength(parent.transaction)
+        );
+      }
+    }
+    return longestParentChain + 1;
+  }
+
+  private insert(entry: MempoolEntry): void {
+    const { transaction } = entry;
+    this.entries.set(transaction.id, entry);
+    for (const input of transaction.inputs) {
+      this.spentOutpoints.set(
+        Mempool.getOutpointKey(input.previousTxId, input.outputIndex),
+        transaction.id
+      );
+    }
+  }
+
+  /**
+   * Replace-by-fee rules: every conflicting transaction must signal
+   * replaceability, and the replacement must pay a higher fee rate than each
+   * of them and cover the combined fees of everything it replaces plus its
+   * own relay cost. It may not spend outputs of what it replaces.
+   */
+  private checkReplacement(
+    entry: MempoolEntry,
+    conflicts: string[],
+    replaced: Set<string>,
+    ancestors: Set<string>
+  ): string | null {
+    const conflicting = conflicts.map(id => this.entries.get(id)!);
+
+    const nonReplaceable = conflicting.find(
+      existing => !Mempool.signalsReplaceByFee(existing.transaction)
+    );
+    if (nonReplaceable) {
+      return `Transaction conflicts with pending transaction ${nonReplaceable.transaction.id}, which does not signal replace-by-fee`;
+    }
+
+    const spentReplaced = [...ancestors].find(id => replaced.has(id));
+    if (spentReplaced) {
+      return `Replacement spends an output of transaction ${spentReplaced}, which it replaces`;
+    }
+
+    const highestFeeRate = Math.max(...conflicting.map(e => e.feeRate));
+    if (entry.feeRate <= highestFeeRate) {
+      return `Replacement fee rate ${entry.feeRate} must exceed ${highestFeeRate}`;
+    }
+
+    const requiredFee =
+      [...replaced].reduce(
+        (sum, id) => sum + this.entries.get(id)!.transaction.fee,
+        0
+      ) +
+      entry.size * this.config.minReplacementFeeRate;
+    if (entry.transaction.fee < requiredFee) {
+      return `Replacement fee ${entry.transaction.fee} is below the required ${requiredFee}`;
+    }
+
+    return null;
+  }
+
+  private queueWrite(
+    write: (persistence: UTXOPersistenceManager) => Promise<void>
+  ): void {
+    const persistence = this.persistence;
+    if (!persistence || !this.persistenceEnabled) {
+      return;
+    }
+
+    this.pendingWrites = this.pendingWrites
+      .then(() => write(persistence))
+      .catch(error => {
+        this.logger.error(`Failed to persist mempool change: ${error}`);
+      });
+  }
+}
+
+/**
+ * Read-only view of the confirmed UTXO set extended with the outputs of
+ * pooled transactions, so transactions spending unconfirmed outputs can be
+ * validated and built. Address queries leave out outputs already spent by
+ * pooled transactions; existence checks do not, so conflicting spends still
+ * reach the mempool's replace-by-fee rules.
+ */
+export class MempoolUTXOView implements IUTXOManager {
+  constructor(
+    private base: UTXOManager,
+    private mempool: Mempool
+  ) {}
+
+  addUTXO(): void {
+    throw new Error('Mempool UTXO view is read-only');
+  }
+
+  removeUTXO(): boolean {
+    throw new Error('Mempool UTXO view is read-only');
+  }
+
+  applyUTXOUpdates(): void {
+    throw new Error('Mempool UTXO view is read-only');
+  }
+
+  getUTXO(txId: string, outputIndex: number): UTXO | null {
+    return (
+      this.base.getUTXO(txId, outputIndex) ??
+      this.mempool.getUnconfirmedUTXO(txId, outputIndex)
+    );
+  }
+
+  getUTXOsForAddress(address: string): UTXO[] {
+    return [
+      ...this.base
+        .getUTXOsForAddress(address)
+        .filter(utxo => !this.mempool.isSpent(utxo.txId, utxo.outputIndex)),
+      ...this.mempool.getUnconfirmedUTXOsForAddress(address),
+    ].sort((a, b) => b.value - a.value);
+  }
+
+  calculateBalance(address: string): number {
+    return this.getUTXOsForAddress(address).reduce(
+      (total, utxo) => total + utxo.value,
+      0
+    );
+  }
+
+  getSpendableUTXOs(address: string, amount: number): UTXO[] {
+    return this.base.selectUTXOs(this.getUTXOsForAddress(address), amount)
+      .selectedUTXOs;
+  }
+
+  validateUTXOExists(txId: string, outputIndex: number): boolean {
+    return (
+      this.base.validateUTXOExists(txId, outputIndex) ||
+      this.mempool.getUnconfirmedUTXO(txId, outputIndex) !== null
+    );
+  }
+
+  validateUTXOOwnership(utxo: UTXO, publicKey: string): boolean {
+    return this.base.validateUTXOOwnership(utxo, publicKey);
+  }
+
+  getUTXOSetSize(): number {
+    return this.base.getUTXOSetSize();
+  }
+
+  getTotalValue(): number {
+    return this.base.getTotalValue();
+  }
+}
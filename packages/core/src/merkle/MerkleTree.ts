@@ -6,6 +6,8 @@ import type {
   ProofElement,
   CompressedMerkleProof,
 } from '../types.js';
+import { UTXOTransactionManager } from '../utxo-transaction.js';
+import { BinaryCodec } from '../codec.js';
 
 export class MerkleTree {
   /**
@@ -13,6 +15,8 @@ export class MerkleTree {
    * This method constructs a complete tree structure for proof generation
    */
   static buildTree(transactions: UTXOTransaction[]): MerkleNode[] {
+    this.assertTransactionIds(transactions);
+
     if (transactions.length === 0) {
       const emptyHash = createHash('sha256').update('').digest('hex');
       return [
@@ -25,7 +29,7 @@ export class MerkleTree {
 
     // Create leaf nodes from transactions
     const leafNodes: MerkleNode[] = transactions.map(tx => ({
-      hash: createHash('sha256').update(JSON.stringify(tx)).digest('hex'),
+      hash: this.hashTransaction(tx),
       isLeaf: true,
       transactionId: tx.id,
     }));
@@ -33,17 +37,26 @@ export class MerkleTree {
     return this.buildTreeFromLeaves(leafNodes);
   }
 
+  /**
+   * Hash a transaction into a merkle leaf using its canonical encoding
+   */
+  static hashTransaction(transaction: UTXOTransaction): string {
+    return createHash('sha256')
+      .update(BinaryCodec.encodeUTXOTransaction(transaction))
+      .digest('hex');
+  }
+
   /**
    * Calculate merkle root for UTXO transactions
    */
   static calculateRoot(transactions: UTXOTransaction[]): string {
+    this.assertTransactionIds(transactions);
+
     if (transactions.length === 0) {
       return createHash('sha256').update('').digest('hex');
     }
 
-    const hashes = transactions.map(tx =>
-      createHash('sha256').update(JSON.stringify(tx)).digest('hex')
-    );
+    const hashes = transactions.map(tx => this.hashTransaction(tx));
 
     while (hashes.length > 1) {
       const newHashes: string[] = [];
@@ -69,15 +82,15 @@ export class MerkleTree {
     transactions: UTXOTransaction[],
     targetTxId: string
   ): MerkleProof | null {
+    this.assertTransactionIds(transactions);
+
     const targetIndex = transactions.findIndex(tx => tx.id === targetTxId);
     if (targetIndex === -1) {
       return null;
     }
 
     const targetTransaction = transactions[targetIndex];
-    const targetHash = createHash('sha256')
-      .update(JSON.stringify(targetTransaction))
-      .digest('hex');
+    const targetHash = this.hashTransaction(targetTransaction);
     const merkleRoot = this.calculateRoot(transactions);
 
     // Build complete tree to generate proof
@@ -189,6 +202,19 @@ export class MerkleTree {
   /**
    * Build tree structure from leaf nodes
    */
+  /**
+   * Reject transactions whose ID is not derived from their contents
+   */
+  private static assertTransactionIds(transactions: UTXOTransaction[]): void {
+    for (const tx of transactions) {
+      if (tx.id !== UTXOTransactionManager.calculateTransactionId(tx)) {
+        throw new Error(
+          `Transaction ID ${tx.id} does not match transaction contents`
+        );
+      }
+    }
+  }
+
   private static buildTreeFromLeaves(leafNodes: MerkleNode[]): MerkleNode[] {
     let currentLevel = leafNodes;
     const allNodes = [...leafNodes];
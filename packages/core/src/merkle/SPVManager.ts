@@ -1,4 +1,3 @@
-import { createHash } from 'crypto';
 import type {
   UTXOTransaction,
   MerkleProof,
@@ -7,8 +6,12 @@ import type {
   SPVValidationResult,
   IUTXOManager,
   UTXO,
+  UTXOExistenceProof,
 } from '../types.js';
 import { MerkleTree } from './MerkleTree.js';
+import { UTXOCommitment } from './UTXOCommitment.js';
+import { DifficultyManager } from '../difficulty.js';
+import { getBlockTarget, meetsTarget } from '../pow-target.js';
 
 export class SPVManager {
   /**
@@ -32,9 +35,7 @@ export class SPVManager {
     }
 
     // Verify transaction hash matches proof
-    const txHash = createHash('sha256')
-      .update(JSON.stringify(tx))
-      .digest('hex');
+    const txHash = MerkleTree.hashTransaction(tx);
     if (txHash !== proof.transactionHash) {
       errors.push('Transaction hash does not match proof');
       transactionVerified = false;
@@ -92,10 +93,15 @@ export class SPVManager {
 
   /**
    * Validate block header with previous header (chain validation)
+   * @param recentHeaders - headers up to the previous one, for the median
+   * time past; only the previous header if omitted
+   * @param now - network-adjusted time for the future timestamp limit
    */
   static validateBlockHeader(
     header: BlockHeader,
-    previousHeader: BlockHeader | null
+    previousHeader: BlockHeader | null,
+    recentHeaders: BlockHeader[] = previousHeader ? [previousHeader] : [],
+    now: number = Date.now()
   ): ValidationResult {
     const errors: string[] = [];
 
@@ -113,16 +119,17 @@ export class SPVManager {
       if (header.previousHash !== previousHeader.hash) {
         errors.push('Previous hash does not match');
       }
-
-      if (header.timestamp <= previousHeader.timestamp) {
-        errors.push('Block timestamp must be greater than previous block');
-      }
     }
 
+    // Timestamp after the median time past and not too far in the future
+    errors.push(
+      ...DifficultyManager.validateBlockTimestamp(header, recentHeaders, now)
+        .errors
+    );
+
     // Validate proof of work (if difficulty is specified)
-    if (header.difficulty !== undefined) {
-      const target = Array(header.difficulty + 1).join('0');
-      if (!header.hash.startsWith(target)) {
+    if (header.difficulty !== undefined || header.bits !== undefined) {
+      if (!meetsTarget(header.hash, getBlockTarget(header))) {
         errors.push('Block does not meet difficulty requirement');
       }
     }
@@ -203,6 +210,29 @@ export class SPVManager {
     return utxo.lockingScript === publicKey;
   }
 
+  /**
+   * Verify that an output was unspent after a block, using the UTXO root
+   * its header commits to. The header itself must already be trusted,
+   * e.g. as part of a validated header chain.
+   */
+  static verifyUTXOExistence(
+    proof: UTXOExistenceProof,
+    blockHeader: BlockHeader
+  ): ValidationResult {
+    const errors: string[] = [];
+
+    if (blockHeader.utxoRoot === undefined) {
+      errors.push('Block header does not commit to a UTXO set');
+    } else if (!UTXOCommitment.verifyProof(proof, blockHeader.utxoRoot)) {
+      errors.push('UTXO proof verification failed');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
   /**
    * Create block header from essential block data
    * This is used to convert full blocks to headers for SPV clients
@@ -270,6 +300,11 @@ export class SPVManager {
       if (!hexRegex.test(header.merkleRoot)) return false;
       if (header.previousHash !== '0' && !hexRegex.test(header.previousHash))
         return false;
+      if (
+        header.utxoRoot !== undefined &&
+        (header.utxoRoot.length !== 64 || !hexRegex.test(header.utxoRoot))
+      )
+        return false;
 
       return true;
     } catch {
@@ -0,0 +1,245 @@
+import { createHash } from 'crypto';
+import type { UTXO, UTXOExistenceProof, ProofElement } from '../types.js';
+import { BinaryCodec } from '../codec.js';
+
+/**
+ * Commitment to a UTXO set: the root of a merkle tree whose leaves are the
+ * set's outputs sorted by outpoint (transaction ID, then output index).
+ * Sorting makes the root depend only on the set's contents, so any node
+ * holding the same set computes the same root however it was built.
+ *
+ * Nodes pair up the same way as transaction merkle trees, duplicating the
+ * last hash of an odd level.
+ */
+export class UTXOCommitment {
+  /**
+   * Hash an unspent output into a leaf using its canonical encoding
+   */
+  static hashUTXO(utxo: UTXO): string {
+    return createHash('sha256')
+      .update(BinaryCodec.encodeUTXO(utxo))
+      .digest('hex');
+  }
+
+  static calculateRoot(utxos: Iterable<UTXO>): string {
+    return new UTXOCommitmentTree(utxos).getRoot();
+  }
+
+  /**
+   * Prove that an output is in the set
+   * @returns null if the output is not in the set
+   */
+  static generateProof(
+    utxos: Iterable<UTXO>,
+    txId: string,
+    outputIndex: number
+  ): UTXOExistenceProof | null {
+    return new UTXOCommitmentTree(utxos).generateProof(txId, outputIndex);
+  }
+
+  /**
+   * Check that a proof leads from its output to the given UTXO root
+   */
+  static verifyProof(proof: UTXOExistenceProof, utxoRoot: string): boolean {
+    if (proof.utxoRoot !== utxoRoot) {
+      return false;
+    }
+
+    let currentHash: string;
+    try {
+      currentHash = this.hashUTXO(proof.utxo);
+    } catch {
+      return false;
+    }
+
+    for (const element of proof.proof) {
+      currentHash = this.hashPair(
+        element.direction === 'left' ? element.hash : currentHash,
+        element.direction === 'left' ? currentHash : element.hash
+      );
+    }
+
+    return currentHash === utxoRoot;
+  }
+
+  /**
+   * Outputs in the order they are committed to
+   */
+  static sortUTXOs(utxos: Iterable<UTXO>): UTXO[] {
+    return Array.from(utxos).sort((a, b) =>
+      this.compareOutpoints(a, b.txId, b.outputIndex)
+    );
+  }
+
+  static compareOutpoints(
+    utxo: Pick<UTXO, 'txId' | 'outputIndex'>,
+    txId: string,
+    outputIndex: number
+  ): number {
+    if (utxo.txId !== txId) {
+      return utxo.txId < txId ? -1 : 1;
+    }
+    return utxo.outputIndex - outputIndex;
+  }
+
+  static hashPair(left: string, right: string): string {
+    return createHash('sha256')
+      .update(left + right)
+      .digest('hex');
+  }
+}
+
+/**
+ * UTXO commitment kept up to date as outputs are added and removed, so a
+ * growing set is not rehashed on every block. Leaf hashes are cached, and
+ * a change only rehashes the nodes covering its leaf and the leaves after
+ * it, which shift position. The root matches UTXOCommitment.calculateRoot
+ * over the same outputs.
+ */
+export class UTXOCommitmentTree {
+  private leaves: UTXO[];
+  // Every level of the tree, from the leaf hashes up to the root
+  private levels: string[][];
+  // First leaf whose ancestors are stale, Infinity when the tree is current
+  private staleFrom = 0;
+
+  constructor(utxos: Iterable<UTXO> = []) {
+    this.leaves = UTXOCommitment.sortUTXOs(utxos);
+    this.levels = [this.leaves.map(utxo => UTXOCommitment.hashUTXO(utxo))];
+  }
+
+  /**
+   * Add an output, replacing any output at the same outpoint
+   */
+  insert(utxo: UTXO): void {
+    const index = this.findLeaf(utxo.txId, utxo.outputIndex);
+    const hash = UTXOCommitment.hashUTXO(utxo);
+    if (this.hasLeafAt(index, utxo.txId, utxo.outputIndex)) {
+      this.leaves[index] = utxo;
+      this.levels[0][index] = hash;
+    } else {
+      this.leaves.splice(index, 0, utxo);
+      this.levels[0].splice(index, 0, hash);
+    }
+    this.staleFrom = Math.min(this.staleFrom, index);
+  }
+
+  /**
+   * Remove an output
+   * @returns false if the output is not in the tree
+   */
+  remove(txId: string, outputIndex: number): boolean {
+    const index = this.findLeaf(txId, outputIndex);
+    if (!this.hasLeafAt(index, txId, outputIndex)) {
+      return false;
+    }
+    this.leaves.splice(index, 1);
+    this.levels[0].splice(index, 1);
+    this.staleFrom = Math.min(this.staleFrom, index);
+    return true;
+  }
+
+  getRoot(): string {
+    this.refresh();
+    // An empty set has the hash of no data as its root
+    return (
+      this.levels[this.levels.length - 1][0] ??
+      createHash('sha256').update('').digest('hex')
+    );
+  }
+
+  /**
+   * Prove that an output is in the tree
+   * @returns null if the output is not in the tree
+   */
+  generateProof(txId: string, outputIndex: number): UTXOExistenceProof | null {
+    const leafIndex = this.findLeaf(txId, outputIndex);
+    if (!this.hasLeafAt(leafIndex, txId, outputIndex)) {
+      return null;
+    }
+
+    this.refresh();
+    const proof: ProofElement[] = [];
+    let index = leafIndex;
+    for (const level of this.levels.slice(0, -1)) {
+      if (index % 2 === 0) {
+        proof.push({
+          hash: level[index + 1] ?? level[index],
+          direction: 'right',
+        });
+      } else {
+        proof.push({ hash: level[index - 1], direction: 'left' });
+      }
+      index = Math.floor(index / 2);
+    }
+
+    return {
+      utxo: this.leaves[leafIndex],
+      leafIndex,
+      proof,
+      utxoRoot: this.getRoot(),
+    };
+  }
+
+  /**
+   * Rehash the stale nodes of each level above the leaves. A parent is
+   * stale when either child is, and each level is cut to half the one
+   * below it, duplicating the last hash of an odd level.
+   */
+  private refresh(): void {
+    if (this.staleFrom === Infinity) {
+      return;
+    }
+
+    let level = 0;
+    let staleFrom = this.staleFrom;
+    while (this.levels[level].length > 1) {
+      const children = this.levels[level];
+      const parents = this.levels[level + 1] ?? [];
+      parents.length = Math.ceil(children.length / 2);
+      staleFrom = Math.floor(staleFrom / 2);
+      for (let i = staleFrom; i < parents.length; i++) {
+        parents[i] = UTXOCommitment.hashPair(
+          children[2 * i],
+          children[2 * i + 1] ?? children[2 * i]
+        );
+      }
+      this.levels[level + 1] = parents;
+      level++;
+    }
+    this.levels.length = level + 1;
+    this.staleFrom = Infinity;
+  }
+
+  /**
+   * Position of an outpoint in the sorted leaves, or where it would go
+   */
+  private findLeaf(txId: string, outputIndex: number): number {
+    let low = 0;
+    let high = this.leaves.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (
+        UTXOCommitment.compareOutpoints(
+          this.leaves[middle],
+          txId,
+          outputIndex
+        ) < 0
+      ) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  private hasLeafAt(index: number, txId: string, outputIndex: number): boolean {
+    const leaf = this.leaves[index];
+    return (
+      leaf !== undefined &&
+      leaf.txId === txId &&
+      leaf.outputIndex === outputIndex
+    );
+  }
+}
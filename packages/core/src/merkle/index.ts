@@ -1,2 +1,3 @@
 export { MerkleTree } from './MerkleTree.js';
 export { SPVManager } from './SPVManager.js';
+export { UTXOCommitment, UTXOCommitmentTree } from './UTXOCommitment.js';
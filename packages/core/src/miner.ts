@@ -0,0 +1,286 @@
+import { Worker } from 'worker_threads';
+import { availableParallelism } from 'os';
+import type { Block } from './types.js';
+import { BlockManager } from './block.js';
+import { BinaryCodec } from './codec.js';
+import { getBlockTarget, targetToHex } from './pow-target.js';
+
+// Simple logger for development
+class SimpleLogger {
+  constructor(private context: string) {}
+  debug(message: string): void {
+    console.log(`[DEBUG] ${this.context}: ${message}`);
+  }
+  warn(message: string): void {
+    console.warn(`[WARN] ${this.context}: ${message}`);
+  }
+  error(message: string): void {
+    console.error(`[ERROR] ${this.context}: ${message}`);
+  }
+}
+
+export interface MinerConfig {
+  workerCount: number; // Worker threads sharing the nonce space
+  progressInterval: number; // Hashes between hashrate reports from a worker
+}
+
+export interface MiningStats {
+  isMining: boolean;
+  height: number | null; // Height of the block being mined
+  workerCount: number;
+  hashrate: number; // Hashes per second over the current or last job
+  totalHashes: number;
+  blocksFound: number;
+  jobsCancelled: number;
+}
+
+interface WorkerData {
+  prefix: Uint8Array;
+  suffix: Uint8Array;
+  target: string; // 64 hex digits
+  startNonce: number;
+  endNonce: number;
+  progressInterval: number;
+}
+
+type WorkerMessage =
+  | { type: 'progress'; hashes: number }
+  | { type: 'found'; nonce: number; hashes: number }
+  | { type: 'exhausted'; hashes: number };
+
+interface MiningJob {
+  block: Block;
+  workers: Worker[];
+  startedAt: number;
+  hashes: number;
+  exhaustedWorkers: number;
+  settle: (result: Block | null, error?: Error) => void;
+}
+
+/**
+ * Worker body, evaluated as a script. It hashes prefix + varuint(nonce) +
+ * suffix for every nonce in its range, mirroring BinaryCodec's encoding of
+ * the nonce, and stops at the first hash meeting the target. Both are 64
+ * lowercase hex digits, so comparing them as strings compares the numbers.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { createHash } = require('crypto');
+
+function encodeVarUint(value) {
+  const bytes = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
+
+function search({ prefix, suffix, target, startNonce, endNonce, progressInterval }) {
+  let hashes = 0;
+  for (let nonce = startNonce; nonce < endNonce; nonce++) {
+    const hash = createHash('sha256')
+      .update(prefix)
+      .update(encodeVarUint(nonce))
+      .update(suffix)
+      .digest('hex');
+    hashes++;
+    if (hash <= target) {
+      parentPort.postMessage({ type: 'found', nonce, hashes });
+      return;
+    }
+    if (hashes === progressInterval) {
+      parentPort.postMessage({ type: 'progress', hashes });
+      hashes = 0;
+    }
+  }
+  parentPort.postMessage({ type: 'exhausted', hashes });
+}
+
+search(workerData);
+`;
+
+/**
+ * Proof-of-work miner that searches for a nonce on worker threads, keeping
+ * the event loop free for networking while a block is mined. The nonce
+ * space is split into one contiguous range per worker. A job can be
+ * cancelled at any time, which terminates its workers.
+ */
+export class BlockMiner {
+  private config: MinerConfig;
+  private job: MiningJob | null = null;
+  private totalHashes = 0;
+  private blocksFound = 0;
+  private jobsCancelled = 0;
+  private lastHashrate = 0;
+  private logger = new SimpleLogger('BlockMiner');
+
+  constructor(config: Partial<MinerConfig> = {}) {
+    this.config = {
+      workerCount: Math.max(1, availableParallelism() - 1),
+      progressInterval: 10000,
+      ...config,
+    };
+
+    if (
+      !Number.isInteger(this.config.workerCount) ||
+      this.config.workerCount < 1
+    ) {
+      throw new Error('Worker count must be a positive integer');
+    }
+    if (
+      !Number.isInteger(this.config.progressInterval) ||
+      this.config.progressInterval < 1
+    ) {
+      throw new Error('Progress interval must be a positive integer');
+    }
+  }
+
+  /**
+   * Mine a block, searching nonces from block.nonce upwards. Resolves with
+   * the mined block, or null if the job was cancelled.
+   */
+  mine(block: Block): Promise<Block | null> {
+    if (this.job) {
+      throw new Error(
+        `Already mining block ${this.job.block.index}; cancel it first`
+      );
+    }
+
+    const { prefix, suffix } = BinaryCodec.encodeBlockHashPreimageParts(block);
+    const target = targetToHex(getBlockTarget(block));
+    const { workerCount, progressInterval } = this.config;
+    const rangeSize = Math.floor(
+      (Number.MAX_SAFE_INTEGER - block.nonce) / workerCount
+    );
+
+    this.logger.debug(
+      `Mining block ${block.index} at difficulty ${block.difficulty} on ${workerCount} workers`
+    );
+
+    return new Promise<Block | null>((resolve, reject) => {
+      const job: MiningJob = {
+        block,
+        workers: [],
+        startedAt: Date.now(),
+        hashes: 0,
+        exhaustedWorkers: 0,
+        settle: (result, error) => {
+          if (this.job !== job) {
+            return;
+          }
+          this.finishJob(job);
+          if (error) {
+            reject(error);
+          } else {
+            resolve(result);
+          }
+        },
+      };
+      this.job = job;
+
+      for (let i = 0; i < workerCount; i++) {
+        const startNonce = block.nonce + i * rangeSize;
+        const workerData: WorkerData = {
+          prefix,
+          suffix,
+          target,
+          startNonce,
+          endNonce:
+            i === workerCount - 1
+              ? Number.MAX_SAFE_INTEGER
+              : startNonce + rangeSize,
+          progressInterval,
+        };
+        const worker = new Worker(WORKER_SOURCE, { eval: true, workerData });
+        worker.on('message', (message: WorkerMessage) =>
+          this.handleWorkerMessage(job, message)
+        );
+        worker.on('error', error =>
+          job.settle(null, new Error(`Mining worker failed: ${error.message}`))
+        );
+        job.workers.push(worker);
+      }
+    });
+  }
+
+  /**
+   * Stop the current job; its mine() call resolves with null
+   */
+  cancel(): boolean {
+    if (!this.job) {
+      return false;
+    }
+
+    this.logger.debug(`Cancelled mining block ${this.job.block.index}`);
+    this.jobsCancelled++;
+    this.job.settle(null);
+    return true;
+  }
+
+  isMining(): boolean {
+    return this.job !== null;
+  }
+
+  /**
+   * Hashes per second over the running job, or over the last job if idle
+   */
+  getHashrate(): number {
+    if (!this.job) {
+      return this.lastHashrate;
+    }
+    return BlockMiner.calculateHashrate(this.job);
+  }
+
+  getStats(): MiningStats {
+    return {
+      isMining: this.isMining(),
+      height: this.job ? this.job.block.index : null,
+      workerCount: this.config.workerCount,
+      hashrate: this.getHashrate(),
+      totalHashes: this.totalHashes,
+      blocksFound: this.blocksFound,
+      jobsCancelled: this.jobsCancelled,
+    };
+  }
+
+  private handleWorkerMessage(job: MiningJob, message: WorkerMessage): void {
+    if (this.job !== job) {
+      return;
+    }
+
+    job.hashes += message.hashes;
+    this.totalHashes += message.hashes;
+
+    if (message.type === 'found') {
+      const minedBlock = { ...job.block, nonce: message.nonce };
+      minedBlock.hash = BlockManager.calculateHash(minedBlock);
+      this.blocksFound++;
+      this.logger.debug(
+        `Mined block ${minedBlock.index} with nonce ${minedBlock.nonce} after ${job.hashes} hashes`
+      );
+      job.settle(minedBlock);
+    } else if (message.type === 'exhausted') {
+      job.exhaustedWorkers++;
+      if (job.exhaustedWorkers === job.workers.length) {
+        this.logger.warn(`Nonce space exhausted for block ${job.block.index}`);
+        job.settle(null);
+      }
+    }
+  }
+
+  private finishJob(job: MiningJob): void {
+    this.lastHashrate = BlockMiner.calculateHashrate(job);
+    this.job = null;
+    for (const worker of job.workers) {
+      void worker.terminate();
+    }
+  }
+
+  private static calculateHashrate(job: MiningJob): number {
+    const elapsedSeconds = (Date.now() - job.startedAt) / 1000;
+    return elapsedSeconds > 0 ? Math.round(job.hashes / elapsedSeconds) : 0;
+  }
+}
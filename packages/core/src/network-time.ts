@@ -0,0 +1,109 @@
+import type { GenesisConfig } from './types.js';
+
+export interface NetworkTimeConfig {
+  maxOffset: number; // Largest adjustment applied to a local clock that is set, ms
+  minSamples: number; // Peers that must report before the clock is adjusted
+  minUnsetSamples: number; // Peers that must report to set an unset clock
+  maxSamples: number; // Peers sampled; reports from further peers are ignored
+  minimumTime: number; // Local clocks earlier than this have never been set
+}
+
+/**
+ * Clock adjusted by the median offset between peers' clocks and the local
+ * one, used for block timestamps and lock time checks.
+ *
+ * A clock that looks set is not adjusted until minSamples distinct peers
+ * have reported, so a handful of peers cannot pick the time, and is never
+ * moved by more than maxOffset. Many mesh devices have no real-time clock
+ * and boot in 1970: a local clock earlier than minimumTime is treated as
+ * unset and takes the median offset however large it is, from as few as
+ * minUnsetSamples peers, since any peer's time beats 1970.
+ */
+export class NetworkTime {
+  private config: NetworkTimeConfig;
+  private samples: Map<string, number> = new Map(); // Offsets by peer
+  private offset = 0;
+
+  constructor(
+    config?: Partial<NetworkTimeConfig>,
+    private clock: () => number = () => Date.now()
+  ) {
+    this.config = {
+      maxOffset: 70 * 60 * 1000,
+      minSamples: 5,
+      minUnsetSamples: 1,
+      maxSamples: 200,
+      minimumTime: 0,
+      ...config,
+    };
+  }
+
+  /**
+   * Network time for a chain, treating clocks earlier than its genesis block
+   * as unset
+   */
+  static fromGenesisConfig(
+    config: GenesisConfig,
+    clock?: () => number
+  ): NetworkTime {
+    return new NetworkTime({ minimumTime: config.metadata.timestamp }, clock);
+  }
+
+  /**
+   * Current network-adjusted time in milliseconds
+   */
+  now(): number {
+    return this.clock() + this.offset;
+  }
+
+  getOffset(): number {
+    return this.offset;
+  }
+
+  getSampleCount(): number {
+    return this.samples.size;
+  }
+
+  /**
+   * Record the time a peer reported, replacing its earlier sample
+   * @param peerTime - the peer's clock when it sent the report
+   */
+  addSample(peerId: string, peerTime: number): void {
+    if (!Number.isFinite(peerTime)) {
+      return;
+    }
+    if (
+      !this.samples.has(peerId) &&
+      this.samples.size >= this.config.maxSamples
+    ) {
+      return;
+    }
+    this.samples.set(peerId, peerTime - this.clock());
+    this.updateOffset();
+  }
+
+  /**
+   * Forget a peer's sample, for peers that disconnect or misbehave
+   */
+  removeSample(peerId: string): void {
+    if (this.samples.delete(peerId)) {
+      this.updateOffset();
+    }
+  }
+
+  private updateOffset(): void {
+    const { maxOffset, minSamples, minUnsetSamples, minimumTime } = this.config;
+    const unset = this.clock() < minimumTime;
+    const required = Math.max(1, unset ? minUnsetSamples : minSamples);
+    if (this.samples.size < required) {
+      this.offset = 0;
+      return;
+    }
+
+    const offsets = [...this.samples.values()].sort((a, b) => a - b);
+    const median = offsets[Math.floor(offsets.length / 2)];
+    this.offset = unset
+      ? median
+      : Math.min(maxOffset, Math.max(-maxOffset, median));
+  }
+}
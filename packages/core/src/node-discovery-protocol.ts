@@ -38,6 +38,7 @@ export class NodeDiscoveryProtocol
   private nodeId: string;
   private nodeKeyPair: KeyPair;
   private nodeType: 'light' | 'full';
+  private pruneHeight?: number; // Set when block history has been pruned
   private config: DiscoveryConfig;
   private logger: Logger;
   private cryptoService: CryptographicService;
@@ -473,6 +474,17 @@ export class NodeDiscoveryProtocol
     this.logger.debug('Compression manager integrated with discovery protocol');
   }
 
+  /**
+   * Advertise that block bodies below the given height are no longer served,
+   * or clear the advertisement with undefined
+   */
+  setPruneHeight(pruneHeight: number | undefined): void {
+    this.pruneHeight = pruneHeight;
+    this.logger.debug('Prune height updated for discovery beacons', {
+      pruneHeight,
+    });
+  }
+
   // ==========================================
   // Private Implementation Methods
   // ==========================================
@@ -515,6 +527,7 @@ export class NodeDiscoveryProtocol
         : [],
       maxQueueSize: 1000, // Default max queue size
       supportsUTXORouting: true,
+      pruneHeight: this.pruneHeight,
     };
   }
 
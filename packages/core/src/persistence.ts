@@ -1,6 +1,8 @@
 import type {
   IDatabase,
   Block,
+  BlockHeader,
+  BlockUndoRecord,
   UTXOTransaction,
   UTXO,
   UTXOBlockchainState,
@@ -9,9 +11,18 @@ import type {
   RepairResult,
   UTXODatabaseStats,
   BatchOperation,
+  PruneState,
+  TransactionLocation,
+  AddressHistory,
+  AddressHistoryEntry,
+  UTXOSnapshot,
+  ImportedUTXOSnapshot,
 } from './types.js';
 import { SubLevels, KeyPrefixes } from './database.js';
+import { BlockManager } from './block.js';
+import { BinaryCodec } from './codec.js';
 import { CryptographicService, type KeyPair } from './cryptographic.js';
+import { ScriptInterpreter } from './script.js';
 
 // Simple logger for development
 class SimpleLogger {
@@ -27,11 +38,18 @@ class SimpleLogger {
   }
 }
 
+// Fewest block bodies a pruned node keeps: one day of blocks at the five
+// minute target, far deeper than any reorganization the chain accepts
+export const MIN_PRUNE_KEEP_BLOCKS = 288;
+
 export class UTXOPersistenceManager {
   private db: IDatabase;
   private config: UTXOPersistenceConfig;
   private cryptoService: CryptographicService;
   private logger = new SimpleLogger('UTXOPersistenceManager');
+  // Encoded sizes of stored block bodies by index, kept under a size prune
+  // target so pruning reads each block back at most once
+  private blockSizes = new Map<number, number>();
 
   constructor(
     db: IDatabase,
@@ -41,13 +59,38 @@ export class UTXOPersistenceManager {
     this.db = db;
     this.config = config;
     this.cryptoService = cryptoService;
+
+    const keepBlocks = config.pruneTarget?.keepBlocks;
+    if (
+      config.pruningEnabled &&
+      keepBlocks !== undefined &&
+      keepBlocks < MIN_PRUNE_KEEP_BLOCKS
+    ) {
+      this.logger.warn(
+        `Prune target of ${keepBlocks} blocks raised to the minimum of ${MIN_PRUNE_KEEP_BLOCKS}`
+      );
+    }
   }
 
   // UTXO-focused core persistence operations
   async saveBlock(block: Block): Promise<void> {
     try {
-      const blockKey = this.createBlockKey(block.index);
-      await this.db.put(blockKey, block, SubLevels.BLOCKS);
+      await this.db.batch([
+        {
+          type: 'put',
+          key: this.createBlockKey(block.index),
+          value: block,
+          sublevel: SubLevels.BLOCKS,
+        },
+        {
+          type: 'put',
+          key: this.createBlockHeaderKey(block.index),
+          value: BlockManager.createBlockHeader(block),
+          sublevel: SubLevels.BLOCK_HEADERS,
+        },
+      ]);
+
+      this.recordBlockSize(block);
 
       // Update metadata
       await this.updateLatestBlockIndex(block.index);
@@ -71,6 +114,260 @@ export class UTXOPersistenceManager {
     }
   }
 
+  /**
+   * Append a block to the stored main chain, writing the block, its undo
+   * record and its UTXO set changes in a single batch
+   */
+  async connectBlock(block: Block, undo: BlockUndoRecord): Promise<void> {
+    try {
+      const operations: BatchOperation[] = [
+        {
+          type: 'put',
+          key: this.createBlockKey(block.index),
+          value: block,
+          sublevel: SubLevels.BLOCKS,
+        },
+        {
+          type: 'put',
+          key: this.createBlockHeaderKey(block.index),
+          value: BlockManager.createBlockHeader(block),
+          sublevel: SubLevels.BLOCK_HEADERS,
+        },
+        {
+          type: 'put',
+          key: this.createBlockUndoKey(block.index),
+          value: undo,
+          sublevel: SubLevels.BLOCK_UNDO,
+        },
+      ];
+
+      for (const utxo of undo.spentUTXOs) {
+        operations.push({
+          type: 'del',
+          key: this.createUTXOKey(utxo.txId, utxo.outputIndex),
+          sublevel: SubLevels.UTXO_SET,
+        });
+      }
+      for (const utxo of undo.createdUTXOs) {
+        operations.push({
+          type: 'put',
+          key: this.createUTXOKey(utxo.txId, utxo.outputIndex),
+          value: utxo,
+          sublevel: SubLevels.UTXO_SET,
+        });
+      }
+
+      operations.push(...this.createIndexOperations(block, undo, 'put'), {
+        type: 'put',
+        key: 'latest_block',
+        value: block.index,
+        sublevel: SubLevels.METADATA,
+      });
+
+      await this.db.batch(operations);
+      this.recordBlockSize(block);
+
+      this.logger.debug(
+        `Connected block ${block.index}: ${undo.spentUTXOs.length} UTXOs spent, ${undo.createdUTXOs.length} created`
+      );
+    } catch (error) {
+      this.logger.error(`Failed to connect block ${block.index}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Roll the stored chain back by its tip block, restoring the UTXOs it
+   * spent from its undo record in a single batch
+   * @returns the undo record of the disconnected block
+   */
+  async disconnectBlock(): Promise<BlockUndoRecord> {
+    const index = await this.db.get<number>('latest_block', SubLevels.METADATA);
+    if (index === null || index === 0) {
+      throw new Error('No block to disconnect');
+    }
+
+    const undo = await this.getBlockUndo(index);
+    if (!undo) {
+      throw new Error(`No undo data available for block ${index}`);
+    }
+
+    try {
+      const block = await this.getBlock(index);
+      const operations: BatchOperation[] = block
+        ? this.createIndexOperations(block, undo, 'del')
+        : [];
+      for (const utxo of undo.createdUTXOs) {
+        operations.push({
+          type: 'del',
+          key: this.createUTXOKey(utxo.txId, utxo.outputIndex),
+          sublevel: SubLevels.UTXO_SET,
+        });
+      }
+      for (const utxo of undo.spentUTXOs) {
+        operations.push({
+          type: 'put',
+          key: this.createUTXOKey(utxo.txId, utxo.outputIndex),
+          value: utxo,
+          sublevel: SubLevels.UTXO_SET,
+        });
+      }
+
+      operations.push(
+        {
+          type: 'del',
+          key: this.createBlockKey(index),
+          sublevel: SubLevels.BLOCKS,
+        },
+        {
+          type: 'del',
+          key: this.createBlockHeaderKey(index),
+          sublevel: SubLevels.BLOCK_HEADERS,
+        },
+        {
+          type: 'del',
+          key: this.createBlockUndoKey(index),
+          sublevel: SubLevels.BLOCK_UNDO,
+        },
+        {
+          type: 'put',
+          key: 'latest_block',
+          value: index - 1,
+          sublevel: SubLevels.METADATA,
+        }
+      );
+
+      await this.db.batch(operations);
+      this.blockSizes.delete(index);
+
+      this.logger.debug(`Disconnected block ${index} (${undo.blockHash})`);
+      return undo;
+    } catch (error) {
+      this.logger.error(`Failed to disconnect block ${index}: ${error}`);
+      throw error;
+    }
+  }
+
+  async getBlockUndo(index: number): Promise<BlockUndoRecord | null> {
+    try {
+      const undoKey = this.createBlockUndoKey(index);
+      return await this.db.get<BlockUndoRecord>(undoKey, SubLevels.BLOCK_UNDO);
+    } catch (error) {
+      this.logger.error(`Failed to get undo data for block ${index}: ${error}`);
+      throw error;
+    }
+  }
+
+  getIndexes(): { txIndex: boolean; addressIndex: boolean } {
+    return {
+      txIndex: this.config.txIndexEnabled === true,
+      addressIndex: this.config.addressIndexEnabled === true,
+    };
+  }
+
+  /**
+   * Look up where a confirmed transaction sits in the main chain
+   * @returns null if the transaction is not in an indexed block
+   */
+  async getTransactionLocation(
+    txId: string
+  ): Promise<TransactionLocation | null> {
+    if (!this.config.txIndexEnabled) {
+      throw new Error('Transaction index is not enabled');
+    }
+
+    try {
+      return await this.db.get<TransactionLocation>(
+        this.createTxIndexKey(txId),
+        SubLevels.TX_INDEX
+      );
+    } catch (error) {
+      this.logger.error(`Failed to get location of tx ${txId}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Page through the confirmed transactions touching an address, newest
+   * first
+   */
+  async getAddressHistory(
+    address: string,
+    offset: number = 0,
+    limit: number = 100
+  ): Promise<AddressHistory> {
+    if (!this.config.addressIndexEnabled) {
+      throw new Error('Address index is not enabled');
+    }
+
+    try {
+      const prefix = `${KeyPrefixes.ADDRESS_INDEX}${address}:`;
+      const entries: AddressHistoryEntry[] = [];
+      let total = 0;
+      for await (const { value } of this.db.iterator({
+        sublevel: SubLevels.ADDRESS_INDEX,
+        start: prefix,
+        end: prefix + '\xff',
+        reverse: true,
+      })) {
+        if (total >= offset && entries.length < limit) {
+          entries.push(value as AddressHistoryEntry);
+        }
+        total++;
+      }
+      return { address, total, entries };
+    } catch (error) {
+      this.logger.error(`Failed to get history of ${address}: ${error}`);
+      throw error;
+    }
+  }
+
+  // Headers outlive their block bodies on pruned nodes
+  async getBlockHeader(index: number): Promise<BlockHeader | null> {
+    try {
+      const headerKey = this.createBlockHeaderKey(index);
+      return await this.db.get<BlockHeader>(headerKey, SubLevels.BLOCK_HEADERS);
+    } catch (error) {
+      this.logger.error(`Failed to get block header ${index}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Store headers received ahead of their blocks, on any branch, so the
+   * header tree survives a restart
+   */
+  async saveHeaderTree(headers: BlockHeader[]): Promise<void> {
+    try {
+      await this.db.batch(
+        headers.map(header => ({
+          type: 'put' as const,
+          key: this.createHeaderTreeKey(header),
+          value: header,
+          sublevel: SubLevels.HEADER_TREE,
+        }))
+      );
+    } catch (error) {
+      this.logger.error(`Failed to save ${headers.length} headers: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Stored header tree entries, parents before children
+   */
+  async loadHeaderTree(): Promise<BlockHeader[]> {
+    const headers: BlockHeader[] = [];
+    for await (const { value } of this.db.iterator({
+      sublevel: SubLevels.HEADER_TREE,
+      start: KeyPrefixes.HEADER_TREE,
+      end: KeyPrefixes.HEADER_TREE + '\xff',
+    })) {
+      headers.push(value as BlockHeader);
+    }
+    return headers;
+  }
+
   async saveUTXOTransaction(transaction: UTXOTransaction): Promise<void> {
     try {
       const txKey = this.createUTXOTransactionKey(transaction.id);
@@ -98,6 +395,49 @@ export class UTXOPersistenceManager {
     }
   }
 
+  // Mempool persistence
+  async savePendingUTXOTransaction(
+    transaction: UTXOTransaction
+  ): Promise<void> {
+    try {
+      const pendingKey = this.createPendingTransactionKey(transaction.id);
+      await this.db.put(pendingKey, transaction, SubLevels.PENDING_UTXO_TX);
+
+      this.logger.debug(`Saved pending UTXO transaction ${transaction.id}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to save pending UTXO transaction ${transaction.id}: ${error}`
+      );
+      throw error;
+    }
+  }
+
+  async deletePendingUTXOTransaction(id: string): Promise<void> {
+    try {
+      const pendingKey = this.createPendingTransactionKey(id);
+      await this.db.del(pendingKey, SubLevels.PENDING_UTXO_TX);
+
+      this.logger.debug(`Deleted pending UTXO transaction ${id}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete pending UTXO transaction ${id}: ${error}`
+      );
+      throw error;
+    }
+  }
+
+  async getPendingUTXOTransactions(): Promise<UTXOTransaction[]> {
+    const transactions: UTXOTransaction[] = [];
+    for await (const { value } of this.db.iterator({
+      sublevel: SubLevels.PENDING_UTXO_TX,
+      start: KeyPrefixes.PENDING_TX,
+      end: KeyPrefixes.PENDING_TX + '\xff',
+    })) {
+      transactions.push(value as UTXOTransaction);
+    }
+    return transactions;
+  }
+
   // UTXO set management
   async saveUTXO(utxo: UTXO): Promise<void> {
     try {
@@ -148,7 +488,10 @@ export class UTXOPersistenceManager {
         end: KeyPrefixes.UTXO + '\xff',
       })) {
         const utxo = value as UTXO;
-        if (utxo.lockingScript === address && !utxo.isSpent) {
+        if (
+          ScriptInterpreter.extractAddress(utxo.lockingScript) === address &&
+          !utxo.isSpent
+        ) {
           utxos.push(utxo);
         }
       }
@@ -195,13 +538,22 @@ export class UTXOPersistenceManager {
   async saveBlockchainState(state: UTXOBlockchainState): Promise<void> {
     try {
       const operations: BatchOperation[] = [];
+      const { pruneHeight } = await this.getPruneState();
 
-      // Save blocks
+      // Save blocks, leaving discarded bodies discarded
       for (const block of state.blocks) {
-        const blockKey = this.createBlockKey(block.index);
         operations.push({
           type: 'put',
-          key: blockKey,
+          key: this.createBlockHeaderKey(block.index),
+          value: BlockManager.createBlockHeader(block),
+          sublevel: SubLevels.BLOCK_HEADERS,
+        });
+        if (block.index < pruneHeight) {
+          continue;
+        }
+        operations.push({
+          type: 'put',
+          key: this.createBlockKey(block.index),
           value: block,
           sublevel: SubLevels.BLOCKS,
         });
@@ -259,6 +611,11 @@ export class UTXOPersistenceManager {
 
       // Execute batch operation
       await this.db.batch(operations);
+      for (const block of state.blocks) {
+        if (block.index >= pruneHeight) {
+          this.recordBlockSize(block);
+        }
+      }
 
       this.logger.debug(
         `Saved blockchain state with ${state.blocks.length} blocks and ${state.utxoSet.size} UTXOs`
@@ -297,9 +654,17 @@ export class UTXOPersistenceManager {
       const utxoRootHash =
         (await this.db.get<string>('utxo_root_hash', SubLevels.METADATA)) || '';
 
-      // Load blocks
+      // Load blocks, standing in header-only blocks for pruned heights
+      const { pruneHeight } = await this.getPruneState();
       const blocks: Block[] = [];
       for (let i = 0; i <= latestBlockIndex; i++) {
+        if (i < pruneHeight) {
+          const header = await this.getBlockHeader(i);
+          if (header) {
+            blocks.push(BlockManager.createPrunedBlock(header));
+          }
+          continue;
+        }
         const block = await this.getBlock(i);
         if (block) {
           blocks.push(block);
@@ -318,15 +683,7 @@ export class UTXOPersistenceManager {
       }
 
       // Load pending UTXO transactions
-      const pendingUTXOTransactions: UTXOTransaction[] = [];
-      for await (const { key: _key, value } of this.db.iterator({
-        sublevel: SubLevels.PENDING_UTXO_TX,
-        start: KeyPrefixes.PENDING_TX,
-        end: KeyPrefixes.PENDING_TX + '\xff',
-      })) {
-        const transaction = value as UTXOTransaction;
-        pendingUTXOTransactions.push(transaction);
-      }
+      const pendingUTXOTransactions = await this.getPendingUTXOTransactions();
 
       // Load cryptographic keys
       const cryptographicKeys = new Map<string, unknown>();
@@ -347,6 +704,7 @@ export class UTXOPersistenceManager {
         latestBlockIndex,
         utxoRootHash,
         cryptographicKeys,
+        pruneHeight,
       };
 
       this.logger.debug(
@@ -375,9 +733,13 @@ export class UTXOPersistenceManager {
         return { isValid: true, errors: [] }; // Empty blockchain is valid
       }
 
-      let previousBlock: Block | null = null;
+      const { pruneHeight } = await this.getPruneState();
+      let previousBlock: Block | BlockHeader | null = null;
       for (let i = 0; i <= latestBlockIndex; i++) {
-        const block = await this.getBlock(i);
+        const block =
+          i < pruneHeight
+            ? await this.getBlockHeader(i)
+            : await this.getBlock(i);
         if (!block) {
           errors.push(`Missing block at index ${i}`);
           continue;
@@ -449,8 +811,9 @@ export class UTXOPersistenceManager {
         };
       }
 
-      // Check each block and remove corrupted ones
-      for (let i = 0; i <= latestBlockIndex; i++) {
+      // Check each stored block and remove corrupted ones
+      const { pruneHeight } = await this.getPruneState();
+      for (let i = pruneHeight; i <= latestBlockIndex; i++) {
         try {
           const block = await this.getBlock(i);
           if (!block) {
@@ -462,10 +825,18 @@ export class UTXOPersistenceManager {
         }
       }
 
-      // Rebuild UTXO set if necessary
+      // Damage at the tip is rolled back with undo records; anything deeper
+      // needs the UTXO set rebuilt from the blocks
+      let tipRolledBack = false;
       if (corruptedBlocks.length > 0) {
-        await this.rebuildUTXOSet();
-        utxoSetRebuilt = true;
+        tipRolledBack = await this.rollBackCorruptedTip(
+          corruptedBlocks,
+          latestBlockIndex
+        );
+        if (!tipRolledBack) {
+          await this.rebuildUTXOSet();
+          utxoSetRebuilt = true;
+        }
       }
 
       this.logger.debug(
@@ -473,7 +844,7 @@ export class UTXOPersistenceManager {
       );
 
       return {
-        repaired: corruptedBlocks.length === 0,
+        repaired: corruptedBlocks.length === 0 || tipRolledBack,
         errors,
         utxoSetRebuilt,
         corruptedBlocks,
@@ -489,10 +860,49 @@ export class UTXOPersistenceManager {
     }
   }
 
+  /**
+   * Disconnect corrupted blocks that run contiguously up to the tip, when
+   * each has an undo record
+   * @returns whether the blocks were rolled back
+   */
+  private async rollBackCorruptedTip(
+    corruptedBlocks: number[],
+    latestBlockIndex: number
+  ): Promise<boolean> {
+    const firstCorrupted = latestBlockIndex - corruptedBlocks.length + 1;
+    const atTip = corruptedBlocks.every(
+      (index, i) => index === firstCorrupted + i
+    );
+    if (!atTip || firstCorrupted === 0) {
+      return false;
+    }
+
+    for (const index of corruptedBlocks) {
+      if (!(await this.getBlockUndo(index))) {
+        return false;
+      }
+    }
+
+    for (let i = 0; i < corruptedBlocks.length; i++) {
+      await this.disconnectBlock();
+    }
+    this.logger.debug(
+      `Rolled back ${corruptedBlocks.length} corrupted blocks from the tip`
+    );
+    return true;
+  }
+
   async rebuildUTXOSet(): Promise<void> {
     try {
       this.logger.debug('Starting UTXO set rebuild');
 
+      const { pruned, pruneHeight } = await this.getPruneState();
+      if (pruned) {
+        throw new Error(
+          `Cannot rebuild UTXO set on a pruned node: blocks below ${pruneHeight} were discarded`
+        );
+      }
+
       // Clear existing UTXO set
       for await (const { key } of this.db.iterator({
         sublevel: SubLevels.UTXO_SET,
@@ -525,6 +935,7 @@ export class UTXOPersistenceManager {
             lockingScript: transaction.to,
             blockHeight: block.index,
             isSpent: false,
+            isCoinbase: block.index > 0 && transaction.from === 'network',
           };
           await this.saveUTXO(utxo);
         }
@@ -537,6 +948,211 @@ export class UTXOPersistenceManager {
     }
   }
 
+  // Pruning
+  async getPruneState(): Promise<PruneState> {
+    const pruneHeight =
+      (await this.db.get<number>('prune_height', SubLevels.METADATA)) ?? 0;
+    return { pruned: pruneHeight > 0, pruneHeight };
+  }
+
+  /**
+   * Discard the oldest block bodies beyond the configured prune target,
+   * keeping their headers and at least MIN_PRUNE_KEEP_BLOCKS recent bodies
+   * @returns the prune state after pruning
+   */
+  async pruneBlocks(tipIndex: number): Promise<PruneState> {
+    const state = await this.getPruneState();
+    if (!this.config.pruningEnabled || !this.config.pruneTarget) {
+      return state;
+    }
+
+    try {
+      const { keepBlocks, maxSizeMB } = this.config.pruneTarget;
+      const maxPruneHeight = tipIndex - MIN_PRUNE_KEEP_BLOCKS + 1;
+      let pruneHeight = state.pruneHeight;
+
+      if (keepBlocks !== undefined) {
+        pruneHeight = Math.max(pruneHeight, tipIndex - keepBlocks + 1);
+      }
+
+      if (maxSizeMB !== undefined) {
+        const sizes: number[] = [];
+        let totalSize = 0;
+        for (let i = pruneHeight; i <= tipIndex; i++) {
+          const size = await this.getStoredBlockSize(i);
+          sizes.push(size);
+          totalSize += size;
+        }
+
+        const maxSize = maxSizeMB * 1024 * 1024;
+        let offset = 0;
+        while (totalSize > maxSize && pruneHeight + offset < maxPruneHeight) {
+          totalSize -= sizes[offset];
+          offset++;
+        }
+        pruneHeight += offset;
+      }
+
+      pruneHeight = Math.min(pruneHeight, maxPruneHeight);
+      if (pruneHeight <= state.pruneHeight) {
+        return state;
+      }
+
+      const operations: BatchOperation[] = [];
+      for (let i = state.pruneHeight; i < pruneHeight; i++) {
+        operations.push(
+          {
+            type: 'del',
+            key: this.createBlockKey(i),
+            sublevel: SubLevels.BLOCKS,
+          },
+          {
+            type: 'del',
+            key: this.createBlockUndoKey(i),
+            sublevel: SubLevels.BLOCK_UNDO,
+          }
+        );
+      }
+      operations.push({
+        type: 'put',
+        key: 'prune_height',
+        value: pruneHeight,
+        sublevel: SubLevels.METADATA,
+      });
+      await this.db.batch(operations);
+      for (let i = state.pruneHeight; i < pruneHeight; i++) {
+        this.blockSizes.delete(i);
+      }
+
+      this.logger.debug(
+        `Pruned ${pruneHeight - state.pruneHeight} block bodies, keeping blocks from ${pruneHeight}`
+      );
+      return { pruned: true, pruneHeight };
+    } catch (error) {
+      this.logger.error(`Failed to prune blocks: ${error}`);
+      throw error;
+    }
+  }
+
+  private recordBlockSize(block: Block): void {
+    if (this.config.pruneTarget?.maxSizeMB !== undefined) {
+      this.blockSizes.set(block.index, BinaryCodec.encodeBlock(block).length);
+    }
+  }
+
+  private async getStoredBlockSize(index: number): Promise<number> {
+    let size = this.blockSizes.get(index);
+    if (size === undefined) {
+      const block = await this.getBlock(index);
+      size = block ? BinaryCodec.encodeBlock(block).length : 0;
+      this.blockSizes.set(index, size);
+    }
+    return size;
+  }
+
+  // UTXO snapshots
+  /**
+   * Replace the stored chain with an imported UTXO snapshot: its headers,
+   * with every block body below the snapshot height treated as pruned, and
+   * its UTXO set, in a single batch
+   */
+  async importUTXOSnapshot(
+    snapshot: UTXOSnapshot,
+    hash: string
+  ): Promise<void> {
+    try {
+      const operations: BatchOperation[] = [];
+
+      for await (const { key } of this.db.iterator({
+        sublevel: SubLevels.UTXO_SET,
+        start: KeyPrefixes.UTXO,
+        end: KeyPrefixes.UTXO + '\xff',
+      })) {
+        operations.push({ type: 'del', key, sublevel: SubLevels.UTXO_SET });
+      }
+      for (const utxo of snapshot.utxos) {
+        operations.push({
+          type: 'put',
+          key: this.createUTXOKey(utxo.txId, utxo.outputIndex),
+          value: utxo,
+          sublevel: SubLevels.UTXO_SET,
+        });
+      }
+
+      for (const header of snapshot.headers) {
+        operations.push({
+          type: 'put',
+          key: this.createBlockHeaderKey(header.index),
+          value: header,
+          sublevel: SubLevels.BLOCK_HEADERS,
+        });
+      }
+
+      const info: ImportedUTXOSnapshot = {
+        height: snapshot.height,
+        blockHash: snapshot.blockHash,
+        utxoRoot: snapshot.utxoRoot,
+        hash,
+        validated: false,
+      };
+      operations.push(
+        {
+          type: 'put',
+          key: 'latest_block',
+          value: snapshot.height,
+          sublevel: SubLevels.METADATA,
+        },
+        {
+          type: 'put',
+          key: 'prune_height',
+          value: snapshot.height + 1,
+          sublevel: SubLevels.METADATA,
+        },
+        {
+          type: 'put',
+          key: 'utxo_root_hash',
+          value: snapshot.utxoRoot,
+          sublevel: SubLevels.METADATA,
+        },
+        {
+          type: 'put',
+          key: 'utxo_snapshot',
+          value: info,
+          sublevel: SubLevels.METADATA,
+        },
+        {
+          type: 'put',
+          key: 'difficulty',
+          value: snapshot.headers[snapshot.headers.length - 1].difficulty,
+          sublevel: SubLevels.CONFIG,
+        }
+      );
+
+      await this.db.batch(operations);
+      this.blockSizes.clear();
+
+      this.logger.debug(
+        `Imported UTXO snapshot at height ${snapshot.height} with ${snapshot.utxos.length} UTXOs`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to import UTXO snapshot at height ${snapshot.height}: ${error}`
+      );
+      throw error;
+    }
+  }
+
+  async getImportedUTXOSnapshot(): Promise<ImportedUTXOSnapshot | null> {
+    return await this.db.get<ImportedUTXOSnapshot>(
+      'utxo_snapshot',
+      SubLevels.METADATA
+    );
+  }
+
+  async saveImportedUTXOSnapshot(info: ImportedUTXOSnapshot): Promise<void> {
+    await this.db.put('utxo_snapshot', info, SubLevels.METADATA);
+  }
+
   // Statistics and utility methods
   async getUTXOCount(): Promise<number> {
     let count = 0;
@@ -620,6 +1236,132 @@ export class UTXOPersistenceManager {
     return `${KeyPrefixes.BLOCK}${index.toString().padStart(10, '0')}`;
   }
 
+  private createBlockHeaderKey(index: number): string {
+    return `${KeyPrefixes.BLOCK_HEADER}${index.toString().padStart(10, '0')}`;
+  }
+
+  private createBlockUndoKey(index: number): string {
+    return `${KeyPrefixes.BLOCK_UNDO}${index.toString().padStart(10, '0')}`;
+  }
+
+  // Sorts header tree entries by height, then hash
+  private createHeaderTreeKey(header: BlockHeader): string {
+    return `${KeyPrefixes.HEADER_TREE}${header.index.toString().padStart(10, '0')}:${header.hash}`;
+  }
+
+  private createTxIndexKey(txId: string): string {
+    return `${KeyPrefixes.TX_INDEX}${txId}`;
+  }
+
+  // Sorts an address's entries by height, then transaction ID
+  private createAddressIndexKey(
+    address: string,
+    height: number,
+    txId: string
+  ): string {
+    return `${KeyPrefixes.ADDRESS_INDEX}${address}:${height.toString().padStart(10, '0')}:${txId}`;
+  }
+
+  /**
+   * Transaction and address index entries for a block's transactions, to
+   * write when it is connected or delete when it is disconnected. Inputs
+   * are valued from the undo record's spent UTXOs or from outputs earlier
+   * in the block.
+   */
+  private createIndexOperations(
+    block: Block,
+    undo: BlockUndoRecord,
+    type: 'put' | 'del'
+  ): BatchOperation[] {
+    const operations: BatchOperation[] = [];
+    const { txIndex, addressIndex } = this.getIndexes();
+    if (!txIndex && !addressIndex) {
+      return operations;
+    }
+
+    const outputs = new Map<string, { address: string | null; value: number }>(
+      undo.spentUTXOs.map(utxo => [
+        `${utxo.txId}:${utxo.outputIndex}`,
+        {
+          address: this.extractAddress(utxo.lockingScript),
+          value: utxo.value,
+        },
+      ])
+    );
+
+    block.transactions.forEach((tx, position) => {
+      if (txIndex) {
+        const location: TransactionLocation = {
+          txId: tx.id,
+          blockHash: block.hash,
+          blockIndex: block.index,
+          position,
+        };
+        operations.push({
+          type,
+          key: this.createTxIndexKey(tx.id),
+          value: location,
+          sublevel: SubLevels.TX_INDEX,
+        });
+      }
+      if (!addressIndex) {
+        return;
+      }
+
+      // Net value moved per address; legacy reward transactions pay a
+      // single output
+      const utxoTx = undo.utxoTransactions.find(t => t.id === tx.id);
+      const netValues = new Map<string, number>();
+      for (const input of utxoTx?.inputs ?? []) {
+        const spent = outputs.get(`${input.previousTxId}:${input.outputIndex}`);
+        if (spent?.address) {
+          netValues.set(
+            spent.address,
+            (netValues.get(spent.address) ?? 0) - spent.value
+          );
+        }
+      }
+      const txOutputs = utxoTx?.outputs ?? [
+        { value: tx.amount, lockingScript: tx.to, outputIndex: 0 },
+      ];
+      for (const output of txOutputs) {
+        const address = this.extractAddress(output.lockingScript);
+        outputs.set(`${tx.id}:${output.outputIndex}`, {
+          address,
+          value: output.value,
+        });
+        if (address) {
+          netValues.set(address, (netValues.get(address) ?? 0) + output.value);
+        }
+      }
+
+      for (const [address, netValue] of netValues) {
+        const entry: AddressHistoryEntry = {
+          height: block.index,
+          txId: tx.id,
+          direction: netValue >= 0 ? 'received' : 'sent',
+          amount: Math.abs(netValue),
+        };
+        operations.push({
+          type,
+          key: this.createAddressIndexKey(address, block.index, tx.id),
+          value: entry,
+          sublevel: SubLevels.ADDRESS_INDEX,
+        });
+      }
+    });
+
+    return operations;
+  }
+
+  private extractAddress(lockingScript: string): string | null {
+    try {
+      return ScriptInterpreter.extractAddress(lockingScript);
+    } catch {
+      return null;
+    }
+  }
+
   private createUTXOTransactionKey(id: string): string {
     return `${KeyPrefixes.UTXO_TX}${id}`;
   }
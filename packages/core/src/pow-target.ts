@@ -0,0 +1,114 @@
+import type { Block } from './types.js';
+
+/**
+ * Proof-of-work targets. A block hash, read as a 256-bit number, must not
+ * exceed the block's target, and the work a block represents is the
+ * expected number of hashes needed to meet it.
+ *
+ * Blocks with `bits` carry their target in Bitcoin's compact form: a byte
+ * giving the target's length in bytes followed by its top three bytes.
+ * Blocks without it use the legacy rule of `difficulty` leading hex zeros,
+ * which is the target 16^(64 - difficulty) - 1. Either way a block's
+ * difficulty is the number of leading hex zeros its hash must have.
+ */
+
+export const MAX_TARGET = (1n << 256n) - 1n;
+
+type TargetFields = Pick<Block, 'bits'> & { difficulty?: number };
+
+/**
+ * Target of the legacy leading-zero rule
+ */
+export function getLeadingZeroTarget(zeros: number): bigint {
+  const clamped = Math.min(64, Math.max(0, zeros));
+  return (1n << BigInt(4 * (64 - clamped))) - 1n;
+}
+
+/**
+ * Leading hex zeros every hash meeting the target has
+ */
+export function getTargetLeadingZeros(target: bigint): number {
+  return target <= 0n ? 64 : 64 - target.toString(16).length;
+}
+
+export function encodeCompactTarget(target: bigint): number {
+  if (target <= 0n) {
+    return 0;
+  }
+  let size = Math.ceil(target.toString(16).length / 2);
+  let mantissa = Number(
+    size <= 3
+      ? target << BigInt(8 * (3 - size))
+      : target >> BigInt(8 * (size - 3))
+  );
+  // The top mantissa bit is a sign bit, so keep it clear
+  if (mantissa & 0x800000) {
+    mantissa >>= 8;
+    size++;
+  }
+  return size * 0x1000000 + mantissa;
+}
+
+export function decodeCompactTarget(bits: number): bigint {
+  const size = Math.floor(bits / 0x1000000);
+  const mantissa = BigInt(bits & 0x7fffff);
+  return size <= 3
+    ? mantissa >> BigInt(8 * (3 - size))
+    : mantissa << BigInt(8 * (size - 3));
+}
+
+/**
+ * Whether bits are the canonical encoding of a target from 1 to MAX_TARGET
+ */
+export function isValidCompactTarget(bits: number): boolean {
+  if (!Number.isInteger(bits) || bits < 0 || bits > 0xffffffff) {
+    return false;
+  }
+  const target = decodeCompactTarget(bits);
+  return (
+    target > 0n && target <= MAX_TARGET && encodeCompactTarget(target) === bits
+  );
+}
+
+export function getBlockTarget(block: TargetFields): bigint {
+  return block.bits !== undefined
+    ? decodeCompactTarget(block.bits)
+    : getLeadingZeroTarget(block.difficulty ?? 0);
+}
+
+/**
+ * Error describing why a block's target fields are inconsistent, or null
+ */
+export function checkBlockTarget(block: TargetFields): string | null {
+  if (block.bits === undefined) {
+    return null;
+  }
+  if (!isValidCompactTarget(block.bits)) {
+    return `Block target bits ${block.bits} are invalid`;
+  }
+  const zeros = getTargetLeadingZeros(decodeCompactTarget(block.bits));
+  if (block.difficulty !== zeros) {
+    return `Block difficulty ${block.difficulty} does not match its target, expected ${zeros}`;
+  }
+  return null;
+}
+
+/**
+ * Target as 64 lowercase hex digits, which compare as strings the way the
+ * numbers do
+ */
+export function targetToHex(target: bigint): string {
+  return target.toString(16).padStart(64, '0');
+}
+
+export function meetsTarget(hash: string, target: bigint): boolean {
+  return /^[0-9a-f]{64}$/.test(hash) && BigInt(`0x${hash}`) <= target;
+}
+
+/**
+ * Expected hashes to find a block meeting the target. Work exceeds the
+ * safe integer range at high difficulty, so it stays a bigint.
+ */
+export function calculateTargetWork(target: bigint): bigint {
+  return (1n << 256n) / (target + 1n);
+}
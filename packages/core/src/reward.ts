@@ -0,0 +1,165 @@
+import type { GenesisConfig } from './types.js';
+
+export interface RewardScheduleConfig {
+  initialReward: number; // Subsidy of the first block
+  halvingInterval: number; // Blocks between halvings, 0 to never halve
+  tailEmission: number; // Floor the subsidy never halves below
+  maxSupply: number; // Cap on the initial supply plus all subsidies
+  initialSupply: number; // Allocated in the genesis block
+}
+
+export interface SupplyInfo {
+  height: number;
+  circulatingSupply: number; // Value of the current UTXO set
+  issuedSupply: number; // Initial supply plus subsidies up to height
+  projectedSupply: number; // Supply once all subsidies are paid
+  maxSupply: number;
+  blockSubsidy: number; // Subsidy of the next block
+  nextHalvingHeight: number | null;
+}
+
+// Without a tail emission the subsidy is zero after this many halvings
+const MAX_HALVINGS = 64;
+
+/**
+ * Mining subsidy per block height, in base units: the initial reward halves
+ * every halvingInterval blocks until it reaches the tail emission, and
+ * subsidies stop once the initial supply plus all subsidies reach the max
+ * supply.
+ */
+export class RewardSchedule {
+  private config: RewardScheduleConfig;
+
+  constructor(config?: Partial<RewardScheduleConfig>) {
+    this.config = {
+      initialReward: 10,
+      halvingInterval: 0,
+      tailEmission: 0,
+      maxSupply: Number.POSITIVE_INFINITY,
+      initialSupply: 0,
+      ...config,
+    };
+  }
+
+  static fromGenesisConfig(config: GenesisConfig): RewardSchedule {
+    return new RewardSchedule({
+      initialReward: config.networkParams.miningReward,
+      halvingInterval: config.networkParams.halvingInterval ?? 0,
+      tailEmission: config.networkParams.tailEmission ?? 0,
+      maxSupply: config.totalSupply,
+      initialSupply: config.initialAllocations.reduce(
+        (sum, allocation) => sum + allocation.amount,
+        0
+      ),
+    });
+  }
+
+  getConfig(): RewardScheduleConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Subsidy a coinbase at the given height may claim on top of fees
+   */
+  getBlockSubsidy(height: number): number {
+    if (height <= 0) {
+      return 0;
+    }
+
+    const remaining =
+      this.config.maxSupply -
+      this.config.initialSupply -
+      this.getScheduledIssuance(height - 1);
+    return Math.max(0, Math.min(this.getScheduledSubsidy(height), remaining));
+  }
+
+  /**
+   * Initial supply plus the subsidies of blocks 1 through height
+   */
+  getIssuedSupply(height: number): number {
+    return (
+      this.config.initialSupply +
+      Math.min(
+        this.getScheduledIssuance(height),
+        this.config.maxSupply - this.config.initialSupply
+      )
+    );
+  }
+
+  /**
+   * Supply once every subsidy has been paid. Emission that never ends is
+   * bounded by the max supply.
+   */
+  getProjectedSupply(): number {
+    const { halvingInterval, tailEmission, maxSupply } = this.config;
+    if (halvingInterval === 0 || tailEmission > 0) {
+      return maxSupply;
+    }
+    return this.getIssuedSupply(MAX_HALVINGS * halvingInterval);
+  }
+
+  /**
+   * First height above the given one where the subsidy halves, or null once
+   * it no longer changes
+   */
+  getNextHalvingHeight(height: number): number | null {
+    const { halvingInterval } = this.config;
+    if (halvingInterval === 0) {
+      return null;
+    }
+
+    const next = (Math.floor(height / halvingInterval) + 1) * halvingInterval;
+    return this.getScheduledSubsidy(next) < this.getScheduledSubsidy(height)
+      ? next
+      : null;
+  }
+
+  /**
+   * Subsidy at a height ignoring the supply cap
+   */
+  private getScheduledSubsidy(height: number): number {
+    const { initialReward, halvingInterval, tailEmission } = this.config;
+    const halvings =
+      halvingInterval > 0 ? Math.floor(height / halvingInterval) : 0;
+    // Halving rounds down to whole base units
+    const halved =
+      halvings >= MAX_HALVINGS
+        ? 0
+        : Math.floor(initialReward / Math.pow(2, halvings));
+    return Math.max(halved, tailEmission);
+  }
+
+  /**
+   * Sum of subsidies for blocks 1 through height ignoring the supply cap,
+   * added up one halving era at a time
+   */
+  private getScheduledIssuance(height: number): number {
+    const { halvingInterval, tailEmission } = this.config;
+    if (height <= 0) {
+      return 0;
+    }
+    if (halvingInterval === 0) {
+      return height * this.getScheduledSubsidy(1);
+    }
+
+    let total = 0;
+    let start = 1;
+    while (start <= height) {
+      const subsidy = this.getScheduledSubsidy(start);
+      if (subsidy === 0) {
+        break;
+      }
+      // From the tail emission on the subsidy never changes again
+      const end =
+        subsidy === tailEmission
+          ? height
+          : Math.min(
+              (Math.floor(start / halvingInterval) + 1) * halvingInterval - 1,
+              height
+            );
+      total += subsidy * (end - start + 1);
+      start = end + 1;
+    }
+    return total;
+  }
+}
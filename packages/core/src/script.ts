@@ -0,0 +1,483 @@
+import type { UTXOTransaction, ValidationResult } from './types.js';
+import {
+  CryptographicService,
+  type SignatureAlgorithm,
+} from './cryptographic.js';
+import { hexToBytes } from '@noble/hashes/utils';
+
+/**
+ * Locking scripts are space separated token lists. Tokens starting with
+ * `OP_` are opcodes and every other token is pushed onto the stack as data.
+ * Unlocking scripts are push-only and separate their hex items with `:`,
+ * which keeps the historical "signature:publicKey" format a valid P2PKH
+ * unlocking script.
+ *
+ * A locking script made of a single non-opcode token is a bare address and
+ * is evaluated as the pay-to-pubkey-hash template for that address.
+ */
+
+export type ScriptTemplate = 'p2pkh' | 'multisig' | 'cltv' | 'nonstandard';
+
+export interface ParsedLockingScript {
+  template: ScriptTemplate;
+  address?: string; // p2pkh and cltv owner
+  requiredSignatures?: number; // multisig m
+  publicKeys?: string[]; // multisig keys, in signing order
+  lockTime?: number; // cltv height or timestamp
+}
+
+export interface ScriptExecutionContext {
+  transaction: UTXOTransaction;
+  inputIndex: number;
+  signatureHash: Uint8Array;
+}
+
+// Lock times below this value are block heights, above it unix timestamps
+export const LOCKTIME_THRESHOLD = 500_000_000;
+export const SEQUENCE_FINAL = 0xffffffff;
+// Inputs at or below this sequence opt their transaction into replace-by-fee
+export const MAX_REPLACEABLE_SEQUENCE = 0xfffffffd;
+export const MAX_MULTISIG_KEYS = 16;
+const MAX_SCRIPT_TOKENS = 201;
+
+const TRUE = '1';
+const FALSE = '0';
+
+export class ScriptBuilder {
+  static payToAddress(address: string): string {
+    ScriptBuilder.assertDataToken(address, 'address');
+    return `OP_DUP OP_ADDRESS ${address} OP_EQUALVERIFY OP_CHECKSIG`;
+  }
+
+  static multisig(requiredSignatures: number, publicKeys: string[]): string {
+    if (publicKeys.length === 0 || publicKeys.length > MAX_MULTISIG_KEYS) {
+      throw new Error(
+        `Multisig requires between 1 and ${MAX_MULTISIG_KEYS} public keys`
+      );
+    }
+    if (
+      !Number.isInteger(requiredSignatures) ||
+      requiredSignatures < 1 ||
+      requiredSignatures > publicKeys.length
+    ) {
+      throw new Error(
+        `Invalid multisig threshold ${requiredSignatures} of ${publicKeys.length}`
+      );
+    }
+    for (const publicKey of publicKeys) {
+      if (!ScriptInterpreter.getPublicKeyAlgorithm(publicKey)) {
+        throw new Error(`Invalid multisig public key: ${publicKey}`);
+      }
+    }
+
+    return [
+      requiredSignatures,
+      ...publicKeys,
+      publicKeys.length,
+      'OP_CHECKMULTISIG',
+    ].join(' ');
+  }
+
+  static timelocked(lockTime: number, address: string): string {
+    if (!Number.isSafeInteger(lockTime) || lockTime < 0) {
+      throw new Error(`Invalid lock time: ${lockTime}`);
+    }
+    return `${lockTime} OP_CHECKLOCKTIMEVERIFY OP_DROP ${ScriptBuilder.payToAddress(address)}`;
+  }
+
+  static unlocking(items: string[]): string {
+    return items.join(':');
+  }
+
+  private static assertDataToken(token: string, field: string): void {
+    if (!token || /\s/.test(token) || token.startsWith('OP_')) {
+      throw new Error(`Invalid ${field} for locking script: ${token}`);
+    }
+  }
+}
+
+export class ScriptInterpreter {
+  /**
+   * Recognize the standard templates. Bare addresses are reported as p2pkh.
+   */
+  static parseLockingScript(lockingScript: string): ParsedLockingScript {
+    const tokens = this.tokenize(lockingScript);
+    const isOpcode = (token: string): boolean => token.startsWith('OP_');
+
+    if (
+      tokens.length === 5 &&
+      tokens[0] === 'OP_DUP' &&
+      tokens[1] === 'OP_ADDRESS' &&
+      !isOpcode(tokens[2]) &&
+      tokens[3] === 'OP_EQUALVERIFY' &&
+      tokens[4] === 'OP_CHECKSIG'
+    ) {
+      return { template: 'p2pkh', address: tokens[2] };
+    }
+
+    if (
+      tokens.length === 8 &&
+      tokens[1] === 'OP_CHECKLOCKTIMEVERIFY' &&
+      tokens[2] === 'OP_DROP'
+    ) {
+      const lockTime = this.parseNumber(tokens[0]);
+      const rest = this.parseLockingScript(tokens.slice(3).join(' '));
+      if (lockTime !== null && rest.template === 'p2pkh') {
+        return { template: 'cltv', address: rest.address, lockTime };
+      }
+    }
+
+    if (
+      tokens.length >= 4 &&
+      tokens[tokens.length - 1] === 'OP_CHECKMULTISIG'
+    ) {
+      const required = this.parseNumber(tokens[0]);
+      const keyCount = this.parseNumber(tokens[tokens.length - 2]);
+      const publicKeys = tokens.slice(1, -2);
+      if (
+        required !== null &&
+        keyCount === publicKeys.length &&
+        keyCount <= MAX_MULTISIG_KEYS &&
+        required >= 1 &&
+        required <= keyCount &&
+        publicKeys.every(key => this.getPublicKeyAlgorithm(key) !== null)
+      ) {
+        return {
+          template: 'multisig',
+          requiredSignatures: required,
+          publicKeys,
+        };
+      }
+    }
+
+    return { template: 'nonstandard' };
+  }
+
+  /**
+   * Address under which an output is indexed: the owner for p2pkh and cltv
+   * outputs, and a script address for multisig and nonstandard outputs.
+   */
+  static extractAddress(lockingScript: string): string | null {
+    if (!lockingScript) {
+      return null;
+    }
+
+    const parsed = this.parseLockingScript(lockingScript);
+    if (parsed.address) {
+      return parsed.address;
+    }
+
+    return CryptographicService.generateScriptAddress(
+      this.tokenize(lockingScript).join(' ')
+    );
+  }
+
+  /**
+   * Run an unlocking script against the locking script of the output it
+   * spends. Errors are phrased to follow an input reference, e.g.
+   * "Input abc:0 has invalid signature".
+   */
+  static execute(
+    unlockingScript: string,
+    lockingScript: string,
+    context: ScriptExecutionContext
+  ): ValidationResult {
+    let stack: string[];
+    try {
+      stack = this.parseUnlockingScript(unlockingScript);
+    } catch {
+      return { isValid: false, errors: ['has malformed unlocking script'] };
+    }
+
+    const tokens = this.tokenize(lockingScript);
+    if (tokens.length === 0) {
+      return { isValid: false, errors: ['has empty locking script'] };
+    }
+    if (tokens.length > MAX_SCRIPT_TOKENS) {
+      return { isValid: false, errors: ['has oversized locking script'] };
+    }
+
+    let lastFailure: string | null = null;
+    try {
+      for (const token of tokens) {
+        const failure = this.executeToken(token, stack, context);
+        if (failure) {
+          lastFailure = failure;
+        }
+      }
+    } catch (error) {
+      return {
+        isValid: false,
+        errors: [error instanceof Error ? error.message : String(error)],
+      };
+    }
+
+    if (stack.length === 0 || !this.isTruthy(stack[stack.length - 1])) {
+      return {
+        isValid: false,
+        errors: [lastFailure ?? 'failed script evaluation'],
+      };
+    }
+    if (stack.length !== 1) {
+      return {
+        isValid: false,
+        errors: [`left ${stack.length - 1} extra items on the stack`],
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+
+  static getPublicKeyAlgorithm(
+    publicKeyHex: string
+  ): SignatureAlgorithm | null {
+    if (!/^[0-9a-fA-F]*$/.test(publicKeyHex)) {
+      return null;
+    }
+    // Compressed/uncompressed secp256k1 keys vs raw ed25519 keys
+    const length = publicKeyHex.length / 2;
+    if (length === 33 || length === 65) {
+      return 'secp256k1';
+    }
+    if (length === 32) {
+      return 'ed25519';
+    }
+    return null;
+  }
+
+  static verifySignature(
+    signatureHex: string,
+    publicKeyHex: string,
+    signatureHash: Uint8Array
+  ): boolean {
+    const algorithm = this.getPublicKeyAlgorithm(publicKeyHex);
+    if (!algorithm) {
+      return false;
+    }
+
+    try {
+      return CryptographicService.verify(
+        { signature: hexToBytes(signatureHex), algorithm },
+        signatureHash,
+        hexToBytes(publicKeyHex)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Execute one token. Returns a soft failure reason when a check pushed
+   * false onto the stack, and throws when the script must abort.
+   */
+  private static executeToken(
+    token: string,
+    stack: string[],
+    context: ScriptExecutionContext
+  ): string | null {
+    if (!token.startsWith('OP_')) {
+      stack.push(token);
+      return null;
+    }
+
+    switch (token) {
+      case 'OP_DUP': {
+        const top = this.peek(stack);
+        stack.push(top);
+        return null;
+      }
+      case 'OP_DROP':
+        this.pop(stack);
+        return null;
+      case 'OP_VERIFY':
+        if (!this.isTruthy(this.pop(stack))) {
+          throw new Error('failed OP_VERIFY');
+        }
+        return null;
+      case 'OP_EQUAL':
+      case 'OP_EQUALVERIFY': {
+        const b = this.pop(stack);
+        const a = this.pop(stack);
+        if (token === 'OP_EQUALVERIFY') {
+          if (a !== b) {
+            throw new Error('failed OP_EQUALVERIFY');
+          }
+          return null;
+        }
+        stack.push(a === b ? TRUE : FALSE);
+        return a === b ? null : 'failed OP_EQUAL';
+      }
+      case 'OP_ADDRESS': {
+        const publicKey = this.pop(stack);
+        const algorithm = this.getPublicKeyAlgorithm(publicKey);
+        if (!algorithm) {
+          throw new Error(
+            `has unsupported public key length: ${publicKey.length / 2}`
+          );
+        }
+        stack.push(
+          CryptographicService.generateAddress(hexToBytes(publicKey), algorithm)
+        );
+        return null;
+      }
+      case 'OP_CHECKSIG':
+      case 'OP_CHECKSIGVERIFY': {
+        const publicKey = this.pop(stack);
+        const signature = this.pop(stack);
+        const isValid = this.verifySignature(
+          signature,
+          publicKey,
+          context.signatureHash
+        );
+        if (token === 'OP_CHECKSIGVERIFY') {
+          if (!isValid) {
+            throw new Error('has invalid signature');
+          }
+          return null;
+        }
+        stack.push(isValid ? TRUE : FALSE);
+        return isValid ? null : 'has invalid signature';
+      }
+      case 'OP_CHECKMULTISIG':
+        return this.checkMultisig(stack, context);
+      case 'OP_CHECKLOCKTIMEVERIFY':
+        this.checkLockTime(this.peek(stack), context);
+        return null;
+      default:
+        throw new Error(`uses unknown opcode ${token}`);
+    }
+  }
+
+  private static checkMultisig(
+    stack: string[],
+    context: ScriptExecutionContext
+  ): string | null {
+    const keyCount = this.popNumber(stack);
+    if (keyCount > MAX_MULTISIG_KEYS || keyCount > stack.length) {
+      throw new Error(`has invalid multisig key count: ${keyCount}`);
+    }
+    const publicKeys = stack.splice(stack.length - keyCount, keyCount);
+
+    const required = this.popNumber(stack);
+    if (required < 1 || required > keyCount) {
+      throw new Error(`has invalid multisig threshold: ${required}`);
+    }
+    // A partially signed input carries fewer signatures than required
+    const signatures = stack.splice(Math.max(0, stack.length - required));
+
+    // Signatures must appear in the same order as their public keys
+    let keyIndex = 0;
+    let matched = 0;
+    for (const signature of signatures) {
+      while (
+        keyIndex < publicKeys.length &&
+        !this.verifySignature(
+          signature,
+          publicKeys[keyIndex],
+          context.signatureHash
+        )
+      ) {
+        keyIndex++;
+      }
+      if (keyIndex === publicKeys.length) {
+        break;
+      }
+      matched++;
+      keyIndex++;
+    }
+
+    const isValid = matched === required;
+    stack.push(isValid ? TRUE : FALSE);
+    return isValid
+      ? null
+      : `has ${matched} of ${required} required multisig signatures`;
+  }
+
+  private static checkLockTime(
+    value: string,
+    context: ScriptExecutionContext
+  ): void {
+    const required = this.parseNumber(value);
+    if (required === null) {
+      throw new Error(`has invalid lock time operand: ${value}`);
+    }
+
+    const { transaction, inputIndex } = context;
+    if (
+      required < LOCKTIME_THRESHOLD !==
+      transaction.lockTime < LOCKTIME_THRESHOLD
+    ) {
+      throw new Error('has lock time of a different type than required');
+    }
+    if (transaction.lockTime < required) {
+      throw new Error(
+        `has lock time ${transaction.lockTime} below required ${required}`
+      );
+    }
+    // A final sequence would let the transaction bypass lock time checks
+    if (transaction.inputs[inputIndex].sequence === SEQUENCE_FINAL) {
+      throw new Error('has final sequence on a time-locked input');
+    }
+  }
+
+  private static tokenize(lockingScript: string): string[] {
+    const tokens = lockingScript.trim().split(/\s+/).filter(Boolean);
+    // Bare address shorthand for pay-to-pubkey-hash
+    if (tokens.length === 1 && !tokens[0].startsWith('OP_')) {
+      return [
+        'OP_DUP',
+        'OP_ADDRESS',
+        tokens[0],
+        'OP_EQUALVERIFY',
+        'OP_CHECKSIG',
+      ];
+    }
+    return tokens;
+  }
+
+  private static parseUnlockingScript(unlockingScript: string): string[] {
+    const items = unlockingScript.split(':');
+    for (const item of items) {
+      if (!/^[0-9a-fA-F]*$/.test(item) || item.length % 2 !== 0) {
+        throw new Error('Unlocking scripts may only push hex data');
+      }
+    }
+    return items;
+  }
+
+  private static parseNumber(token: string): number | null {
+    if (!/^\d+$/.test(token)) {
+      return null;
+    }
+    const value = Number(token);
+    return Number.isSafeInteger(value) ? value : null;
+  }
+
+  private static popNumber(stack: string[]): number {
+    const token = this.pop(stack);
+    const value = this.parseNumber(token);
+    if (value === null) {
+      throw new Error(`has invalid numeric operand: ${token}`);
+    }
+    return value;
+  }
+
+  private static peek(stack: string[]): string {
+    if (stack.length === 0) {
+      throw new Error('has stack underflow');
+    }
+    return stack[stack.length - 1];
+  }
+
+  private static pop(stack: string[]): string {
+    const value = this.peek(stack);
+    stack.pop();
+    return value;
+  }
+
+  private static isTruthy(value: string): boolean {
+    return value !== '' && value !== FALSE;
+  }
+}
@@ -8,6 +8,7 @@
 import { EventEmitter } from 'events';
 import { Blockchain } from './blockchain.js';
 import { UTXOManager } from './utxo.js';
+import { UTXOTransactionManager } from './utxo-transaction.js';
 import { UTXOEnhancedMeshProtocol } from './enhanced-mesh-protocol.js';
 import { UTXOCompressionManager } from './utxo-compression-manager.js';
 import { CryptographicService } from './cryptographic.js';
@@ -15,13 +16,24 @@ import { UTXOReliableDeliveryManager } from './utxo-reliable-delivery-manager.js
 import { NodeDiscoveryProtocol } from './node-discovery-protocol.js';
 import { DutyCycleManager } from './duty-cycle.js';
 import { UTXOPriorityQueue } from './priority-queue.js';
+import type { HeaderChainResult } from './header-chain.js';
 import { Logger } from '@lorachain/shared';
 
-import type { Block, UTXOTransaction, MessagePriority } from './types.js';
+import type {
+  Block,
+  DiscoveryBeacon,
+  MeshMessage,
+  UTXOTransaction,
+  MessagePriority,
+} from './types.js';
 import {
   UTXOSyncState,
   UTXOSyncContext,
+  UTXOSyncMessageType,
+  UTXOSyncPayload,
   UTXOBlockHeader,
+  UTXOHeaderRequest,
+  UTXOHeaderBatch,
   UTXOSetSnapshot,
   SyncPeer,
   SyncProgress,
@@ -32,6 +44,13 @@ import {
   SyncCapability,
 } from './sync-types.js';
 
+// Header request sent over the mesh, waiting for the batch answering it
+interface PendingHeaderRequest {
+  resolve: (batch: UTXOHeaderBatch) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 export class UTXOSyncManager extends EventEmitter {
   private blockchain: Blockchain;
   private utxoManager: UTXOManager;
@@ -49,6 +68,9 @@ export class UTXOSyncManager extends EventEmitter {
   private syncInProgress = false;
   private config: UTXOSyncConfig;
   private metrics: UTXOSyncMetrics;
+  private nodeId: string;
+  private pendingHeaderRequests: Map<string, PendingHeaderRequest> = new Map();
+  private headerRequestCount = 0;
 
   constructor(
     blockchain: Blockchain,
@@ -66,6 +88,7 @@ export class UTXOSyncManager extends EventEmitter {
     this.compressionManager = compressionManager;
     this.cryptoService = cryptoService;
     this.logger = Logger.getInstance();
+    this.nodeId = config?.nodeId ?? 'sync-node';
 
     // Initialize related services
     const nodeKeyPair = CryptographicService.generateKeyPair('secp256k1');
@@ -134,7 +157,7 @@ export class UTXOSyncManager extends EventEmitter {
       },
     };
     this.nodeDiscovery = new NodeDiscoveryProtocol(
-      'sync-node',
+      this.nodeId,
       nodeKeyPair,
       'full',
       discoveryConfig,
@@ -289,6 +312,35 @@ export class UTXOSyncManager extends EventEmitter {
     return headers;
   }
 
+  /**
+   * Answer a peer's UTXO_HEADER_REQUEST with the main chain headers that
+   * follow its locator, at most one header batch
+   */
+  handleHeaderRequest(request: UTXOHeaderRequest): UTXOHeaderBatch {
+    const maxHeaders = Math.min(
+      request.maxHeaders ?? this.config.headerBatchSize,
+      this.config.headerBatchSize
+    );
+    return {
+      headers: this.blockchain.getHeadersAfter(
+        request.locator,
+        request.stopHash,
+        maxHeaders
+      ),
+    };
+  }
+
+  /**
+   * Add the headers of a peer's UTXO_HEADER_BATCH to the header tree
+   */
+  async handleHeaderBatch(batch: UTXOHeaderBatch): Promise<HeaderChainResult> {
+    const result = await this.blockchain.addHeaders(batch.headers);
+    if (!result.isValid) {
+      this.logger.warn(`Rejected header batch: ${result.errors.join(', ')}`);
+    }
+    return result;
+  }
+
   /**
    * Sync UTXO blocks
    */
@@ -374,8 +426,15 @@ export class UTXOSyncManager extends EventEmitter {
       this.handlePeerDiscovered(peer);
     });
 
+    // Signed beacons carry the sender's clock, which adjusts network time
+    this.nodeDiscovery.on('beaconReceived', (beacon: DiscoveryBeacon) => {
+      this.blockchain
+        .getNetworkTime()
+        .addSample(beacon.nodeId, beacon.timestamp);
+    });
+
     // Mesh protocol events
-    this.meshProtocol.on('message:received', (message: any) => {
+    this.meshProtocol.on('message:received', (message: MeshMessage) => {
       this.handleSyncMessage(message);
     });
 
@@ -437,23 +496,43 @@ export class UTXOSyncManager extends EventEmitter {
   }
 
   /**
-   * Sync block headers
+   * Sync block headers from the locator of the best header chain until
+   * peers have no more, so block bodies are only requested along the best
+   * chain once it is known
    */
   private async syncHeaders(): Promise<void> {
-    const currentHeight = this.blockchain.getBlocks().length - 1;
-    const targetHeight = await this.getHighestPeerHeight();
-
-    if (currentHeight >= targetHeight) {
-      this.logger.info('Already synchronized');
-      return;
-    }
+    this.updateSyncState(UTXOSyncState.HEADER_SYNC);
+    let headersDownloaded = 0;
+
+    for (;;) {
+      const batch = await this.requestHeaders({
+        locator: this.blockchain.getBlockLocator(),
+        maxHeaders: this.config.headerBatchSize,
+      });
+      const result = await this.handleHeaderBatch(batch);
+      if (!result.isValid) {
+        throw new Error(`Invalid header chain: ${result.errors.join(', ')}`);
+      }
 
-    this.syncContext.targetHeight = targetHeight;
+      headersDownloaded += result.accepted.length;
+      this.syncContext.targetHeight = this.blockchain.getBestHeader().index;
+      this.emit('sync:progress', {
+        state: UTXOSyncState.HEADER_SYNC,
+        currentHeight: this.syncContext.targetHeight,
+        targetHeight: this.syncContext.targetHeight,
+        headersDownloaded,
+      } as SyncProgress);
 
-    const headers = await this.syncUTXOHeaders(currentHeight + 1, targetHeight);
+      // A short batch, or one with nothing new, ends the header chain
+      if (
+        batch.headers.length < this.config.headerBatchSize ||
+        result.accepted.length === 0
+      ) {
+        break;
+      }
+    }
 
-    // Store headers for later block download
-    this.emit('headers:synced', headers);
+    this.emit('headers:synced', this.blockchain.getBestHeader());
   }
 
   /**
@@ -473,28 +552,35 @@ export class UTXOSyncManager extends EventEmitter {
    * Sync blocks
    */
   private async syncBlocks(): Promise<void> {
-    const currentHeight = this.blockchain.getBlocks().length - 1;
-    const targetHeight = this.syncContext.targetHeight;
-
-    if (currentHeight >= targetHeight) {
-      return;
-    }
-
-    // Get missing block hashes
-    const missingHashes = await this.getMissingBlockHashes(
-      currentHeight + 1,
-      targetHeight
-    );
+    const blocks: Block[] = [];
 
-    // Download blocks with high priority
-    const blocks = await this.syncUTXOBlocks(
-      missingHashes,
-      'high' as unknown as MessagePriority
+    // Download bodies along the best header chain, a batch at a time
+    let missing = this.blockchain.getBlocksToDownload(
+      this.config.blockBatchSize
     );
+    while (missing.length > 0) {
+      const batch = await this.syncUTXOBlocks(
+        missing.map(header => header.hash),
+        'high' as unknown as MessagePriority
+      );
+
+      for (const block of batch) {
+        const result = await this.blockchain.addBlock(block);
+        if (!result.isValid) {
+          throw new Error(
+            `Block ${block.index} (${block.hash}) rejected: ${result.errors.join(', ')}`
+          );
+        }
+        blocks.push(block);
+      }
 
-    // Add blocks to blockchain
-    for (const block of blocks) {
-      await this.blockchain.addBlock(block);
+      const next = this.blockchain.getBlocksToDownload(
+        this.config.blockBatchSize
+      );
+      if (batch.length === 0 || next[0]?.hash === missing[0].hash) {
+        break;
+      }
+      missing = next;
     }
 
     this.emit('blocks:synced', blocks);
@@ -541,6 +627,63 @@ export class UTXOSyncManager extends EventEmitter {
    * Helper methods (simplified implementations)
    */
 
+  /**
+   * Send a UTXO_HEADER_REQUEST over the mesh and wait for the batch that
+   * answers it. The request goes to the header sync peer with the highest
+   * chain, or to every neighbor while no such peer is known.
+   */
+  private async requestHeaders(
+    request: UTXOHeaderRequest
+  ): Promise<UTXOHeaderBatch> {
+    const requestId = `${this.nodeId}:headers:${++this.headerRequestCount}`;
+    const reply = new Promise<UTXOHeaderBatch>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingHeaderRequests.delete(requestId);
+        reject(new Error(`Header request ${requestId} timed out`));
+      }, this.config.syncTimeout);
+      this.pendingHeaderRequests.set(requestId, { resolve, reject, timer });
+    });
+
+    const sent = await this.sendSyncMessage(
+      { type: UTXOSyncMessageType.UTXO_HEADER_REQUEST, requestId, request },
+      this.selectHeaderPeer()?.id
+    );
+    if (!sent) {
+      clearTimeout(this.pendingHeaderRequests.get(requestId)?.timer);
+      this.pendingHeaderRequests.delete(requestId);
+      throw new Error(`Header request ${requestId} could not be sent`);
+    }
+    return reply;
+  }
+
+  private selectHeaderPeer(): SyncPeer | undefined {
+    let best: SyncPeer | undefined;
+    for (const peer of this.peers.values()) {
+      if (
+        peer.capabilities.includes(SyncCapability.HEADER_SYNC) &&
+        (!best || peer.syncHeight > best.syncHeight)
+      ) {
+        best = peer;
+      }
+    }
+    return best;
+  }
+
+  private async sendSyncMessage(
+    payload: UTXOSyncPayload,
+    to?: string
+  ): Promise<boolean> {
+    const message: MeshMessage = {
+      type: 'sync',
+      payload,
+      timestamp: Date.now(),
+      from: this.nodeId,
+      to,
+      signature: '',
+    };
+    return await this.meshProtocol.sendMessage(message);
+  }
+
   private async fetchHeaderBatch(
     _start: number,
     _end: number
@@ -603,9 +746,13 @@ export class UTXOSyncManager extends EventEmitter {
     return [];
   }
 
-  private async validateTransaction(_tx: UTXOTransaction): Promise<boolean> {
-    // Implementation would validate transaction
-    return true;
+  private async validateTransaction(tx: UTXOTransaction): Promise<boolean> {
+    // Never admit a transaction whose ID is not bound to its contents
+    try {
+      return tx.id === UTXOTransactionManager.calculateTransactionId(tx);
+    } catch {
+      return false;
+    }
   }
 
   private async addToMempool(_tx: UTXOTransaction): Promise<void> {
@@ -616,8 +763,57 @@ export class UTXOSyncManager extends EventEmitter {
     // Implementation would handle peer discovery
   }
 
-  private handleSyncMessage(_message: any): void {
-    // Implementation would handle sync messages
+  /**
+   * Dispatch sync protocol messages received over the mesh. Header batches
+   * answering a request of ours complete it; other batches announce
+   * headers and go straight to the header tree.
+   */
+  private handleSyncMessage(message: MeshMessage): void {
+    const payload = message.payload as UTXOSyncPayload | undefined;
+    if (message.type !== 'sync' || !payload) {
+      return;
+    }
+
+    switch (payload.type) {
+      case UTXOSyncMessageType.UTXO_HEADER_REQUEST: {
+        let batch: UTXOHeaderBatch;
+        try {
+          batch = this.handleHeaderRequest(payload.request);
+        } catch (error) {
+          this.logger.warn(
+            `Cannot answer header request ${payload.requestId} from ${message.from}: ${(error as Error).message}`
+          );
+          return;
+        }
+        void this.sendSyncMessage(
+          {
+            type: UTXOSyncMessageType.UTXO_HEADER_BATCH,
+            requestId: payload.requestId,
+            batch,
+          },
+          message.from
+        );
+        break;
+      }
+      case UTXOSyncMessageType.UTXO_HEADER_BATCH: {
+        const pending =
+          payload.requestId !== undefined
+            ? this.pendingHeaderRequests.get(payload.requestId)
+            : undefined;
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingHeaderRequests.delete(payload.requestId!);
+          pending.resolve(payload.batch);
+        } else {
+          this.handleHeaderBatch(payload.batch).catch((error: Error) =>
+            this.logger.warn(
+              `Cannot add header batch from ${message.from}: ${error.message}`
+            )
+          );
+        }
+        break;
+      }
+    }
   }
 
   private handleNewBlock(_block: Block): void {
@@ -632,23 +828,10 @@ export class UTXOSyncManager extends EventEmitter {
     // Implementation would negotiate with peer
   }
 
-  private async getHighestPeerHeight(): Promise<number> {
-    // Implementation would get highest peer height
-    return 0;
-  }
-
   private async applyUTXOSnapshot(_snapshot: UTXOSetSnapshot): Promise<void> {
     // Implementation would apply UTXO snapshot
   }
 
-  private async getMissingBlockHashes(
-    _start: number,
-    _end: number
-  ): Promise<string[]> {
-    // Implementation would get missing block hashes
-    return [];
-  }
-
   private async checkInternetConnectivity(): Promise<boolean> {
     // Implementation would check internet connectivity
     return true;
@@ -684,6 +867,11 @@ export class UTXOSyncManager extends EventEmitter {
    */
   async stopSync(): Promise<void> {
     this.syncInProgress = false;
+    for (const pending of this.pendingHeaderRequests.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Sync stopped'));
+    }
+    this.pendingHeaderRequests.clear();
     this.updateSyncState(UTXOSyncState.DISCOVERING);
     this.emit('sync:stopped');
   }
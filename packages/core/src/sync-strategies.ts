@@ -14,6 +14,7 @@ import { DutyCycleManager } from './duty-cycle.js';
 import { NodeDiscoveryProtocol } from './node-discovery-protocol.js';
 import { UTXOReliableDeliveryManager } from './utxo-reliable-delivery-manager.js';
 import { CryptographicService } from './cryptographic.js';
+import { UTXOCommitment } from './merkle/UTXOCommitment.js';
 import { Logger } from '@lorachain/shared';
 
 import type { Block, UTXO } from './types.js';
@@ -118,10 +119,13 @@ export class InternetSyncStrategy extends EventEmitter {
 
   /**
    * Batch UTXO set synchronization
+   * @param utxoRoot - UTXO root committed to by the block at this height,
+   * taken from a validated header chain rather than from the peer
    */
   async batchUTXOSetSync(
     height: number,
-    peers: SyncPeer[]
+    peers: SyncPeer[],
+    utxoRoot: string
   ): Promise<UTXOSetSnapshot> {
     this.logger.info(`Starting UTXO set sync for height ${height}`);
 
@@ -129,7 +133,7 @@ export class InternetSyncStrategy extends EventEmitter {
     const snapshot = await this.downloadUTXOSnapshot(height, peers);
 
     // Verify merkle root
-    await this.verifyMerkleRoot(snapshot);
+    await this.verifyMerkleRoot(snapshot, utxoRoot);
 
     this.logger.info(`UTXO set synced: ${snapshot.utxoCount} UTXOs`);
     return snapshot;
@@ -208,11 +212,29 @@ export class InternetSyncStrategy extends EventEmitter {
   }
 
   /**
-   * Verify merkle root of UTXO snapshot
+   * Verify a UTXO snapshot against the UTXO root its block commits to,
+   * along with the existence proofs it carries
    */
-  private async verifyMerkleRoot(snapshot: UTXOSetSnapshot): Promise<void> {
-    // Implementation would verify the merkle root
+  private async verifyMerkleRoot(
+    snapshot: UTXOSetSnapshot,
+    utxoRoot: string
+  ): Promise<void> {
     this.logger.debug(`Verifying merkle root: ${snapshot.merkleRoot}`);
+
+    if (snapshot.merkleRoot !== utxoRoot) {
+      throw new Error(
+        `Snapshot UTXO root ${snapshot.merkleRoot} does not match the root ${utxoRoot} committed at height ${snapshot.height}`
+      );
+    }
+
+    const invalidProof = snapshot.proofs.find(
+      proof => !UTXOCommitment.verifyProof(proof, utxoRoot)
+    );
+    if (invalidProof) {
+      throw new Error(
+        `Snapshot proof for ${invalidProof.utxo.txId}:${invalidProof.utxo.outputIndex} does not match UTXO root ${utxoRoot}`
+      );
+    }
   }
 
   /**
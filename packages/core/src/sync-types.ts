@@ -5,7 +5,11 @@
  * Designed for hybrid LoRa mesh and internet network topology.
  */
 
-import type { MessagePriority } from './types.js';
+import type {
+  BlockHeader,
+  MessagePriority,
+  UTXOExistenceProof,
+} from './types.js';
 import type { CompressionAlgorithm } from './compression-types.js';
 
 // Protocol version - breaking changes allowed
@@ -151,17 +155,49 @@ export interface UTXOBlockHeader {
   nonce: number;
 }
 
+/**
+ * Request for the headers that follow a block locator
+ */
+export interface UTXOHeaderRequest {
+  locator: string[]; // Block hashes, newest first, ending with genesis
+  stopHash?: string; // Last header wanted, if known
+  maxHeaders?: number;
+}
+
+/**
+ * Headers sent in reply to a header request, oldest first
+ */
+export interface UTXOHeaderBatch {
+  headers: BlockHeader[];
+}
+
+/**
+ * Payload of a mesh 'sync' message. A batch answering a request carries
+ * the request's ID.
+ */
+export type UTXOSyncPayload =
+  | {
+      type: UTXOSyncMessageType.UTXO_HEADER_REQUEST;
+      requestId: string;
+      request: UTXOHeaderRequest;
+    }
+  | {
+      type: UTXOSyncMessageType.UTXO_HEADER_BATCH;
+      requestId?: string;
+      batch: UTXOHeaderBatch;
+    };
+
 /**
  * UTXO set snapshot for fast sync
  */
 export interface UTXOSetSnapshot {
   height: number;
   timestamp: number;
-  merkleRoot: string;
+  merkleRoot: string; // UTXO root of the set at this height
   utxoCount: number;
   totalValue: bigint;
   compressedUTXOs: CompressedUTXOBatch[];
-  proofs: UTXOMerkleProof[];
+  proofs: UTXOExistenceProof[];
   signature: string;
 }
 
@@ -337,4 +373,5 @@ export interface UTXOSyncConfig {
   retryAttempts: number;
   minStakeForAuth: number;
   compressionThreshold: number;
+  nodeId?: string; // Sender of this node's sync messages
 }
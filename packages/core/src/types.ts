@@ -14,13 +14,13 @@ export interface Transaction {
 export interface TransactionInput {
   previousTxId: string;
   outputIndex: number;
-  unlockingScript: string; // Signature + public key
+  unlockingScript: string; // Push-only script, e.g. signature:publicKey
   sequence: number;
 }
 
 export interface TransactionOutput {
   value: number;
-  lockingScript: string; // Public key hash
+  lockingScript: string; // Address or script, see script.ts
   outputIndex: number;
 }
 
@@ -31,6 +31,7 @@ export interface UTXO {
   lockingScript: string;
   blockHeight: number;
   isSpent: boolean;
+  isCoinbase?: boolean; // Created by a block's coinbase transaction
 }
 
 export interface UTXOTransaction {
@@ -52,6 +53,28 @@ export interface Block {
   merkleRoot: string;
   difficulty: number;
   validator?: string;
+  signature?: string; // Validator's 'signature:publicKey' over the hash (PoA)
+  vote?: SignerVote; // Validator's vote on the signer set (PoA)
+  utxoRoot?: string; // Commitment to the UTXO set after this block
+  version?: number; // Version bits signalling soft fork deployments
+  bits?: number; // Compact proof-of-work target; difficulty is then derived
+}
+
+// Vote cast in a proof-of-authority block to add or remove a signer
+export interface SignerVote {
+  address: string;
+  authorize: boolean; // true to add the address, false to remove it
+}
+
+// Unmined block assembled from the mempool, for local or external miners
+export interface BlockTemplate {
+  block: Block; // Nonce and hash are left for the miner to find
+  transactions: UTXOTransaction[]; // UTXO form of block.transactions
+  coinbase: UTXOTransaction; // First transaction, paying subsidy plus fees
+  subsidy: number;
+  totalFees: number;
+  size: number; // Serialized block size in bytes
+  maxBlockSize: number;
 }
 
 export interface Wallet {
@@ -83,9 +106,29 @@ export interface ValidationResult {
   errors: string[];
 }
 
+export type ConsensusEngineType = 'pow' | 'poa';
+
+export interface BlockValidationOptions {
+  skipSignatures?: boolean; // Block is below the assume-valid block
+}
+
+/**
+ * Block production and validation rules. `blockchain` is the chain a block
+ * builds on, from genesis up to and including its parent.
+ */
 export interface ConsensusAlgorithm {
-  validateBlock(block: Block, blockchain: Block[]): ValidationResult;
-  selectValidator(nodes: NetworkNode[]): NetworkNode | null;
+  readonly type: ConsensusEngineType;
+  readonly sealSize: number; // Bytes sealing may add to an encoded block
+  validateBlock(
+    block: Block,
+    blockchain: Block[],
+    options?: BlockValidationOptions
+  ): ValidationResult;
+  selectValidator(
+    nodes: NetworkNode[],
+    blockchain: Block[]
+  ): NetworkNode | null;
+  sealBlock(block: Block, blockchain: Block[]): Block;
 }
 
 export interface MeshMessage {
@@ -124,24 +167,40 @@ export interface IUTXOManager {
   getTotalValue(): number;
 }
 
+// Confirmed balance of an address, split by whether it can be spent yet
+export interface AddressBalance {
+  total: number;
+  spendable: number;
+  immature: number; // Coinbase outputs still short of the maturity depth
+}
+
 export interface UTXOSelectionResult {
   selectedUTXOs: UTXO[];
   totalValue: number;
   changeAmount: number;
 }
 
+// Height and time of the block a transaction would be included in
+export interface TransactionFinalityContext {
+  blockHeight: number;
+  blockTime: number;
+}
+
 export interface IUTXOTransactionManager {
   createTransaction(
     fromAddress: string,
     toAddress: string,
     amount: number,
     privateKey: string,
-    availableUTXOs: UTXO[]
+    availableUTXOs: UTXO[],
+    algorithm?: 'secp256k1' | 'ed25519'
   ): UTXOTransaction;
 
   validateTransaction(
     transaction: UTXOTransaction,
-    utxoManager: IUTXOManager
+    utxoManager: IUTXOManager,
+    finality?: TransactionFinalityContext,
+    options?: BlockValidationOptions
   ): ValidationResult;
 
   calculateTransactionFee(
@@ -185,6 +244,14 @@ export interface CompressedMerkleProof {
   index: number;
 }
 
+// Proof that an unspent output is in the UTXO set committed to by a block
+export interface UTXOExistenceProof {
+  utxo: UTXO;
+  leafIndex: number; // Position among the set's outputs in outpoint order
+  proof: ProofElement[];
+  utxoRoot: string;
+}
+
 export interface BlockHeader {
   index: number;
   timestamp: number;
@@ -195,6 +262,11 @@ export interface BlockHeader {
   transactionCount: number;
   difficulty?: number;
   validator?: string;
+  signature?: string;
+  vote?: SignerVote;
+  utxoRoot?: string;
+  version?: number;
+  bits?: number;
 }
 
 export interface SPVValidationResult extends ValidationResult {
@@ -255,12 +327,117 @@ export interface UTXOPersistenceConfig {
   compressionType: 'gzip' | 'none';
   maxDatabaseSize?: number;
   pruningEnabled?: boolean;
+  pruneTarget?: PruneTarget; // Applied when pruningEnabled is set
+  txIndexEnabled?: boolean; // Index confirmed transactions by ID
+  addressIndexEnabled?: boolean; // Index confirmed transactions by address
   backupEnabled?: boolean;
   utxoSetCacheSize: number;
   cryptographicAlgorithm: 'secp256k1' | 'ed25519';
   compactionStyle: 'size' | 'universal';
 }
 
+// Block body retention for storage-constrained nodes; either limit may be
+// set and the stricter one wins
+export interface PruneTarget {
+  keepBlocks?: number; // Most recent block bodies to keep
+  maxSizeMB?: number; // Space allowed for stored block bodies
+}
+
+export interface PruneState {
+  pruned: boolean; // True once any block body has been discarded
+  pruneHeight: number; // Lowest block index whose body is still stored
+}
+
+// Where a confirmed transaction sits in the main chain
+export interface TransactionLocation {
+  txId: string;
+  blockHash: string;
+  blockIndex: number;
+  position: number; // Index within the block's transactions
+}
+
+// A confirmed transaction's net effect on one address
+export interface AddressHistoryEntry {
+  height: number;
+  txId: string;
+  direction: 'received' | 'sent';
+  amount: number; // Net value moved, always non-negative
+}
+
+export interface AddressHistory {
+  address: string;
+  total: number; // Entries for the address across all pages
+  entries: AddressHistoryEntry[]; // Newest first
+}
+
+// UTXO changes made by connecting a block, kept so the block can be rolled
+// back without replaying the chain
+export interface BlockUndoRecord {
+  blockHash: string;
+  blockIndex: number;
+  spentUTXOs: UTXO[]; // Spent outputs with their original block heights
+  createdUTXOs: UTXO[]; // Outputs the block added to the UTXO set
+  utxoTransactions: UTXOTransaction[]; // Block transactions in UTXO form
+}
+
+// UTXO set at a main chain block, used to bootstrap a node without
+// replaying the chain
+export interface UTXOSnapshot {
+  chainId: string;
+  height: number;
+  blockHash: string;
+  utxoRoot: string; // Commitment to the snapshot's UTXO set
+  headers: BlockHeader[]; // Main chain headers from genesis to the snapshot block
+  utxos: UTXO[]; // Sorted by outpoint
+}
+
+// Snapshot a node was bootstrapped from; the snapshot hash is the checksum
+// of its file
+export interface ImportedUTXOSnapshot {
+  height: number;
+  blockHash: string;
+  utxoRoot: string;
+  hash: string;
+  validated: boolean; // Whether historical blocks have reproduced its UTXO set
+}
+
+// Progress of checking an imported snapshot against historical blocks
+export interface SnapshotValidationStatus {
+  height: number;
+  blockHash: string;
+  state: 'validating' | 'valid' | 'invalid';
+  validatedHeight: number; // Highest historical block connected so far
+  error?: string;
+}
+
+// Main chain blocks and pending transactions carried between nodes on
+// removable media
+export interface BlockBundle {
+  chainId: string;
+  fromHeight: number;
+  toHeight: number;
+  createdAt: number;
+  blocks: Block[]; // Main chain blocks from fromHeight to toHeight
+  utxoTransactions: UTXOTransaction[]; // The blocks' transactions in UTXO form
+  pendingTransactions: UTXOTransaction[];
+}
+
+// Signed, compressed container a block bundle travels in
+export interface BlockBundleArchive {
+  compression: string; // Compression algorithm of the payload
+  originalSize: number; // Length of the uncompressed bundle encoding
+  publicKey: string; // Key of the node that signed the archive
+  signature: string; // Signature over the sha256 of the payload
+  payload: Uint8Array;
+}
+
+export interface BlockBundleImportResult extends ValidationResult {
+  signer?: string; // Address of the key that signed the bundle
+  blocksAdded: number;
+  blocksKnown: number; // Bundle blocks this node already had
+  transactionsAdded: number; // Pending transactions admitted to the pool
+}
+
 // Persistence State Types
 export interface UTXOBlockchainState {
   blocks: Block[];
@@ -271,6 +448,7 @@ export interface UTXOBlockchainState {
   latestBlockIndex: number;
   utxoRootHash: string;
   cryptographicKeys: Map<string, unknown>;
+  pruneHeight?: number; // Blocks below this height were loaded as headers
 }
 
 // Validation and Repair Results
@@ -306,11 +484,14 @@ export interface GenesisConfig {
 
   // Initial coin distribution (UTXO-only)
   initialAllocations: InitialAllocation[];
-  totalSupply: number;
+  totalSupply: number; // Cap on allocations plus all mining rewards
 
   // Network parameters (integrates with existing DifficultyManager)
   networkParams: NetworkParameters;
 
+  // Block production rules, proof of work when omitted
+  consensus?: ConsensusParameters;
+
   // Genesis block metadata
   metadata: GenesisMetadata;
 }
@@ -329,6 +510,56 @@ export interface NetworkParameters {
   maxBlockSize: number; // bytes (integrates with existing blockchain.maxBlockSize)
   miningReward: number; // integrates with existing blockchain.miningReward
   halvingInterval?: number; // blocks until reward halving
+  tailEmission?: number; // reward floor once halvings would go below it
+  coinbaseMaturity?: number; // blocks before coinbase outputs can be spent
+  checkpoints?: Checkpoint[]; // blocks every valid chain must contain
+  assumeValid?: Checkpoint; // block whose ancestors skip signature checks
+  assumeUTXO?: Checkpoint[]; // UTXO snapshot hashes trusted at these heights
+  deployments?: SoftForkDeployment[]; // Soft forks activated by version bits
+  difficultyAlgorithm?: DifficultyAlgorithmType; // Retarget rule, interval by default
+  difficultyWindow?: number; // Blocks LWMA averages solve times over
+}
+
+// Interval retargets every adjustmentPeriod blocks in leading-zero steps;
+// LWMA retargets every block on a numeric target
+export type DifficultyAlgorithmType = 'interval' | 'lwma';
+
+export interface Checkpoint {
+  height: number;
+  hash: string;
+}
+
+// Consensus rule change rolled out once enough blocks signal for it
+export interface SoftForkDeployment {
+  name: string;
+  bit: number; // Block version bit signalling readiness, 0-28
+  startHeight: number; // Signalling counts from the first period starting here
+  timeoutHeight: number; // Fails unless locked in by a period starting here
+  period: number; // Blocks per signalling window
+  threshold: number; // Signalling blocks in one window needed to lock in
+}
+
+export type DeploymentState =
+  | 'defined'
+  | 'started'
+  | 'locked_in'
+  | 'active'
+  | 'failed';
+
+export interface DeploymentStatus {
+  name: string;
+  bit: number;
+  state: DeploymentState; // State for the next block
+  since: number; // Height at which the state took effect
+  period: number;
+  threshold: number;
+  elapsed: number; // Blocks of the current window on the chain
+  count: number; // Signalling blocks among them
+}
+
+export interface ConsensusParameters {
+  engine: ConsensusEngineType;
+  signers?: string[]; // Addresses authorized to sign blocks at genesis (PoA)
 }
 
 export interface GenesisMetadata {
@@ -1406,6 +1637,7 @@ export interface NodeCapabilities {
   dutyCycleCompliance: string[];
   maxQueueSize: number;
   supportsUTXORouting: boolean;
+  pruneHeight?: number; // Lowest block served by a pruned node
 }
 
 /**
@@ -1602,6 +1834,9 @@ export interface INodeDiscoveryProtocol {
   // Metrics and monitoring
   getDiscoveryMetrics(): DiscoveryMetrics;
 
+  // Pruned node advertisement
+  setPruneHeight(pruneHeight: number | undefined): void;
+
   // Events
   on(event: keyof DiscoveryEvents, callback: (...args: any[]) => void): void;
   emit(event: keyof DiscoveryEvents, ...args: any[]): boolean;
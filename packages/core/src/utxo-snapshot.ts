@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import type { UTXOSnapshot } from './types.js';
+import { BinaryCodec } from './codec.js';
+
+// Length of the sha256 checksum that ends every snapshot file
+const CHECKSUM_LENGTH = 32;
+
+/**
+ * UTXO snapshot files for bootstrapping a node without replaying the chain.
+ *
+ * A file is the snapshot's canonical encoding followed by the sha256 of that
+ * encoding. The checksum doubles as the snapshot hash that genesis configs
+ * pin through `assumeUTXO`, so a file can be checked before it is decoded.
+ */
+export class UTXOSnapshotFile {
+  static encode(snapshot: UTXOSnapshot): Uint8Array {
+    const body = BinaryCodec.encodeUTXOSnapshot(snapshot);
+    const file = new Uint8Array(body.length + CHECKSUM_LENGTH);
+    file.set(body);
+    file.set(createHash('sha256').update(body).digest(), body.length);
+    return file;
+  }
+
+  /**
+   * @throws if the checksum does not match the file contents
+   */
+  static decode(data: Uint8Array): UTXOSnapshot {
+    if (data.length < CHECKSUM_LENGTH) {
+      throw new Error('UTXO snapshot file is truncated');
+    }
+
+    const body = data.subarray(0, data.length - CHECKSUM_LENGTH);
+    const checksum = Buffer.from(
+      data.subarray(data.length - CHECKSUM_LENGTH)
+    ).toString('hex');
+    if (createHash('sha256').update(body).digest('hex') !== checksum) {
+      throw new Error('UTXO snapshot file checksum does not match');
+    }
+
+    return BinaryCodec.decodeUTXOSnapshot(body);
+  }
+
+  /**
+   * Hash identifying a snapshot file, as pinned in genesis configs
+   */
+  static calculateHash(data: Uint8Array): string {
+    if (data.length < CHECKSUM_LENGTH) {
+      throw new Error('UTXO snapshot file is truncated');
+    }
+    return Buffer.from(data.subarray(data.length - CHECKSUM_LENGTH)).toString(
+      'hex'
+    );
+  }
+
+  /**
+   * Write a snapshot to disk
+   * @returns the snapshot hash
+   */
+  static async write(path: string, snapshot: UTXOSnapshot): Promise<string> {
+    const fs = await import('fs/promises');
+    const data = this.encode(snapshot);
+    await fs.writeFile(path, data);
+    return this.calculateHash(data);
+  }
+
+  static async read(
+    path: string
+  ): Promise<{ snapshot: UTXOSnapshot; hash: string }> {
+    const fs = await import('fs/promises');
+    const data = new Uint8Array(await fs.readFile(path));
+    return { snapshot: this.decode(data), hash: this.calculateHash(data) };
+  }
+}
@@ -7,10 +7,30 @@ import type {
   IUTXOManager,
   ValidationResult,
   UTXOSelectionResult,
+  TransactionFinalityContext,
+  BlockValidationOptions,
 } from './types.js';
-import { CryptographicService, type KeyPair } from './cryptographic.js';
+import {
+  CryptographicService,
+  type KeyPair,
+  type SignatureAlgorithm,
+} from './cryptographic.js';
+import {
+  ScriptBuilder,
+  ScriptInterpreter,
+  LOCKTIME_THRESHOLD,
+  SEQUENCE_FINAL,
+  MAX_REPLACEABLE_SEQUENCE,
+} from './script.js';
+import { isValidAmount } from './amount.js';
+import { BinaryCodec } from './codec.js';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
 
+// Fee policy in base units: per estimated byte, and the floor for any
+// transaction
+export const FEE_PER_BYTE = 1;
+export const MIN_TRANSACTION_FEE = 100;
+
 // Simple logger for development
 class SimpleLogger {
   constructor(private context: string) {}
@@ -33,14 +53,58 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
     toAddress: string,
     amount: number,
     privateKey: string,
-    availableUTXOs: UTXO[]
+    availableUTXOs: UTXO[],
+    algorithm: SignatureAlgorithm = 'secp256k1',
+    lockTime: number = 0,
+    replaceable: boolean = false
   ): UTXOTransaction {
     this.logger.debug(
       `Creating UTXO transaction: ${fromAddress} -> ${toAddress}, amount: ${amount}`
     );
 
-    // Generate transaction ID
-    const txId = this.generateTransactionId();
+    const transaction = this.createUnsignedTransaction(
+      availableUTXOs,
+      toAddress,
+      amount,
+      fromAddress, // Send change back to sender
+      lockTime,
+      replaceable
+    );
+
+    // Sign the transaction
+    this.signTransaction(transaction, privateKey, availableUTXOs, algorithm);
+
+    this.logger.debug(
+      `Created UTXO transaction ${transaction.id} with ${transaction.inputs.length} inputs and ${transaction.outputs.length} outputs`
+    );
+    return transaction;
+  }
+
+  /**
+   * Build a transaction paying `amount` to a locking script (or address)
+   * without signing it. Used for outputs that need several signers, such as
+   * multisig treasuries, where each signer adds a signature via signInput.
+   * Time-locked inputs raise the transaction lock time to what they require.
+   * A non-zero `lockTime` post-dates the transaction: it cannot be mined
+   * before that block height (or ms timestamp, from LOCKTIME_THRESHOLD on).
+   * A replaceable transaction opts into replace-by-fee in the mempool.
+   */
+  createUnsignedTransaction(
+    availableUTXOs: UTXO[],
+    toLockingScript: string,
+    amount: number,
+    changeLockingScript: string,
+    lockTime: number = 0,
+    replaceable: boolean = false
+  ): UTXOTransaction {
+    if (!Number.isSafeInteger(lockTime) || lockTime < 0) {
+      throw new Error(`Invalid lock time: ${lockTime}`);
+    }
+    if (!isValidAmount(amount) || amount === 0) {
+      throw new Error(
+        `Invalid amount: ${amount} (expected a positive integer of base units)`
+      );
+    }
 
     // Select UTXOs to cover the amount + estimated fee
     const estimatedFee = this.estimateFee(1, 2); // Rough estimate for 1 input, 2 outputs
@@ -54,13 +118,26 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
       );
     }
 
+    const requiredLockTime = this.getRequiredLockTime(
+      utxoSelection.selectedUTXOs,
+      lockTime
+    );
+
+    // Final sequences opt out of lock time, so locked inputs use the next
+    // lower one; replaceable inputs signal replace-by-fee
+    const sequence = replaceable
+      ? MAX_REPLACEABLE_SEQUENCE
+      : requiredLockTime > 0
+        ? SEQUENCE_FINAL - 1
+        : SEQUENCE_FINAL;
+
     // Create transaction inputs
     const inputs: TransactionInput[] = utxoSelection.selectedUTXOs.map(
-      (utxo, index) => ({
+      utxo => ({
         previousTxId: utxo.txId,
         outputIndex: utxo.outputIndex,
         unlockingScript: '', // Will be filled during signing
-        sequence: 0xffffffff - index, // Standard sequence number
+        sequence,
       })
     );
 
@@ -70,7 +147,7 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
     // Primary output to recipient
     outputs.push({
       value: amount,
-      lockingScript: toAddress, // For simplicity, using address as locking script
+      lockingScript: toLockingScript,
       outputIndex: 0,
     });
 
@@ -78,7 +155,7 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
     if (utxoSelection.changeAmount > 0) {
       outputs.push({
         value: utxoSelection.changeAmount,
-        lockingScript: fromAddress, // Send change back to sender
+        lockingScript: changeLockingScript,
         outputIndex: 1,
       });
     }
@@ -98,33 +175,127 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
       }
     }
 
+    // Whatever the outputs leave over is the fee, to the unit
     const transaction: UTXOTransaction = {
-      id: txId,
+      id: '',
       inputs,
       outputs,
-      lockTime: 0,
+      lockTime: requiredLockTime,
       timestamp: Date.now(),
-      fee: actualFee,
+      fee:
+        utxoSelection.totalValue -
+        outputs.reduce((sum, output) => sum + output.value, 0),
     };
+    transaction.id = UTXOTransactionManager.calculateTransactionId(transaction);
 
-    // Sign the transaction
-    this.signTransaction(transaction, privateKey, utxoSelection.selectedUTXOs);
+    return transaction;
+  }
 
-    this.logger.debug(
-      `Created UTXO transaction ${txId} with ${inputs.length} inputs and ${outputs.length} outputs`
+  /**
+   * Sign one input with a single key. Pay-to-pubkey-hash and time-locked
+   * inputs are fully unlocked by one signature; multisig inputs collect
+   * signatures in public key order until the threshold is reached.
+   */
+  signInput(
+    transaction: UTXOTransaction,
+    inputIndex: number,
+    spentOutput: UTXO,
+    privateKey: string,
+    algorithm: SignatureAlgorithm = 'secp256k1'
+  ): void {
+    const input = transaction.inputs[inputIndex];
+    if (!input) {
+      throw new Error(`Input ${inputIndex} does not exist`);
+    }
+
+    const keyPair = this.deriveKeyPair(privateKey, algorithm);
+    const publicKey = bytesToHex(keyPair.publicKey);
+    const signatureHash = this.createSignatureHash(
+      transaction,
+      inputIndex,
+      spentOutput
     );
-    return transaction;
+    const signature = bytesToHex(
+      CryptographicService.sign(signatureHash, keyPair.privateKey, algorithm)
+        .signature
+    );
+
+    const parsed = ScriptInterpreter.parseLockingScript(
+      spentOutput.lockingScript
+    );
+    switch (parsed.template) {
+      case 'p2pkh':
+      case 'cltv':
+        input.unlockingScript = ScriptBuilder.unlocking([signature, publicKey]);
+        return;
+      case 'multisig': {
+        const publicKeys = parsed.publicKeys!;
+        const keyIndex = publicKeys.indexOf(publicKey);
+        if (keyIndex === -1) {
+          throw new Error(
+            `Key is not part of the multisig script for input ${inputIndex}`
+          );
+        }
+
+        // Re-associate existing signatures with their keys, then insert ours
+        const signed = new Map<number, string>();
+        const existing = input.unlockingScript
+          ? input.unlockingScript.split(':')
+          : [];
+        for (const item of existing) {
+          const index = publicKeys.findIndex(key =>
+            ScriptInterpreter.verifySignature(item, key, signatureHash)
+          );
+          if (index !== -1) {
+            signed.set(index, item);
+          }
+        }
+        signed.set(keyIndex, signature);
+
+        const ordered = [...signed.entries()]
+          .sort(([a], [b]) => a - b)
+          .slice(0, parsed.requiredSignatures)
+          .map(([, item]) => item);
+        input.unlockingScript = ScriptBuilder.unlocking(ordered);
+        return;
+      }
+      default:
+        throw new Error(
+          `Cannot sign input ${inputIndex}: nonstandard locking script`
+        );
+    }
   }
 
+  /**
+   * Validate a transaction against the UTXO set. When a finality context is
+   * given, transactions that cannot yet be included in a block at that
+   * height and time are rejected as well. Unlocking scripts are not run
+   * when signatures are skipped for an assumed-valid block.
+   */
   validateTransaction(
     transaction: UTXOTransaction,
-    utxoManager: IUTXOManager
+    utxoManager: IUTXOManager,
+    finality?: TransactionFinalityContext,
+    options: BlockValidationOptions = {}
   ): ValidationResult {
     const errors: string[] = [];
 
     // Basic validation
     if (!transaction.id) {
       errors.push('Transaction ID is required');
+    } else if (Array.isArray(transaction.outputs)) {
+      try {
+        if (
+          transaction.id !==
+          UTXOTransactionManager.calculateTransactionId(transaction)
+        ) {
+          errors.push('Transaction ID does not match transaction contents');
+        }
+      } catch (error) {
+        errors.push(
+          `Transaction cannot be encoded: ${(error as Error).message}`
+        );
+      }
     }
 
     if (!transaction.outputs || transaction.outputs.length === 0) {
@@ -135,6 +306,24 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
       errors.push('Invalid timestamp');
     }
 
+    if (
+      !Number.isSafeInteger(transaction.lockTime) ||
+      transaction.lockTime < 0
+    ) {
+      errors.push(`Invalid lock time: ${transaction.lockTime}`);
+    } else if (
+      finality &&
+      !UTXOTransactionManager.isFinalTransaction(
+        transaction,
+        finality.blockHeight,
+        finality.blockTime
+      )
+    ) {
+      errors.push(
+        `Transaction is not final: lock time ${transaction.lockTime} not reached at height ${finality.blockHeight}, time ${finality.blockTime}`
+      );
+    }
+
     // Allow genesis/coinbase transactions with no inputs
     const isGenesisTransaction =
       !transaction.inputs || transaction.inputs.length === 0;
@@ -142,7 +331,16 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
     // Validate inputs (skip for genesis transactions)
     let inputValue = 0;
     if (!isGenesisTransaction) {
-      for (const input of transaction.inputs) {
+      const spentOutpoints = new Set<string>();
+      for (let i = 0; i < transaction.inputs.length; i++) {
+        const input = transaction.inputs[i];
+        const outpoint = `${input.previousTxId}:${input.outputIndex}`;
+        if (spentOutpoints.has(outpoint)) {
+          errors.push(`UTXO ${outpoint} is spent more than once`);
+          continue;
+        }
+        spentOutpoints.add(outpoint);
+
         // Check if UTXO exists and is unspent
         if (
           !utxoManager.validateUTXOExists(input.previousTxId, input.outputIndex)
@@ -157,11 +355,20 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
         if (utxo) {
           inputValue += utxo.value;
 
-          // Validate signature (simplified - in real implementation, would verify cryptographic signature)
           if (!input.unlockingScript || input.unlockingScript.length === 0) {
             errors.push(
               `Input ${input.previousTxId}:${input.outputIndex} missing unlocking script`
             );
+            continue;
+          }
+
+          const unlockError = options.skipSignatures
+            ? null
+            : this.verifyInputUnlock(transaction, i, utxo);
+          if (unlockError) {
+            errors.push(
+              `Input ${input.previousTxId}:${input.outputIndex} ${unlockError}`
+            );
           }
         }
       }
@@ -172,7 +379,7 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
     for (let i = 0; i < transaction.outputs.length; i++) {
       const output = transaction.outputs[i];
 
-      if (output.value <= 0) {
+      if (!isValidAmount(output.value) || output.value === 0) {
         errors.push(`Output ${i} has invalid value: ${output.value}`);
       }
 
@@ -189,11 +396,18 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
       outputValue += output.value;
     }
 
+    if (
+      !Number.isSafeInteger(inputValue) ||
+      !Number.isSafeInteger(outputValue)
+    ) {
+      errors.push('Transaction value exceeds the safe integer range');
+    }
+
     // Skip fee and balance validation for genesis transactions
     if (!isGenesisTransaction) {
-      // Validate fee
+      // Amounts are integers, so the fee must match exactly
       const expectedFee = inputValue - outputValue;
-      if (Math.abs(expectedFee - transaction.fee) > 0.001) {
+      if (transaction.fee !== expectedFee) {
         errors.push(
           `Fee mismatch: expected ${expectedFee}, got ${transaction.fee}`
         );
@@ -201,6 +415,8 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
 
       if (transaction.fee < 0) {
         errors.push('Transaction fee cannot be negative');
+      } else if (!Number.isSafeInteger(transaction.fee)) {
+        errors.push(`Invalid fee: ${transaction.fee}`);
       }
 
       // Validate balance
@@ -222,6 +438,69 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
     };
   }
 
+  /**
+   * Whether a transaction may be included in a block at the given height and
+   * time. A transaction is final when its lock time is 0, when the lock time
+   * lies before the block (heights below LOCKTIME_THRESHOLD, ms timestamps
+   * from it on), or when every input opts out with a final sequence.
+   */
+  static isFinalTransaction(
+    transaction: Pick<UTXOTransaction, 'inputs' | 'lockTime'>,
+    blockHeight: number,
+    blockTime: number
+  ): boolean {
+    if (transaction.lockTime === 0) {
+      return true;
+    }
+
+    const threshold =
+      transaction.lockTime < LOCKTIME_THRESHOLD ? blockHeight : blockTime;
+    if (transaction.lockTime < threshold) {
+      return true;
+    }
+
+    return (transaction.inputs ?? []).every(
+      input => input.sequence === SEQUENCE_FINAL
+    );
+  }
+
+  /**
+   * Derive a transaction ID from its contents: the hex SHA-256 digest of
+   * BinaryCodec.encodeTransactionIdPreimage. Throws for transactions that
+   * cannot be encoded.
+   */
+  static calculateTransactionId(
+    transaction: Pick<
+      UTXOTransaction,
+      'inputs' | 'outputs' | 'lockTime' | 'timestamp'
+    >
+  ): string {
+    return bytesToHex(
+      CryptographicService.hashMessage(
+        BinaryCodec.encodeTransactionIdPreimage(transaction)
+      )
+    );
+  }
+
+  /**
+   * Build the signature hash for one input of a transaction: the SHA-256
+   * digest of BinaryCodec.encodeSignatureHashPreimage. Throws for
+   * transactions that cannot be encoded.
+   */
+  createSignatureHash(
+    transaction: UTXOTransaction,
+    inputIndex: number,
+    spentOutput: UTXO
+  ): Uint8Array {
+    return CryptographicService.hashMessage(
+      BinaryCodec.encodeSignatureHashPreimage(
+        transaction,
+        inputIndex,
+        spentOutput
+      )
+    );
+  }
+
   calculateTransactionFee(
     inputs: TransactionInput[],
     outputs: TransactionOutput[]
@@ -232,9 +511,7 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
     const outputSize = outputs.length * 34; // ~34 bytes per output
     const totalSize = baseSize + inputSize + outputSize;
 
-    // Fee rate: 0.00001 per byte (adjustable)
-    const feeRate = 0.00001;
-    return Math.max(0.001, totalSize * feeRate); // Minimum fee of 0.001
+    return Math.max(MIN_TRANSACTION_FEE, totalSize * FEE_PER_BYTE);
   }
 
   selectUTXOs(
@@ -268,42 +545,93 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
   }
 
   // Private helper methods
-  private generateTransactionId(): string {
-    const random = CryptographicService['generateSecureRandom'](32);
-    return bytesToHex(random);
-  }
-
   private estimateFee(inputCount: number, outputCount: number): number {
     const baseSize = 32;
     const inputSize = inputCount * 150;
     const outputSize = outputCount * 34;
     const estimatedSize = baseSize + inputSize + outputSize;
 
-    const feeRate = 0.00001;
-    return Math.max(0.001, estimatedSize * feeRate);
+    return Math.max(MIN_TRANSACTION_FEE, estimatedSize * FEE_PER_BYTE);
   }
 
-  private signTransaction(
+  /**
+   * Run an input's unlocking script against the locking script of the
+   * output it spends. Returns an error description, or null when valid.
+   */
+  private verifyInputUnlock(
     transaction: UTXOTransaction,
-    privateKey: string,
-    utxos: UTXO[]
-  ): void {
-    // Generate key pair from private key
-    let keyPair: KeyPair;
+    inputIndex: number,
+    spentOutput: UTXO
+  ): string | null {
+    let signatureHash: Uint8Array;
     try {
-      const privateKeyBytes = hexToBytes(privateKey.padStart(64, '0'));
-      keyPair = CryptographicService.generateKeyPairFromSeed(
-        privateKeyBytes,
-        'secp256k1'
+      signatureHash = this.createSignatureHash(
+        transaction,
+        inputIndex,
+        spentOutput
       );
-    } catch {
-      const privateKeyBytes = CryptographicService.hashMessage(privateKey);
-      keyPair = CryptographicService.generateKeyPairFromSeed(
-        privateKeyBytes,
-        'secp256k1'
+    } catch (error) {
+      return `cannot be verified: ${(error as Error).message}`;
+    }
+
+    const result = ScriptInterpreter.execute(
+      transaction.inputs[inputIndex].unlockingScript,
+      spentOutput.lockingScript,
+      { transaction, inputIndex, signatureHash }
+    );
+
+    return result.isValid ? null : result.errors[0];
+  }
+
+  /**
+   * Lock time needed by the selected inputs: the latest of `minimumLockTime`
+   * and the lock of any time-locked output.
+   */
+  private getRequiredLockTime(utxos: UTXO[], minimumLockTime: number): number {
+    let lockTime = minimumLockTime;
+    for (const utxo of utxos) {
+      const parsed = ScriptInterpreter.parseLockingScript(utxo.lockingScript);
+      if (parsed.template !== 'cltv') {
+        continue;
+      }
+      if (
+        lockTime > 0 &&
+        lockTime < LOCKTIME_THRESHOLD !== parsed.lockTime! < LOCKTIME_THRESHOLD
+      ) {
+        throw new Error(
+          'Cannot combine height-locked and time-locked outputs in one transaction'
+        );
+      }
+      lockTime = Math.max(lockTime, parsed.lockTime!);
+    }
+    return lockTime;
+  }
+
+  private deriveKeyPair(
+    privateKey: string,
+    algorithm: SignatureAlgorithm
+  ): KeyPair {
+    // A 32-byte hex string is used as the raw private key; anything else is
+    // treated as a seed phrase.
+    if (/^[0-9a-fA-F]{64}$/.test(privateKey)) {
+      return CryptographicService.generateKeyPairFromPrivateKey(
+        hexToBytes(privateKey),
+        algorithm
       );
     }
 
+    return CryptographicService.generateKeyPairFromSeed(
+      CryptographicService.hashMessage(privateKey),
+      algorithm
+    );
+  }
+
+  private signTransaction(
+    transaction: UTXOTransaction,
+    privateKey: string,
+    utxos: UTXO[],
+    algorithm: SignatureAlgorithm
+  ): void {
     // Sign each input
     for (let i = 0; i < transaction.inputs.length; i++) {
       const input = transaction.inputs[i];
@@ -316,26 +644,7 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
         throw new Error(`UTXO not found for input ${i}`);
       }
 
-      // Create message to sign (simplified - in real implementation would be more complex)
-      const messageData = JSON.stringify({
-        txId: transaction.id,
-        inputIndex: i,
-        previousTxId: input.previousTxId,
-        outputIndex: input.outputIndex,
-        outputs: transaction.outputs,
-        timestamp: transaction.timestamp,
-      });
-
-      const messageHash = CryptographicService.hashMessage(messageData);
-      const signature = CryptographicService.sign(
-        messageHash,
-        keyPair.privateKey,
-        'secp256k1'
-      );
-
-      // Create unlocking script (signature + public key)
-      const unlockingScript = `${bytesToHex(signature.signature)}:${bytesToHex(keyPair.publicKey)}`;
-      input.unlockingScript = unlockingScript;
+      this.signInput(transaction, i, utxo, privateKey, algorithm);
     }
 
     this.logger.debug(
@@ -360,7 +669,10 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
     for (const input of transaction.inputs) {
       const utxo = utxoManager.getUTXO(input.previousTxId, input.outputIndex);
       if (utxo) {
-        addresses.push(utxo.lockingScript); // Assuming lockingScript is the address
+        const address = ScriptInterpreter.extractAddress(utxo.lockingScript);
+        if (address) {
+          addresses.push(address);
+        }
       }
     }
 
@@ -368,6 +680,8 @@ export class UTXOTransactionManager implements IUTXOTransactionManager {
   }
 
   getTransactionOutputAddresses(transaction: UTXOTransaction): string[] {
-    return transaction.outputs.map(output => output.lockingScript);
+    return transaction.outputs
+      .map(output => ScriptInterpreter.extractAddress(output.lockingScript))
+      .filter((address): address is string => address !== null);
   }
 }
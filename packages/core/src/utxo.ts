@@ -1,5 +1,12 @@
-import type { UTXO, IUTXOManager, UTXOSelectionResult } from './types.js';
+import type {
+  UTXO,
+  IUTXOManager,
+  UTXOSelectionResult,
+  UTXOExistenceProof,
+} from './types.js';
 import { CryptographicService } from './cryptographic.js';
+import { ScriptInterpreter } from './script.js';
+import { UTXOCommitmentTree } from './merkle/UTXOCommitment.js';
 
 // Simple logger for development
 class SimpleLogger {
@@ -18,6 +25,7 @@ class SimpleLogger {
 export class UTXOManager implements IUTXOManager {
   private utxoSet: Map<string, UTXO> = new Map();
   private addressIndex: Map<string, Set<string>> = new Map();
+  private commitment = new UTXOCommitmentTree();
   private logger = new SimpleLogger('UTXOManager');
 
   // UTXO Management
@@ -29,6 +37,7 @@ export class UTXOManager implements IUTXOManager {
     }
 
     this.utxoSet.set(utxoKey, utxo);
+    this.commitment.insert(utxo);
 
     // Update address index
     const address = this.extractAddressFromLockingScript(utxo.lockingScript);
@@ -53,6 +62,7 @@ export class UTXOManager implements IUTXOManager {
 
     // Remove from UTXO set
     this.utxoSet.delete(utxoKey);
+    this.commitment.remove(txId, outputIndex);
 
     // Update address index
     const address = this.extractAddressFromLockingScript(utxo.lockingScript);
@@ -96,6 +106,21 @@ export class UTXOManager implements IUTXOManager {
     return utxos.reduce((total, utxo) => total + utxo.value, 0);
   }
 
+  /**
+   * Whether an output may be spent in a block at the given height. Coinbase
+   * outputs need coinbaseMaturity blocks on top of the one creating them;
+   * every other output is always mature.
+   */
+  static isMature(
+    utxo: Pick<UTXO, 'isCoinbase' | 'blockHeight'>,
+    spendHeight: number,
+    coinbaseMaturity: number
+  ): boolean {
+    return (
+      !utxo.isCoinbase || spendHeight - utxo.blockHeight >= coinbaseMaturity
+    );
+  }
+
   getSpendableUTXOs(address: string, amount: number): UTXO[] {
     const availableUTXOs = this.getUTXOsForAddress(address);
     const selection = this.selectUTXOs(availableUTXOs, amount);
@@ -167,6 +192,22 @@ export class UTXOManager implements IUTXOManager {
     return total;
   }
 
+  // Commitments
+  /**
+   * Root of the sorted merkle tree over the set, as committed to in block
+   * headers. The tree is updated as outputs are added and removed.
+   */
+  getUTXORoot(): string {
+    return this.commitment.getRoot();
+  }
+
+  generateUTXOProof(
+    txId: string,
+    outputIndex: number
+  ): UTXOExistenceProof | null {
+    return this.commitment.generateProof(txId, outputIndex);
+  }
+
   // UTXO Selection Algorithm (Simple Greedy)
   selectUTXOs(
     availableUTXOs: UTXO[],
@@ -213,17 +254,10 @@ export class UTXOManager implements IUTXOManager {
   private extractAddressFromLockingScript(
     lockingScript: string
   ): string | null {
-    // For now, we'll assume the locking script IS the address
-    // In a full implementation, this would parse the actual script
+    // Owner address for p2pkh/timelocked outputs (including bare addresses),
+    // script address for multisig and nonstandard scripts
     try {
-      if (CryptographicService.validateAddress(lockingScript)) {
-        return lockingScript;
-      }
-      // For testing purposes, accept simple address strings
-      if (lockingScript && lockingScript.length > 0) {
-        return lockingScript;
-      }
-      return null;
+      return ScriptInterpreter.extractAddress(lockingScript);
     } catch {
       return null;
     }
@@ -242,3 +276,100 @@ export class UTXOManager implements IUTXOManager {
     return snapshot;
   }
 }
+
+/**
+ * Read-only view of a UTXO set with a block's pending updates applied, so
+ * each transaction in the block is validated against the outputs left by
+ * the transactions before it. Outputs both created and spent within the
+ * block are expected to have been dropped from the additions.
+ */
+export class BlockUTXOView implements IUTXOManager {
+  constructor(
+    private base: UTXOManager,
+    private additions: UTXO[],
+    private removals: Array<{ txId: string; outputIndex: number }>
+  ) {}
+
+  addUTXO(): void {
+    throw new Error('Block UTXO view is read-only');
+  }
+
+  removeUTXO(): boolean {
+    throw new Error('Block UTXO view is read-only');
+  }
+
+  applyUTXOUpdates(): void {
+    throw new Error('Block UTXO view is read-only');
+  }
+
+  getUTXO(txId: string, outputIndex: number): UTXO | null {
+    if (this.isRemoved(txId, outputIndex)) {
+      return null;
+    }
+    return (
+      this.additions.find(
+        utxo => utxo.txId === txId && utxo.outputIndex === outputIndex
+      ) ?? this.base.getUTXO(txId, outputIndex)
+    );
+  }
+
+  getUTXOsForAddress(address: string): UTXO[] {
+    const owns = (utxo: UTXO): boolean => {
+      try {
+        return ScriptInterpreter.extractAddress(utxo.lockingScript) === address;
+      } catch {
+        return false;
+      }
+    };
+    return [
+      ...this.base
+        .getUTXOsForAddress(address)
+        .filter(utxo => !this.isRemoved(utxo.txId, utxo.outputIndex)),
+      ...this.additions.filter(owns),
+    ].sort((a, b) => b.value - a.value);
+  }
+
+  calculateBalance(address: string): number {
+    return this.getUTXOsForAddress(address).reduce(
+      (total, utxo) => total + utxo.value,
+      0
+    );
+  }
+
+  getSpendableUTXOs(address: string, amount: number): UTXO[] {
+    return this.base.selectUTXOs(this.getUTXOsForAddress(address), amount)
+      .selectedUTXOs;
+  }
+
+  validateUTXOExists(txId: string, outputIndex: number): boolean {
+    const utxo = this.getUTXO(txId, outputIndex);
+    return utxo !== null && !utxo.isSpent;
+  }
+
+  validateUTXOOwnership(utxo: UTXO, publicKey: string): boolean {
+    return this.base.validateUTXOOwnership(utxo, publicKey);
+  }
+
+  getUTXOSetSize(): number {
+    return (
+      this.base.getUTXOSetSize() + this.additions.length - this.removals.length
+    );
+  }
+
+  getTotalValue(): number {
+    return this.removals.reduce(
+      (total, { txId, outputIndex }) =>
+        total - (this.base.getUTXO(txId, outputIndex)?.value ?? 0),
+      this.additions.reduce(
+        (total, utxo) => total + utxo.value,
+        this.base.getTotalValue()
+      )
+    );
+  }
+
+  private isRemoved(txId: string, outputIndex: number): boolean {
+    return this.removals.some(
+      removal => removal.txId === txId && removal.outputIndex === outputIndex
+    );
+  }
+}
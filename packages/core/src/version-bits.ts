@@ -0,0 +1,235 @@
+import type {
+  Block,
+  DeploymentState,
+  DeploymentStatus,
+  GenesisConfig,
+  SoftForkDeployment,
+} from './types.js';
+
+// Top three version bits are 001 in blocks that signal through version bits
+export const VERSIONBITS_TOP_BITS = 0x20000000;
+export const VERSIONBITS_TOP_MASK = 0xe0000000;
+// Bits below the top three that deployments may signal on
+export const VERSIONBITS_NUM_BITS = 29;
+
+// Deployment from which every block must commit to the UTXO set it leaves
+export const UTXO_COMMITMENT_DEPLOYMENT = 'utxo-commitment';
+
+type VersionedChain = ReadonlyArray<Pick<Block, 'hash' | 'version'>>;
+
+interface StateEntry {
+  state: DeploymentState;
+  since: number;
+}
+
+/**
+ * BIP9-style soft fork deployments signalled through block version bits.
+ *
+ * The chain is split into fixed windows of each deployment's period, and a
+ * deployment's state only changes at window boundaries:
+ *
+ *   defined   -> started   once a window begins at or after startHeight
+ *   started   -> locked_in when at least threshold blocks of the previous
+ *                          window signal the deployment's bit
+ *   started   -> failed    when a window begins at or after timeoutHeight
+ *                          without the previous window locking it in
+ *   locked_in -> active    one window later, giving lagging nodes a full
+ *                          window to upgrade before the new rules apply
+ *
+ * Active and failed are final. States are cached by the hash of the block
+ * closing each window, so every fork keeps its own history.
+ */
+export class SoftForkDeployments {
+  private deployments: SoftForkDeployment[];
+  private stateCache: Map<string, Map<string, StateEntry>> = new Map();
+
+  constructor(deployments: SoftForkDeployment[] = []) {
+    this.deployments = deployments.map(deployment => ({ ...deployment }));
+    for (const deployment of this.deployments) {
+      this.stateCache.set(deployment.name, new Map());
+    }
+  }
+
+  static fromGenesisConfig(config: GenesisConfig): SoftForkDeployments {
+    return new SoftForkDeployments(config.networkParams.deployments ?? []);
+  }
+
+  /**
+   * Whether a block version signals for the given bit
+   */
+  static signals(version: number | undefined, bit: number): boolean {
+    return (
+      version !== undefined &&
+      (version & VERSIONBITS_TOP_MASK) >>> 0 === VERSIONBITS_TOP_BITS &&
+      ((version >>> bit) & 1) === 1
+    );
+  }
+
+  getDeployments(): SoftForkDeployment[] {
+    return this.deployments.map(deployment => ({ ...deployment }));
+  }
+
+  /**
+   * State of a deployment for the block at a height
+   * @param chain - main chain blocks by height, up to at least height - 1
+   * @throws if the deployment is unknown
+   */
+  getState(
+    name: string,
+    chain: VersionedChain,
+    height: number = chain.length
+  ): DeploymentState {
+    return this.getStateEntry(this.getDeployment(name), chain, height).state;
+  }
+
+  /**
+   * Whether a deployment's rules apply to the block at a height. Unknown
+   * deployments are never active.
+   */
+  isActive(
+    name: string,
+    chain: VersionedChain,
+    height: number = chain.length
+  ): boolean {
+    const deployment = this.deployments.find(d => d.name === name);
+    return (
+      deployment !== undefined &&
+      this.getStateEntry(deployment, chain, height).state === 'active'
+    );
+  }
+
+  /**
+   * Version for a new block at a height: the version bits prefix plus the
+   * bit of every deployment that is started or locked in
+   */
+  computeBlockVersion(
+    chain: VersionedChain,
+    height: number = chain.length
+  ): number {
+    let version = VERSIONBITS_TOP_BITS;
+    for (const deployment of this.deployments) {
+      const { state } = this.getStateEntry(deployment, chain, height);
+      if (state === 'started' || state === 'locked_in') {
+        version |= 1 << deployment.bit;
+      }
+    }
+    return version;
+  }
+
+  /**
+   * Every deployment's state for the next block, with signalling progress
+   * in the current window
+   */
+  getStatus(chain: VersionedChain): DeploymentStatus[] {
+    const height = chain.length;
+    return this.deployments.map(deployment => {
+      const { state, since } = this.getStateEntry(deployment, chain, height);
+      const windowStart = height - (height % deployment.period);
+      return {
+        name: deployment.name,
+        bit: deployment.bit,
+        state,
+        since,
+        period: deployment.period,
+        threshold: deployment.threshold,
+        elapsed: height - windowStart,
+        count: this.countSignals(deployment, chain, windowStart, height),
+      };
+    });
+  }
+
+  private getDeployment(name: string): SoftForkDeployment {
+    const deployment = this.deployments.find(d => d.name === name);
+    if (!deployment) {
+      throw new Error(`Unknown soft fork deployment ${name}`);
+    }
+    return deployment;
+  }
+
+  /**
+   * Walk back to the last cached window boundary, then replay the state
+   * transitions forward to the window containing the height
+   */
+  private getStateEntry(
+    deployment: SoftForkDeployment,
+    chain: VersionedChain,
+    height: number
+  ): StateEntry {
+    if (height > chain.length) {
+      throw new Error(
+        `Cannot determine deployment state at height ${height} from ${chain.length} blocks`
+      );
+    }
+
+    const cache = this.stateCache.get(deployment.name)!;
+    const boundaries: number[] = [];
+    let entry: StateEntry = { state: 'defined', since: 0 };
+    for (
+      let boundary = height - (height % deployment.period);
+      boundary > 0;
+      boundary -= deployment.period
+    ) {
+      const cached = cache.get(chain[boundary - 1].hash);
+      if (cached) {
+        entry = cached;
+        break;
+      }
+      boundaries.push(boundary);
+    }
+
+    for (const boundary of boundaries.reverse()) {
+      const state = this.getNextState(deployment, entry.state, boundary, chain);
+      if (state !== entry.state) {
+        entry = { state, since: boundary };
+      }
+      cache.set(chain[boundary - 1].hash, entry);
+    }
+    return entry;
+  }
+
+  private getNextState(
+    deployment: SoftForkDeployment,
+    state: DeploymentState,
+    boundary: number,
+    chain: VersionedChain
+  ): DeploymentState {
+    switch (state) {
+      case 'defined':
+        if (boundary >= deployment.timeoutHeight) {
+          return 'failed';
+        }
+        return boundary >= deployment.startHeight ? 'started' : 'defined';
+      case 'started':
+        if (
+          this.countSignals(
+            deployment,
+            chain,
+            boundary - deployment.period,
+            boundary
+          ) >= deployment.threshold
+        ) {
+          return 'locked_in';
+        }
+        return boundary >= deployment.timeoutHeight ? 'failed' : 'started';
+      case 'locked_in':
+        return 'active';
+      default:
+        return state;
+    }
+  }
+
+  private countSignals(
+    deployment: SoftForkDeployment,
+    chain: VersionedChain,
+    from: number,
+    to: number
+  ): number {
+    let count = 0;
+    for (let height = from; height < to; height++) {
+      if (SoftForkDeployments.signals(chain[height].version, deployment.bit)) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
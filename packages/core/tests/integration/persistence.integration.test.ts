@@ -52,7 +52,7 @@ const createTestGenesisConfig = (chainId: string): GenesisConfig => ({
     adjustmentPeriod: 10,
     maxDifficultyRatio: 4,
     maxBlockSize: 1024 * 1024,
-    miningReward: 10,
+    miningReward: 1000,
     halvingInterval: 210000,
   },
   metadata: {
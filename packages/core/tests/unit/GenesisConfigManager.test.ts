@@ -145,6 +145,174 @@ describe('GenesisConfigManager', () => {
         'Max block size must be between 1KB and 32MB'
       );
     });
+
+    it('should reject an invalid reward schedule', () => {
+      const config = createValidTestConfig();
+      config.networkParams.halvingInterval = 1.5;
+      config.networkParams.tailEmission = config.networkParams.miningReward + 1;
+
+      const validation = GenesisConfigManager.validateConfig(config);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Halving interval must be a non-negative integer'
+      );
+      expect(validation.errors).toContain(
+        'Tail emission must be between 0 and the mining reward'
+      );
+    });
+
+    it('should reject an invalid coinbase maturity', () => {
+      const config = createValidTestConfig();
+      config.networkParams.coinbaseMaturity = -1;
+
+      const validation = GenesisConfigManager.validateConfig(config);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Coinbase maturity must be a non-negative integer'
+      );
+    });
+
+    it('should accept LWMA difficulty and reject invalid difficulty settings', () => {
+      const config = createValidTestConfig();
+      config.networkParams.difficultyAlgorithm = 'lwma';
+      config.networkParams.difficultyWindow = 30;
+      expect(GenesisConfigManager.validateConfig(config).isValid).toBe(true);
+
+      config.networkParams.difficultyAlgorithm =
+        'asert' as NetworkParameters['difficultyAlgorithm'];
+      config.networkParams.difficultyWindow = 1;
+      const validation = GenesisConfigManager.validateConfig(config);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('Unknown difficulty algorithm asert');
+      expect(validation.errors).toContain(
+        'Difficulty window must be an integer of at least 2 blocks'
+      );
+    });
+
+    it('should accept valid checkpoints and an assume-valid block', () => {
+      const config = createValidTestConfig();
+      config.networkParams.checkpoints = [
+        { height: 1000, hash: 'a'.repeat(64) },
+        { height: 2000, hash: 'b'.repeat(64) },
+      ];
+      config.networkParams.assumeValid = { height: 2000, hash: 'b'.repeat(64) };
+
+      expect(GenesisConfigManager.validateConfig(config).isValid).toBe(true);
+    });
+
+    it('should reject invalid checkpoints', () => {
+      const config = createValidTestConfig();
+      config.networkParams.checkpoints = [
+        { height: 0, hash: 'a'.repeat(64) },
+        { height: 1000, hash: 'not-a-hash' },
+        { height: 1000, hash: 'c'.repeat(64) },
+      ];
+      config.networkParams.assumeValid = { height: 1000, hash: 'b'.repeat(64) };
+
+      const validation = GenesisConfigManager.validateConfig(config);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Checkpoint 0: height must be a positive integer'
+      );
+      expect(validation.errors).toContain(
+        'Checkpoint 1: hash must be a 64-character hex block hash'
+      );
+      expect(validation.errors).toContain('Duplicate checkpoint heights found');
+      expect(validation.errors).toContain(
+        'Assume-valid block conflicts with checkpoint at height 1000'
+      );
+    });
+
+    it('should reject an invalid assume-valid block', () => {
+      const config = createValidTestConfig();
+      config.networkParams.assumeValid = { height: 1.5, hash: 'A'.repeat(64) };
+
+      const validation = GenesisConfigManager.validateConfig(config);
+
+      expect(validation.errors).toContain(
+        'Assume-valid block: height must be a positive integer'
+      );
+      expect(validation.errors).toContain(
+        'Assume-valid block: hash must be a 64-character hex block hash'
+      );
+    });
+
+    it('should reject invalid assume-UTXO snapshot hashes', () => {
+      const config = createValidTestConfig();
+      config.networkParams.assumeUTXO = [
+        { height: 500, hash: 'a'.repeat(64) },
+        { height: 500, hash: 'snapshot' },
+      ];
+
+      const validation = GenesisConfigManager.validateConfig(config);
+
+      expect(validation.errors).toEqual([
+        'Assume-UTXO snapshot 1: hash must be a 64-character hex snapshot hash',
+        'Duplicate assume-UTXO snapshot heights found',
+      ]);
+    });
+
+    it('should reject invalid and conflicting soft fork deployments', () => {
+      const config = createValidTestConfig();
+      const deployment = {
+        name: 'segregated-witness',
+        bit: 1,
+        startHeight: 100,
+        timeoutHeight: 1000,
+        period: 100,
+        threshold: 75,
+      };
+      config.networkParams.deployments = [
+        deployment,
+        { ...deployment, name: 'taproot', startHeight: 900 },
+        { ...deployment, bit: 29, timeoutHeight: 50, threshold: 101 },
+      ];
+
+      expect(GenesisConfigManager.validateConfig(config).errors).toEqual([
+        'Deployment 2: bit must be an integer from 0 to 28',
+        'Deployment 2: timeout height must be an integer above the start height',
+        'Deployment 2: threshold must be an integer from 1 to the period',
+        'Duplicate deployment names found',
+        'Deployments segregated-witness and taproot signal on bit 1 at the same time',
+      ]);
+    });
+
+    it('should reject proof-of-authority consensus without valid signers', () => {
+      const config = createValidTestConfig();
+      config.consensus = { engine: 'poa', signers: [] };
+
+      expect(GenesisConfigManager.validateConfig(config).errors).toContain(
+        'Proof-of-authority consensus requires at least one signer'
+      );
+
+      config.consensus.signers = ['not-an-address', 'not-an-address'];
+      const validation = GenesisConfigManager.validateConfig(config);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Signer 0: Invalid address not-an-address'
+      );
+      expect(validation.errors).toContain('Duplicate signer addresses found');
+    });
+
+    it('should commit to the initial signers in the genesis block', () => {
+      const keyPair = CryptographicService.generateKeyPair('secp256k1');
+      const signer = CryptographicService.generateAddress(
+        keyPair.publicKey,
+        'secp256k1'
+      );
+      const config = createValidTestConfig();
+      config.consensus = { engine: 'poa', signers: [signer] };
+
+      expect(GenesisConfigManager.validateConfig(config).isValid).toBe(true);
+      expect(GenesisConfigManager.createGenesisBlock(config).validator).toBe(
+        signer
+      );
+    });
   });
 
   describe('Initial Allocations Validation', () => {
@@ -204,7 +372,23 @@ describe('GenesisConfigManager', () => {
 
       expect(validation.isValid).toBe(false);
       expect(validation.errors).toContain(
-        'Allocation 0: Amount must be a positive finite number'
+        'Allocation 0: Amount must be a positive integer of base units'
+      );
+    });
+
+    it('should reject allocation amounts that are not whole base units', () => {
+      const allocations: InitialAllocation[] = [
+        {
+          address: 'lora1test000000000000000000000000000000000',
+          amount: 100.5,
+        },
+      ];
+
+      const validation = GenesisConfigManager.validateAllocations(allocations);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Allocation 0: Amount must be a positive integer of base units'
       );
     });
 
@@ -309,8 +493,10 @@ describe('GenesisConfigManager', () => {
         },
       ];
 
-      const transactions =
-        GenesisConfigManager.createGenesisUTXOTransactions(allocations);
+      const transactions = GenesisConfigManager.createGenesisUTXOTransactions(
+        allocations,
+        1700000000000
+      );
 
       expect(transactions).toHaveLength(2);
       expect(transactions[0].inputs).toHaveLength(0); // Genesis transactions have no inputs
@@ -393,8 +579,10 @@ describe('GenesisConfigManager', () => {
         },
       ];
 
-      const utxos =
-        await genesisConfigManager.createAndStoreInitialUTXOSet(allocations);
+      const utxos = await genesisConfigManager.createAndStoreInitialUTXOSet(
+        allocations,
+        1700000000000
+      );
 
       expect(utxos).toHaveLength(2);
       expect(utxos[0].value).toBe(1000);
@@ -91,13 +91,13 @@ describe('MerkleTree', () => {
     });
 
     it('should build tree for odd number of transactions', () => {
-      const threeTransactions = [
-        ...mockUTXOTransactions,
-        {
-          ...mockUTXOTransaction,
-          id: 'third-transaction',
-        },
-      ];
+      const thirdTransaction = {
+        ...mockUTXOTransaction,
+        timestamp: mockUTXOTransaction.timestamp + 1,
+      };
+      thirdTransaction.id =
+        UTXOTransactionManager.calculateTransactionId(thirdTransaction);
+      const threeTransactions = [...mockUTXOTransactions, thirdTransaction];
 
       const tree = MerkleTree.buildTree(threeTransactions);
 
@@ -330,7 +330,6 @@ describe('MerkleTree', () => {
           `private-key-${i}`,
           [mockUTXO]
         );
-        tx.id = `tx-${i}`; // Override ID for predictability
         largeTransactionSet.push(tx);
       }
 
@@ -365,12 +364,11 @@ describe('MerkleTree', () => {
           `private-key-${i}`,
           [mockUTXO]
         );
-        tx.id = `tx-${i}`;
         largeTransactionSet.push(tx);
       }
 
       // Test proof generation and verification for middle transaction
-      const targetTxId = 'tx-25';
+      const targetTxId = largeTransactionSet[25].id;
       const proof = MerkleTree.generateProof(largeTransactionSet, targetTxId);
 
       expect(proof).not.toBeNull();
@@ -390,15 +388,22 @@ describe('MerkleTree', () => {
       expect(proof).toBeNull();
     });
 
-    it('should handle transaction with same hash collision (theoretical)', () => {
-      // Create two transactions that would theoretically have the same hash
-      const tx1 = { ...mockUTXOTransaction, id: 'tx-1' };
-      const tx2 = { ...mockUTXOTransaction, id: 'tx-2' };
+    it('should reject transactions whose ID does not match their contents', () => {
+      const relabeled = { ...mockUTXOTransaction, id: 'tx-1' };
+      const altered = {
+        ...mockUTXOTransaction,
+        lockTime: mockUTXOTransaction.lockTime + 1,
+      };
 
-      const transactions = [tx1, tx2];
-      const root = MerkleTree.calculateRoot(transactions);
-
-      expect(root).toHaveLength(64);
+      expect(() => MerkleTree.calculateRoot([relabeled])).toThrow(
+        'Transaction ID tx-1 does not match transaction contents'
+      );
+      expect(() => MerkleTree.buildTree([altered])).toThrow(
+        `Transaction ID ${altered.id} does not match transaction contents`
+      );
+      expect(() =>
+        MerkleTree.generateProof([mockUTXOTransaction, altered], altered.id)
+      ).toThrow();
     });
   });
 });
@@ -265,7 +265,7 @@ describe('SPVManager', () => {
 
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain(
-        'Block timestamp must be greater than previous block'
+        'Block timestamp must be greater than median time past'
       );
     });
 
@@ -0,0 +1,388 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  UTXOCommitment,
+  UTXOCommitmentTree,
+} from '../../src/merkle/UTXOCommitment.js';
+import { SPVManager } from '../../src/merkle/SPVManager.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import { UTXO_COMMITMENT_DEPLOYMENT } from '../../src/version-bits.js';
+import type {
+  Block,
+  GenesisConfig,
+  UTXO,
+  UTXOPersistenceConfig,
+} from '../../src/types.js';
+
+const createUTXO = (txId: string, outputIndex: number, value = 100): UTXO => ({
+  txId,
+  outputIndex,
+  value,
+  lockingScript: 'owner-address',
+  blockHeight: 1,
+  isSpent: false,
+  isCoinbase: false,
+});
+
+describe('UTXOCommitment', () => {
+  const utxos = [
+    createUTXO('cc'.repeat(32), 0),
+    createUTXO('aa'.repeat(32), 1),
+    createUTXO('aa'.repeat(32), 0),
+    createUTXO('bb'.repeat(32), 2, 250),
+    createUTXO('aa'.repeat(32), 10),
+  ];
+
+  it('should depend on the set contents, not their order', () => {
+    expect(UTXOCommitment.calculateRoot([...utxos].reverse())).toBe(
+      UTXOCommitment.calculateRoot(utxos)
+    );
+  });
+
+  it('should change when an output is added, removed or altered', () => {
+    const root = UTXOCommitment.calculateRoot(utxos);
+
+    expect(
+      UTXOCommitment.calculateRoot([...utxos, createUTXO('dd'.repeat(32), 0)])
+    ).not.toBe(root);
+    expect(UTXOCommitment.calculateRoot(utxos.slice(1))).not.toBe(root);
+    expect(
+      UTXOCommitment.calculateRoot([
+        { ...utxos[0], value: utxos[0].value + 1 },
+        ...utxos.slice(1),
+      ])
+    ).not.toBe(root);
+  });
+
+  it('should commit to the empty set with the hash of no data', () => {
+    expect(UTXOCommitment.calculateRoot([])).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+
+  it('should prove every output in the set', () => {
+    const root = UTXOCommitment.calculateRoot(utxos);
+
+    for (const utxo of utxos) {
+      const proof = UTXOCommitment.generateProof(
+        utxos,
+        utxo.txId,
+        utxo.outputIndex
+      )!;
+
+      expect(proof.utxo).toEqual(utxo);
+      expect(proof.utxoRoot).toBe(root);
+      expect(UTXOCommitment.verifyProof(proof, root)).toBe(true);
+    }
+  });
+
+  it('should order leaves by transaction ID, then numeric output index', () => {
+    const proof = UTXOCommitment.generateProof(utxos, 'aa'.repeat(32), 10)!;
+
+    expect(proof.leafIndex).toBe(2);
+  });
+
+  it('should not prove outputs missing from the set', () => {
+    expect(UTXOCommitment.generateProof(utxos, 'aa'.repeat(32), 2)).toBeNull();
+  });
+
+  it('should reject proofs for altered outputs or other roots', () => {
+    const root = UTXOCommitment.calculateRoot(utxos);
+    const proof = UTXOCommitment.generateProof(utxos, 'bb'.repeat(32), 2)!;
+
+    expect(
+      UTXOCommitment.verifyProof(
+        { ...proof, utxo: { ...proof.utxo, lockingScript: 'thief' } },
+        root
+      )
+    ).toBe(false);
+    expect(
+      UTXOCommitment.verifyProof(
+        proof,
+        UTXOCommitment.calculateRoot(utxos.slice(1))
+      )
+    ).toBe(false);
+  });
+});
+
+describe('UTXOCommitmentTree', () => {
+  it('should match a rebuilt root as outputs are added and removed', () => {
+    const tree = new UTXOCommitmentTree();
+    const set = new Map<string, UTXO>();
+    const check = (): void => {
+      const expected = UTXOCommitment.calculateRoot(set.values());
+      expect(tree.getRoot()).toBe(expected);
+      for (const utxo of set.values()) {
+        const proof = tree.generateProof(utxo.txId, utxo.outputIndex)!;
+        expect(UTXOCommitment.verifyProof(proof, expected)).toBe(true);
+      }
+    };
+
+    check();
+    for (let i = 0; i < 40; i++) {
+      const utxo = createUTXO(((i * 7) % 16).toString(16).repeat(64), i % 3);
+      tree.insert(utxo);
+      set.set(`${utxo.txId}:${utxo.outputIndex}`, utxo);
+      if (i % 5 === 0) {
+        check();
+      }
+    }
+    check();
+
+    // Replacing an output changes its leaf in place
+    const [first] = set.values();
+    const altered = { ...first, value: first.value + 1 };
+    tree.insert(altered);
+    set.set(`${first.txId}:${first.outputIndex}`, altered);
+    check();
+
+    for (const [key, utxo] of [...set].filter((_, i) => i % 2 === 0)) {
+      expect(tree.remove(utxo.txId, utxo.outputIndex)).toBe(true);
+      set.delete(key);
+      check();
+    }
+    expect(tree.remove('ab'.repeat(32), 0)).toBe(false);
+    expect(tree.generateProof('ab'.repeat(32), 0)).toBeNull();
+
+    for (const utxo of [...set.values()]) {
+      tree.remove(utxo.txId, utxo.outputIndex);
+    }
+    set.clear();
+    check();
+  });
+});
+
+describe('Blockchain UTXO commitments', () => {
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const testGenesisConfig: GenesisConfig = {
+    chainId: 'utxo-commitment-test-v1',
+    networkName: 'UTXO Commitment Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'funded-address',
+        amount: 1000000,
+        description: 'UTXO commitment test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 10,
+      halvingInterval: 210000,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'UTXO Commitment Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'testnet',
+    },
+  };
+
+  const chains: Blockchain[] = [];
+
+  const createBlockchain = async (): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      ),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      testGenesisConfig
+    );
+    await blockchain.waitForInitialization();
+    chains.push(blockchain);
+    return blockchain;
+  };
+
+  afterEach(async () => {
+    for (const blockchain of chains.splice(0)) {
+      await blockchain.close();
+    }
+  });
+
+  it('should commit mined blocks to the UTXO set they leave behind', async () => {
+    const blockchain = await createBlockchain();
+
+    const block = blockchain.minePendingUTXOTransactions('miner-a')!;
+
+    expect(block.utxoRoot).toBe(blockchain.getUTXOManager().getUTXORoot());
+    expect(BlockManager.createBlockHeader(block).utxoRoot).toBe(block.utxoRoot);
+  });
+
+  it('should accept blocks whose UTXO root matches', async () => {
+    const source = await createBlockchain();
+    const follower = await createBlockchain();
+    const block = source.minePendingUTXOTransactions('miner-a')!;
+
+    expect(await follower.addBlock(block)).toEqual({
+      isValid: true,
+      errors: [],
+    });
+    expect(follower.getUTXOManager().getUTXORoot()).toBe(block.utxoRoot);
+  });
+
+  it('should reject blocks committing to a different UTXO set', async () => {
+    const source = await createBlockchain();
+    const follower = await createBlockchain();
+    const rootBefore = follower.getUTXOManager().getUTXORoot();
+    const mined = source.minePendingUTXOTransactions('miner-a')!;
+    const unmined: Block = { ...mined, utxoRoot: 'ff'.repeat(32) };
+    unmined.hash = BlockManager.calculateHash(unmined);
+    const forged = BlockManager.mineBlock(unmined);
+
+    const result = await follower.addBlock(forged);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      `Block 1 UTXO root ${'ff'.repeat(32)} does not match the resulting UTXO set root ${mined.utxoRoot}`,
+    ]);
+    expect(follower.getLatestBlock().index).toBe(0);
+    expect(follower.getUTXOManager().getUTXORoot()).toBe(rootBefore);
+  });
+
+  it('should require a UTXO root once its deployment is active', async () => {
+    const deploymentConfig: GenesisConfig = {
+      ...testGenesisConfig,
+      networkParams: {
+        ...testGenesisConfig.networkParams,
+        deployments: [
+          {
+            name: UTXO_COMMITMENT_DEPLOYMENT,
+            bit: 1,
+            startHeight: 0,
+            timeoutHeight: 100,
+            period: 2,
+            threshold: 1,
+          },
+        ],
+      },
+    };
+    const createDeploymentChain = async (): Promise<Blockchain> => {
+      const blockchain = new Blockchain(
+        new UTXOPersistenceManager(
+          DatabaseFactory.create(testConfig),
+          testConfig
+        ),
+        new UTXOManager(),
+        { targetBlockTime: 180 },
+        deploymentConfig
+      );
+      await blockchain.waitForInitialization();
+      chains.push(blockchain);
+      return blockchain;
+    };
+    const source = await createDeploymentChain();
+    const follower = await createDeploymentChain();
+    let time = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => time);
+    const mine = (): Block => {
+      time += 1000;
+      return source.minePendingUTXOTransactions('miner-a')!;
+    };
+
+    try {
+      // Without a root before activation, a block is still accepted
+      const early = mine();
+      const unrooted: Block = { ...early, utxoRoot: undefined };
+      unrooted.hash = BlockManager.calculateHash(unrooted);
+      expect(await follower.addBlock(BlockManager.mineBlock(unrooted))).toEqual(
+        { isValid: true, errors: [] }
+      );
+
+      const synced = await createDeploymentChain();
+      expect(await synced.addBlock(early)).toEqual({
+        isValid: true,
+        errors: [],
+      });
+      while (!source.isDeploymentActive(UTXO_COMMITMENT_DEPLOYMENT)) {
+        expect(await synced.addBlock(mine())).toEqual({
+          isValid: true,
+          errors: [],
+        });
+      }
+
+      const block = mine();
+      const missing: Block = { ...block, utxoRoot: undefined };
+      missing.hash = BlockManager.calculateHash(missing);
+      const result = await synced.addBlock(BlockManager.mineBlock(missing));
+
+      expect(result).toEqual({
+        isValid: false,
+        errors: [`Block ${block.index} is missing its UTXO root`],
+      });
+      expect(await synced.addBlock(block)).toEqual({
+        isValid: true,
+        errors: [],
+      });
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('should let light clients verify outputs against the tip header', async () => {
+    const blockchain = await createBlockchain();
+    const block = blockchain.minePendingUTXOTransactions('miner-a')!;
+    const header = BlockManager.createBlockHeader(block);
+    const coinbaseId = block.transactions[0].id;
+
+    const proof = blockchain.getUTXOProof(coinbaseId, 0)!;
+
+    expect(proof.utxo.lockingScript).toBe('miner-a');
+    expect(SPVManager.verifyUTXOExistence(proof, header)).toEqual({
+      isValid: true,
+      errors: [],
+    });
+    expect(
+      SPVManager.verifyUTXOExistence(
+        { ...proof, utxo: { ...proof.utxo, value: proof.utxo.value * 2 } },
+        header
+      ).errors
+    ).toEqual(['UTXO proof verification failed']);
+    expect(blockchain.getUTXOProof(coinbaseId, 1)).toBeNull();
+  });
+
+  it('should not prove outputs while the tip has no UTXO root', async () => {
+    const blockchain = await createBlockchain();
+    const [allocation] = blockchain
+      .getUTXOManager()
+      .getUTXOSetSnapshot()
+      .values();
+    const genesisHeader = BlockManager.createBlockHeader(
+      blockchain.getLatestBlock()
+    );
+
+    expect(
+      blockchain.getUTXOProof(allocation.txId, allocation.outputIndex)
+    ).toBeNull();
+    expect(
+      SPVManager.verifyUTXOExistence(
+        UTXOCommitment.generateProof(
+          [allocation],
+          allocation.txId,
+          allocation.outputIndex
+        )!,
+        genesisHeader
+      ).errors
+    ).toEqual(['Block header does not commit to a UTXO set']);
+  });
+});
@@ -0,0 +1,376 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import {
+  BlockBundleFile,
+  MAX_BLOCK_BUNDLE_SIZE,
+} from '../../src/block-bundle.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BinaryCodec } from '../../src/codec.js';
+import { CryptographicService } from '../../src/cryptographic.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import type {
+  BlockBundle,
+  GenesisConfig,
+  UTXOPersistenceConfig,
+} from '../../src/types.js';
+
+const testConfig: UTXOPersistenceConfig = {
+  enabled: true,
+  dbPath: ':memory:',
+  dbType: 'memory',
+  autoSave: true,
+  batchSize: 100,
+  compressionType: 'none',
+  utxoSetCacheSize: 1000,
+  cryptographicAlgorithm: 'secp256k1',
+  compactionStyle: 'size',
+};
+
+const signerKeyPair = CryptographicService.generateKeyPair('secp256k1');
+const signerAddress = CryptographicService.generateAddress(
+  signerKeyPair.publicKey,
+  'secp256k1'
+);
+const fundedKeyPair = CryptographicService.generateKeyPair('secp256k1');
+const fundedAddress = CryptographicService.generateAddress(
+  fundedKeyPair.publicKey,
+  'secp256k1'
+);
+const recipient = 'lora1recipient0000000000000000000000000';
+
+const createGenesisConfig = (
+  chainId = 'block-bundle-test-v1'
+): GenesisConfig => ({
+  chainId,
+  networkName: 'Block Bundle Test Network',
+  version: '1.0.0',
+  initialAllocations: [
+    {
+      address: fundedAddress,
+      amount: 1000000,
+      description: 'Block bundle test allocation',
+    },
+  ],
+  totalSupply: 21000000,
+  networkParams: {
+    initialDifficulty: 1,
+    targetBlockTime: 180,
+    adjustmentPeriod: 10,
+    maxDifficultyRatio: 4,
+    maxBlockSize: 1024 * 1024,
+    miningReward: 10,
+    halvingInterval: 210000,
+  },
+  metadata: {
+    timestamp: 1700000000000,
+    description: 'Block Bundle Test Genesis Block',
+    creator: 'Test Suite',
+    networkType: 'testnet',
+  },
+});
+
+describe('BlockBundleFile', () => {
+  const bundle: BlockBundle = {
+    chainId: 'block-bundle-test-v1',
+    fromHeight: 1,
+    toHeight: 1,
+    createdAt: 1700000180000,
+    blocks: [
+      {
+        index: 1,
+        timestamp: 1700000180000,
+        transactions: [
+          {
+            id: 'aa'.repeat(32),
+            from: 'network',
+            to: 'miner-a',
+            amount: 10,
+            fee: 0,
+            timestamp: 1700000180000,
+            signature: 'utxo-signed',
+            nonce: 0,
+          },
+        ],
+        previousHash: 'bb'.repeat(32),
+        hash: 'cc'.repeat(32),
+        nonce: 3,
+        merkleRoot: 'dd'.repeat(32),
+        difficulty: 1,
+        utxoRoot: 'ee'.repeat(32),
+      },
+    ],
+    utxoTransactions: [
+      {
+        id: 'aa'.repeat(32),
+        inputs: [],
+        outputs: [{ value: 10, lockingScript: 'miner-a', outputIndex: 0 }],
+        lockTime: 0,
+        timestamp: 1700000180000,
+        fee: 0,
+      },
+    ],
+    pendingTransactions: [],
+  };
+
+  it('should round-trip a bundle and identify its signer', () => {
+    const data = BlockBundleFile.encode(bundle, signerKeyPair);
+
+    expect(BlockBundleFile.decode(data, [signerAddress])).toEqual({
+      bundle,
+      signer: signerAddress,
+    });
+  });
+
+  it('should compress the bundle encoding', () => {
+    const archive = BinaryCodec.decodeBlockBundleArchive(
+      BlockBundleFile.encode(bundle, signerKeyPair)
+    );
+
+    expect(archive.compression).toBe('gzip');
+    expect(archive.originalSize).toBe(
+      BinaryCodec.encodeBlockBundle(bundle).length
+    );
+    expect(archive.publicKey).toBe(bytesToHex(signerKeyPair.publicKey));
+  });
+
+  it('should reject archives whose payload was altered', () => {
+    const archive = BinaryCodec.decodeBlockBundleArchive(
+      BlockBundleFile.encode(bundle, signerKeyPair)
+    );
+    const payload = archive.payload.slice();
+    payload[payload.length - 1] ^= 0xff;
+
+    expect(() =>
+      BlockBundleFile.decode(
+        BinaryCodec.encodeBlockBundleArchive({ ...archive, payload }),
+        [signerAddress]
+      )
+    ).toThrow('Block bundle signature is invalid');
+  });
+
+  it('should reject untrusted signers before decompressing', () => {
+    const payload = new Uint8Array([1, 2, 3]);
+    const signature = CryptographicService.sign(
+      CryptographicService.hashMessage(payload),
+      signerKeyPair.privateKey,
+      signerKeyPair.algorithm
+    );
+    const data = BinaryCodec.encodeBlockBundleArchive({
+      compression: 'gzip',
+      originalSize: 3,
+      publicKey: bytesToHex(signerKeyPair.publicKey),
+      signature: bytesToHex(signature.signature),
+      payload,
+    });
+
+    expect(() => BlockBundleFile.decode(data, ['lora1someoneelse'])).toThrow(
+      `Block bundle signer ${signerAddress} is not trusted`
+    );
+    expect(() => BlockBundleFile.decode(data, [signerAddress])).toThrow(
+      'GZIP decompression failed'
+    );
+  });
+
+  it('should reject bundles too large to decompress', () => {
+    const archive = BinaryCodec.decodeBlockBundleArchive(
+      BlockBundleFile.encode(bundle, signerKeyPair)
+    );
+    const data = BinaryCodec.encodeBlockBundleArchive({
+      ...archive,
+      originalSize: MAX_BLOCK_BUNDLE_SIZE + 1,
+    });
+
+    expect(() => BlockBundleFile.decode(data, [signerAddress])).toThrow(
+      `Block bundle is ${MAX_BLOCK_BUNDLE_SIZE + 1} bytes uncompressed, over the ${MAX_BLOCK_BUNDLE_SIZE} byte limit`
+    );
+  });
+
+  it('should reject unknown compression algorithms', () => {
+    expect(() =>
+      BlockBundleFile.encode(bundle, signerKeyPair, 'brotli')
+    ).toThrow('Unsupported block bundle compression brotli');
+  });
+});
+
+describe('Blockchain block bundles', () => {
+  const chains: Blockchain[] = [];
+
+  const createBlockchain = async (
+    genesisConfig: GenesisConfig = createGenesisConfig()
+  ): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      ),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      genesisConfig
+    );
+    await blockchain.waitForInitialization();
+    chains.push(blockchain);
+    return blockchain;
+  };
+
+  const sendFunds = async (
+    blockchain: Blockchain,
+    amount: number
+  ): Promise<void> => {
+    const transaction = blockchain.createUTXOTransaction(
+      fundedAddress,
+      recipient,
+      amount,
+      bytesToHex(fundedKeyPair.privateKey)
+    );
+    expect((await blockchain.addTransaction(transaction)).isValid).toBe(true);
+  };
+
+  afterEach(async () => {
+    for (const blockchain of chains.splice(0)) {
+      await blockchain.close();
+    }
+  });
+
+  it('should bundle main chain blocks with their UTXO transactions', async () => {
+    const source = await createBlockchain();
+    await sendFunds(source, 100);
+    const blocks = [
+      source.minePendingUTXOTransactions('miner-a')!,
+      source.minePendingUTXOTransactions('miner-a')!,
+    ];
+    await sendFunds(source, 50);
+
+    const bundle = await source.createBlockBundle(1);
+
+    expect(bundle.blocks).toEqual(blocks);
+    expect(bundle.utxoTransactions.map(tx => tx.id)).toEqual(
+      blocks.flatMap(block => block.transactions.map(tx => tx.id))
+    );
+    expect(bundle.pendingTransactions).toEqual(
+      source.getPendingUTXOTransactions()
+    );
+    await expect(source.createBlockBundle(2, 3)).rejects.toThrow(
+      'Bundle range 2-3 is not on the main chain'
+    );
+  });
+
+  it('should import blocks and pending transactions into an offline chain', async () => {
+    const source = await createBlockchain();
+    await sendFunds(source, 100);
+    source.minePendingUTXOTransactions('miner-a');
+    source.minePendingUTXOTransactions('miner-a');
+    await sendFunds(source, 50);
+    const target = await createBlockchain();
+
+    const result = await target.importBlockBundle(
+      await source.exportBlockBundle(0, 2, signerKeyPair),
+      [signerAddress]
+    );
+
+    expect(result).toEqual({
+      isValid: true,
+      errors: [],
+      signer: signerAddress,
+      blocksAdded: 2,
+      blocksKnown: 1,
+      transactionsAdded: 1,
+    });
+    expect(target.getLatestBlock().hash).toBe(source.getLatestBlock().hash);
+    expect(target.getUTXOManager().getUTXORoot()).toBe(
+      source.getUTXOManager().getUTXORoot()
+    );
+    expect(target.getBalance(recipient)).toBe(100);
+    expect(target.getPendingUTXOTransactions()).toEqual(
+      source.getPendingUTXOTransactions()
+    );
+  });
+
+  it('should count blocks already known when a bundle is imported again', async () => {
+    const source = await createBlockchain();
+    source.minePendingUTXOTransactions('miner-a');
+    const data = await source.exportBlockBundle(1, 1, signerKeyPair);
+    const target = await createBlockchain();
+    await target.importBlockBundle(data, [signerAddress]);
+
+    expect(await target.importBlockBundle(data, [signerAddress])).toMatchObject(
+      {
+        isValid: true,
+        blocksAdded: 0,
+        blocksKnown: 1,
+      }
+    );
+  });
+
+  it('should reorganize onto a heavier bundled branch', async () => {
+    const source = await createBlockchain();
+    await sendFunds(source, 100);
+    source.minePendingUTXOTransactions('miner-a');
+    source.minePendingUTXOTransactions('miner-a');
+    const target = await createBlockchain();
+    target.minePendingUTXOTransactions('miner-b');
+
+    const result = await target.importBlockBundle(
+      await source.exportBlockBundle(1, 2, signerKeyPair),
+      [signerAddress]
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.blocksAdded).toBe(2);
+    expect(target.getLatestBlock().hash).toBe(source.getLatestBlock().hash);
+    expect(target.getBalance(recipient)).toBe(100);
+    expect(target.getBalance('miner-b')).toBe(0);
+  });
+
+  it('should stop at the first block that fails validation', async () => {
+    const source = await createBlockchain();
+    source.minePendingUTXOTransactions('miner-a');
+    source.minePendingUTXOTransactions('miner-a');
+    const bundle = await source.createBlockBundle(1);
+    const forged = { ...bundle.blocks[1], utxoRoot: 'ff'.repeat(32) };
+    const target = await createBlockchain();
+
+    const result = await target.importBlockBundle(
+      BlockBundleFile.encode(
+        { ...bundle, blocks: [bundle.blocks[0], forged] },
+        signerKeyPair
+      ),
+      [signerAddress]
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.blocksAdded).toBe(1);
+    expect(result.errors[0]).toMatch(/^Block 2 \([0-9a-f]{64}\): /);
+    expect(target.getLatestBlock().hash).toBe(bundle.blocks[0].hash);
+  });
+
+  it('should reject untrusted signers, other chains and unreadable bundles', async () => {
+    const source = await createBlockchain();
+    source.minePendingUTXOTransactions('miner-a');
+    const data = await source.exportBlockBundle(1, 1, signerKeyPair);
+    const other = await createBlockchain(createGenesisConfig('other-chain-v1'));
+
+    expect(
+      (await source.importBlockBundle(data, ['lora1someoneelse'])).errors
+    ).toEqual([
+      `Failed to read block bundle: Block bundle signer ${signerAddress} is not trusted`,
+    ]);
+    expect((await source.importBlockBundle(data, [])).errors).toEqual([
+      'No trusted block bundle signers are configured',
+    ]);
+    expect(
+      (await other.importBlockBundle(data, [signerAddress])).errors
+    ).toEqual([
+      'Block bundle is for chain block-bundle-test-v1, not other-chain-v1',
+    ]);
+    expect(
+      (
+        await other.importBlockBundle(new Uint8Array([4, 9, 0]), [
+          signerAddress,
+        ])
+      ).isValid
+    ).toBe(false);
+    expect(other.getLatestBlock().index).toBe(0);
+  });
+});
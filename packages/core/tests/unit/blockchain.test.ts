@@ -1,9 +1,12 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Blockchain } from '../../src/blockchain.js';
 import { UTXOManager } from '../../src/utxo.js';
 import { UTXOPersistenceManager } from '../../src/persistence.js';
 import { DatabaseFactory } from '../../src/database.js';
 import { BlockManager } from '../../src/block.js';
+import { UTXOTransactionManager } from '../../src/utxo-transaction.js';
+import { CryptographicService } from '../../src/cryptographic.js';
+import { bytesToHex } from '@noble/hashes/utils';
 import type { DifficultyConfig } from '../../src/difficulty.js';
 import type {
   Transaction,
@@ -20,6 +23,42 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
   let mockUTXOTransaction: UTXOTransaction;
   let minerAddress: string;
 
+  // Genesis allocations are spendable at once, unlike mining rewards
+  const fundedKeyPair = CryptographicService.generateKeyPair('secp256k1');
+  const fundedAddress = CryptographicService.generateAddress(
+    fundedKeyPair.publicKey,
+    'secp256k1'
+  );
+  const fundedPrivateKey = bytesToHex(fundedKeyPair.privateKey);
+
+  // Every block opens with exactly one reward transaction
+  const createCoinbase = (
+    index: number,
+    miner: string,
+    amount: number = 1000
+  ): Transaction => ({
+    id: `coinbase-${index}-${miner}`,
+    from: 'network',
+    to: miner,
+    amount,
+    fee: 0,
+    timestamp: Date.now(),
+    signature: 'utxo-signed',
+    nonce: 0,
+  });
+
+  // Form in which blocks carry UTXO transactions
+  const toLegacyTransaction = (utxoTx: UTXOTransaction): Transaction => ({
+    id: utxoTx.id,
+    from: 'utxo-based',
+    to: utxoTx.outputs[0].lockingScript,
+    amount: utxoTx.outputs.reduce((sum, output) => sum + output.value, 0),
+    fee: utxoTx.fee,
+    timestamp: utxoTx.timestamp,
+    signature: 'utxo-signed',
+    nonce: 0,
+  });
+
   const testConfig: UTXOPersistenceConfig = {
     enabled: true,
     dbPath: ':memory:',
@@ -38,7 +77,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
     version: '1.0.0',
     initialAllocations: [
       {
-        address: 'lora1initial000000000000000000000000000000',
+        address: fundedAddress,
         amount: 1000000,
         description: 'Initial test allocation',
       },
@@ -50,7 +89,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       adjustmentPeriod: 10,
       maxDifficultyRatio: 4,
       maxBlockSize: 1024 * 1024,
-      miningReward: 10,
+      miningReward: 1000,
       halvingInterval: 210000,
     },
     metadata: {
@@ -81,21 +120,13 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
     // Wait for initialization
     await blockchain.waitForInitialization();
 
-    // Create a mock UTXO transaction (genesis-style with no inputs)
-    mockUTXOTransaction = {
-      id: `tx-${Date.now()}-${Math.random()}`,
-      inputs: [],
-      outputs: [
-        {
-          value: 100,
-          lockingScript: 'to-address',
-          outputIndex: 0,
-        },
-      ],
-      lockTime: 0,
-      timestamp: Date.now(),
-      fee: 0, // Genesis transactions have no fee
-    };
+    // Create a mock UTXO transaction spending the genesis allocation
+    mockUTXOTransaction = blockchain.createUTXOTransaction(
+      fundedAddress,
+      'to-address',
+      100,
+      fundedPrivateKey
+    );
 
     minerAddress = 'miner-address';
   });
@@ -127,7 +158,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
     });
 
     it('should have default mining reward', () => {
-      expect(blockchain.getMiningReward()).toBe(10);
+      expect(blockchain.getMiningReward()).toBe(1000);
     });
   });
 
@@ -193,6 +224,390 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
     });
   });
 
+  describe('coinbase', () => {
+    const maturityGenesisConfig: GenesisConfig = {
+      ...testGenesisConfig,
+      chainId: 'blockchain-maturity-test-v1',
+      networkParams: {
+        ...testGenesisConfig.networkParams,
+        initialDifficulty: 1,
+        adjustmentPeriod: 100,
+        coinbaseMaturity: 2,
+      },
+    };
+    let maturityChain: Blockchain;
+
+    beforeEach(async () => {
+      maturityChain = new Blockchain(
+        new UTXOPersistenceManager(DatabaseFactory.create(testConfig), {
+          compressionType: 'none',
+          cryptographicAlgorithm: 'secp256k1',
+        }),
+        new UTXOManager(),
+        { targetBlockTime: 180, maxDifficulty: 1 },
+        maturityGenesisConfig
+      );
+      await maturityChain.waitForInitialization();
+    });
+
+    afterEach(async () => {
+      await maturityChain.close();
+    });
+
+    const mineExternalBlock = (transactions: Transaction[]): Block => {
+      const latestBlock = maturityChain.getLatestBlock();
+      return BlockManager.mineBlock(
+        BlockManager.createBlock(
+          latestBlock.index + 1,
+          transactions,
+          latestBlock.hash,
+          1,
+          minerAddress
+        )
+      );
+    };
+
+    it('should place the coinbase first in mined blocks', async () => {
+      await maturityChain.addTransaction(
+        maturityChain.createUTXOTransaction(
+          fundedAddress,
+          'to-address',
+          100,
+          fundedPrivateKey
+        )
+      );
+
+      const block = maturityChain.minePendingTransactions(minerAddress)!;
+
+      expect(block.transactions).toHaveLength(2);
+      expect(block.transactions[0]).toMatchObject({
+        from: 'network',
+        to: minerAddress,
+      });
+      expect(
+        maturityChain.getUTXOManager().getUTXO(block.transactions[0].id, 0)
+      ).toMatchObject({ isCoinbase: true, blockHeight: 1 });
+    });
+
+    it('should not admit input-less transactions to the pending pool', async () => {
+      const rewardLike: UTXOTransaction = {
+        id: '',
+        inputs: [],
+        outputs: [{ value: 100, lockingScript: 'to-address', outputIndex: 0 }],
+        lockTime: 0,
+        timestamp: Date.now(),
+        fee: 0,
+      };
+      rewardLike.id = UTXOTransactionManager.calculateTransactionId(rewardLike);
+
+      const result = await maturityChain.addTransaction(rewardLike);
+
+      expect(result).toEqual({
+        isValid: false,
+        errors: ['Coinbase transactions are only valid in a block'],
+      });
+    });
+
+    it('should require exactly one coinbase at position zero', async () => {
+      const payment: Transaction = {
+        ...createCoinbase(1, 'to-address', 10),
+        id: 'payment-1',
+        from: 'utxo-based',
+      };
+
+      const missing = await maturityChain.addBlock(
+        mineExternalBlock([payment])
+      );
+      const duplicated = await maturityChain.addBlock(
+        mineExternalBlock([
+          createCoinbase(1, minerAddress, 500),
+          createCoinbase(1, 'other-miner', 500),
+        ])
+      );
+      const misplaced = await maturityChain.addBlock(
+        mineExternalBlock([payment, createCoinbase(1, minerAddress)])
+      );
+
+      expect(missing.errors).toContain(
+        'Block must contain exactly one coinbase transaction, found 0'
+      );
+      expect(duplicated.errors).toContain(
+        'Block must contain exactly one coinbase transaction, found 2'
+      );
+      expect(misplaced.errors).toContain(
+        'Coinbase must be the first transaction'
+      );
+      expect(maturityChain.getBlocks()).toHaveLength(1);
+    });
+
+    it('should only spend coinbase outputs after the maturity depth', async () => {
+      const keyPair = CryptographicService.generateKeyPair('secp256k1');
+      const address = CryptographicService.generateAddress(
+        keyPair.publicKey,
+        'secp256k1'
+      );
+      const block = maturityChain.minePendingTransactions(address)!;
+      const spend = new UTXOTransactionManager().createTransaction(
+        address,
+        'to-address',
+        100,
+        bytesToHex(keyPair.privateKey),
+        maturityChain.getUTXOManager().getUTXOsForAddress(address)
+      );
+
+      const immature = await maturityChain.addTransaction(spend);
+      expect(immature.isValid).toBe(false);
+      expect(immature.errors).toContain(
+        `Transaction spends coinbase output ${block.transactions[0].id}:0 before maturity at height 3`
+      );
+      expect(() =>
+        maturityChain.createUTXOTransaction(
+          address,
+          'to-address',
+          100,
+          bytesToHex(keyPair.privateKey)
+        )
+      ).toThrow();
+
+      maturityChain.minePendingTransactions(minerAddress);
+
+      expect((await maturityChain.addTransaction(spend)).isValid).toBe(true);
+    });
+
+    it('should reject block transactions without a UTXO form', async () => {
+      const minted: Transaction = {
+        ...createCoinbase(1, 'to-address', 5000),
+        id: 'minted-1',
+        from: 'utxo-based',
+      };
+
+      const result = await maturityChain.addBlock(
+        mineExternalBlock([createCoinbase(1, minerAddress), minted])
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        'Block 1 transaction minted-1 has no known UTXO form'
+      );
+      expect(maturityChain.getBalance('to-address')).toBe(0);
+    });
+
+    it('should reject coinbases whose outputs pay more than their amount', async () => {
+      const coinbase = createCoinbase(1, minerAddress);
+      const inflated: UTXOTransaction = {
+        id: coinbase.id,
+        inputs: [],
+        outputs: [
+          { value: 1000000, lockingScript: minerAddress, outputIndex: 0 },
+        ],
+        lockTime: 0,
+        timestamp: coinbase.timestamp,
+        fee: 0,
+      };
+
+      const result = await maturityChain.addBlock(
+        mineExternalBlock([coinbase]),
+        [inflated]
+      );
+
+      expect(result.errors).toContain(
+        `Block 1 coinbase ${coinbase.id} must pay 1000 without inputs, pays 1000000 with 0 inputs`
+      );
+      expect(maturityChain.getBalance(minerAddress)).toBe(0);
+    });
+
+    it('should reject coinbases whose UTXO form does not match their id', async () => {
+      const coinbase = createCoinbase(1, minerAddress);
+      const redirected: UTXOTransaction = {
+        id: coinbase.id,
+        inputs: [],
+        outputs: [{ value: 1000, lockingScript: 'thief', outputIndex: 0 }],
+        lockTime: 0,
+        timestamp: coinbase.timestamp,
+        fee: 0,
+      };
+
+      const result = await maturityChain.addBlock(
+        mineExternalBlock([coinbase]),
+        [redirected]
+      );
+
+      expect(result.errors).toContain(
+        `Block 1 coinbase ${coinbase.id} does not match its contents`
+      );
+      expect(maturityChain.getBalance('thief')).toBe(0);
+    });
+
+    it('should reject side chain blocks spending immature coinbase outputs', async () => {
+      for (let i = 0; i < 3; i++) {
+        maturityChain.minePendingTransactions(minerAddress);
+      }
+      const keyPair = CryptographicService.generateKeyPair('secp256k1');
+      const address = CryptographicService.generateAddress(
+        keyPair.publicKey,
+        'secp256k1'
+      );
+      const mineBlockOn = (parent: Block, transactions: Transaction[]): Block =>
+        BlockManager.mineBlock(
+          BlockManager.createBlock(
+            parent.index + 1,
+            transactions,
+            parent.hash,
+            1,
+            minerAddress,
+            undefined,
+            undefined,
+            parent.timestamp + 1000
+          )
+        );
+
+      const sideBlock = mineBlockOn(maturityChain.getBlocks()[0], [
+        createCoinbase(1, address),
+      ]);
+      expect((await maturityChain.addBlock(sideBlock)).isValid).toBe(true);
+
+      const coinbaseId = sideBlock.transactions[0].id;
+      const spend = new UTXOTransactionManager().createTransaction(
+        address,
+        'to-address',
+        100,
+        bytesToHex(keyPair.privateKey),
+        [
+          {
+            txId: coinbaseId,
+            outputIndex: 0,
+            value: 1000,
+            lockingScript: address,
+            blockHeight: 1,
+            isSpent: false,
+            isCoinbase: true,
+          },
+        ]
+      );
+      const result = await maturityChain.addBlock(
+        mineBlockOn(sideBlock, [
+          createCoinbase(2, minerAddress),
+          toLegacyTransaction(spend),
+        ]),
+        [spend]
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        `Transaction ${spend.id} spends coinbase output ${coinbaseId}:0 before maturity at height 3`
+      );
+    });
+
+    it('should report immature coinbase funds separately', () => {
+      maturityChain.minePendingTransactions(minerAddress);
+      maturityChain.minePendingTransactions(minerAddress);
+
+      expect(maturityChain.getCoinbaseMaturity()).toBe(2);
+      expect(maturityChain.getAddressBalance(minerAddress)).toEqual({
+        total: 2000,
+        spendable: 1000,
+        immature: 1000,
+      });
+      expect(maturityChain.getAddressBalance(fundedAddress)).toEqual({
+        total: 1000000,
+        spendable: 1000000,
+        immature: 0,
+      });
+    });
+  });
+
+  describe('mempool', () => {
+    it('should reject pending transactions that spend the same UTXO', async () => {
+      const keyPair = CryptographicService.generateKeyPair('secp256k1');
+      const address = CryptographicService.generateAddress(
+        keyPair.publicKey,
+        'secp256k1'
+      );
+      blockchain.minePendingTransactions(address);
+      const utxos = blockchain.getUTXOManager().getUTXOsForAddress(address);
+      const transactionManager = new UTXOTransactionManager();
+
+      const payment = transactionManager.createTransaction(
+        address,
+        'merchant-address',
+        5,
+        bytesToHex(keyPair.privateKey),
+        utxos
+      );
+      const doubleSpend = transactionManager.createTransaction(
+        address,
+        'other-address',
+        5,
+        bytesToHex(keyPair.privateKey),
+        utxos
+      );
+
+      expect((await blockchain.addTransaction(payment)).isValid).toBe(true);
+      const result = await blockchain.addTransaction(doubleSpend);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain(
+        `conflicts with pending transaction ${payment.id}`
+      );
+      expect(blockchain.getPendingTransactions()).toHaveLength(1);
+    });
+
+    it('should accept and mine transactions spending unconfirmed change', async () => {
+      const keyPair = CryptographicService.generateKeyPair('secp256k1');
+      const address = CryptographicService.generateAddress(
+        keyPair.publicKey,
+        'secp256k1'
+      );
+      const privateKey = bytesToHex(keyPair.privateKey);
+      blockchain.minePendingTransactions(address);
+
+      const parent = blockchain.createUTXOTransaction(
+        address,
+        'merchant-address',
+        5,
+        privateKey
+      );
+      expect((await blockchain.addTransaction(parent)).isValid).toBe(true);
+      const child = blockchain.createUTXOTransaction(
+        address,
+        'other-address',
+        2,
+        privateKey
+      );
+      expect(child.inputs.map(input => input.previousTxId)).toEqual([
+        parent.id,
+      ]);
+      expect((await blockchain.addTransaction(child)).isValid).toBe(true);
+
+      const block = blockchain.minePendingTransactions(minerAddress);
+
+      expect(block!.transactions.map(tx => tx.id).slice(1)).toEqual([
+        parent.id,
+        child.id,
+      ]);
+      expect(blockchain.getPendingTransactions()).toHaveLength(0);
+      expect(blockchain.getBalance('merchant-address')).toBe(5);
+      expect(blockchain.getBalance('other-address')).toBe(2);
+      expect(blockchain.getUTXOManager().getUTXO(parent.id, 1)).toBeNull();
+    });
+
+    it('should keep pending transactions across restarts', async () => {
+      await blockchain.addTransaction(mockUTXOTransaction);
+
+      const restarted = new Blockchain(
+        persistence,
+        new UTXOManager(),
+        { targetBlockTime: 180 },
+        testGenesisConfig
+      );
+      await restarted.waitForInitialization();
+
+      expect(restarted.getPendingTransactions().map(tx => tx.id)).toEqual([
+        mockUTXOTransaction.id,
+      ]);
+    });
+  });
+
   describe('minePendingTransactions', () => {
     it('should create mining reward block even when no pending transactions', () => {
       const result = blockchain.minePendingTransactions(minerAddress);
@@ -222,14 +637,27 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       );
 
       expect(rewardTransaction).toBeDefined();
-      expect(rewardTransaction!.amount).toBe(10);
+      expect(rewardTransaction!.amount).toBe(1000 + mockUTXOTransaction.fee);
+    });
+
+    it('should keep a mined block connected when storing it fails', async () => {
+      const connectBlock = vi
+        .spyOn(persistence, 'connectBlock')
+        .mockRejectedValueOnce(new Error('disk full'));
+
+      const first = blockchain.minePendingTransactions(minerAddress)!;
+      const second = blockchain.minePendingTransactions(minerAddress)!;
+      await vi.waitFor(() => expect(connectBlock).toHaveBeenCalledTimes(2));
+
+      expect(blockchain.getBlocks().slice(1)).toEqual([first, second]);
+      expect(connectBlock.mock.calls[1][0]).toEqual(second);
     });
 
     it('should handle block size limit', () => {
       // Create several UTXO transactions to test block size handling (reduced from 100 to 10)
       for (let i = 0; i < 10; i++) {
         const largeUTXOTransaction: UTXOTransaction = {
-          id: `tx-${i}-${Date.now()}`,
+          id: '',
           inputs: [],
           outputs: [
             {
@@ -242,6 +670,8 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
           timestamp: Date.now(),
           fee: 0, // Genesis transactions have no fee
         };
+        largeUTXOTransaction.id =
+          UTXOTransactionManager.calculateTransactionId(largeUTXOTransaction);
         blockchain.addTransaction(largeUTXOTransaction);
       }
 
@@ -257,6 +687,226 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
     });
   });
 
+  describe('createBlockTemplate', () => {
+    // Spends an output funded on the given chain, without a valid signature
+    const createFeePayingTransaction = (
+      recipient: string,
+      fee: number,
+      chain: Blockchain = blockchain
+    ): UTXOTransaction => {
+      chain.getUTXOManager().addUTXO({
+        txId: `funding-${recipient}`,
+        outputIndex: 0,
+        value: fee + 1,
+        lockingScript: 'funding-address',
+        blockHeight: 0,
+        isSpent: false,
+      });
+      const transaction: UTXOTransaction = {
+        id: '',
+        inputs: [
+          {
+            previousTxId: `funding-${recipient}`,
+            outputIndex: 0,
+            unlockingScript: 'signature:publicKey',
+            sequence: 0xffffffff,
+          },
+        ],
+        outputs: [{ value: 1, lockingScript: recipient, outputIndex: 0 }],
+        lockTime: 0,
+        timestamp: Date.now(),
+        fee,
+      };
+      transaction.id =
+        UTXOTransactionManager.calculateTransactionId(transaction);
+      return transaction;
+    };
+
+    it('should pay the subsidy plus collected fees without changing the chain', () => {
+      const payment = createFeePayingTransaction('merchant-address', 500);
+      blockchain.getMempool().add(payment);
+
+      const template = blockchain.createBlockTemplate(minerAddress);
+
+      expect(template.block.index).toBe(1);
+      expect(template.transactions).toEqual([template.coinbase, payment]);
+      expect(template.totalFees).toBe(500);
+      expect(template.coinbase.outputs[0]).toMatchObject({
+        value: 1500,
+        lockingScript: minerAddress,
+      });
+      expect(template.size).toBe(BlockManager.getBlockSize(template.block));
+      expect(blockchain.getBlocks()).toHaveLength(1);
+      expect(blockchain.getPendingTransactions()).toEqual([payment]);
+    });
+
+    it('should fill the block by fee rate up to the maximum block size', async () => {
+      const smallBlockPersistence = new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      );
+      const smallBlockchain = new Blockchain(
+        smallBlockPersistence,
+        new UTXOManager(),
+        { targetBlockTime: 180 },
+        {
+          ...testGenesisConfig,
+          chainId: 'blockchain-small-block-test-v1',
+          networkParams: {
+            ...testGenesisConfig.networkParams,
+            maxBlockSize: 1024,
+          },
+        }
+      );
+      await smallBlockchain.waitForInitialization();
+
+      const transactions = Array.from({ length: 20 }, (_, i) =>
+        createFeePayingTransaction(
+          `recipient-${i}`,
+          (i + 1) * 1000,
+          smallBlockchain
+        )
+      );
+      transactions.forEach(tx => smallBlockchain.getMempool().add(tx));
+
+      const template = smallBlockchain.createBlockTemplate(minerAddress);
+      const included = template.transactions.slice(1);
+
+      expect(template.size).toBeLessThanOrEqual(1024);
+      expect(included.length).toBeGreaterThan(0);
+      expect(included.length).toBeLessThan(transactions.length);
+      expect(included.map(tx => tx.id)).toEqual(
+        [...transactions]
+          .reverse()
+          .slice(0, included.length)
+          .map(tx => tx.id)
+      );
+
+      await smallBlockchain.close();
+      await smallBlockPersistence.close();
+    });
+
+    it('should reject blocks larger than the maximum block size', async () => {
+      const smallBlockPersistence = new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      );
+      const smallBlockchain = new Blockchain(
+        smallBlockPersistence,
+        new UTXOManager(),
+        { targetBlockTime: 180 },
+        {
+          ...testGenesisConfig,
+          chainId: 'blockchain-small-block-test-v1',
+          networkParams: {
+            ...testGenesisConfig.networkParams,
+            maxBlockSize: 1024,
+          },
+        }
+      );
+      await smallBlockchain.waitForInitialization();
+
+      const oversized = BlockManager.mineBlock(
+        BlockManager.createBlock(
+          1,
+          Array.from({ length: 20 }, (_, i) => ({
+            id: `${i}`.padStart(64, '0'),
+            from: 'utxo-based',
+            to: `recipient-${i}`,
+            amount: 1,
+            fee: 0,
+            timestamp: Date.now(),
+            signature: 'utxo-signed',
+            nonce: 0,
+          })),
+          smallBlockchain.getLatestBlock().hash,
+          smallBlockchain.getDifficulty()
+        )
+      );
+
+      const result = await smallBlockchain.addBlock(oversized);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        `Block size ${BlockManager.getBlockSize(oversized)} exceeds maximum of 1024 bytes`
+      );
+
+      await smallBlockchain.close();
+      await smallBlockPersistence.close();
+    });
+  });
+
+  describe('reward schedule', () => {
+    it('should halve the mining reward at the halving interval', async () => {
+      const halvingPersistence = new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      );
+      const halvingBlockchain = new Blockchain(
+        halvingPersistence,
+        new UTXOManager(),
+        { targetBlockTime: 180 },
+        {
+          ...testGenesisConfig,
+          chainId: 'blockchain-halving-test-v1',
+          networkParams: {
+            ...testGenesisConfig.networkParams,
+            halvingInterval: 2,
+          },
+        }
+      );
+      await halvingBlockchain.waitForInitialization();
+
+      halvingBlockchain.minePendingTransactions(minerAddress);
+      halvingBlockchain.minePendingTransactions(minerAddress);
+
+      expect(halvingBlockchain.getBalance(minerAddress)).toBe(1500);
+      expect(halvingBlockchain.getMiningReward()).toBe(500);
+      expect(halvingBlockchain.getSupplyInfo()).toMatchObject({
+        height: 2,
+        circulatingSupply: 1001500,
+        issuedSupply: 1001500,
+        maxSupply: 21000000,
+        blockSubsidy: 500,
+        nextHalvingHeight: 4,
+      });
+
+      await halvingBlockchain.close();
+      await halvingPersistence.close();
+    });
+
+    it('should reject blocks whose coinbase overpays', async () => {
+      const latestBlock = blockchain.getLatestBlock();
+      const block = BlockManager.mineBlock(
+        BlockManager.createBlock(
+          latestBlock.index + 1,
+          [
+            {
+              id: 'a'.repeat(64),
+              from: 'network',
+              to: minerAddress,
+              amount: 1001,
+              fee: 0,
+              timestamp: Date.now(),
+              signature: 'utxo-signed',
+              nonce: 0,
+            },
+          ],
+          latestBlock.hash,
+          blockchain.getDifficulty(),
+          minerAddress
+        )
+      );
+
+      const result = await blockchain.addBlock(block);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        'Coinbase pays 1001, more than the subsidy plus fees of 1000'
+      );
+    });
+  });
+
   describe('addBlock', () => {
     let validBlock: Block;
 
@@ -269,25 +919,17 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
         testGenesisConfig
       );
       await blockchain.waitForInitialization();
-      mockUTXOTransaction = {
-        id: `tx-${Date.now()}-${Math.random()}`,
-        inputs: [],
-        outputs: [
-          {
-            value: 100,
-            lockingScript: 'to-address',
-            outputIndex: 0,
-          },
-        ],
-        lockTime: 0,
-        timestamp: Date.now(),
-        fee: 0, // Genesis transactions have no fee
-      };
+      mockUTXOTransaction = blockchain.createUTXOTransaction(
+        fundedAddress,
+        'to-address',
+        100,
+        fundedPrivateKey
+      );
 
       // Convert UTXO transaction to legacy format for block creation
       const legacyTransaction: Transaction = {
         id: mockUTXOTransaction.id,
-        from: 'from-address',
+        from: 'utxo-based',
         to: mockUTXOTransaction.outputs[0].lockingScript,
         amount: mockUTXOTransaction.outputs[0].value,
         fee: mockUTXOTransaction.fee,
@@ -300,7 +942,10 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       const latestBlock = blockchain.getLatestBlock();
       validBlock = BlockManager.createBlock(
         latestBlock.index + 1,
-        [legacyTransaction],
+        [
+          createCoinbase(latestBlock.index + 1, minerAddress),
+          legacyTransaction,
+        ],
         latestBlock.hash,
         blockchain.getDifficulty(),
         minerAddress
@@ -337,6 +982,87 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       expect(blocks).toHaveLength(1); // Only genesis block
     });
 
+    it('should reject blocks spending outputs they cannot unlock', async () => {
+      const [victimUTXO] = blockchain
+        .getUTXOManager()
+        .getUTXOsForAddress(fundedAddress);
+      const theft: UTXOTransaction = {
+        id: '',
+        inputs: [
+          {
+            previousTxId: victimUTXO.txId,
+            outputIndex: victimUTXO.outputIndex,
+            unlockingScript: 'deadbeef',
+            sequence: 0xffffffff,
+          },
+        ],
+        outputs: [
+          {
+            value: victimUTXO.value,
+            lockingScript: 'attacker-address',
+            outputIndex: 0,
+          },
+        ],
+        lockTime: 0,
+        timestamp: Date.now(),
+        fee: 0,
+      };
+      theft.id = UTXOTransactionManager.calculateTransactionId(theft);
+      const block = BlockManager.mineBlock(
+        BlockManager.createBlock(
+          1,
+          [createCoinbase(1, minerAddress), toLegacyTransaction(theft)],
+          blockchain.getLatestBlock().hash,
+          blockchain.getDifficulty(),
+          minerAddress
+        )
+      );
+
+      const result = await blockchain.addBlock(block, [theft]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain(
+        `Block 1 transaction ${theft.id} is invalid`
+      );
+      expect(blockchain.getBlocks()).toHaveLength(1);
+      expect(blockchain.getBalance('attacker-address')).toBe(0);
+      expect(blockchain.getBalance(fundedAddress)).toBe(1000000);
+    });
+
+    it('should reject blocks spending the same output twice', async () => {
+      const doubleSpend = new UTXOTransactionManager().createTransaction(
+        fundedAddress,
+        'other-address',
+        100,
+        fundedPrivateKey,
+        blockchain.getUTXOManager().getUTXOsForAddress(fundedAddress)
+      );
+      const block = BlockManager.mineBlock(
+        BlockManager.createBlock(
+          1,
+          [
+            createCoinbase(1, minerAddress),
+            toLegacyTransaction(mockUTXOTransaction),
+            toLegacyTransaction(doubleSpend),
+          ],
+          blockchain.getLatestBlock().hash,
+          blockchain.getDifficulty(),
+          minerAddress
+        )
+      );
+
+      const result = await blockchain.addBlock(block, [
+        mockUTXOTransaction,
+        doubleSpend,
+      ]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain(
+        `transaction ${doubleSpend.id} is invalid: UTXO ${mockUTXOTransaction.inputs[0].previousTxId}:0 does not exist or is already spent`
+      );
+      expect(blockchain.getBlocks()).toHaveLength(1);
+    });
+
     it('should remove processed transactions from pending', async () => {
       // The validBlock may not contain the exact same transaction as pending
       // Let's check the behavior more carefully
@@ -352,6 +1078,87 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
     });
   });
 
+  describe('lock time', () => {
+    let postDatedTransaction: UTXOTransaction;
+
+    beforeEach(async () => {
+      const keyPair = CryptographicService.generateKeyPair('secp256k1');
+      const address = CryptographicService.generateAddress(
+        keyPair.publicKey,
+        'secp256k1'
+      );
+      blockchain.minePendingTransactions(address);
+
+      postDatedTransaction = new UTXOTransactionManager().createTransaction(
+        address,
+        'merchant-address',
+        5,
+        bytesToHex(keyPair.privateKey),
+        blockchain.getUTXOManager().getUTXOsForAddress(address),
+        'secp256k1',
+        2
+      );
+    });
+
+    it('should hold post-dated transactions in the pending pool', async () => {
+      const result = await blockchain.addTransaction(postDatedTransaction);
+      expect(result.isValid).toBe(true);
+
+      const minedBlock = blockchain.minePendingTransactions(minerAddress);
+
+      expect(minedBlock!.index).toBe(2);
+      expect(minedBlock!.transactions.map(tx => tx.id)).not.toContain(
+        postDatedTransaction.id
+      );
+      expect(blockchain.getPendingTransactions()).toHaveLength(1);
+    });
+
+    it('should mine post-dated transactions once their lock time passes', async () => {
+      await blockchain.addTransaction(postDatedTransaction);
+      blockchain.minePendingTransactions(minerAddress);
+      const minedBlock = blockchain.minePendingTransactions(minerAddress);
+
+      expect(minedBlock!.index).toBe(3);
+      expect(minedBlock!.transactions.map(tx => tx.id)).toContain(
+        postDatedTransaction.id
+      );
+      expect(blockchain.getPendingTransactions()).toHaveLength(0);
+    });
+
+    it('should reject blocks that include non-final transactions', async () => {
+      await blockchain.addTransaction(postDatedTransaction);
+
+      const latestBlock = blockchain.getLatestBlock();
+      const block = BlockManager.mineBlock(
+        BlockManager.createBlock(
+          latestBlock.index + 1,
+          [
+            {
+              id: postDatedTransaction.id,
+              from: 'utxo-based',
+              to: 'merchant-address',
+              amount: 5,
+              fee: postDatedTransaction.fee,
+              timestamp: postDatedTransaction.timestamp,
+              signature: 'utxo-signed',
+              nonce: 0,
+            },
+          ],
+          latestBlock.hash,
+          blockchain.getDifficulty(),
+          minerAddress
+        )
+      );
+
+      const result = await blockchain.addBlock(block);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        `Transaction ${postDatedTransaction.id} is not final at height 2`
+      );
+    });
+  });
+
   describe('getBalance', () => {
     it('should return 0 for new address', () => {
       const balance = blockchain.getBalance('new-address');
@@ -359,22 +1166,26 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
     });
 
     it('should calculate balance correctly', () => {
-      const fromAddress = 'from-address';
+      const keyPair = CryptographicService.generateKeyPair('secp256k1');
+      const fromAddress = CryptographicService.generateAddress(
+        keyPair.publicKey,
+        'secp256k1'
+      );
       const toAddress = 'to-address';
 
       // Mine a block to create initial UTXOs for fromAddress
-      blockchain.minePendingTransactions(fromAddress); // fromAddress gets mining reward (10 coins)
+      blockchain.minePendingTransactions(fromAddress); // fromAddress gets mining reward (1000 base units)
 
       // Check that fromAddress has the mining reward
       const initialBalance = blockchain.getBalance(fromAddress);
-      expect(initialBalance).toBe(10);
+      expect(initialBalance).toBe(1000);
 
       // Create UTXO transaction from fromAddress to toAddress
       const sendTransaction = blockchain.createUTXOTransaction(
         fromAddress,
         toAddress,
-        5, // Send 5 coins
-        'private-key'
+        5, // Send 5 base units
+        bytesToHex(keyPair.privateKey)
       );
       blockchain.addTransaction(sendTransaction);
       blockchain.minePendingTransactions(minerAddress);
@@ -383,7 +1194,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       const fromBalance = blockchain.getBalance(fromAddress);
       const toBalance = blockchain.getBalance(toAddress);
 
-      // fromAddress: 10 (mining reward) - 5 (sent) - fee = remaining
+      // fromAddress: 1000 (mining reward) - 5 (sent) - fee = remaining
       expect(fromBalance).toBeGreaterThanOrEqual(0); // Should have some remaining balance after fee
       expect(toBalance).toBe(5); // Received amount
     });
@@ -396,7 +1207,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       blockchain.minePendingTransactions(address);
 
       const balance = blockchain.getBalance(address);
-      expect(balance).toBe(20); // Two mining rewards of 10 each
+      expect(balance).toBe(2000); // Two mining rewards of 1000 each
     });
   });
 
@@ -451,20 +1262,12 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       blockchain.addTransaction(mockUTXOTransaction);
       blockchain.minePendingTransactions(address);
 
-      const transaction2: UTXOTransaction = {
-        id: `tx2-${Date.now()}-${Math.random()}`,
-        inputs: [],
-        outputs: [
-          {
-            value: 200,
-            lockingScript: address,
-            outputIndex: 0,
-          },
-        ],
-        lockTime: 0,
-        timestamp: Date.now() + 1000,
-        fee: 0, // Genesis transactions have no fee
-      };
+      const transaction2 = blockchain.createUTXOTransaction(
+        fundedAddress,
+        address,
+        200,
+        fundedPrivateKey
+      );
       blockchain.addTransaction(transaction2);
       blockchain.minePendingTransactions(minerAddress);
 
@@ -489,7 +1292,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
         blocks: expect.arrayContaining([expect.any(Object)]),
         pendingTransactions: [], // Legacy field - now empty
         difficulty: 2,
-        miningReward: 10,
+        miningReward: 1000,
         networkNodes: [],
       });
     });
@@ -641,7 +1444,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       // Create a valid block with correct difficulty
       const validBlock = BlockManager.createBlock(
         1,
-        [],
+        [createCoinbase(1, minerAddress)],
         blockchainWithFastAdjustment.getLatestBlock().hash,
         currentDifficulty,
         minerAddress
@@ -662,7 +1465,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       // Create a block with wrong difficulty
       const invalidBlock = BlockManager.createBlock(
         1,
-        [],
+        [createCoinbase(1, minerAddress)],
         blockchainWithFastAdjustment.getLatestBlock().hash,
         currentDifficulty + 2, // Wrong difficulty (reduced to prevent mining hangs)
         minerAddress
@@ -787,7 +1590,7 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       // Simulate adding an external block
       const externalBlock = BlockManager.createBlock(
         chainLength,
-        [],
+        [createCoinbase(chainLength, 'external-miner')],
         blockchainWithFastAdjustment.getLatestBlock().hash,
         currentDifficulty,
         'external-miner'
@@ -799,4 +1602,92 @@ describe('Blockchain (NO BACKWARDS COMPATIBILITY)', () => {
       expect(result.isValid).toBe(true);
     });
   });
+
+  describe('pruning', () => {
+    const pruningGenesisConfig: GenesisConfig = {
+      ...testGenesisConfig,
+      chainId: 'blockchain-prune-test-v1',
+      networkParams: {
+        ...testGenesisConfig.networkParams,
+        initialDifficulty: 1,
+        adjustmentPeriod: 100,
+      },
+    };
+    const blockchains: Blockchain[] = [];
+
+    const createBlockchain = async (
+      config: Partial<UTXOPersistenceConfig>
+    ): Promise<Blockchain> => {
+      const prunedChain = new Blockchain(
+        new UTXOPersistenceManager(DatabaseFactory.create(testConfig), {
+          compressionType: 'none',
+          cryptographicAlgorithm: 'secp256k1',
+          ...config,
+        }),
+        new UTXOManager(),
+        { targetBlockTime: 180, maxDifficulty: 1 },
+        pruningGenesisConfig
+      );
+      await prunedChain.waitForInitialization();
+      blockchains.push(prunedChain);
+      return prunedChain;
+    };
+
+    afterEach(async () => {
+      while (blockchains.length > 0) {
+        await blockchains.pop()!.close();
+      }
+    });
+
+    it('should discard old block bodies once past the prune target', async () => {
+      const producer = await createBlockchain({});
+      for (let i = 0; i < 300; i++) {
+        producer.minePendingTransactions(minerAddress);
+      }
+      const follower = await createBlockchain({
+        pruningEnabled: true,
+        pruneTarget: { keepBlocks: 290 },
+      });
+      const pruneEvents: unknown[] = [];
+      follower.on('prune', state => pruneEvents.push(state));
+
+      for (const block of producer.getBlocks().slice(1)) {
+        expect((await follower.addBlock(block)).isValid).toBe(true);
+      }
+
+      expect(follower.getPruneState()).toEqual({
+        pruned: true,
+        pruneHeight: 11,
+      });
+      expect(pruneEvents).toHaveLength(11);
+      expect(follower.isBlockPruned(10)).toBe(true);
+      expect(follower.isBlockPruned(11)).toBe(false);
+      expect(await follower.getBlockByIndex(10)).toBeNull();
+      expect(await follower.getBlockByIndex(11)).not.toBeNull();
+      expect(follower.getBlocks()[10].transactions).toEqual([]);
+      expect(follower.getBlocks()[10].hash).toBe(producer.getBlocks()[10].hash);
+      expect(follower.validateChain().isValid).toBe(true);
+    });
+
+    it('should not prune without a prune target', async () => {
+      const unpruned = await createBlockchain({ pruningEnabled: true });
+      for (let i = 0; i < 3; i++) {
+        const block = BlockManager.mineBlock(
+          BlockManager.createBlock(
+            unpruned.getBlocks().length,
+            [createCoinbase(unpruned.getBlocks().length, 'external-miner')],
+            unpruned.getLatestBlock().hash,
+            1,
+            'external-miner'
+          )
+        );
+        await unpruned.addBlock(block);
+      }
+
+      expect(unpruned.getPruneState()).toEqual({
+        pruned: false,
+        pruneHeight: 0,
+      });
+    });
+  });
 });
@@ -0,0 +1,366 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Blockchain } from '../../src/blockchain.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import { BlockManager } from '../../src/block.js';
+import { CryptographicService } from '../../src/cryptographic.js';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { ReorgInfo } from '../../src/sync-types.js';
+import type {
+  Block,
+  GenesisConfig,
+  UTXOPersistenceConfig,
+} from '../../src/types.js';
+
+describe('Blockchain chain reorganization', () => {
+  let blockchain: Blockchain;
+  let persistence: UTXOPersistenceManager;
+
+  const fundedKeyPair = CryptographicService.generateKeyPair('secp256k1');
+  const fundedAddress = CryptographicService.generateAddress(
+    fundedKeyPair.publicKey,
+    'secp256k1'
+  );
+
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const testGenesisConfig: GenesisConfig = {
+    chainId: 'reorg-test-v1',
+    networkName: 'Reorg Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: fundedAddress,
+        amount: 1000000,
+        description: 'Reorg test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 10,
+      halvingInterval: 210000,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'Reorg Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'testnet',
+    },
+  };
+
+  const mineCompetingBlock = (parent: Block, miner: string): Block => {
+    const block = BlockManager.createBlock(
+      parent.index + 1,
+      [
+        {
+          id: `competing-reward-${parent.index + 1}-${miner}-${Math.random()}`,
+          from: 'network',
+          to: miner,
+          amount: 10,
+          fee: 0,
+          timestamp: Date.now(),
+          signature: 'utxo-signed',
+          nonce: 0,
+        },
+      ],
+      parent.hash,
+      parent.difficulty,
+      miner,
+      undefined,
+      undefined,
+      parent.timestamp + 1000
+    );
+    return BlockManager.mineBlock(block);
+  };
+
+  beforeEach(async () => {
+    const database = DatabaseFactory.create(testConfig);
+    persistence = new UTXOPersistenceManager(database, {
+      compressionType: 'none',
+      cryptographicAlgorithm: 'secp256k1',
+    });
+
+    blockchain = new Blockchain(
+      persistence,
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      testGenesisConfig
+    );
+    await blockchain.waitForInitialization();
+  });
+
+  afterEach(async () => {
+    await blockchain.close();
+  });
+
+  it('should store a competing block at the same height as a side chain block', async () => {
+    const genesis = blockchain.getLatestBlock();
+    const mainBlock = blockchain.minePendingUTXOTransactions('miner-a')!;
+    const competingBlock = mineCompetingBlock(genesis, 'miner-b');
+
+    const result = await blockchain.addBlock(competingBlock);
+
+    expect(result.isValid).toBe(true);
+    expect(blockchain.getLatestBlock().hash).toBe(mainBlock.hash);
+    expect(blockchain.getSideChainBlocks().map(b => b.hash)).toEqual([
+      competingBlock.hash,
+    ]);
+  });
+
+  it('should reject a block that is already known', async () => {
+    const genesis = blockchain.getLatestBlock();
+    blockchain.minePendingUTXOTransactions('miner-a');
+    const competingBlock = mineCompetingBlock(genesis, 'miner-b');
+
+    await blockchain.addBlock(competingBlock);
+    const result = await blockchain.addBlock(competingBlock);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Block already known');
+  });
+
+  it('should reorganize onto a branch with more cumulative work', async () => {
+    const genesis = blockchain.getLatestBlock();
+    const oldTip = blockchain.minePendingUTXOTransactions('miner-a')!;
+    const workBefore = blockchain.getChainWork();
+
+    const sideBlock1 = mineCompetingBlock(genesis, 'miner-b');
+    const sideBlock2 = mineCompetingBlock(sideBlock1, 'miner-b');
+
+    const reorgs: ReorgInfo[] = [];
+    blockchain.on('reorg', (info: ReorgInfo) => reorgs.push(info));
+
+    await blockchain.addBlock(sideBlock1);
+    const result = await blockchain.addBlock(sideBlock2);
+
+    expect(result.isValid).toBe(true);
+    expect(blockchain.getLatestBlock().hash).toBe(sideBlock2.hash);
+    expect(blockchain.getBlocks().map(b => b.hash)).toEqual([
+      genesis.hash,
+      sideBlock1.hash,
+      sideBlock2.hash,
+    ]);
+    expect(blockchain.getChainWork()).toBeGreaterThan(workBefore);
+
+    expect(reorgs).toEqual([
+      {
+        oldTip: oldTip.hash,
+        newTip: sideBlock2.hash,
+        commonAncestor: genesis.hash,
+        orphanedBlocks: [oldTip.hash],
+        newBlocks: [sideBlock1.hash, sideBlock2.hash],
+      },
+    ]);
+    expect(blockchain.getSideChainBlocks().map(b => b.hash)).toEqual([
+      oldTip.hash,
+    ]);
+  });
+
+  it('should roll back the UTXO set and return orphaned transactions to the pending pool', async () => {
+    const genesis = blockchain.getLatestBlock();
+    const transaction = blockchain.createUTXOTransaction(
+      fundedAddress,
+      'lora1recipient0000000000000000000000000',
+      100,
+      bytesToHex(fundedKeyPair.privateKey)
+    );
+    const addResult = await blockchain.addTransaction(transaction);
+    expect(addResult.isValid).toBe(true);
+
+    blockchain.minePendingUTXOTransactions('miner-a');
+    expect(
+      blockchain.getBalance('lora1recipient0000000000000000000000000')
+    ).toBe(100);
+    expect(blockchain.getBalance('miner-a')).toBe(10 + transaction.fee);
+    expect(blockchain.getPendingTransactions()).toHaveLength(0);
+
+    const sideBlock1 = mineCompetingBlock(genesis, 'miner-b');
+    const sideBlock2 = mineCompetingBlock(sideBlock1, 'miner-b');
+    await blockchain.addBlock(sideBlock1);
+    await blockchain.addBlock(sideBlock2);
+
+    expect(
+      blockchain.getBalance('lora1recipient0000000000000000000000000')
+    ).toBe(0);
+    expect(blockchain.getBalance('miner-a')).toBe(0);
+    expect(blockchain.getBalance('miner-b')).toBe(20);
+    expect(blockchain.getBalance(fundedAddress)).toBe(1000000);
+
+    const pending = blockchain.getPendingTransactions();
+    expect(pending.map(tx => tx.id)).toEqual([transaction.id]);
+  });
+
+  it('should connect payments from earlier side chain blocks when reorganizing', async () => {
+    const recipient = 'lora1recipient0000000000000000000000000';
+    const source = new Blockchain(
+      new UTXOPersistenceManager(DatabaseFactory.create(testConfig), {
+        compressionType: 'none',
+        cryptographicAlgorithm: 'secp256k1',
+      }),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      testGenesisConfig
+    );
+    await source.waitForInitialization();
+
+    try {
+      const payment = source.createUTXOTransaction(
+        fundedAddress,
+        recipient,
+        100,
+        bytesToHex(fundedKeyPair.privateKey)
+      );
+      expect((await source.addTransaction(payment)).isValid).toBe(true);
+      const sideBlock1 = source.minePendingUTXOTransactions('miner-b')!;
+      const sideBlock2 = source.minePendingUTXOTransactions('miner-b')!;
+      const { utxoTransactions } = await source.createBlockBundle(1);
+      const formsOf = (block: Block): typeof utxoTransactions =>
+        utxoTransactions.filter(tx =>
+          block.transactions.some(blockTx => blockTx.id === tx.id)
+        );
+      blockchain.minePendingUTXOTransactions('miner-a');
+
+      // The payment reaches this node only with the first side block
+      expect(
+        await blockchain.addBlock(sideBlock1, formsOf(sideBlock1))
+      ).toEqual({ isValid: true, errors: [] });
+      expect(blockchain.getPendingTransactions()).toHaveLength(0);
+      expect(
+        await blockchain.addBlock(sideBlock2, formsOf(sideBlock2))
+      ).toEqual({ isValid: true, errors: [] });
+
+      expect(blockchain.getLatestBlock().hash).toBe(sideBlock2.hash);
+      expect(blockchain.getBalance(recipient)).toBe(100);
+      expect(blockchain.getUTXOManager().getUTXORoot()).toBe(
+        source.getUTXOManager().getUTXORoot()
+      );
+    } finally {
+      await source.close();
+    }
+  });
+
+  it('should not reorganize onto a branch with equal work', async () => {
+    const genesis = blockchain.getLatestBlock();
+    const mainBlock = blockchain.minePendingUTXOTransactions('miner-a')!;
+    const competingBlock = mineCompetingBlock(genesis, 'miner-b');
+
+    let reorged = false;
+    blockchain.on('reorg', () => {
+      reorged = true;
+    });
+    await blockchain.addBlock(competingBlock);
+
+    expect(reorged).toBe(false);
+    expect(blockchain.getLatestBlock().hash).toBe(mainBlock.hash);
+    expect(blockchain.getBalance('miner-a')).toBe(10);
+    expect(blockchain.getBalance('miner-b')).toBe(0);
+  });
+
+  it('should reject an invalid side chain block', async () => {
+    const genesis = blockchain.getLatestBlock();
+    blockchain.minePendingUTXOTransactions('miner-a');
+    const competingBlock = {
+      ...mineCompetingBlock(genesis, 'miner-b'),
+      nonce: 123456789,
+    };
+
+    const result = await blockchain.addBlock(competingBlock);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Block hash is invalid');
+    expect(blockchain.getSideChainBlocks()).toHaveLength(0);
+  });
+
+  it('should disconnect the tip and restore the UTXOs it spent', async () => {
+    const recipient = 'lora1recipient0000000000000000000000000';
+    const transaction = blockchain.createUTXOTransaction(
+      fundedAddress,
+      recipient,
+      100,
+      bytesToHex(fundedKeyPair.privateKey)
+    );
+    await blockchain.addTransaction(transaction);
+    const minedBlock = blockchain.minePendingUTXOTransactions('miner-a')!;
+
+    const disconnected = await blockchain.disconnectBlock();
+
+    expect(disconnected.hash).toBe(minedBlock.hash);
+    expect(blockchain.getLatestBlock().index).toBe(0);
+    expect(blockchain.getBalance(recipient)).toBe(0);
+    expect(blockchain.getBalance('miner-a')).toBe(0);
+    expect(blockchain.getBalance(fundedAddress)).toBe(1000000);
+    expect(blockchain.getPendingTransactions().map(tx => tx.id)).toEqual([
+      transaction.id,
+    ]);
+
+    const spentInput = transaction.inputs[0];
+    expect(
+      await persistence.getUTXO(spentInput.previousTxId, spentInput.outputIndex)
+    ).toMatchObject({ blockHeight: 0 });
+    expect(await persistence.getBlockUndo(1)).toBeNull();
+    expect(await persistence.getBlock(1)).toBeNull();
+  });
+
+  it('should allow a disconnected block to be connected again', async () => {
+    const minedBlock = blockchain.minePendingUTXOTransactions('miner-a')!;
+    await blockchain.disconnectBlock();
+
+    const result = await blockchain.addBlock(minedBlock);
+
+    expect(result.isValid).toBe(true);
+    expect(blockchain.getBalance('miner-a')).toBe(10);
+  });
+
+  it('should refuse to disconnect the genesis block', async () => {
+    await expect(blockchain.disconnectBlock()).rejects.toThrow(
+      'Cannot disconnect the genesis block'
+    );
+  });
+
+  it('should reorganize with undo data stored before the chain was reloaded', async () => {
+    const genesis = blockchain.getLatestBlock();
+    const transaction = blockchain.createUTXOTransaction(
+      fundedAddress,
+      'lora1recipient0000000000000000000000000',
+      100,
+      bytesToHex(fundedKeyPair.privateKey)
+    );
+    await blockchain.addTransaction(transaction);
+    blockchain.minePendingUTXOTransactions('miner-a');
+
+    await blockchain.load();
+    expect(blockchain.getBalance('miner-a')).toBe(10 + transaction.fee);
+
+    const sideBlock1 = mineCompetingBlock(genesis, 'miner-b');
+    const sideBlock2 = mineCompetingBlock(sideBlock1, 'miner-b');
+    await blockchain.addBlock(sideBlock1);
+    const result = await blockchain.addBlock(sideBlock2);
+
+    expect(result.isValid).toBe(true);
+    expect(blockchain.getLatestBlock().hash).toBe(sideBlock2.hash);
+    expect(blockchain.getBalance('miner-a')).toBe(0);
+    expect(blockchain.getBalance(fundedAddress)).toBe(1000000);
+    expect(blockchain.getPendingTransactions().map(tx => tx.id)).toEqual([
+      transaction.id,
+    ]);
+    expect(await persistence.getBlock(1)).toMatchObject({
+      hash: sideBlock1.hash,
+    });
+  });
+});
@@ -0,0 +1,397 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ChainCheckpoints } from '../../src/checkpoints.js';
+import { ProofOfAuthorityConsensus } from '../../src/consensus.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import { CryptographicService } from '../../src/cryptographic.js';
+import { UTXOTransactionManager } from '../../src/utxo-transaction.js';
+import { bytesToHex } from '@noble/hashes/utils';
+import type {
+  Block,
+  BlockHeader,
+  GenesisConfig,
+  Transaction,
+  UTXOPersistenceConfig,
+  UTXOTransaction,
+} from '../../src/types.js';
+
+const hashA = 'a'.repeat(64);
+const hashB = 'b'.repeat(64);
+
+describe('ChainCheckpoints', () => {
+  const checkpoints = new ChainCheckpoints({
+    checkpoints: [
+      { height: 10, hash: hashA },
+      { height: 5, hash: hashB },
+    ],
+    assumeValid: { height: 20, hash: hashB },
+  });
+
+  it('should enforce the assume-valid block as a checkpoint', () => {
+    expect(checkpoints.getCheckpoints()).toEqual([
+      { height: 5, hash: hashB },
+      { height: 10, hash: hashA },
+      { height: 20, hash: hashB },
+    ]);
+    expect(checkpoints.getAssumeValid()).toEqual({ height: 20, hash: hashB });
+  });
+
+  it('should report blocks that conflict with a checkpoint', () => {
+    expect(checkpoints.checkBlock({ index: 10, hash: hashA })).toBeNull();
+    expect(checkpoints.checkBlock({ index: 11, hash: hashB })).toBeNull();
+    expect(checkpoints.checkBlock({ index: 10, hash: hashB })).toBe(
+      `Block 10 conflicts with checkpoint ${hashA}`
+    );
+  });
+
+  it('should find the last checkpoint at or below a height', () => {
+    expect(checkpoints.getLastCheckpoint(4)).toBeNull();
+    expect(checkpoints.getLastCheckpoint(10)).toEqual({
+      height: 10,
+      hash: hashA,
+    });
+    expect(checkpoints.getLastCheckpoint(19)?.height).toBe(10);
+  });
+
+  it('should skip signatures only for ancestors of the assume-valid block', () => {
+    // Header chain in which the assume-valid block descends from hashA
+    const headers = {
+      getAncestor: (hash: string, height: number): BlockHeader | null =>
+        hash === hashB ? ({ index: height, hash: hashA } as BlockHeader) : null,
+    };
+    const unknownHeaders = { getAncestor: (): null => null };
+
+    expect(
+      checkpoints.shouldSkipSignatures({ index: 19, hash: hashA }, headers)
+    ).toBe(true);
+    expect(
+      checkpoints.shouldSkipSignatures({ index: 19, hash: hashB }, headers)
+    ).toBe(false);
+    expect(
+      checkpoints.shouldSkipSignatures({ index: 20, hash: hashB }, headers)
+    ).toBe(false);
+    expect(
+      checkpoints.shouldSkipSignatures(
+        { index: 19, hash: hashA },
+        unknownHeaders
+      )
+    ).toBe(false);
+    expect(
+      new ChainCheckpoints().shouldSkipSignatures(
+        { index: 1, hash: hashA },
+        headers
+      )
+    ).toBe(false);
+  });
+});
+
+describe('Blockchain checkpoints', () => {
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const genesisConfig: GenesisConfig = {
+    chainId: 'checkpoint-test-v1',
+    networkName: 'Checkpoint Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'lora1checkpoint00000000000000000000000000000',
+        amount: 1000000,
+        description: 'Checkpoint test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 1000,
+      halvingInterval: 210000,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'Checkpoint Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'private',
+    },
+  };
+
+  const withNetworkParams = (
+    config: GenesisConfig,
+    params: Partial<GenesisConfig['networkParams']>
+  ): GenesisConfig => ({
+    ...config,
+    networkParams: { ...config.networkParams, ...params },
+  });
+
+  const blockchains: Blockchain[] = [];
+
+  const createBlockchain = async (
+    config: GenesisConfig
+  ): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(DatabaseFactory.create(testConfig), {
+        compressionType: 'none',
+        cryptographicAlgorithm: 'secp256k1',
+      }),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      config
+    );
+    await blockchain.waitForInitialization();
+    blockchains.push(blockchain);
+    return blockchain;
+  };
+
+  const mineBlocks = async (
+    config: GenesisConfig,
+    count: number,
+    minerAddress: string
+  ): Promise<Block[]> => {
+    const producer = await createBlockchain(config);
+    for (let i = 0; i < count; i++) {
+      producer.minePendingTransactions(minerAddress);
+    }
+    return producer.getBlocks().slice(1);
+  };
+
+  afterEach(async () => {
+    while (blockchains.length > 0) {
+      await blockchains.pop()!.close();
+    }
+  });
+
+  it('should accept a chain that matches its checkpoints', async () => {
+    const blocks = await mineBlocks(genesisConfig, 3, 'miner');
+    const follower = await createBlockchain(
+      withNetworkParams(genesisConfig, {
+        checkpoints: [{ height: 2, hash: blocks[1].hash }],
+      })
+    );
+
+    for (const block of blocks) {
+      expect((await follower.addBlock(block)).isValid).toBe(true);
+    }
+    expect(follower.validateChain().isValid).toBe(true);
+  });
+
+  it('should reject a chain that conflicts with a checkpoint', async () => {
+    const blocks = await mineBlocks(genesisConfig, 2, 'miner');
+    const follower = await createBlockchain(
+      withNetworkParams(genesisConfig, {
+        checkpoints: [{ height: 2, hash: hashA }],
+      })
+    );
+
+    expect((await follower.addBlock(blocks[0])).isValid).toBe(true);
+    const result = await follower.addBlock(blocks[1]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain(
+      `Block 2 conflicts with checkpoint ${hashA}`
+    );
+    expect(follower.getBlocks()).toHaveLength(2);
+  });
+
+  it('should reject forks below a passed checkpoint', async () => {
+    const blocks = await mineBlocks(genesisConfig, 3, 'miner');
+    const competingBlocks = await mineBlocks(genesisConfig, 1, 'competitor');
+    const follower = await createBlockchain(
+      withNetworkParams(genesisConfig, {
+        checkpoints: [{ height: 2, hash: blocks[1].hash }],
+      })
+    );
+    for (const block of blocks) {
+      await follower.addBlock(block);
+    }
+
+    const result = await follower.addBlock(competingBlocks[0]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain(
+      'Fork point at block 0 is below the checkpoint at height 2'
+    );
+  });
+
+  describe('assume-valid', () => {
+    const createSigner = (): { privateKey: string; address: string } => {
+      const keyPair = CryptographicService.generateKeyPair('secp256k1');
+      return {
+        privateKey: bytesToHex(keyPair.privateKey),
+        address: CryptographicService.generateAddress(
+          keyPair.publicKey,
+          'secp256k1'
+        ),
+      };
+    };
+
+    const signer = createSigner();
+    const poaGenesisConfig: GenesisConfig = {
+      ...genesisConfig,
+      chainId: 'checkpoint-poa-test-v1',
+      consensus: { engine: 'poa', signers: [signer.address] },
+    };
+
+    // Blocks a second apart; the first also carries the given transactions
+    const sealBlocks = (
+      count: number,
+      transactions: Transaction[] = []
+    ): Block[] => {
+      const engine =
+        ProofOfAuthorityConsensus.fromGenesisConfig(poaGenesisConfig);
+      engine.setSigner(signer.privateKey);
+      const chain = [BlockManager.createGenesisBlock(poaGenesisConfig)];
+      for (let i = 0; i < count; i++) {
+        const parent = chain[chain.length - 1];
+        chain.push(
+          engine.sealBlock(
+            BlockManager.createBlock(
+              parent.index + 1,
+              [
+                {
+                  id: `coinbase-${parent.index + 1}`,
+                  from: 'network',
+                  to: signer.address,
+                  amount: 1000,
+                  fee: 0,
+                  timestamp: Date.now(),
+                  signature: 'utxo-signed',
+                  nonce: 0,
+                },
+                ...(i === 0 ? transactions : []),
+              ],
+              parent.hash,
+              1,
+              signer.address,
+              undefined,
+              undefined,
+              parent.timestamp + 1000
+            ),
+            chain
+          )
+        );
+      }
+      return chain.slice(1);
+    };
+
+    // The signature is not part of the block hash, so this keeps the hash
+    const forgeSignature = (block: Block): Block => ({
+      ...block,
+      signature: `${'00'.repeat(64)}:${'02'.repeat(33)}`,
+    });
+
+    const withAssumeValid = (block: Block): GenesisConfig =>
+      withNetworkParams(poaGenesisConfig, {
+        assumeValid: { height: block.index, hash: block.hash },
+      });
+
+    it('should skip signature checks for ancestors of the assume-valid block', async () => {
+      const blocks = sealBlocks(2);
+      const follower = await createBlockchain(withAssumeValid(blocks[1]));
+      await follower.addHeaders(blocks.map(BlockManager.createBlockHeader));
+
+      expect(await follower.addBlock(forgeSignature(blocks[0]))).toEqual({
+        isValid: true,
+        errors: [],
+      });
+
+      const result = await follower.addBlock(forgeSignature(blocks[1]));
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        `Block signature does not match signer ${signer.address}`
+      );
+      expect((await follower.addBlock(blocks[1])).isValid).toBe(true);
+    });
+
+    it('should verify signatures until the assume-valid header is known', async () => {
+      const blocks = sealBlocks(2);
+      const follower = await createBlockchain(withAssumeValid(blocks[1]));
+
+      const result = await follower.addBlock(forgeSignature(blocks[0]));
+
+      expect(result.errors).toContain(
+        `Block signature does not match signer ${signer.address}`
+      );
+    });
+
+    it('should skip transaction scripts of ancestors of the assume-valid block', async () => {
+      const verifier = await createBlockchain(poaGenesisConfig);
+      const [allocation] = verifier
+        .getUTXOManager()
+        .getUTXOsForAddress(genesisConfig.initialAllocations[0].address);
+      const spend: UTXOTransaction = {
+        id: '',
+        inputs: [
+          {
+            previousTxId: allocation.txId,
+            outputIndex: allocation.outputIndex,
+            unlockingScript: 'deadbeef',
+            sequence: 0xffffffff,
+          },
+        ],
+        outputs: [
+          {
+            value: allocation.value,
+            lockingScript: 'recipient',
+            outputIndex: 0,
+          },
+        ],
+        lockTime: 0,
+        timestamp: Date.now(),
+        fee: 0,
+      };
+      spend.id = UTXOTransactionManager.calculateTransactionId(spend);
+      const blocks = sealBlocks(2, [
+        {
+          id: spend.id,
+          from: 'utxo-based',
+          to: 'recipient',
+          amount: allocation.value,
+          fee: 0,
+          timestamp: spend.timestamp,
+          signature: 'utxo-signed',
+          nonce: 0,
+        },
+      ]);
+
+      const verified = await verifier.addBlock(blocks[0], [spend]);
+      expect(verified.isValid).toBe(false);
+      expect(verified.errors[0]).toContain(
+        `Block 1 transaction ${spend.id} is invalid`
+      );
+
+      const follower = await createBlockchain(withAssumeValid(blocks[1]));
+      await follower.addHeaders(blocks.map(BlockManager.createBlockHeader));
+      expect(await follower.addBlock(blocks[0], [spend])).toEqual({
+        isValid: true,
+        errors: [],
+      });
+      expect(follower.getBalance('recipient')).toBe(allocation.value);
+    });
+
+    it('should verify every signature without an assume-valid block', async () => {
+      const blocks = sealBlocks(1);
+      const follower = await createBlockchain(poaGenesisConfig);
+
+      const result = await follower.addBlock(forgeSignature(blocks[0]));
+
+      expect(result.errors).toContain(
+        `Block signature does not match signer ${signer.address}`
+      );
+    });
+  });
+});
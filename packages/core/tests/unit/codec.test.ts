@@ -0,0 +1,375 @@
+import { describe, it, expect } from 'vitest';
+import { BinaryCodec, CODEC_VERSION, CodecType } from '../../src/codec.js';
+import { BlockManager } from '../../src/block.js';
+import type {
+  Block,
+  BlockHeader,
+  Transaction,
+  UTXO,
+  UTXOTransaction,
+} from '../../src/types.js';
+
+describe('BinaryCodec', () => {
+  const utxoTransaction: UTXOTransaction = {
+    id: 'a3f1c2d4e5b6a7980112233445566778899aabbccddeeff00112233445566778',
+    inputs: [
+      {
+        previousTxId:
+          '00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff',
+        outputIndex: 1,
+        unlockingScript: 'deadbeef:02abcdef',
+        sequence: 0xffffffff,
+      },
+    ],
+    outputs: [
+      {
+        value: 4_250_000_000,
+        lockingScript: '1RecipientAddress',
+        outputIndex: 0,
+      },
+      { value: 749_900_000, lockingScript: '1ChangeAddress', outputIndex: 1 },
+    ],
+    lockTime: 0,
+    timestamp: 1700000000000,
+    fee: 100,
+  };
+
+  const legacyTransaction: Transaction = {
+    id: 'legacy-tx-1',
+    from: 'network',
+    to: 'miner-address',
+    amount: 10,
+    fee: 0,
+    timestamp: 1700000000500,
+    signature: 'utxo-signed',
+    nonce: 0,
+  };
+
+  const createBlock = (): Block => ({
+    index: 5,
+    timestamp: 1700000001000,
+    transactions: [legacyTransaction, { ...legacyTransaction, id: 'ab12' }],
+    previousHash:
+      '0000aabbccddeeff00112233445566778899aabbccddeeff0011223344556677',
+    hash: '0000ffeeddccbbaa99887766554433221100ffeeddccbbaa9988776655443322',
+    nonce: 123456,
+    merkleRoot:
+      '1111aabbccddeeff00112233445566778899aabbccddeeff0011223344556677',
+    difficulty: 2,
+    validator: 'validator-node',
+    utxoRoot:
+      '2222aabbccddeeff00112233445566778899aabbccddeeff0011223344556677',
+    version: 0x20000001,
+    bits: 0x1f00ffff,
+  });
+
+  describe('UTXOTransaction', () => {
+    it('should round-trip a transaction', () => {
+      const encoded = BinaryCodec.encodeUTXOTransaction(utxoTransaction);
+      const decoded = BinaryCodec.decodeUTXOTransaction(encoded);
+
+      expect(decoded).toEqual(utxoTransaction);
+    });
+
+    it('should produce identical bytes regardless of key order', () => {
+      const reordered: UTXOTransaction = {
+        fee: utxoTransaction.fee,
+        timestamp: utxoTransaction.timestamp,
+        lockTime: utxoTransaction.lockTime,
+        outputs: utxoTransaction.outputs.map(output => ({
+          outputIndex: output.outputIndex,
+          lockingScript: output.lockingScript,
+          value: output.value,
+        })),
+        inputs: utxoTransaction.inputs,
+        id: utxoTransaction.id,
+      };
+
+      expect(BinaryCodec.encodeUTXOTransaction(reordered)).toEqual(
+        BinaryCodec.encodeUTXOTransaction(utxoTransaction)
+      );
+    });
+
+    it('should be much smaller than the JSON encoding', () => {
+      const encoded = BinaryCodec.encodeUTXOTransaction(utxoTransaction);
+      const json = new TextEncoder().encode(JSON.stringify(utxoTransaction));
+
+      expect(encoded.length).toBeLessThan(json.length / 2);
+    });
+
+    it('should start with the codec version and type', () => {
+      const encoded = BinaryCodec.encodeUTXOTransaction(utxoTransaction);
+
+      expect(encoded[0]).toBe(CODEC_VERSION);
+      expect(encoded[1]).toBe(CodecType.UTXO_TRANSACTION);
+    });
+
+    it('should reject non-integer fields', () => {
+      expect(() =>
+        BinaryCodec.encodeUTXOTransaction({ ...utxoTransaction, lockTime: -1 })
+      ).toThrow(
+        'Cannot encode lockTime: expected a non-negative safe integer, got -1'
+      );
+    });
+  });
+
+  describe('Transaction', () => {
+    it('should round-trip a legacy transaction', () => {
+      const encoded = BinaryCodec.encodeTransaction(legacyTransaction);
+
+      expect(BinaryCodec.decodeTransaction(encoded)).toEqual(legacyTransaction);
+    });
+  });
+
+  describe('BlockHeader', () => {
+    it('should round-trip a header with optional fields', () => {
+      const header: BlockHeader = BlockManager.createBlockHeader(createBlock());
+      header.difficulty = 2;
+
+      const decoded = BinaryCodec.decodeBlockHeader(
+        BinaryCodec.encodeBlockHeader(header)
+      );
+
+      expect(decoded).toEqual(header);
+    });
+
+    it('should round-trip a header without optional fields', () => {
+      const header: BlockHeader = {
+        index: 0,
+        timestamp: 1700000000000,
+        previousHash: '0',
+        merkleRoot: 'e3b0c44298fc1c149afbf4c8996fb924',
+        hash: '00ab',
+        nonce: 0,
+        transactionCount: 0,
+      };
+
+      const decoded = BinaryCodec.decodeBlockHeader(
+        BinaryCodec.encodeBlockHeader(header)
+      );
+
+      expect(decoded).toEqual(header);
+      expect('difficulty' in decoded).toBe(false);
+      expect('validator' in decoded).toBe(false);
+      expect('utxoRoot' in decoded).toBe(false);
+      expect('version' in decoded).toBe(false);
+      expect('bits' in decoded).toBe(false);
+    });
+  });
+
+  describe('UTXO', () => {
+    const utxo: UTXO = {
+      txId: utxoTransaction.id,
+      outputIndex: 1,
+      value: 749_900_000,
+      lockingScript: '1ChangeAddress',
+      blockHeight: 42,
+      isSpent: false,
+      isCoinbase: false,
+    };
+
+    it('should round-trip an unspent output', () => {
+      expect(BinaryCodec.decodeUTXO(BinaryCodec.encodeUTXO(utxo))).toEqual(
+        utxo
+      );
+    });
+
+    it('should keep an absent coinbase flag absent', () => {
+      const { isCoinbase: _isCoinbase, ...legacy } = utxo;
+
+      const decoded = BinaryCodec.decodeUTXO(BinaryCodec.encodeUTXO(legacy));
+
+      expect(decoded).toEqual(legacy);
+      expect('isCoinbase' in decoded).toBe(false);
+    });
+
+    it('should not encode the spent flag', () => {
+      expect(BinaryCodec.encodeUTXO({ ...utxo, isSpent: true })).toEqual(
+        BinaryCodec.encodeUTXO(utxo)
+      );
+    });
+  });
+
+  describe('Block', () => {
+    it('should round-trip a block with transactions', () => {
+      const block = createBlock();
+
+      expect(BinaryCodec.decodeBlock(BinaryCodec.encodeBlock(block))).toEqual(
+        block
+      );
+    });
+
+    it('should round-trip a mined block and keep its hash valid', () => {
+      const mined = BlockManager.mineBlock(
+        BlockManager.createBlock(1, [legacyTransaction], 'genesis-hash', 1)
+      );
+
+      const decoded = BinaryCodec.decodeBlock(BinaryCodec.encodeBlock(mined));
+
+      expect(decoded).toEqual(mined);
+      expect(BlockManager.calculateHash(decoded)).toBe(mined.hash);
+    });
+
+    it('should round-trip a signed block carrying a signer vote', () => {
+      const block: Block = {
+        ...createBlock(),
+        signature: 'deadbeef:02abcdef',
+        vote: { address: '1SignerAddress', authorize: false },
+      };
+
+      const decoded = BinaryCodec.decodeBlock(BinaryCodec.encodeBlock(block));
+
+      expect(decoded).toEqual(block);
+      expect(
+        BinaryCodec.decodeBlockHeader(
+          BinaryCodec.encodeBlockHeader(BlockManager.createBlockHeader(block))
+        ).vote
+      ).toEqual(block.vote);
+    });
+
+    it('should reject data encoded as a different type', () => {
+      const encoded = BinaryCodec.encodeUTXOTransaction(utxoTransaction);
+
+      expect(() => BinaryCodec.decodeBlock(encoded)).toThrow(
+        `Unexpected codec type: expected ${CodecType.BLOCK}, got ${CodecType.UTXO_TRANSACTION}`
+      );
+    });
+  });
+
+  describe('Malformed input', () => {
+    it('should reject unsupported versions', () => {
+      const encoded = BinaryCodec.encodeBlock(createBlock());
+      encoded[0] = CODEC_VERSION + 1;
+
+      expect(() => BinaryCodec.decodeBlock(encoded)).toThrow(
+        `Unsupported codec version: ${CODEC_VERSION + 1}`
+      );
+    });
+
+    it('should reject truncated data', () => {
+      const encoded = BinaryCodec.encodeUTXOTransaction(utxoTransaction);
+
+      expect(() =>
+        BinaryCodec.decodeUTXOTransaction(encoded.slice(0, encoded.length - 1))
+      ).toThrow('Unexpected end of data while reading fee');
+    });
+
+    it('should reject trailing bytes', () => {
+      const encoded = BinaryCodec.encodeUTXOTransaction(utxoTransaction);
+      const padded = new Uint8Array([...encoded, 0]);
+
+      expect(() => BinaryCodec.decodeUTXOTransaction(padded)).toThrow(
+        'Unexpected 1 trailing bytes'
+      );
+    });
+  });
+
+  describe('Block hash preimage', () => {
+    it('should place the nonce between the prefix and suffix parts', () => {
+      const block = { ...createBlock(), nonce: 300 };
+      const { prefix, suffix } =
+        BinaryCodec.encodeBlockHashPreimageParts(block);
+
+      expect(BinaryCodec.encodeBlockHashPreimage(block)).toEqual(
+        Uint8Array.from([...prefix, 0xac, 0x02, ...suffix])
+      );
+    });
+
+    it('should commit to every header field except the hash and signature', () => {
+      const block = createBlock();
+      const baseline = BlockManager.calculateHash(block);
+
+      expect(BlockManager.calculateHash({ ...block, nonce: 1 })).not.toBe(
+        baseline
+      );
+      expect(
+        BlockManager.calculateHash({ ...block, validator: undefined })
+      ).not.toBe(baseline);
+      expect(BlockManager.calculateHash({ ...block, hash: 'ignored' })).toBe(
+        baseline
+      );
+      expect(
+        BlockManager.calculateHash({
+          ...block,
+          vote: { address: '1SignerAddress', authorize: true },
+        })
+      ).not.toBe(baseline);
+      expect(
+        BlockManager.calculateHash({ ...block, utxoRoot: 'ff'.repeat(32) })
+      ).not.toBe(baseline);
+      expect(
+        BlockManager.calculateHash({ ...block, version: 0x20000002 })
+      ).not.toBe(baseline);
+      expect(
+        BlockManager.calculateHash({ ...block, bits: 0x1f00fffe })
+      ).not.toBe(baseline);
+      expect(
+        BlockManager.calculateHash({ ...block, signature: 'deadbeef:02abcdef' })
+      ).toBe(baseline);
+    });
+  });
+
+  describe('Transaction ID and signature hash preimages', () => {
+    it('should leave unlocking scripts and the ID out of the ID preimage', () => {
+      const baseline = BinaryCodec.encodeTransactionIdPreimage(utxoTransaction);
+      const resigned = {
+        ...utxoTransaction,
+        id: 'ff'.repeat(32),
+        inputs: [{ ...utxoTransaction.inputs[0], unlockingScript: 'other' }],
+      };
+
+      expect(baseline.slice(0, 2)).toEqual(
+        Uint8Array.from([CODEC_VERSION, CodecType.TRANSACTION_ID_PREIMAGE])
+      );
+      expect(BinaryCodec.encodeTransactionIdPreimage(resigned)).toEqual(
+        baseline
+      );
+      expect(
+        BinaryCodec.encodeTransactionIdPreimage({
+          ...utxoTransaction,
+          lockTime: 1,
+        })
+      ).not.toEqual(baseline);
+    });
+
+    it('should commit each signature hash to its input, the fee and the spent output', () => {
+      const spentOutput = {
+        lockingScript: '1SpenderAddress',
+        value: 5_000_000_000,
+      };
+      const baseline = BinaryCodec.encodeSignatureHashPreimage(
+        utxoTransaction,
+        0,
+        spentOutput
+      );
+
+      for (const changed of [
+        BinaryCodec.encodeSignatureHashPreimage(
+          utxoTransaction,
+          1,
+          spentOutput
+        ),
+        BinaryCodec.encodeSignatureHashPreimage(
+          { ...utxoTransaction, fee: 101 },
+          0,
+          spentOutput
+        ),
+        BinaryCodec.encodeSignatureHashPreimage(utxoTransaction, 0, {
+          ...spentOutput,
+          value: 1,
+        }),
+      ]) {
+        expect(changed).not.toEqual(baseline);
+      }
+    });
+
+    it('should refuse to encode values that are not base units', () => {
+      expect(() =>
+        BinaryCodec.encodeTransactionIdPreimage({
+          ...utxoTransaction,
+          outputs: [{ value: 0.5, lockingScript: '1Address', outputIndex: 0 }],
+        })
+      ).toThrow('Cannot encode output value');
+    });
+  });
+});
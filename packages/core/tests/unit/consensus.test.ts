@@ -0,0 +1,479 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  ConsensusFactory,
+  DIFF_IN_TURN,
+  DIFF_OUT_OF_TURN,
+  ProofOfAuthorityConsensus,
+  ProofOfWorkConsensus,
+} from '../../src/consensus.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import { CryptographicService, type KeyPair } from '../../src/cryptographic.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type {
+  Block,
+  GenesisConfig,
+  UTXOPersistenceConfig,
+} from '../../src/types.js';
+
+describe('Consensus', () => {
+  const createSigner = (): { keyPair: KeyPair; address: string } => {
+    const keyPair = CryptographicService.generateKeyPair('secp256k1');
+    return {
+      keyPair,
+      address: CryptographicService.generateAddress(
+        keyPair.publicKey,
+        'secp256k1'
+      ),
+    };
+  };
+
+  const signers = [createSigner(), createSigner(), createSigner()];
+  const outsider = createSigner();
+  // Signers take turns in address order
+  const ordered = [...signers].sort((a, b) => (a.address < b.address ? -1 : 1));
+
+  const baseGenesisConfig: GenesisConfig = {
+    chainId: 'consensus-test-v1',
+    networkName: 'Consensus Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'lora1consensus0000000000000000000000000000',
+        amount: 1000000,
+        description: 'Consensus test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 1000,
+      halvingInterval: 210000,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'Consensus Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'private',
+    },
+  };
+
+  const poaGenesisConfig: GenesisConfig = {
+    ...baseGenesisConfig,
+    chainId: 'consensus-poa-test-v1',
+    consensus: {
+      engine: 'poa',
+      signers: signers.map(signer => signer.address),
+    },
+  };
+
+  const createEngine = (signer?: {
+    keyPair: KeyPair;
+  }): ProofOfAuthorityConsensus => {
+    const engine =
+      ProofOfAuthorityConsensus.fromGenesisConfig(poaGenesisConfig);
+    if (signer) {
+      engine.setSigner(bytesToHex(signer.keyPair.privateKey));
+    }
+    return engine;
+  };
+
+  const createNextBlock = (chain: Block[]): Block => {
+    const parent = chain[chain.length - 1];
+    return BlockManager.createBlock(parent.index + 1, [], parent.hash, 1);
+  };
+
+  // Re-hash and re-sign a block after changing its header
+  const resign = (block: Block, keyPair: KeyPair): Block => {
+    const resigned = { ...block };
+    resigned.hash = BlockManager.calculateHash(resigned);
+    const { signature } = CryptographicService.sign(
+      hexToBytes(resigned.hash),
+      keyPair.privateKey,
+      keyPair.algorithm
+    );
+    resigned.signature = `${bytesToHex(signature)}:${bytesToHex(keyPair.publicKey)}`;
+    return resigned;
+  };
+
+  describe('ConsensusFactory', () => {
+    it('should default to proof of work', () => {
+      expect(
+        ConsensusFactory.fromGenesisConfig(baseGenesisConfig)
+      ).toBeInstanceOf(ProofOfWorkConsensus);
+      expect(
+        ConsensusFactory.fromGenesisConfig(poaGenesisConfig)
+      ).toBeInstanceOf(ProofOfAuthorityConsensus);
+    });
+  });
+
+  describe('ProofOfWorkConsensus', () => {
+    it('should mine blocks that meet their difficulty', () => {
+      const engine = new ProofOfWorkConsensus();
+      const genesis = BlockManager.createGenesisBlock(baseGenesisConfig);
+      const block = BlockManager.createBlock(1, [], genesis.hash, 2);
+
+      const sealed = engine.sealBlock(block);
+
+      expect(sealed.hash.startsWith('00')).toBe(true);
+      expect(engine.validateBlock(sealed, [genesis]).isValid).toBe(true);
+      expect(engine.selectValidator()).toBeNull();
+    });
+  });
+
+  describe('ProofOfAuthorityConsensus', () => {
+    let genesis: Block;
+
+    beforeEach(() => {
+      genesis = BlockManager.createGenesisBlock(poaGenesisConfig);
+    });
+
+    it('should commit to the initial signers in the genesis block', () => {
+      expect(genesis.validator).toBe(
+        signers.map(signer => signer.address).join(',')
+      );
+      expect(createEngine().getSigners([genesis])).toEqual(
+        ordered.map(signer => signer.address)
+      );
+    });
+
+    it('should seal in-turn blocks with the higher difficulty', () => {
+      const chain = [genesis];
+      const inTurn = ordered[1];
+      expect(createEngine().getInTurnSigner(chain)).toBe(inTurn.address);
+
+      const block = createEngine(inTurn).sealBlock(
+        createNextBlock(chain),
+        chain
+      );
+
+      expect(block.validator).toBe(inTurn.address);
+      expect(block.difficulty).toBe(DIFF_IN_TURN);
+      expect(block.signature).toMatch(/^[0-9a-f]+:[0-9a-f]+$/);
+      expect(createEngine().validateBlock(block, chain)).toEqual({
+        isValid: true,
+        errors: [],
+      });
+    });
+
+    it('should let other signers seal out of turn', () => {
+      const chain = [genesis];
+      const block = createEngine(ordered[2]).sealBlock(
+        createNextBlock(chain),
+        chain
+      );
+
+      expect(block.difficulty).toBe(DIFF_OUT_OF_TURN);
+      expect(createEngine().validateBlock(block, chain).isValid).toBe(true);
+    });
+
+    it('should reject blocks from signers outside the signer set', () => {
+      const chain = [genesis];
+      expect(() =>
+        createEngine(outsider).sealBlock(createNextBlock(chain), chain)
+      ).toThrow(`Signer ${outsider.address} is not authorized`);
+
+      const forged = resign(
+        { ...createNextBlock(chain), validator: outsider.address },
+        outsider.keyPair
+      );
+      expect(createEngine().validateBlock(forged, chain).errors).toContain(
+        `Block signer ${outsider.address} is not authorized`
+      );
+    });
+
+    it('should reject blocks not signed by the named signer', () => {
+      const chain = [genesis];
+      const block = createEngine(ordered[1]).sealBlock(
+        createNextBlock(chain),
+        chain
+      );
+      const { signature } = CryptographicService.sign(
+        hexToBytes(block.hash),
+        ordered[2].keyPair.privateKey,
+        'secp256k1'
+      );
+      const forged = {
+        ...block,
+        signature: `${bytesToHex(signature)}:${bytesToHex(ordered[2].keyPair.publicKey)}`,
+      };
+
+      expect(createEngine().validateBlock(forged, chain).errors).toContain(
+        `Block signature does not match signer ${ordered[1].address}`
+      );
+      expect(
+        createEngine().validateBlock({ ...block, signature: undefined }, chain)
+          .errors
+      ).toContain(
+        `Block signature does not match signer ${ordered[1].address}`
+      );
+    });
+
+    it('should reject blocks claiming the wrong turn', () => {
+      const chain = [genesis];
+      const block = createEngine(ordered[2]).sealBlock(
+        createNextBlock(chain),
+        chain
+      );
+      const forged = resign(
+        { ...block, difficulty: DIFF_IN_TURN },
+        ordered[2].keyPair
+      );
+
+      expect(createEngine().validateBlock(forged, chain).errors).toContain(
+        `Invalid signer difficulty: expected ${DIFF_OUT_OF_TURN}, got ${DIFF_IN_TURN}`
+      );
+    });
+
+    it('should not let a signer seal blocks too close together', () => {
+      const chain = [genesis];
+      const signer = createEngine(ordered[1]);
+      chain.push(signer.sealBlock(createNextBlock(chain), chain));
+
+      expect(() => signer.sealBlock(createNextBlock(chain), chain)).toThrow(
+        `Signer ${ordered[1].address} has signed too recently`
+      );
+      const forged = resign(
+        {
+          ...createNextBlock(chain),
+          validator: ordered[1].address,
+          difficulty: DIFF_OUT_OF_TURN,
+        },
+        ordered[1].keyPair
+      );
+      expect(createEngine().validateBlock(forged, chain).errors).toContain(
+        `Signer ${ordered[1].address} has signed too recently`
+      );
+
+      const next = createEngine(ordered[2]).sealBlock(
+        createNextBlock(chain),
+        chain
+      );
+      expect(createEngine().validateBlock(next, chain).isValid).toBe(true);
+    });
+
+    it('should add a signer once a majority votes for it', () => {
+      const chain = [genesis];
+      const engines = ordered.map(signer => createEngine(signer));
+      engines.forEach(engine => engine.propose(outsider.address, true));
+
+      chain.push(engines[1].sealBlock(createNextBlock(chain), chain));
+      expect(chain[1].vote).toEqual({
+        address: outsider.address,
+        authorize: true,
+      });
+      expect(createEngine().getSigners(chain)).not.toContain(outsider.address);
+
+      chain.push(engines[2].sealBlock(createNextBlock(chain), chain));
+      expect(
+        createEngine().validateBlock(chain[2], chain.slice(0, 2)).isValid
+      ).toBe(true);
+      expect(createEngine().getSigners(chain)).toContain(outsider.address);
+
+      // The proposal no longer changes anything, so it is not cast again
+      chain.push(engines[0].sealBlock(createNextBlock(chain), chain));
+      expect(chain[3].vote).toBeUndefined();
+
+      const newSigner = createEngine(outsider);
+      const block = newSigner.sealBlock(createNextBlock(chain), chain);
+      expect(createEngine().validateBlock(block, chain).isValid).toBe(true);
+    });
+
+    it('should remove a signer once a majority votes against it', () => {
+      const chain = [genesis];
+      const removed = ordered[0].address;
+      const engines = ordered.map(signer => createEngine(signer));
+      engines.forEach(engine => engine.propose(removed, false));
+
+      chain.push(engines[1].sealBlock(createNextBlock(chain), chain));
+      chain.push(engines[2].sealBlock(createNextBlock(chain), chain));
+
+      expect(createEngine().getSigners(chain)).toEqual([
+        ordered[1].address,
+        ordered[2].address,
+      ]);
+      expect(() => engines[0].sealBlock(createNextBlock(chain), chain)).toThrow(
+        `Signer ${removed} is not authorized`
+      );
+    });
+
+    it('should reject votes that would not change the signer set', () => {
+      const chain = [genesis];
+      const block = createEngine(ordered[1]).sealBlock(
+        createNextBlock(chain),
+        chain
+      );
+      const forged = resign(
+        { ...block, vote: { address: ordered[2].address, authorize: true } },
+        ordered[1].keyPair
+      );
+
+      expect(createEngine().validateBlock(forged, chain).errors).toContain(
+        `Vote to add ${ordered[2].address} has no effect`
+      );
+    });
+
+    it('should select the in-turn signer among online nodes', () => {
+      const chain = [genesis];
+      const nodes = ordered.map(signer => ({
+        id: signer.address,
+        address: '127.0.0.1',
+        port: 3000,
+        type: 'full' as const,
+        isOnline: true,
+        lastSeen: Date.now(),
+      }));
+
+      expect(createEngine().selectValidator(nodes, chain)?.id).toBe(
+        ordered[1].address
+      );
+      expect(
+        createEngine().selectValidator(
+          nodes.map(node => ({ ...node, isOnline: false })),
+          chain
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('Blockchain with proof of authority', () => {
+    const testConfig: UTXOPersistenceConfig = {
+      enabled: true,
+      dbPath: ':memory:',
+      dbType: 'memory',
+      autoSave: true,
+      batchSize: 100,
+      compressionType: 'none',
+      utxoSetCacheSize: 1000,
+      cryptographicAlgorithm: 'secp256k1',
+      compactionStyle: 'size',
+    };
+    const blockchains: Blockchain[] = [];
+
+    const createBlockchain = async (
+      config: GenesisConfig
+    ): Promise<Blockchain> => {
+      const blockchain = new Blockchain(
+        new UTXOPersistenceManager(DatabaseFactory.create(testConfig), {
+          compressionType: 'none',
+          cryptographicAlgorithm: 'secp256k1',
+        }),
+        new UTXOManager(),
+        { targetBlockTime: 180 },
+        config
+      );
+      await blockchain.waitForInitialization();
+      blockchains.push(blockchain);
+      return blockchain;
+    };
+
+    afterEach(async () => {
+      while (blockchains.length > 0) {
+        await blockchains.pop()!.close();
+      }
+    });
+
+    it('should sign blocks that other nodes accept', async () => {
+      const producer = await createBlockchain(poaGenesisConfig);
+      const follower = await createBlockchain(poaGenesisConfig);
+
+      expect(
+        producer.setBlockSigner(bytesToHex(ordered[1].keyPair.privateKey))
+      ).toBe(ordered[1].address);
+      const block = producer.minePendingTransactions('reward-address');
+
+      expect(block).not.toBeNull();
+      expect(block!.validator).toBe(ordered[1].address);
+      expect(producer.getBalance('reward-address')).toBe(1000);
+      expect(await follower.addBlock(block!)).toEqual({
+        isValid: true,
+        errors: [],
+      });
+      expect(follower.validateChain().isValid).toBe(true);
+    });
+
+    it('should not produce blocks without an authorized signer key', async () => {
+      const blockchain = await createBlockchain(poaGenesisConfig);
+
+      expect(blockchain.minePendingTransactions('reward-address')).toBeNull();
+
+      blockchain.setBlockSigner(bytesToHex(outsider.keyPair.privateKey));
+      expect(blockchain.minePendingTransactions('reward-address')).toBeNull();
+      expect(blockchain.getBlocks()).toHaveLength(1);
+    });
+
+    it('should reject proof-of-work blocks', async () => {
+      const blockchain = await createBlockchain(poaGenesisConfig);
+      const block = BlockManager.mineBlock(
+        createNextBlock([blockchain.getLatestBlock()])
+      );
+
+      const result = await blockchain.addBlock(block);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        'Block must name the signer that sealed it'
+      );
+    });
+
+    it('should only accept headers sealed by an authorized signer', async () => {
+      const producer = await createBlockchain(poaGenesisConfig);
+      const follower = await createBlockchain(poaGenesisConfig);
+      producer.setBlockSigner(bytesToHex(ordered[1].keyPair.privateKey));
+      const block = producer.minePendingTransactions('reward-address')!;
+      const forged = resign(
+        {
+          ...createNextBlock([follower.getLatestBlock()]),
+          difficulty: DIFF_IN_TURN,
+          validator: outsider.address,
+        },
+        outsider.keyPair
+      );
+
+      const rejected = await follower.addHeaders([
+        BlockManager.createBlockHeader(forged),
+      ]);
+      const accepted = await follower.addHeaders([
+        BlockManager.createBlockHeader(block),
+      ]);
+
+      expect(rejected.errors).toEqual([
+        `Header 1 (${forged.hash}): Block signer ${outsider.address} is not authorized`,
+      ]);
+      expect(accepted.isValid).toBe(true);
+      expect(follower.getBestHeader().hash).toBe(block.hash);
+    });
+
+    it('should vote signers in through mined blocks', async () => {
+      const blockchain = await createBlockchain(poaGenesisConfig);
+      blockchain.setBlockSigner(bytesToHex(ordered[1].keyPair.privateKey));
+      blockchain.proposeSignerVote(outsider.address, true);
+      blockchain.minePendingTransactions('reward-address');
+
+      blockchain.setBlockSigner(bytesToHex(ordered[2].keyPair.privateKey));
+      blockchain.minePendingTransactions('reward-address');
+
+      expect(blockchain.getSigners()).toContain(outsider.address);
+      expect(blockchain.getSignerVotes()).toEqual([
+        { address: outsider.address, authorize: true },
+      ]);
+    });
+
+    it('should keep signer management to proof-of-authority chains', async () => {
+      const blockchain = await createBlockchain(baseGenesisConfig);
+
+      expect(blockchain.getConsensus().type).toBe('pow');
+      expect(blockchain.getSigners()).toEqual([]);
+      expect(() => blockchain.setBlockSigner('signer seed')).toThrow(
+        'Chain consensus-test-v1 does not use proof-of-authority consensus'
+      );
+    });
+  });
+});
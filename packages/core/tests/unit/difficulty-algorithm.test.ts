@@ -0,0 +1,302 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  DifficultyAlgorithmFactory,
+  IntervalDifficulty,
+  LWMADifficulty,
+} from '../../src/difficulty-algorithm.js';
+import { DifficultyManager } from '../../src/difficulty.js';
+import {
+  decodeCompactTarget,
+  getLeadingZeroTarget,
+} from '../../src/pow-target.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import type {
+  Block,
+  GenesisConfig,
+  UTXOPersistenceConfig,
+} from '../../src/types.js';
+
+const BLOCK_TIME = 180; // seconds
+const BITS = 0x1f00ffff; // Difficulty 4
+const TARGET = decodeCompactTarget(BITS);
+
+// Chain starting at an unused genesis block, each following block solved
+// after the given number of milliseconds at BITS
+const createChain = (solveTimes: number[]): Block[] => {
+  const blocks = [
+    BlockManager.createBlock(0, [], '0', 4, 'miner', undefined, undefined, 0),
+  ];
+  for (const solveTime of solveTimes) {
+    const parent = blocks[blocks.length - 1];
+    const block = BlockManager.createBlock(
+      parent.index + 1,
+      [],
+      parent.hash,
+      4,
+      'miner',
+      undefined,
+      undefined,
+      parent.timestamp + solveTime
+    );
+    block.bits = BITS;
+    blocks.push(block);
+  }
+  return blocks;
+};
+
+const createLWMA = (powLimit = getLeadingZeroTarget(1)): LWMADifficulty =>
+  new LWMADifficulty({ targetBlockTime: BLOCK_TIME, window: 45, powLimit });
+
+const repeat = (solveTime: number, count: number): number[] =>
+  new Array<number>(count).fill(solveTime);
+
+describe('LWMADifficulty', () => {
+  it('should keep the target while blocks arrive on time', () => {
+    const next = createLWMA().getNextDifficulty(
+      createChain(repeat(BLOCK_TIME * 1000, 50))
+    );
+
+    expect(next).toEqual({ difficulty: 4, bits: BITS });
+  });
+
+  it('should halve the target when blocks arrive twice as fast', () => {
+    const next = createLWMA().getNextDifficulty(
+      createChain(repeat(BLOCK_TIME * 500, 50))
+    );
+
+    expect(decodeCompactTarget(next.bits!)).toBe(TARGET / 2n);
+  });
+
+  it('should double the target when blocks arrive twice as slow', () => {
+    const next = createLWMA().getNextDifficulty(
+      createChain(repeat(BLOCK_TIME * 2000, 50))
+    );
+
+    expect(decodeCompactTarget(next.bits!)).toBe(TARGET * 2n);
+    expect(next.difficulty).toBe(3);
+  });
+
+  it('should weight recent solve times most', () => {
+    const algorithm = createLWMA();
+    const recentlySlow = algorithm.getNextDifficulty(
+      createChain([
+        ...repeat(BLOCK_TIME * 1000, 40),
+        ...repeat(BLOCK_TIME * 2000, 5),
+      ])
+    );
+    const earlierSlow = algorithm.getNextDifficulty(
+      createChain([
+        ...repeat(BLOCK_TIME * 2000, 5),
+        ...repeat(BLOCK_TIME * 1000, 40),
+      ])
+    );
+
+    expect(decodeCompactTarget(recentlySlow.bits!)).toBeGreaterThan(
+      decodeCompactTarget(earlierSlow.bits!)
+    );
+  });
+
+  it('should limit how far a single window moves the target', () => {
+    const algorithm = createLWMA();
+    const stalled = algorithm.getNextDifficulty(
+      createChain(repeat(BLOCK_TIME * 100000, 50))
+    );
+    const burst = algorithm.getNextDifficulty(createChain(repeat(1, 50)));
+
+    // Solve times are capped at six block times
+    expect(decodeCompactTarget(stalled.bits!)).toBe(TARGET * 6n);
+    // Difficulty rises at most tenfold at once
+    expect(decodeCompactTarget(burst.bits!)).toBeLessThanOrEqual(TARGET / 10n);
+    expect(decodeCompactTarget(burst.bits!)).toBeGreaterThan(TARGET / 11n);
+  });
+
+  it('should make out-of-order timestamps count as one millisecond', () => {
+    const algorithm = createLWMA();
+    const chain = createChain(repeat(BLOCK_TIME * 1000, 50));
+    chain[chain.length - 1].timestamp = chain[chain.length - 3].timestamp;
+
+    const next = algorithm.getNextDifficulty(chain);
+
+    expect(decodeCompactTarget(next.bits!)).toBeLessThan(TARGET);
+  });
+
+  it('should never exceed the proof-of-work limit', () => {
+    const powLimit = getLeadingZeroTarget(4);
+    const next = createLWMA(powLimit).getNextDifficulty(
+      createChain(repeat(BLOCK_TIME * 6000, 50))
+    );
+
+    expect(decodeCompactTarget(next.bits!)).toBeLessThanOrEqual(powLimit);
+    expect(next.difficulty).toBe(4);
+  });
+
+  it('should take the target of a chain with only a genesis block', () => {
+    const next = createLWMA().getNextDifficulty(createChain([]));
+
+    expect(next.difficulty).toBe(4);
+    expect(decodeCompactTarget(next.bits!)).toBeLessThanOrEqual(
+      getLeadingZeroTarget(4)
+    );
+  });
+});
+
+describe('DifficultyAlgorithmFactory', () => {
+  it('should build the retarget rule a network selects', () => {
+    const difficultyManager = new DifficultyManager({ adjustmentPeriod: 10 });
+
+    const interval = DifficultyAlgorithmFactory.create(
+      'interval',
+      difficultyManager
+    );
+    const lwma = DifficultyAlgorithmFactory.create('lwma', difficultyManager);
+
+    expect(interval).toBeInstanceOf(IntervalDifficulty);
+    expect(interval.shouldRetarget(9)).toBe(false);
+    expect(interval.shouldRetarget(10)).toBe(true);
+    expect(lwma).toBeInstanceOf(LWMADifficulty);
+    expect(lwma.shouldRetarget(9)).toBe(true);
+  });
+
+  it('should leave interval blocks without bits', () => {
+    const interval = DifficultyAlgorithmFactory.create(
+      'interval',
+      new DifficultyManager({ adjustmentPeriod: 10 })
+    );
+
+    expect(interval.getNextDifficulty(createChain(repeat(1000, 3)), 3)).toEqual(
+      { difficulty: 3 }
+    );
+  });
+});
+
+describe('Blockchain LWMA difficulty', () => {
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const testGenesisConfig: GenesisConfig = {
+    chainId: 'lwma-test-v1',
+    networkName: 'LWMA Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'funded-address',
+        amount: 1000000,
+        description: 'LWMA test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 2,
+      targetBlockTime: BLOCK_TIME,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 10,
+      halvingInterval: 210000,
+      difficultyAlgorithm: 'lwma',
+      difficultyWindow: 10,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'LWMA Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'testnet',
+    },
+  };
+
+  const chains: Blockchain[] = [];
+
+  const createBlockchain = async (): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      ),
+      new UTXOManager(),
+      { targetBlockTime: BLOCK_TIME },
+      testGenesisConfig
+    );
+    await blockchain.waitForInitialization();
+    chains.push(blockchain);
+    return blockchain;
+  };
+
+  // Mine blocks spaced the given number of block times apart
+  const mineBlocks = (
+    blockchain: Blockchain,
+    count: number,
+    spacing: number
+  ): Block[] => {
+    let time = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => time);
+    const blocks: Block[] = [];
+    for (let i = 0; i < count; i++) {
+      time += spacing * BLOCK_TIME * 1000;
+      blocks.push(blockchain.minePendingUTXOTransactions('miner-a')!);
+    }
+    return blocks;
+  };
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    for (const blockchain of chains.splice(0)) {
+      await blockchain.close();
+    }
+  });
+
+  it('should retarget every block and lower difficulty as blocks slow down', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 4, 4);
+
+    expect(blocks.every(block => block.bits !== undefined)).toBe(true);
+    expect(blocks[0].difficulty).toBe(2);
+    expect(blocks[3].difficulty).toBe(1);
+    expect(
+      decodeCompactTarget(blocks[3].bits!) >
+        decodeCompactTarget(blocks[1].bits!)
+    ).toBe(true);
+    expect(source.getDifficultyState().adjustmentHeight).toBe(5);
+    expect(source.getChainWork()).toBe(
+      blocks.reduce(
+        (work, block) => work + DifficultyManager.getBlockWork(block),
+        DifficultyManager.getBlockWork(source.getBlocks()[0])
+      )
+    );
+
+    const follower = await createBlockchain();
+    for (const block of blocks) {
+      expect(await follower.addBlock(block)).toEqual({
+        isValid: true,
+        errors: [],
+      });
+    }
+  });
+
+  it('should reject blocks whose target differs from the retarget rule', async () => {
+    const source = await createBlockchain();
+    const [block] = mineBlocks(source, 1, 1);
+    const forged = { ...block, bits: block.bits! - 1 };
+    forged.hash = BlockManager.calculateHash(forged);
+
+    const follower = await createBlockchain();
+    const result = await follower.addBlock(BlockManager.mineBlock(forged));
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain(
+      `Invalid difficulty target: expected bits ${block.bits}, got ${forged.bits}`
+    );
+  });
+});
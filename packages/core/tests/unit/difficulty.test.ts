@@ -466,7 +466,40 @@ describe('DifficultyManager', () => {
         previousBlocks
       );
       expect(result.isValid).toBe(false);
-      expect(result.errors[0]).toContain('greater than previous block');
+      expect(result.errors[0]).toContain('greater than median time past');
+    });
+
+    it('should accept a timestamp before the previous block but after the median time past', () => {
+      const previousBlocks = [1000, 5000, 3000].map((timestamp, i) =>
+        createMockBlock(i, timestamp)
+      );
+      const block = createMockBlock(3, 4000);
+
+      expect(DifficultyManager.getMedianTimePast(previousBlocks)).toBe(3000);
+      expect(
+        DifficultyManager.validateBlockTimestamp(block, previousBlocks, 4000)
+          .isValid
+      ).toBe(true);
+    });
+
+    it('should measure future drift against the given network time', () => {
+      // A node whose clock reads 1970 still accepts current blocks once it
+      // knows the network time
+      const networkTime = Date.now();
+      const block = createMockBlock(1, networkTime + 60 * 60 * 1000);
+      const previousBlocks = [createMockBlock(0, networkTime - 1000)];
+
+      expect(
+        DifficultyManager.validateBlockTimestamp(block, previousBlocks, 0)
+          .errors
+      ).toEqual(['Block timestamp is too far in the future']);
+      expect(
+        DifficultyManager.validateBlockTimestamp(
+          block,
+          previousBlocks,
+          networkTime
+        ).isValid
+      ).toBe(true);
     });
   });
 
@@ -68,20 +68,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should detect single missing fragment', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-large-tx',
-        inputs: Array.from({ length: 10 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 30 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 10 }, (_, i) => ({
+        outputs: Array.from({ length: 30 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.01,
+        fee: 1000,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -115,20 +115,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should detect multiple consecutive missing fragments', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-large-tx-2',
-        inputs: Array.from({ length: 20 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 60 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 20 }, (_, i) => ({
+        outputs: Array.from({ length: 60 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.02,
+        fee: 2000,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -159,20 +159,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should detect scattered missing fragments', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-large-tx-3',
-        inputs: Array.from({ length: 15 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 45 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 15 }, (_, i) => ({
+        outputs: Array.from({ length: 45 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.015,
+        fee: 1500,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -205,20 +205,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should update missing list as fragments arrive', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-large-tx-4',
-        inputs: Array.from({ length: 8 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 24 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 8 }, (_, i) => ({
+        outputs: Array.from({ length: 24 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.008,
+        fee: 800,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -253,20 +253,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should schedule retransmission with exponential backoff', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-retransmit-tx',
-        inputs: Array.from({ length: 10 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 30 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 10 }, (_, i) => ({
+        outputs: Array.from({ length: 30 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.01,
+        fee: 1000,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -300,20 +300,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
 
       const largeTx: UTXOTransaction = {
         id: 'test-jitter-tx',
-        inputs: Array.from({ length: 5 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 15 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 5 }, (_, i) => ({
+        outputs: Array.from({ length: 15 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.005,
+        fee: 500,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -341,20 +341,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
 
       const largeTx: UTXOTransaction = {
         id: 'test-max-retry-tx',
-        inputs: Array.from({ length: 5 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 15 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 5 }, (_, i) => ({
+        outputs: Array.from({ length: 15 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.005,
+        fee: 500,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -397,20 +397,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should handle retransmission responses', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-response-tx',
-        inputs: Array.from({ length: 5 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 15 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 5 }, (_, i) => ({
+        outputs: Array.from({ length: 15 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.005,
+        fee: 500,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -443,20 +443,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should process cumulative ACKs', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-cumulative-ack-tx',
-        inputs: Array.from({ length: 8 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 24 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 8 }, (_, i) => ({
+        outputs: Array.from({ length: 24 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.008,
+        fee: 800,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -490,20 +490,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should process selective ACKs', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-selective-ack-tx',
-        inputs: Array.from({ length: 6 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 24 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 6 }, (_, i) => ({
+        outputs: Array.from({ length: 24 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.006,
+        fee: 600,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -538,20 +538,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should handle NACKs with immediate retransmission', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-nack-tx',
-        inputs: Array.from({ length: 5 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 15 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 5 }, (_, i) => ({
+        outputs: Array.from({ length: 15 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.005,
+        fee: 500,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -613,7 +613,7 @@ describe('EnhancedUTXOFragmentReassembler', () => {
         id: 'test-priority-tx',
         inputs: [
           {
-            previousTransactionId: 'prev-tx',
+            previousTxId: 'prev-tx',
             outputIndex: 0,
             unlockingScript: 'unlock',
             sequence: 0xffffffff,
@@ -628,7 +628,7 @@ describe('EnhancedUTXOFragmentReassembler', () => {
         ],
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.001,
+        fee: 100,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(tx, keyPair);
@@ -654,7 +654,7 @@ describe('EnhancedUTXOFragmentReassembler', () => {
         id: 'test-priority-order-tx',
         inputs: [
           {
-            previousTransactionId: 'prev-tx',
+            previousTxId: 'prev-tx',
             outputIndex: 0,
             unlockingScript: 'unlock',
             sequence: 0xffffffff,
@@ -669,7 +669,7 @@ describe('EnhancedUTXOFragmentReassembler', () => {
         ],
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.001,
+        fee: 100,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(tx, keyPair);
@@ -739,20 +739,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should handle complete fragmentation and reassembly cycle', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-integration-tx',
-        inputs: Array.from({ length: 12 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 36 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 12 }, (_, i) => ({
+        outputs: Array.from({ length: 36 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.012,
+        fee: 1200,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -782,20 +782,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should recover from 50% packet loss', () => {
       const largeTx: UTXOTransaction = {
         id: 'test-packet-loss-tx',
-        inputs: Array.from({ length: 10 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 30 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 10 }, (_, i) => ({
+        outputs: Array.from({ length: 30 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.01,
+        fee: 1000,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -831,20 +831,20 @@ describe('EnhancedUTXOFragmentReassembler', () => {
     it('should persist and restore session state', async () => {
       const largeTx: UTXOTransaction = {
         id: 'test-persistence-tx',
-        inputs: Array.from({ length: 6 }, (_, i) => ({
-          previousTransactionId: `tx-${i}`,
+        inputs: Array.from({ length: 18 }, (_, i) => ({
+          previousTxId: `tx-${i}`,
           outputIndex: i,
           unlockingScript: `unlock-${i}`,
           sequence: 0xffffffff,
         })),
-        outputs: Array.from({ length: 6 }, (_, i) => ({
+        outputs: Array.from({ length: 18 }, (_, i) => ({
           value: 100 + i,
           lockingScript: `address-${i}`,
           outputIndex: i,
         })),
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.006,
+        fee: 600,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -891,14 +891,12 @@ describe('EnhancedUTXOFragmentReassembler', () => {
 
       const tx: UTXOTransaction = {
         id: 'test-rate-limit-tx',
-        inputs: [
-          {
-            previousTransactionId: 'prev-tx',
-            outputIndex: 0,
-            unlockingScript: 'unlock',
-            sequence: 0xffffffff,
-          },
-        ],
+        inputs: Array.from({ length: 6 }, (_, i) => ({
+          previousTxId: `prev-tx-${i}`,
+          outputIndex: i,
+          unlockingScript: `unlock-${i}`,
+          sequence: 0xffffffff,
+        })),
         outputs: [
           {
             value: 100,
@@ -908,7 +906,7 @@ describe('EnhancedUTXOFragmentReassembler', () => {
         ],
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.001,
+        fee: 100,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(tx, keyPair);
@@ -939,7 +937,7 @@ describe('EnhancedUTXOFragmentReassembler', () => {
         id: 'test-quota-tx',
         inputs: [
           {
-            previousTransactionId: 'prev-tx',
+            previousTxId: 'prev-tx',
             outputIndex: 0,
             unlockingScript: 'unlock',
             sequence: 0xffffffff,
@@ -954,7 +952,7 @@ describe('EnhancedUTXOFragmentReassembler', () => {
         ],
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.001,
+        fee: 100,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(tx, keyPair);
@@ -35,7 +35,7 @@ describe('UTXOMessageFragmenter', () => {
         ],
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.001,
+        fee: 100,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(smallTx, keyPair);
@@ -59,7 +59,7 @@ describe('UTXOMessageFragmenter', () => {
         outputs: largeOutputs,
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.001,
+        fee: 100,
       };
 
       const fragments = fragmenter.splitUTXOTransaction(largeTx, keyPair);
@@ -92,7 +92,7 @@ describe('UTXOMessageFragmenter', () => {
           from: `address-${i}`,
           to: `address-${i + 1}`,
           amount: 100,
-          fee: 0.001,
+          fee: 100,
           timestamp: Date.now(),
           signature: 'signature',
           nonce: i,
@@ -163,7 +163,7 @@ describe('UTXOFragmentReassembler', () => {
       })),
       lockTime: 0,
       timestamp: Date.now(),
-      fee: 0.001,
+      fee: 100,
     };
 
     const fragments = fragmenter.splitUTXOTransaction(originalTx, keyPair);
@@ -187,6 +187,36 @@ describe('UTXOFragmentReassembler', () => {
     expect(reassembledTx?.outputs).toHaveLength(originalTx.outputs.length);
   });
 
+  it('should reassemble a fragmented block after probing for a transaction', () => {
+    const originalBlock: Block = {
+      index: 3,
+      timestamp: Date.now(),
+      transactions: Array.from({ length: 10 }, (_, i) => ({
+        id: `block-tx-${i}`,
+        from: `sender-${i}`,
+        to: `recipient-${i}`,
+        amount: 10 + i,
+        fee: 100,
+        timestamp: Date.now(),
+        signature: `signature-${i}`,
+        nonce: i,
+      })),
+      previousHash: 'previous-hash',
+      hash: 'block-hash',
+      nonce: 42,
+      merkleRoot: 'merkle-root',
+      difficulty: 2,
+    };
+
+    const fragments = fragmenter.splitBlock(originalBlock, keyPair);
+    expect(fragments.length).toBeGreaterThan(1);
+    fragments.forEach(fragment => reassembler.addFragment(fragment));
+
+    const messageId = fragments[0].header.messageId;
+    expect(reassembler.getCompleteUTXOTransaction(messageId)).toBeNull();
+    expect(reassembler.getCompleteBlock(messageId)).toEqual(originalBlock);
+  });
+
   it('should handle duplicate fragments', () => {
     const originalTx: UTXOTransaction = {
       id: 'test-tx-1',
@@ -198,7 +228,7 @@ describe('UTXOFragmentReassembler', () => {
       })),
       lockTime: 0,
       timestamp: Date.now(),
-      fee: 0.001,
+      fee: 100,
     };
 
     const fragments = fragmenter.splitUTXOTransaction(originalTx, keyPair);
@@ -232,7 +262,7 @@ describe('UTXOFragmentReassembler', () => {
       })),
       lockTime: 0,
       timestamp: Date.now(),
-      fee: 0.001,
+      fee: 100,
     };
 
     const fragments = fragmenter.splitUTXOTransaction(originalTx, keyPair);
@@ -265,7 +295,7 @@ describe('UTXOFragmentReassembler', () => {
       outputs: [{ value: 100, lockingScript: 'test-address', outputIndex: 0 }],
       lockTime: 0,
       timestamp: Date.now(),
-      fee: 0.001,
+      fee: 100,
     };
 
     const fragments = fragmenter.splitUTXOTransaction(originalTx, keyPair);
@@ -300,7 +330,7 @@ describe('UTXOFragmentCache', () => {
       outputs: [{ value: 100, lockingScript: 'test-address', outputIndex: 0 }],
       lockTime: 0,
       timestamp: Date.now(),
-      fee: 0.001,
+      fee: 100,
     };
 
     const fragments = fragmenter.splitUTXOTransaction(originalTx, keyPair);
@@ -337,7 +367,7 @@ describe('UTXOFragmentCache', () => {
       outputs: [{ value: 100, lockingScript: 'test-address', outputIndex: 0 }],
       lockTime: 0,
       timestamp: Date.now(),
-      fee: 0.001,
+      fee: 100,
     };
 
     const fragments = fragmenter.splitUTXOTransaction(originalTx, keyPair);
@@ -323,7 +323,7 @@ describe('Blockchain with Genesis Configuration (NO BACKWARDS COMPATIBILITY)', (
       expect(blockchain.getChainId()).toBe('lorachain-mainnet-v1');
       expect(blockchain.getDifficulty()).toBe(4); // Mainnet difficulty
       expect(blockchain.getTargetBlockTime()).toBe(300); // Mainnet target block time
-      expect(blockchain.getMiningReward()).toBe(50); // Mainnet mining reward
+      expect(blockchain.getMiningReward()).toBe(5_000_000_000); // Mainnet mining reward
     });
   });
 });
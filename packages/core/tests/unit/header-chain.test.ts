@@ -0,0 +1,372 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { HeaderChain } from '../../src/header-chain.js';
+import { ChainCheckpoints } from '../../src/checkpoints.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import type {
+  Block,
+  BlockHeader,
+  GenesisConfig,
+  UTXOPersistenceConfig,
+  ValidationResult,
+} from '../../src/types.js';
+
+// Mined block headers a second after their parent; the miner name keeps
+// sibling hashes apart
+const mineHeader = (
+  parent: BlockHeader,
+  miner: string = 'miner-a',
+  difficulty: number = 1
+): BlockHeader =>
+  BlockManager.createBlockHeader(
+    BlockManager.mineBlock(
+      BlockManager.createBlock(
+        parent.index + 1,
+        [],
+        parent.hash,
+        difficulty,
+        miner,
+        undefined,
+        undefined,
+        parent.timestamp + 1000
+      )
+    )
+  );
+
+const mineHeaders = (parent: BlockHeader, count: number): BlockHeader[] => {
+  const headers: BlockHeader[] = [];
+  for (let i = 0; i < count; i++) {
+    headers.push(mineHeader(headers[i - 1] ?? parent));
+  }
+  return headers;
+};
+
+describe('HeaderChain', () => {
+  const genesis = BlockManager.createBlockHeader(
+    BlockManager.createBlock(0, [], '0', 1)
+  );
+  let headerChain: HeaderChain;
+
+  beforeEach(() => {
+    headerChain = new HeaderChain(genesis);
+  });
+
+  it('should extend the best chain and track its work', () => {
+    const headers = mineHeaders(genesis, 3);
+
+    const result = headerChain.addHeaders(headers);
+
+    expect(result).toEqual({ isValid: true, errors: [], accepted: headers });
+    expect(headerChain.getBestHeader()).toEqual(headers[2]);
+    expect(headerChain.getChainWork()).toBe(4n * 16n);
+    expect(headerChain.getHeaderAt(1)).toEqual(headers[0]);
+  });
+
+  it('should skip headers already in the tree', () => {
+    const headers = mineHeaders(genesis, 2);
+    headerChain.addHeaders(headers);
+
+    const result = headerChain.addHeaders(headers);
+
+    expect(result.isValid).toBe(true);
+    expect(result.accepted).toEqual([]);
+    expect(headerChain.getHeaderCount()).toBe(3);
+  });
+
+  it('should switch to a branch with more cumulative work', () => {
+    headerChain.addHeaders(mineHeaders(genesis, 2));
+    const heavier = mineHeader(genesis, 'miner-b', 2);
+
+    headerChain.addHeaders([heavier]);
+
+    expect(headerChain.getBestHeader()).toEqual(heavier);
+    expect(headerChain.getHeaderAt(1)).toEqual(heavier);
+    expect(headerChain.getHeaderAt(2)).toBeNull();
+    expect(headerChain.getHeaderCount()).toBe(4);
+  });
+
+  it('should find ancestors on the best chain and on side branches', () => {
+    const headers = mineHeaders(genesis, 3);
+    const branch = [mineHeader(headers[0], 'miner-b')];
+    branch.push(mineHeader(branch[0], 'miner-b'));
+    headerChain.addHeaders([...headers, ...branch]);
+
+    expect(headerChain.getAncestor(headers[2].hash, 1)).toEqual(headers[0]);
+    expect(headerChain.getAncestor(branch[1].hash, 2)).toEqual(branch[0]);
+    expect(headerChain.getAncestor(branch[1].hash, 0)).toEqual(genesis);
+    expect(headerChain.getAncestor(headers[1].hash, 3)).toBeNull();
+    expect(headerChain.getAncestor('unknown', 0)).toBeNull();
+  });
+
+  it('should stop at the first invalid header', () => {
+    const [first, second, third] = mineHeaders(genesis, 3);
+
+    const result = headerChain.addHeaders([
+      first,
+      { ...second, nonce: second.nonce + 1 },
+      third,
+    ]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      `Header 2 (${second.hash}) hash is invalid`,
+    ]);
+    expect(result.accepted).toEqual([first]);
+    expect(headerChain.getBestHeader()).toEqual(first);
+  });
+
+  it('should reject headers that do not connect', () => {
+    const [, second] = mineHeaders(genesis, 2);
+
+    expect(headerChain.addHeaders([second]).errors).toEqual([
+      `Header 2 (${second.hash}) does not connect to a known header`,
+    ]);
+  });
+
+  it('should reject headers without their proof of work', () => {
+    const block = BlockManager.createBlock(1, [], genesis.hash, 1, 'lazy');
+    while (block.hash.startsWith('0')) {
+      block.nonce++;
+      block.hash = BlockManager.calculateHash(block);
+    }
+    const header = BlockManager.createBlockHeader(block);
+
+    expect(headerChain.addHeaders([header]).errors).toEqual([
+      `Header 1 (${header.hash}) does not meet its difficulty requirement`,
+    ]);
+  });
+
+  it('should check consensus seals against the branch a header extends', () => {
+    const headers = mineHeaders(genesis, 2);
+    const branch = [mineHeader(headers[0], 'miner-b')];
+    branch.push(mineHeader(branch[0], 'miner-b'));
+    const sealedChains: string[][] = [];
+    headerChain = new HeaderChain(genesis, {
+      validateSeal: (header, chain): ValidationResult => {
+        sealedChains.push(chain.map(ancestor => ancestor.hash));
+        return header.hash === branch[1].hash
+          ? {
+              isValid: false,
+              errors: ['Block signer miner-b is not authorized'],
+            }
+          : { isValid: true, errors: [] };
+      },
+    });
+
+    const result = headerChain.addHeaders([...headers, ...branch]);
+
+    expect(result.errors).toEqual([
+      `Header 3 (${branch[1].hash}): Block signer miner-b is not authorized`,
+    ]);
+    expect(sealedChains).toEqual([
+      [genesis.hash],
+      [genesis.hash, headers[0].hash],
+      [genesis.hash, headers[0].hash],
+      [genesis.hash, headers[0].hash, branch[0].hash],
+    ]);
+    expect(headerChain.hasHeader(branch[1].hash)).toBe(false);
+  });
+
+  it('should reject headers that conflict with a checkpoint', () => {
+    const header = mineHeader(genesis);
+    headerChain = new HeaderChain(genesis, {
+      checkpoints: new ChainCheckpoints({
+        checkpoints: [{ height: 1, hash: 'a'.repeat(64) }],
+      }),
+    });
+
+    expect(headerChain.addHeaders([header]).errors).toEqual([
+      `Block 1 conflicts with checkpoint ${'a'.repeat(64)}`,
+    ]);
+  });
+
+  it('should reject headers too far ahead of network time', () => {
+    const header = mineHeader(genesis);
+    headerChain = new HeaderChain(genesis, {
+      clock: (): number => genesis.timestamp - 3 * 60 * 60 * 1000,
+    });
+
+    expect(headerChain.addHeaders([header]).errors).toEqual([
+      `Header 1 (${header.hash}): Block timestamp is too far in the future`,
+    ]);
+  });
+
+  it('should space locator entries exponentially back to genesis', () => {
+    const headers = mineHeaders(genesis, 30);
+    headerChain.addHeaders(headers);
+
+    const heights = headerChain
+      .getLocator()
+      .map(hash => headerChain.getHeader(hash)!.index);
+
+    expect(heights).toEqual([
+      30, 29, 28, 27, 26, 25, 24, 23, 22, 21, 19, 15, 7, 0,
+    ]);
+  });
+
+  it('should list best chain blocks that have not been downloaded', () => {
+    const headers = mineHeaders(genesis, 5);
+    headerChain.addHeaders(headers);
+    const stored = new Set([genesis.hash, headers[0].hash, headers[1].hash]);
+
+    const missing = headerChain.getMissingBlocks(hash => stored.has(hash), 2);
+
+    expect(missing).toEqual([headers[2], headers[3]]);
+  });
+});
+
+describe('Blockchain header-first sync', () => {
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const testGenesisConfig: GenesisConfig = {
+    chainId: 'header-sync-test-v1',
+    networkName: 'Header Sync Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'funded-address',
+        amount: 1000000,
+        description: 'Header sync test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 10,
+      halvingInterval: 210000,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'Header Sync Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'testnet',
+    },
+  };
+
+  const chains: Blockchain[] = [];
+
+  const createBlockchain = async (
+    persistence: UTXOPersistenceManager = new UTXOPersistenceManager(
+      DatabaseFactory.create(testConfig),
+      testConfig
+    )
+  ): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      persistence,
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      testGenesisConfig
+    );
+    await blockchain.waitForInitialization();
+    chains.push(blockchain);
+    return blockchain;
+  };
+
+  const mineBlocks = (blockchain: Blockchain, count: number): Block[] => {
+    const blocks: Block[] = [];
+    for (let i = 0; i < count; i++) {
+      blocks.push(blockchain.minePendingUTXOTransactions('miner-a')!);
+    }
+    return blocks;
+  };
+
+  afterEach(async () => {
+    for (const blockchain of chains.splice(0)) {
+      await blockchain.close();
+    }
+  });
+
+  it('should serve main chain headers after the first known locator hash', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 4);
+
+    const headers = source.getHeadersAfter(
+      ['unknown-hash', blocks[1].hash, blocks[0].hash],
+      undefined,
+      10
+    );
+
+    expect(headers.map(header => header.hash)).toEqual([
+      blocks[2].hash,
+      blocks[3].hash,
+    ]);
+    expect(headers[0]).toEqual(BlockManager.createBlockHeader(blocks[2]));
+  });
+
+  it('should stop serving headers at the stop hash or the batch limit', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 4);
+    const genesisLocator = [source.getBlocks()[0].hash];
+
+    expect(
+      source
+        .getHeadersAfter(genesisLocator, blocks[1].hash)
+        .map(header => header.index)
+    ).toEqual([1, 2]);
+    expect(
+      source
+        .getHeadersAfter(genesisLocator, undefined, 3)
+        .map(header => header.index)
+    ).toEqual([1, 2, 3]);
+  });
+
+  it('should download bodies along the best header chain', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 3);
+    const target = await createBlockchain();
+
+    const result = await target.addHeaders(
+      source.getHeadersAfter(target.getBlockLocator())
+    );
+
+    expect(result.accepted).toHaveLength(3);
+    expect(target.getBestHeader().hash).toBe(blocks[2].hash);
+    expect(target.getBlocks()).toHaveLength(1);
+    expect(target.getBlocksToDownload(2).map(header => header.hash)).toEqual([
+      blocks[0].hash,
+      blocks[1].hash,
+    ]);
+
+    for (const header of target.getBlocksToDownload()) {
+      expect((await target.addBlock(blocks[header.index - 1])).isValid).toBe(
+        true
+      );
+    }
+
+    expect(target.getLatestBlock().hash).toBe(blocks[2].hash);
+    expect(target.getBlocksToDownload()).toEqual([]);
+  });
+
+  it('should restore stored headers after a restart', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 2);
+    const persistence = new UTXOPersistenceManager(
+      DatabaseFactory.create(testConfig),
+      testConfig
+    );
+    const target = await createBlockchain(persistence);
+    await target.addHeaders(source.getHeadersAfter(target.getBlockLocator()));
+
+    await target.load();
+
+    expect(target.getBestHeader().hash).toBe(blocks[1].hash);
+    expect(target.getBlocksToDownload()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,371 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Mempool, UNCONFIRMED_HEIGHT } from '../../src/mempool.js';
+import { UTXOTransactionManager } from '../../src/utxo-transaction.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import { SEQUENCE_FINAL, MAX_REPLACEABLE_SEQUENCE } from '../../src/script.js';
+import type {
+  UTXOTransaction,
+  UTXOPersistenceConfig,
+} from '../../src/types.js';
+
+describe('Mempool', () => {
+  let mempool: Mempool;
+
+  const createTransaction = (
+    outpoints: Array<[string, number]>,
+    fee: number,
+    sequence: number = SEQUENCE_FINAL
+  ): UTXOTransaction => {
+    const transaction: UTXOTransaction = {
+      id: '',
+      inputs: outpoints.map(([previousTxId, outputIndex]) => ({
+        previousTxId,
+        outputIndex,
+        unlockingScript: 'signature:publicKey',
+        sequence,
+      })),
+      outputs: [
+        {
+          value: 10,
+          lockingScript: 'recipient-address',
+          outputIndex: 0,
+        },
+      ],
+      lockTime: 0,
+      timestamp: Date.now(),
+      fee,
+    };
+    transaction.id = UTXOTransactionManager.calculateTransactionId(transaction);
+    return transaction;
+  };
+
+  beforeEach(() => {
+    mempool = new Mempool({ maxSize: 3 });
+  });
+
+  describe('add', () => {
+    it('should accept transactions and index their outpoints', () => {
+      const transaction = createTransaction([['utxo-a', 0]], 1000);
+
+      const result = mempool.add(transaction);
+
+      expect(result.isValid).toBe(true);
+      expect(mempool.has(transaction.id)).toBe(true);
+      expect(mempool.isSpent('utxo-a', 0)).toBe(true);
+      expect(mempool.isSpent('utxo-a', 1)).toBe(false);
+    });
+
+    it('should reject duplicate transactions', () => {
+      const transaction = createTransaction([['utxo-a', 0]], 1000);
+      mempool.add(transaction);
+
+      const result = mempool.add(transaction);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        'UTXO Transaction already exists in pending pool'
+      );
+    });
+
+    it('should reject conflicting spends of non-replaceable transactions', () => {
+      const first = createTransaction([['utxo-a', 0]], 1000);
+      const doubleSpend = createTransaction(
+        [
+          ['utxo-a', 0],
+          ['utxo-b', 0],
+        ],
+        5000
+      );
+      mempool.add(first);
+
+      const result = mempool.add(doubleSpend);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain(
+        `conflicts with pending transaction ${first.id}`
+      );
+      expect(mempool.getTransactions()).toEqual([first]);
+    });
+  });
+
+  describe('replace-by-fee', () => {
+    it('should replace transactions that signal replaceability', () => {
+      const original = createTransaction(
+        [['utxo-a', 0]],
+        1000,
+        MAX_REPLACEABLE_SEQUENCE
+      );
+      const replacement = createTransaction([['utxo-a', 0]], 2000);
+      mempool.add(original);
+
+      const result = mempool.add(replacement);
+
+      expect(result.isValid).toBe(true);
+      expect(result.replaced).toEqual([original.id]);
+      expect(mempool.has(original.id)).toBe(false);
+      expect(mempool.getConflicts(original)).toEqual([replacement.id]);
+    });
+
+    it('should require replacements to pay a higher fee', () => {
+      const original = createTransaction(
+        [['utxo-a', 0]],
+        2000,
+        MAX_REPLACEABLE_SEQUENCE
+      );
+      const replacement = createTransaction([['utxo-a', 0]], 2000);
+      mempool.add(original);
+
+      const result = mempool.add(replacement);
+
+      expect(result.isValid).toBe(false);
+      expect(mempool.has(original.id)).toBe(true);
+    });
+
+    it('should detect replace-by-fee signalling from input sequences', () => {
+      expect(
+        Mempool.signalsReplaceByFee(
+          createTransaction([['utxo-a', 0]], 1000, MAX_REPLACEABLE_SEQUENCE)
+        )
+      ).toBe(true);
+      expect(
+        Mempool.signalsReplaceByFee(
+          createTransaction([['utxo-a', 0]], 1000, SEQUENCE_FINAL - 1)
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict the lowest fee-rate transaction when full', () => {
+      const cheap = createTransaction([['utxo-a', 0]], 100);
+      mempool.add(cheap);
+      mempool.add(createTransaction([['utxo-b', 0]], 1000));
+      mempool.add(createTransaction([['utxo-c', 0]], 2000));
+
+      const result = mempool.add(createTransaction([['utxo-d', 0]], 3000));
+
+      expect(result.isValid).toBe(true);
+      expect(result.evicted).toEqual([cheap.id]);
+      expect(mempool.size()).toBe(3);
+      expect(mempool.isSpent('utxo-a', 0)).toBe(false);
+    });
+
+    it('should reject transactions paying less than the pool minimum when full', () => {
+      mempool.add(createTransaction([['utxo-a', 0]], 1000));
+      mempool.add(createTransaction([['utxo-b', 0]], 1000));
+      mempool.add(createTransaction([['utxo-c', 0]], 1000));
+
+      const result = mempool.add(createTransaction([['utxo-d', 0]], 100));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('Mempool is full');
+      expect(mempool.size()).toBe(3);
+    });
+
+    it('should evict down to a reduced max size', () => {
+      const cheap = createTransaction([['utxo-a', 0]], 100);
+      mempool.add(cheap);
+      mempool.add(createTransaction([['utxo-b', 0]], 1000));
+
+      mempool.setMaxSize(1);
+
+      expect(mempool.size()).toBe(1);
+      expect(mempool.has(cheap.id)).toBe(false);
+    });
+  });
+
+  describe('removeConfirmed', () => {
+    it('should remove confirmed and conflicting transactions', () => {
+      const pending = createTransaction([['utxo-a', 0]], 1000);
+      const unrelated = createTransaction([['utxo-b', 0]], 1000);
+      mempool.add(pending);
+      mempool.add(unrelated);
+
+      const confirmed = createTransaction([['utxo-a', 0]], 500);
+      const removed = mempool.removeConfirmed([confirmed]);
+
+      expect(removed).toEqual([pending.id]);
+      expect(mempool.getTransactions()).toEqual([unrelated]);
+    });
+  });
+
+  describe('unconfirmed chains', () => {
+    it('should expose unspent outputs of pooled transactions', () => {
+      const parent = createTransaction([['utxo-a', 0]], 1000);
+      mempool.add(parent);
+
+      expect(mempool.getUnconfirmedUTXO(parent.id, 0)).toMatchObject({
+        value: 10,
+        blockHeight: UNCONFIRMED_HEIGHT,
+      });
+      expect(
+        mempool.getUnconfirmedUTXOsForAddress('recipient-address')
+      ).toHaveLength(1);
+
+      mempool.add(createTransaction([[parent.id, 0]], 1000));
+
+      expect(
+        mempool.getUnconfirmedUTXOsForAddress('recipient-address')
+      ).toHaveLength(1);
+      expect(mempool.getDescendants(parent.id).size).toBe(1);
+    });
+
+    it('should reject chains longer than the configured limit', () => {
+      mempool = new Mempool({ maxSize: 10, maxChainLength: 2 });
+      const parent = createTransaction([['utxo-a', 0]], 1000);
+      const child = createTransaction([[parent.id, 0]], 1000);
+      mempool.add(parent);
+      mempool.add(child);
+
+      const result = mempool.add(createTransaction([[child.id, 0]], 1000));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('chain length limit of 2');
+    });
+
+    it('should remove descendants along with their parent', () => {
+      const parent = createTransaction([['utxo-a', 0]], 1000);
+      const child = createTransaction([[parent.id, 0]], 1000);
+      mempool.add(parent);
+      mempool.add(child);
+
+      mempool.remove(parent.id);
+
+      expect(mempool.size()).toBe(0);
+      expect(mempool.isSpent(parent.id, 0)).toBe(false);
+    });
+
+    it('should keep children of confirmed transactions', () => {
+      const parent = createTransaction([['utxo-a', 0]], 1000);
+      const child = createTransaction([[parent.id, 0]], 1000);
+      mempool.add(parent);
+      mempool.add(child);
+
+      expect(mempool.removeConfirmed([parent])).toEqual([parent.id]);
+      expect(mempool.getTransactions()).toEqual([child]);
+    });
+
+    it('should replace descendants of replaced transactions', () => {
+      const original = createTransaction(
+        [['utxo-a', 0]],
+        1000,
+        MAX_REPLACEABLE_SEQUENCE
+      );
+      const child = createTransaction([[original.id, 0]], 1000);
+      mempool.add(original);
+      mempool.add(child);
+
+      const replacement = createTransaction([['utxo-a', 0]], 1500);
+      const underpaying = mempool.add(replacement);
+      const result = mempool.add(createTransaction([['utxo-a', 0]], 3000));
+
+      expect(underpaying.isValid).toBe(false);
+      expect(result.isValid).toBe(true);
+      expect(result.replaced).toEqual([original.id, child.id]);
+      expect(mempool.size()).toBe(1);
+    });
+  });
+
+  describe('selectPackages', () => {
+    it('should let a high-fee child pull in its low-fee parent', () => {
+      const parent = createTransaction([['utxo-a', 0]], 10);
+      const child = createTransaction([[parent.id, 0]], 5000);
+      const middle = createTransaction([['utxo-b', 0]], 1000);
+      mempool.add(parent);
+      mempool.add(middle);
+      mempool.add(child);
+
+      expect(mempool.selectPackages()).toEqual([parent, child, middle]);
+    });
+
+    it('should leave out descendants of ineligible transactions', () => {
+      const parent = createTransaction([['utxo-a', 0]], 1000);
+      const child = createTransaction([[parent.id, 0]], 5000);
+      const other = createTransaction([['utxo-b', 0]], 1000);
+      mempool.add(parent);
+      mempool.add(child);
+      mempool.add(other);
+
+      expect(mempool.selectPackages(tx => tx.id !== parent.id)).toEqual([
+        other,
+      ]);
+    });
+  });
+
+  describe('persistence', () => {
+    let persistence: UTXOPersistenceManager;
+
+    const testConfig: UTXOPersistenceConfig = {
+      enabled: true,
+      dbPath: ':memory:',
+      dbType: 'memory',
+      autoSave: true,
+      batchSize: 100,
+      compressionType: 'none',
+      utxoSetCacheSize: 1000,
+      cryptographicAlgorithm: 'secp256k1',
+      compactionStyle: 'size',
+    };
+
+    beforeEach(() => {
+      persistence = new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      );
+      mempool = new Mempool({ maxSize: 3 }, persistence);
+    });
+
+    afterEach(async () => {
+      await persistence.close();
+    });
+
+    it('should write added and removed transactions through to storage', async () => {
+      const kept = createTransaction([['utxo-a', 0]], 1000);
+      const removed = createTransaction([['utxo-b', 0]], 1000);
+      mempool.add(kept);
+      mempool.add(removed);
+      mempool.remove(removed.id);
+      await mempool.flush();
+
+      const stored = await persistence.getPendingUTXOTransactions();
+
+      expect(stored.map(tx => tx.id)).toEqual([kept.id]);
+    });
+
+    it('should restore stored transactions and drop invalid ones', async () => {
+      const valid = createTransaction([['utxo-a', 0]], 1000);
+      const invalid = createTransaction([['utxo-b', 0]], 1000);
+      mempool.add(valid);
+      mempool.add(invalid);
+      await mempool.flush();
+
+      const restarted = new Mempool({ maxSize: 3 }, persistence);
+      restarted.restore(await persistence.getPendingUTXOTransactions(), tx =>
+        tx.id === invalid.id
+          ? { isValid: false, errors: ['UTXO spent'] }
+          : { isValid: true, errors: [] }
+      );
+      await restarted.flush();
+
+      expect(restarted.getTransactions().map(tx => tx.id)).toEqual([valid.id]);
+      const stored = await persistence.getPendingUTXOTransactions();
+      expect(stored.map(tx => tx.id)).toEqual([valid.id]);
+    });
+
+    it('should restore children stored before their parents', async () => {
+      const parent = createTransaction([['utxo-a', 0]], 1000);
+      const child = createTransaction([[parent.id, 0]], 1000);
+
+      mempool.restore([child, parent], tx =>
+        tx.inputs.every(input => input.previousTxId !== parent.id) ||
+        mempool.has(parent.id)
+          ? { isValid: true, errors: [] }
+          : { isValid: false, errors: ['UTXO not found'] }
+      );
+      await mempool.flush();
+
+      expect(mempool.getTransactions()).toEqual([parent, child]);
+    });
+  });
+});
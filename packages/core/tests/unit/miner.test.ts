@@ -0,0 +1,224 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { BlockMiner } from '../../src/miner.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import type { GenesisConfig, UTXOPersistenceConfig } from '../../src/types.js';
+
+// Far beyond what a test can mine, so jobs at this difficulty run until
+// they are cancelled
+const UNREACHABLE_DIFFICULTY = 16;
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  const deadline = Date.now() + 10000;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('BlockMiner', () => {
+  const miners: BlockMiner[] = [];
+
+  const createMiner = (
+    config: ConstructorParameters<typeof BlockMiner>[0] = {}
+  ): BlockMiner => {
+    const miner = new BlockMiner({ workerCount: 2, ...config });
+    miners.push(miner);
+    return miner;
+  };
+
+  afterEach(() => {
+    miners.forEach(miner => miner.cancel());
+    miners.length = 0;
+  });
+
+  it('should mine a block that meets its difficulty', async () => {
+    const miner = createMiner();
+    const block = BlockManager.createBlock(1, [], 'previous-hash', 2);
+
+    const mined = await miner.mine(block);
+
+    expect(mined).not.toBeNull();
+    expect(mined!.hash.startsWith('00')).toBe(true);
+    expect(mined!.hash).toBe(BlockManager.calculateHash(mined!));
+    expect(BlockManager.validateBlock(mined!, null).isValid).toBe(true);
+    expect(miner.isMining()).toBe(false);
+    expect(miner.getStats().blocksFound).toBe(1);
+  });
+
+  it('should resolve with null when cancelled', async () => {
+    const miner = createMiner();
+    const block = BlockManager.createBlock(
+      1,
+      [],
+      'previous-hash',
+      UNREACHABLE_DIFFICULTY
+    );
+
+    const mining = miner.mine(block);
+    expect(miner.isMining()).toBe(true);
+    expect(miner.getStats().height).toBe(1);
+
+    expect(miner.cancel()).toBe(true);
+
+    expect(await mining).toBeNull();
+    expect(miner.isMining()).toBe(false);
+    expect(miner.cancel()).toBe(false);
+    expect(miner.getStats().jobsCancelled).toBe(1);
+  });
+
+  it('should report hashrate while mining', async () => {
+    const miner = createMiner({ progressInterval: 100 });
+    const mining = miner.mine(
+      BlockManager.createBlock(1, [], 'previous-hash', UNREACHABLE_DIFFICULTY)
+    );
+
+    await waitFor(() => miner.getStats().totalHashes >= 1000);
+    expect(miner.getHashrate()).toBeGreaterThan(0);
+
+    miner.cancel();
+    await mining;
+    expect(miner.getStats().hashrate).toBeGreaterThan(0);
+  });
+
+  it('should run one job at a time', async () => {
+    const miner = createMiner();
+    const block = BlockManager.createBlock(
+      1,
+      [],
+      'previous-hash',
+      UNREACHABLE_DIFFICULTY
+    );
+    const mining = miner.mine(block);
+
+    expect(() => miner.mine(block)).toThrow(
+      'Already mining block 1; cancel it first'
+    );
+
+    miner.cancel();
+    await mining;
+  });
+
+  it('should validate its configuration', () => {
+    expect(() => new BlockMiner({ workerCount: 0 })).toThrow(
+      'Worker count must be a positive integer'
+    );
+    expect(() => new BlockMiner({ progressInterval: 1.5 })).toThrow(
+      'Progress interval must be a positive integer'
+    );
+  });
+});
+
+describe('Blockchain off-thread mining', () => {
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const genesisConfig: GenesisConfig = {
+    chainId: 'miner-test-v1',
+    networkName: 'Miner Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'lora1miner000000000000000000000000000000000',
+        amount: 1000000,
+        description: 'Miner test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 1000,
+      halvingInterval: 210000,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'Miner Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'private',
+    },
+  };
+
+  const blockchains: Blockchain[] = [];
+
+  const createBlockchain = async (): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(DatabaseFactory.create(testConfig), {
+        compressionType: 'none',
+        cryptographicAlgorithm: 'secp256k1',
+      }),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      genesisConfig
+    );
+    await blockchain.waitForInitialization();
+    blockchain.setMiner(new BlockMiner({ workerCount: 1 }));
+    blockchains.push(blockchain);
+    return blockchain;
+  };
+
+  afterEach(async () => {
+    while (blockchains.length > 0) {
+      await blockchains.pop()!.close();
+    }
+  });
+
+  it('should mine and connect a block off the main thread', async () => {
+    const blockchain = await createBlockchain();
+
+    const block = await blockchain.minePendingTransactionsAsync('miner');
+
+    expect(block).not.toBeNull();
+    expect(blockchain.getLatestBlock()).toEqual(block);
+    expect(blockchain.getBalance('miner')).toBe(1000);
+    expect(blockchain.validateChain().isValid).toBe(true);
+  });
+
+  it('should cancel mining when a competing block arrives', async () => {
+    const blockchain = await createBlockchain();
+    const competitor = await createBlockchain();
+    const competingBlock = competitor.minePendingTransactions('competitor')!;
+
+    // Mine the local template at a difficulty it cannot reach in time
+    blockchain.setDifficulty(UNREACHABLE_DIFFICULTY);
+    const mining = blockchain.minePendingTransactionsAsync('miner');
+    blockchain.setDifficulty(1);
+    expect(blockchain.getMiner().isMining()).toBe(true);
+
+    const result = await blockchain.addBlock(competingBlock);
+
+    expect(result.isValid).toBe(true);
+    expect(await mining).toBeNull();
+    expect(blockchain.getMiner().isMining()).toBe(false);
+    expect(blockchain.getLatestBlock()).toEqual(competingBlock);
+    expect(blockchain.getBalance('miner')).toBe(0);
+  });
+
+  it('should stop mining on request', async () => {
+    const blockchain = await createBlockchain();
+    blockchain.setDifficulty(UNREACHABLE_DIFFICULTY);
+    const mining = blockchain.minePendingTransactionsAsync('miner');
+
+    expect(blockchain.cancelMining()).toBe(true);
+
+    expect(await mining).toBeNull();
+    expect(blockchain.getBlocks()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { NetworkTime } from '../../src/network-time.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import type { GenesisConfig, UTXOPersistenceConfig } from '../../src/types.js';
+
+const HOUR = 60 * 60 * 1000;
+const NETWORK_NOW = 1800000000000;
+
+// Clock that can be moved between samples
+const createClock = (
+  time: number
+): { now: () => number; set: (t: number) => void } => {
+  let current = time;
+  return {
+    now: () => current,
+    set: (t: number): void => {
+      current = t;
+    },
+  };
+};
+
+describe('NetworkTime', () => {
+  it('should keep local time until enough peers have reported', () => {
+    const clock = createClock(NETWORK_NOW);
+    const networkTime = new NetworkTime({ minSamples: 3 }, clock.now);
+
+    networkTime.addSample('peer-a', NETWORK_NOW + 60000);
+    networkTime.addSample('peer-b', NETWORK_NOW + 60000);
+    expect(networkTime.now()).toBe(NETWORK_NOW);
+
+    networkTime.addSample('peer-c', NETWORK_NOW - 30000);
+    expect(networkTime.getOffset()).toBe(60000);
+    expect(networkTime.now()).toBe(NETWORK_NOW + 60000);
+  });
+
+  it('should take the median offset so a few peers cannot skew it', () => {
+    const clock = createClock(NETWORK_NOW);
+    const networkTime = new NetworkTime({ minSamples: 3 }, clock.now);
+
+    networkTime.addSample('peer-a', NETWORK_NOW + 1000);
+    networkTime.addSample('peer-b', NETWORK_NOW + 2000);
+    networkTime.addSample('liar', NETWORK_NOW + 40 * HOUR);
+
+    expect(networkTime.getOffset()).toBe(2000);
+  });
+
+  it('should keep one sample per peer and forget removed peers', () => {
+    const clock = createClock(NETWORK_NOW);
+    const networkTime = new NetworkTime({ minSamples: 1 }, clock.now);
+
+    networkTime.addSample('peer-a', NETWORK_NOW + 1000);
+    networkTime.addSample('peer-a', NETWORK_NOW + 5000);
+    expect(networkTime.getSampleCount()).toBe(1);
+    expect(networkTime.getOffset()).toBe(5000);
+
+    networkTime.removeSample('peer-a');
+    expect(networkTime.getSampleCount()).toBe(0);
+    expect(networkTime.getOffset()).toBe(0);
+  });
+
+  it('should cap offsets at the limit for a clock that is set', () => {
+    const clock = createClock(NETWORK_NOW);
+    const networkTime = new NetworkTime(
+      { minSamples: 1, maxOffset: HOUR },
+      clock.now
+    );
+
+    networkTime.addSample('peer-a', NETWORK_NOW + 2 * HOUR);
+    expect(networkTime.getOffset()).toBe(HOUR);
+
+    networkTime.addSample('peer-a', NETWORK_NOW - 3 * HOUR);
+    expect(networkTime.getOffset()).toBe(-HOUR);
+  });
+
+  it('should adopt network time from a single peer when the clock was never set', () => {
+    const clock = createClock(5000); // Booted without a real-time clock
+    const networkTime = new NetworkTime(
+      { minimumTime: 1700000000000 },
+      clock.now
+    );
+
+    networkTime.addSample('peer-a', NETWORK_NOW);
+    expect(networkTime.now()).toBe(NETWORK_NOW);
+    clock.set(6000);
+    expect(networkTime.now()).toBe(NETWORK_NOW + 1000);
+  });
+
+  it('should wait for the configured peers before setting an unset clock', () => {
+    const clock = createClock(5000);
+    const networkTime = new NetworkTime(
+      { minimumTime: 1700000000000, minUnsetSamples: 2 },
+      clock.now
+    );
+
+    networkTime.addSample('peer-a', NETWORK_NOW);
+    networkTime.addSample('peer-a', NETWORK_NOW);
+    expect(networkTime.now()).toBe(5000);
+
+    networkTime.addSample('peer-b', NETWORK_NOW + 2000);
+    expect(networkTime.now()).toBe(NETWORK_NOW + 2000);
+  });
+
+  it('should stop sampling new peers past the sample limit', () => {
+    const clock = createClock(NETWORK_NOW);
+    const networkTime = new NetworkTime(
+      { minSamples: 1, maxSamples: 1 },
+      clock.now
+    );
+
+    networkTime.addSample('peer-a', NETWORK_NOW + 1000);
+    networkTime.addSample('peer-b', NETWORK_NOW + 9000);
+
+    expect(networkTime.getSampleCount()).toBe(1);
+    expect(networkTime.getOffset()).toBe(1000);
+  });
+});
+
+describe('Blockchain block timestamps', () => {
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const testGenesisConfig: GenesisConfig = {
+    chainId: 'network-time-test-v1',
+    networkName: 'Network Time Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'funded-address',
+        amount: 1000000,
+        description: 'Network time test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 10,
+      halvingInterval: 210000,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'Network Time Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'testnet',
+    },
+  };
+
+  const chains: Blockchain[] = [];
+
+  const createBlockchain = async (): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      ),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      testGenesisConfig
+    );
+    await blockchain.waitForInitialization();
+    chains.push(blockchain);
+    return blockchain;
+  };
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    for (const blockchain of chains.splice(0)) {
+      await blockchain.close();
+    }
+  });
+
+  it('should reject blocks too far ahead of network time', async () => {
+    const blockchain = await createBlockchain();
+    const genesis = blockchain.getLatestBlock();
+    const block = BlockManager.mineBlock(
+      BlockManager.createBlock(
+        1,
+        [],
+        genesis.hash,
+        1,
+        'miner-a',
+        undefined,
+        undefined,
+        Date.now() + 3 * HOUR
+      )
+    );
+
+    const result = await blockchain.addBlock(block);
+
+    expect(result.errors).toContain('Block timestamp is too far in the future');
+  });
+
+  it('should reject blocks at or before the median time past', async () => {
+    const blockchain = await createBlockchain();
+    const genesis = blockchain.getLatestBlock();
+    const block = BlockManager.mineBlock(
+      BlockManager.createBlock(
+        1,
+        [],
+        genesis.hash,
+        1,
+        'miner-a',
+        undefined,
+        undefined,
+        genesis.timestamp
+      )
+    );
+
+    const result = await blockchain.addBlock(block);
+
+    expect(result.errors).toContain(
+      'Block timestamp must be greater than median time past'
+    );
+  });
+
+  it('should stamp and accept blocks by network time on nodes without a clock', async () => {
+    const miner = await createBlockchain();
+    const follower = await createBlockchain();
+    const networkNow = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(5000);
+
+    miner.getNetworkTime().addSample('peer-a', networkNow);
+    const block = miner.minePendingUTXOTransactions('miner-a')!;
+    expect(block.timestamp).toBe(networkNow);
+
+    expect((await follower.addBlock(block)).errors).toContain(
+      'Block timestamp is too far in the future'
+    );
+    follower.getNetworkTime().addSample('peer-a', networkNow);
+    expect(await follower.addBlock(block)).toEqual({
+      isValid: true,
+      errors: [],
+    });
+  });
+});
@@ -94,6 +94,19 @@ describe('NodeDiscoveryProtocol', () => {
       });
     });
 
+    it('should advertise the prune height of a pruned node', async () => {
+      const beaconSource = discoveryProtocol as unknown as {
+        createDiscoveryBeacon: () => Promise<DiscoveryBeacon>;
+      };
+      const archivalBeacon = await beaconSource.createDiscoveryBeacon();
+      expect(archivalBeacon.capabilities.pruneHeight).toBeUndefined();
+
+      discoveryProtocol.setPruneHeight(1200);
+      const prunedBeacon = await beaconSource.createDiscoveryBeacon();
+
+      expect(prunedBeacon.capabilities.pruneHeight).toBe(1200);
+    });
+
     it('should increment sequence number with each beacon', async () => {
       const beacon1 = await (discoveryProtocol as any).createDiscoveryBeacon();
       const beacon2 = await (discoveryProtocol as any).createDiscoveryBeacon();
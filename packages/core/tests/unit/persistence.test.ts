@@ -1,6 +1,10 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  UTXOPersistenceManager,
+  MIN_PRUNE_KEEP_BLOCKS,
+} from '../../src/persistence.js';
 import { MemoryDatabase, SubLevels } from '../../src/database.js';
+import { BinaryCodec } from '../../src/codec.js';
 import { CryptographicService } from '../../src/cryptographic.js';
 import type {
   IDatabase,
@@ -9,6 +13,7 @@ import type {
   UTXOTransaction,
   UTXO,
   UTXOBlockchainState,
+  BlockUndoRecord,
 } from '../../src/types.js';
 
 // Test configuration
@@ -422,6 +427,407 @@ describe('UTXOPersistenceManager', () => {
     });
   });
 
+  describe('Block Undo Data', () => {
+    const createUndo = (block: Block): BlockUndoRecord => ({
+      blockHash: block.hash,
+      blockIndex: block.index,
+      spentUTXOs: [
+        { ...createMockUTXO('funding-tx', 0, 5000), blockHeight: 0 },
+      ],
+      createdUTXOs: [
+        { ...createMockUTXO(`tx-${block.index}-1`, 0, 4000), blockHeight: 1 },
+      ],
+      utxoTransactions: [],
+    });
+
+    beforeEach(async () => {
+      await persistenceManager.saveBlock(createMockBlock(0));
+      await persistenceManager.saveUTXO({
+        ...createMockUTXO('funding-tx', 0, 5000),
+        blockHeight: 0,
+      });
+    });
+
+    it('should write the block, undo record and UTXO changes together', async () => {
+      const block = createMockBlock(1);
+      const undo = createUndo(block);
+
+      await persistenceManager.connectBlock(block, undo);
+
+      expect(await persistenceManager.getBlock(1)).toEqual(block);
+      expect(await persistenceManager.getBlockHeader(1)).not.toBeNull();
+      expect(await persistenceManager.getBlockUndo(1)).toEqual(undo);
+      expect(await persistenceManager.getUTXO('funding-tx', 0)).toBeNull();
+      expect(await persistenceManager.getUTXO('tx-1-1', 0)).toEqual(
+        undo.createdUTXOs[0]
+      );
+      expect(
+        (await persistenceManager.loadBlockchainState())?.latestBlockIndex
+      ).toBe(1);
+    });
+
+    it('should restore spent UTXOs with their original heights on disconnect', async () => {
+      const block = createMockBlock(1);
+      const undo = createUndo(block);
+      await persistenceManager.connectBlock(block, undo);
+
+      const disconnected = await persistenceManager.disconnectBlock();
+
+      expect(disconnected).toEqual(undo);
+      expect(await persistenceManager.getUTXO('funding-tx', 0)).toMatchObject({
+        blockHeight: 0,
+        isSpent: false,
+      });
+      expect(await persistenceManager.getUTXO('tx-1-1', 0)).toBeNull();
+      expect(await persistenceManager.getBlock(1)).toBeNull();
+      expect(await persistenceManager.getBlockUndo(1)).toBeNull();
+      expect(
+        (await persistenceManager.loadBlockchainState())?.latestBlockIndex
+      ).toBe(0);
+    });
+
+    it('should refuse to disconnect a block without undo data', async () => {
+      await persistenceManager.saveBlock(createMockBlock(1));
+
+      await expect(persistenceManager.disconnectBlock()).rejects.toThrow(
+        'No undo data available for block 1'
+      );
+    });
+
+    it('should refuse to disconnect the genesis block', async () => {
+      await expect(persistenceManager.disconnectBlock()).rejects.toThrow(
+        'No block to disconnect'
+      );
+    });
+
+    it('should roll back corrupted blocks at the tip using undo data', async () => {
+      const block = createMockBlock(1);
+      await persistenceManager.connectBlock(block, createUndo(block));
+      await db.del('block:0000000001', SubLevels.BLOCKS);
+
+      const result = await persistenceManager.repairCorruption();
+
+      expect(result).toMatchObject({
+        repaired: true,
+        utxoSetRebuilt: false,
+        corruptedBlocks: [1],
+      });
+      expect(await persistenceManager.getUTXO('funding-tx', 0)).not.toBeNull();
+      expect(
+        (await persistenceManager.loadBlockchainState())?.latestBlockIndex
+      ).toBe(0);
+    });
+  });
+
+  describe('Transaction Indexes', () => {
+    let indexedManager: UTXOPersistenceManager;
+
+    // Block N's transaction spends the previous block's change output,
+    // paying 1000 to address-receiver and returning the rest to address-test
+    const connect = async (index: number, value: number): Promise<void> => {
+      const block = createMockBlock(index);
+      const spent = {
+        ...createMockUTXO(`tx-${index - 1}-1`, 1, value),
+        blockHeight: index - 1,
+      };
+      const utxoTx: UTXOTransaction = {
+        ...createMockUTXOTransaction(`tx-${index}-1`),
+        inputs: [
+          {
+            previousTxId: spent.txId,
+            outputIndex: 1,
+            unlockingScript: 'signature:publickey',
+            sequence: 0xffffffff,
+          },
+        ],
+        outputs: [
+          { value: 1000, lockingScript: 'address-receiver', outputIndex: 0 },
+          {
+            value: value - 1100,
+            lockingScript: 'address-test',
+            outputIndex: 1,
+          },
+        ],
+        fee: 100,
+      };
+      await indexedManager.connectBlock(block, {
+        blockHash: block.hash,
+        blockIndex: index,
+        spentUTXOs: [spent],
+        createdUTXOs: utxoTx.outputs.map(output => ({
+          ...createMockUTXO(utxoTx.id, output.outputIndex, output.value),
+          lockingScript: output.lockingScript,
+          blockHeight: index,
+        })),
+        utxoTransactions: [utxoTx],
+      });
+    };
+
+    beforeEach(async () => {
+      indexedManager = new UTXOPersistenceManager(
+        db,
+        { ...testConfig, txIndexEnabled: true, addressIndexEnabled: true },
+        cryptoService
+      );
+      await indexedManager.saveBlock(createMockBlock(0));
+      await indexedManager.saveUTXO({
+        ...createMockUTXO('tx-0-1', 1, 10000),
+        blockHeight: 0,
+      });
+    });
+
+    it('should locate connected transactions', async () => {
+      await connect(1, 10000);
+
+      expect(await indexedManager.getTransactionLocation('tx-1-1')).toEqual({
+        txId: 'tx-1-1',
+        blockHash: 'block-hash-1',
+        blockIndex: 1,
+        position: 0,
+      });
+      expect(await indexedManager.getTransactionLocation('unknown')).toBeNull();
+    });
+
+    it('should record net amounts sent and received per address', async () => {
+      await connect(1, 10000);
+
+      expect(
+        await indexedManager.getAddressHistory('address-receiver')
+      ).toEqual({
+        address: 'address-receiver',
+        total: 1,
+        entries: [
+          { height: 1, txId: 'tx-1-1', direction: 'received', amount: 1000 },
+        ],
+      });
+      expect(
+        (await indexedManager.getAddressHistory('address-test')).entries
+      ).toEqual([
+        { height: 1, txId: 'tx-1-1', direction: 'sent', amount: 1100 },
+      ]);
+    });
+
+    it('should page through history newest first', async () => {
+      await connect(1, 10000);
+      await connect(2, 8900);
+      await connect(3, 7800);
+
+      const history = await indexedManager.getAddressHistory(
+        'address-receiver',
+        1,
+        1
+      );
+
+      expect(history.total).toBe(3);
+      expect(history.entries.map(entry => entry.txId)).toEqual(['tx-2-1']);
+    });
+
+    it('should drop index entries when a block is disconnected', async () => {
+      await connect(1, 10000);
+      await connect(2, 8900);
+
+      await indexedManager.disconnectBlock();
+
+      expect(await indexedManager.getTransactionLocation('tx-2-1')).toBeNull();
+      expect(
+        (await indexedManager.getAddressHistory('address-receiver')).entries
+      ).toEqual([
+        { height: 1, txId: 'tx-1-1', direction: 'received', amount: 1000 },
+      ]);
+    });
+
+    it('should reject queries when the indexes are disabled', async () => {
+      expect(persistenceManager.getIndexes()).toEqual({
+        txIndex: false,
+        addressIndex: false,
+      });
+      await expect(
+        persistenceManager.getTransactionLocation('tx-1-1')
+      ).rejects.toThrow('Transaction index is not enabled');
+      await expect(
+        persistenceManager.getAddressHistory('address-test')
+      ).rejects.toThrow('Address index is not enabled');
+    });
+  });
+
+  describe('Block Pruning', () => {
+    const tipIndex = 399;
+    let pruningManager: UTXOPersistenceManager;
+
+    const createPruningManager = (
+      pruneTarget: UTXOPersistenceConfig['pruneTarget']
+    ): UTXOPersistenceManager =>
+      new UTXOPersistenceManager(
+        db,
+        { ...testConfig, pruningEnabled: true, pruneTarget },
+        cryptoService
+      );
+
+    const blockSize = (index: number): number =>
+      BinaryCodec.encodeBlock({ ...createMockBlock(index), difficulty: 1 })
+        .length;
+
+    beforeEach(async () => {
+      for (let i = 0; i <= tipIndex; i++) {
+        await persistenceManager.saveBlock({
+          ...createMockBlock(i),
+          difficulty: 1,
+        });
+      }
+    });
+
+    it('should not prune when pruning is disabled', async () => {
+      const state = await persistenceManager.pruneBlocks(tipIndex);
+
+      expect(state).toEqual({ pruned: false, pruneHeight: 0 });
+      expect(await persistenceManager.getBlock(0)).not.toBeNull();
+    });
+
+    it('should keep the configured number of recent block bodies', async () => {
+      pruningManager = createPruningManager({ keepBlocks: 300 });
+
+      const state = await pruningManager.pruneBlocks(tipIndex);
+
+      expect(state).toEqual({ pruned: true, pruneHeight: 100 });
+      expect(await pruningManager.getBlock(99)).toBeNull();
+      expect(await pruningManager.getBlock(100)).not.toBeNull();
+      expect(await pruningManager.getPruneState()).toEqual(state);
+    });
+
+    it('should discard undo data along with pruned bodies', async () => {
+      const block = { ...createMockBlock(tipIndex + 1), difficulty: 1 };
+      await persistenceManager.connectBlock(block, {
+        blockHash: block.hash,
+        blockIndex: block.index,
+        spentUTXOs: [],
+        createdUTXOs: [],
+        utxoTransactions: [],
+      });
+      pruningManager = createPruningManager({ keepBlocks: 0 });
+
+      await pruningManager.pruneBlocks(MIN_PRUNE_KEEP_BLOCKS + tipIndex + 1);
+
+      expect(await pruningManager.getBlockUndo(tipIndex + 1)).toBeNull();
+    });
+
+    it('should keep headers for pruned blocks', async () => {
+      pruningManager = createPruningManager({ keepBlocks: 300 });
+      await pruningManager.pruneBlocks(tipIndex);
+
+      const header = await pruningManager.getBlockHeader(50);
+
+      expect(header).toMatchObject({
+        index: 50,
+        hash: 'block-hash-50',
+        previousHash: 'block-hash-49',
+        merkleRoot: 'merkle-root-50',
+        transactionCount: 1,
+        difficulty: 1,
+      });
+    });
+
+    it('should never keep fewer than the minimum number of blocks', async () => {
+      pruningManager = createPruningManager({ keepBlocks: 10 });
+
+      const state = await pruningManager.pruneBlocks(tipIndex);
+
+      expect(state.pruneHeight).toBe(tipIndex - MIN_PRUNE_KEEP_BLOCKS + 1);
+    });
+
+    it('should keep the minimum number of blocks under a tight size target', async () => {
+      pruningManager = createPruningManager({ maxSizeMB: 0 });
+
+      const state = await pruningManager.pruneBlocks(tipIndex);
+
+      expect(state.pruneHeight).toBe(tipIndex - MIN_PRUNE_KEEP_BLOCKS + 1);
+    });
+
+    it('should stop pruning once stored blocks fit the size target', async () => {
+      let keptSize = 0;
+      for (let i = 0; i <= tipIndex; i++) {
+        keptSize += blockSize(i);
+      }
+      pruningManager = createPruningManager({
+        maxSizeMB: (keptSize - blockSize(0) - blockSize(1)) / (1024 * 1024),
+      });
+
+      const state = await pruningManager.pruneBlocks(tipIndex);
+
+      expect(state).toEqual({ pruned: true, pruneHeight: 2 });
+    });
+
+    it('should track stored block sizes instead of rereading blocks', async () => {
+      pruningManager = createPruningManager({ maxSizeMB: 1 });
+      await pruningManager.pruneBlocks(tipIndex);
+      await pruningManager.saveBlock({
+        ...createMockBlock(tipIndex + 1),
+        difficulty: 1,
+      });
+      const getBlock = vi.spyOn(pruningManager, 'getBlock');
+
+      await pruningManager.pruneBlocks(tipIndex + 1);
+
+      expect(getBlock).not.toHaveBeenCalled();
+    });
+
+    it('should only prune newly expired blocks on later calls', async () => {
+      pruningManager = createPruningManager({ keepBlocks: 300 });
+      await pruningManager.pruneBlocks(tipIndex);
+
+      await pruningManager.saveBlock({
+        ...createMockBlock(tipIndex + 1),
+        difficulty: 1,
+      });
+      const state = await pruningManager.pruneBlocks(tipIndex + 1);
+
+      expect(state.pruneHeight).toBe(101);
+      expect(await pruningManager.getBlock(100)).toBeNull();
+    });
+
+    it('should load header-only blocks below the prune height', async () => {
+      pruningManager = createPruningManager({ keepBlocks: 300 });
+      await pruningManager.pruneBlocks(tipIndex);
+
+      const state = await pruningManager.loadBlockchainState();
+
+      expect(state?.pruneHeight).toBe(100);
+      expect(state?.blocks).toHaveLength(tipIndex + 1);
+      expect(state?.blocks[99].hash).toBe('block-hash-99');
+      expect(state?.blocks[99].transactions).toEqual([]);
+      expect(state?.blocks[100].transactions).toHaveLength(1);
+    });
+
+    it('should not restore pruned bodies when saving state', async () => {
+      pruningManager = createPruningManager({ keepBlocks: 300 });
+      await pruningManager.pruneBlocks(tipIndex);
+
+      const state = await pruningManager.loadBlockchainState();
+      await pruningManager.saveBlockchainState(state!);
+
+      expect(await pruningManager.getBlock(99)).toBeNull();
+      expect(await pruningManager.getBlock(100)).not.toBeNull();
+    });
+
+    it('should validate chain continuity through pruned headers', async () => {
+      pruningManager = createPruningManager({ keepBlocks: 300 });
+      await pruningManager.pruneBlocks(tipIndex);
+      await pruningManager.saveUTXO(createMockUTXO('tx-1', 0, 1000));
+
+      const result = await pruningManager.validateIntegrity();
+
+      expect(result).toEqual({ isValid: true, errors: [] });
+    });
+
+    it('should refuse to rebuild the UTXO set once pruned', async () => {
+      pruningManager = createPruningManager({ keepBlocks: 300 });
+      await pruningManager.pruneBlocks(tipIndex);
+
+      await expect(pruningManager.rebuildUTXOSet()).rejects.toThrow(
+        'Cannot rebuild UTXO set on a pruned node'
+      );
+    });
+  });
+
   describe('Statistics and Utility Methods', () => {
     beforeEach(async () => {
       // Set up test data
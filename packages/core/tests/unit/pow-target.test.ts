@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TARGET,
+  calculateTargetWork,
+  checkBlockTarget,
+  decodeCompactTarget,
+  encodeCompactTarget,
+  getBlockTarget,
+  getLeadingZeroTarget,
+  getTargetLeadingZeros,
+  isValidCompactTarget,
+  meetsTarget,
+  targetToHex,
+} from '../../src/pow-target.js';
+import { DifficultyManager } from '../../src/difficulty.js';
+
+describe('Proof-of-work targets', () => {
+  it('should round trip targets through the compact encoding', () => {
+    expect(encodeCompactTarget(0xffffn << 208n)).toBe(0x1d00ffff);
+    expect(decodeCompactTarget(0x1d00ffff)).toBe(0xffffn << 208n);
+    expect(encodeCompactTarget(0x123456n)).toBe(0x03123456);
+    expect(decodeCompactTarget(0x03123456)).toBe(0x123456n);
+    // A mantissa with its top bit set moves up a byte
+    expect(encodeCompactTarget(0x80n)).toBe(0x02008000);
+    expect(decodeCompactTarget(0x02008000)).toBe(0x80n);
+  });
+
+  it('should only accept canonical encodings of targets in range', () => {
+    expect(isValidCompactTarget(0x1d00ffff)).toBe(true);
+    expect(isValidCompactTarget(0)).toBe(false);
+    expect(isValidCompactTarget(0x03000000)).toBe(false);
+    expect(isValidCompactTarget(0x04001234)).toBe(false); // Should be 0x03123400
+    expect(isValidCompactTarget(0x2200ffff)).toBe(false); // Above MAX_TARGET
+    expect(isValidCompactTarget(1.5)).toBe(false);
+  });
+
+  it('should give blocks without bits the legacy leading-zero target', () => {
+    expect(getLeadingZeroTarget(0)).toBe(MAX_TARGET);
+    expect(targetToHex(getBlockTarget({ difficulty: 2 }))).toBe(
+      '00' + 'f'.repeat(62)
+    );
+    expect(getTargetLeadingZeros(getLeadingZeroTarget(5))).toBe(5);
+
+    expect(meetsTarget('00' + 'f'.repeat(62), getLeadingZeroTarget(2))).toBe(
+      true
+    );
+    expect(meetsTarget('01' + '0'.repeat(62), getLeadingZeroTarget(2))).toBe(
+      false
+    );
+    expect(meetsTarget('not-a-hash', MAX_TARGET)).toBe(false);
+  });
+
+  it('should require the difficulty of a block with bits to match its target', () => {
+    expect(checkBlockTarget({ difficulty: 4, bits: 0x1f00ffff })).toBeNull();
+    expect(checkBlockTarget({ difficulty: 3, bits: 0x1f00ffff })).toBe(
+      'Block difficulty 3 does not match its target, expected 4'
+    );
+    expect(checkBlockTarget({ difficulty: 4, bits: 0x04001234 })).toBe(
+      'Block target bits 67113524 are invalid'
+    );
+  });
+
+  it('should measure work from the target', () => {
+    for (let difficulty = 1; difficulty <= 4; difficulty++) {
+      expect(calculateTargetWork(getLeadingZeroTarget(difficulty))).toBe(
+        16n ** BigInt(difficulty)
+      );
+      expect(DifficultyManager.getBlockWork({ difficulty })).toBe(
+        16n ** BigInt(difficulty)
+      );
+    }
+
+    // Halving the target doubles the work, within one difficulty step
+    const work = DifficultyManager.getBlockWork({
+      difficulty: 4,
+      bits: 0x1f00ffff,
+    });
+    const harderWork = DifficultyManager.getBlockWork({
+      difficulty: 4,
+      bits: encodeCompactTarget(decodeCompactTarget(0x1f00ffff) / 2n),
+    });
+    expect(Number(harderWork) / Number(work)).toBeCloseTo(2);
+  });
+
+  it('should keep work exact beyond the safe integer range', () => {
+    const work = calculateTargetWork(getLeadingZeroTarget(20));
+
+    expect(work).toBe(2n ** 80n);
+    expect(work + 1n).not.toBe(work);
+    expect(DifficultyManager.getBlockWork({ difficulty: 20 })).toBe(work);
+  });
+});
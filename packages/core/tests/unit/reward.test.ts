@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { RewardSchedule } from '../../src/reward.js';
+
+describe('RewardSchedule', () => {
+  describe('getBlockSubsidy', () => {
+    it('should halve the subsidy every halving interval', () => {
+      const schedule = new RewardSchedule({
+        initialReward: 50,
+        halvingInterval: 10,
+      });
+
+      expect(schedule.getBlockSubsidy(0)).toBe(0);
+      expect(schedule.getBlockSubsidy(1)).toBe(50);
+      expect(schedule.getBlockSubsidy(9)).toBe(50);
+      expect(schedule.getBlockSubsidy(10)).toBe(25);
+      // Halving rounds down to whole base units
+      expect(schedule.getBlockSubsidy(25)).toBe(12);
+      expect(schedule.getBlockSubsidy(55)).toBe(1);
+      expect(schedule.getBlockSubsidy(10 * 64)).toBe(0);
+    });
+
+    it('should not halve below the tail emission', () => {
+      const schedule = new RewardSchedule({
+        initialReward: 50,
+        halvingInterval: 10,
+        tailEmission: 10,
+      });
+
+      expect(schedule.getBlockSubsidy(20)).toBe(12);
+      expect(schedule.getBlockSubsidy(30)).toBe(10);
+      expect(schedule.getBlockSubsidy(10_000)).toBe(10);
+    });
+
+    it('should stop paying once the max supply is reached', () => {
+      const schedule = new RewardSchedule({
+        initialReward: 10,
+        maxSupply: 1025,
+        initialSupply: 1000,
+      });
+
+      expect(schedule.getBlockSubsidy(2)).toBe(10);
+      expect(schedule.getBlockSubsidy(3)).toBe(5);
+      expect(schedule.getBlockSubsidy(4)).toBe(0);
+    });
+  });
+
+  describe('supply', () => {
+    it('should add up the subsidies issued up to a height', () => {
+      const schedule = new RewardSchedule({
+        initialReward: 50,
+        halvingInterval: 10,
+        initialSupply: 1000,
+      });
+
+      // Blocks 1-9 pay 50, blocks 10-12 pay 25
+      expect(schedule.getIssuedSupply(12)).toBe(1000 + 9 * 50 + 3 * 25);
+    });
+
+    it('should project the supply of a finite emission', () => {
+      const schedule = new RewardSchedule({
+        initialReward: 50,
+        halvingInterval: 10,
+        maxSupply: 1_000_000,
+      });
+
+      // Subsidies round down to 25, 12, 6, 3 and 1 before reaching zero
+      expect(schedule.getProjectedSupply()).toBe(
+        9 * 50 + 10 * (25 + 12 + 6 + 3 + 1)
+      );
+    });
+
+    it('should project the max supply when emission never ends', () => {
+      const schedule = new RewardSchedule({
+        initialReward: 50,
+        halvingInterval: 10,
+        tailEmission: 1,
+        maxSupply: 5000,
+      });
+
+      expect(schedule.getProjectedSupply()).toBe(5000);
+      expect(schedule.getIssuedSupply(1_000_000)).toBe(5000);
+    });
+
+    it('should report the next halving until the tail emission', () => {
+      const schedule = new RewardSchedule({
+        initialReward: 50,
+        halvingInterval: 10,
+        tailEmission: 25,
+      });
+
+      expect(schedule.getNextHalvingHeight(3)).toBe(10);
+      expect(schedule.getNextHalvingHeight(10)).toBeNull();
+      expect(new RewardSchedule().getNextHalvingHeight(3)).toBeNull();
+    });
+  });
+});
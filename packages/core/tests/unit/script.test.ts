@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ScriptBuilder,
+  ScriptInterpreter,
+  SEQUENCE_FINAL,
+} from '../../src/script.js';
+import { UTXOTransactionManager } from '../../src/utxo-transaction.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { CryptographicService, type KeyPair } from '../../src/cryptographic.js';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { UTXO } from '../../src/types.js';
+
+describe('Script', () => {
+  let utxoTransactionManager: UTXOTransactionManager;
+  let utxoManager: UTXOManager;
+
+  const members: KeyPair[] = [
+    CryptographicService.generateKeyPair('secp256k1'),
+    CryptographicService.generateKeyPair('ed25519'),
+    CryptographicService.generateKeyPair('secp256k1'),
+  ];
+  const memberKeys = members.map(member => bytesToHex(member.publicKey));
+  const treasuryScript = ScriptBuilder.multisig(2, memberKeys);
+
+  const owner = CryptographicService.generateKeyPair('secp256k1');
+  const ownerAddress = CryptographicService.generateAddress(
+    owner.publicKey,
+    'secp256k1'
+  );
+
+  const addUTXO = (txId: string, lockingScript: string): UTXO => {
+    const utxo: UTXO = {
+      txId,
+      outputIndex: 0,
+      value: 10_000,
+      lockingScript,
+      blockHeight: 1,
+      isSpent: false,
+    };
+    utxoManager.addUTXO(utxo);
+    return utxo;
+  };
+
+  beforeEach(() => {
+    utxoTransactionManager = new UTXOTransactionManager();
+    utxoManager = new UTXOManager();
+  });
+
+  describe('ScriptBuilder', () => {
+    it('should build the standard templates', () => {
+      expect(ScriptBuilder.payToAddress(ownerAddress)).toBe(
+        `OP_DUP OP_ADDRESS ${ownerAddress} OP_EQUALVERIFY OP_CHECKSIG`
+      );
+      expect(treasuryScript).toBe(
+        `2 ${memberKeys.join(' ')} 3 OP_CHECKMULTISIG`
+      );
+      expect(ScriptBuilder.timelocked(100, ownerAddress)).toBe(
+        `100 OP_CHECKLOCKTIMEVERIFY OP_DROP OP_DUP OP_ADDRESS ${ownerAddress} OP_EQUALVERIFY OP_CHECKSIG`
+      );
+    });
+
+    it('should reject invalid multisig parameters', () => {
+      expect(() => ScriptBuilder.multisig(4, memberKeys)).toThrow(
+        'Invalid multisig threshold 4 of 3'
+      );
+      expect(() => ScriptBuilder.multisig(1, ['abcd'])).toThrow(
+        'Invalid multisig public key: abcd'
+      );
+    });
+  });
+
+  describe('parseLockingScript', () => {
+    it('should treat a bare address as pay-to-pubkey-hash', () => {
+      expect(ScriptInterpreter.parseLockingScript(ownerAddress)).toEqual({
+        template: 'p2pkh',
+        address: ownerAddress,
+      });
+    });
+
+    it('should recognize multisig and timelocked templates', () => {
+      expect(ScriptInterpreter.parseLockingScript(treasuryScript)).toEqual({
+        template: 'multisig',
+        requiredSignatures: 2,
+        publicKeys: memberKeys,
+      });
+      expect(
+        ScriptInterpreter.parseLockingScript(
+          ScriptBuilder.timelocked(500, ownerAddress)
+        )
+      ).toEqual({ template: 'cltv', address: ownerAddress, lockTime: 500 });
+    });
+
+    it('should report other scripts as nonstandard', () => {
+      expect(
+        ScriptInterpreter.parseLockingScript('OP_DUP OP_DROP').template
+      ).toBe('nonstandard');
+    });
+  });
+
+  describe('extractAddress', () => {
+    it('should index timelocked outputs under their owner', () => {
+      addUTXO('savings-tx', ScriptBuilder.timelocked(500, ownerAddress));
+
+      expect(utxoManager.getUTXOsForAddress(ownerAddress)).toHaveLength(1);
+    });
+
+    it('should index multisig outputs under a script address', () => {
+      addUTXO('treasury-tx', treasuryScript);
+      const scriptAddress = ScriptInterpreter.extractAddress(treasuryScript)!;
+
+      expect(CryptographicService.validateAddress(scriptAddress)).toBe(true);
+      expect(utxoManager.calculateBalance(scriptAddress)).toBe(10_000);
+    });
+  });
+
+  describe('multisig spending', () => {
+    it('should require the threshold number of signatures', () => {
+      const utxo = addUTXO('treasury-tx', treasuryScript);
+      const transaction = utxoTransactionManager.createUnsignedTransaction(
+        [utxo],
+        '1SupplierAddress',
+        40,
+        treasuryScript
+      );
+
+      utxoTransactionManager.signInput(
+        transaction,
+        0,
+        utxo,
+        bytesToHex(members[2].privateKey)
+      );
+      const partial = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager
+      );
+      expect(partial.isValid).toBe(false);
+      expect(partial.errors).toContain(
+        'Input treasury-tx:0 has 1 of 2 required multisig signatures'
+      );
+
+      utxoTransactionManager.signInput(
+        transaction,
+        0,
+        utxo,
+        bytesToHex(members[1].privateKey),
+        'ed25519'
+      );
+      const complete = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager
+      );
+      expect(complete.errors).toHaveLength(0);
+      expect(transaction.outputs[1].lockingScript).toBe(treasuryScript);
+    });
+
+    it('should reject signatures from non-members', () => {
+      const utxo = addUTXO('treasury-tx', treasuryScript);
+      const transaction = utxoTransactionManager.createUnsignedTransaction(
+        [utxo],
+        '1SupplierAddress',
+        40,
+        treasuryScript
+      );
+
+      expect(() =>
+        utxoTransactionManager.signInput(
+          transaction,
+          0,
+          utxo,
+          bytesToHex(owner.privateKey)
+        )
+      ).toThrow('Key is not part of the multisig script for input 0');
+    });
+  });
+
+  describe('timelocked spending', () => {
+    it('should set the lock time and a non-final sequence when spending', () => {
+      const utxo = addUTXO(
+        'savings-tx',
+        ScriptBuilder.timelocked(500, ownerAddress)
+      );
+
+      const transaction = utxoTransactionManager.createTransaction(
+        ownerAddress,
+        '1MerchantAddress',
+        10,
+        bytesToHex(owner.privateKey),
+        [utxo]
+      );
+
+      expect(transaction.lockTime).toBe(500);
+      expect(transaction.inputs[0].sequence).toBeLessThan(SEQUENCE_FINAL);
+      expect(
+        utxoTransactionManager.validateTransaction(transaction, utxoManager)
+          .errors
+      ).toHaveLength(0);
+    });
+
+    it('should reject a spend with a lower lock time', () => {
+      const utxo = addUTXO(
+        'savings-tx',
+        ScriptBuilder.timelocked(500, ownerAddress)
+      );
+      const transaction = utxoTransactionManager.createTransaction(
+        ownerAddress,
+        '1MerchantAddress',
+        10,
+        bytesToHex(owner.privateKey),
+        [utxo]
+      );
+
+      transaction.lockTime = 499;
+      transaction.id =
+        UTXOTransactionManager.calculateTransactionId(transaction);
+      utxoTransactionManager.signInput(
+        transaction,
+        0,
+        utxo,
+        bytesToHex(owner.privateKey)
+      );
+
+      const validation = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager
+      );
+      expect(validation.errors).toContain(
+        'Input savings-tx:0 has lock time 499 below required 500'
+      );
+    });
+
+    it('should reject a final sequence on a timelocked input', () => {
+      const utxo = addUTXO(
+        'savings-tx',
+        ScriptBuilder.timelocked(500, ownerAddress)
+      );
+      const transaction = utxoTransactionManager.createTransaction(
+        ownerAddress,
+        '1MerchantAddress',
+        10,
+        bytesToHex(owner.privateKey),
+        [utxo]
+      );
+
+      transaction.inputs[0].sequence = SEQUENCE_FINAL;
+      transaction.id =
+        UTXOTransactionManager.calculateTransactionId(transaction);
+      utxoTransactionManager.signInput(
+        transaction,
+        0,
+        utxo,
+        bytesToHex(owner.privateKey)
+      );
+
+      const validation = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager
+      );
+      expect(validation.errors).toContain(
+        'Input savings-tx:0 has final sequence on a time-locked input'
+      );
+    });
+  });
+
+  describe('execute', () => {
+    it('should reject unlocking scripts that leave extra items', () => {
+      const utxo = addUTXO('owned-tx', ownerAddress);
+      const transaction = utxoTransactionManager.createTransaction(
+        ownerAddress,
+        '1MerchantAddress',
+        10,
+        bytesToHex(owner.privateKey),
+        [utxo]
+      );
+
+      const result = ScriptInterpreter.execute(
+        `00:${transaction.inputs[0].unlockingScript}`,
+        utxo.lockingScript,
+        {
+          transaction,
+          inputIndex: 0,
+          signatureHash: utxoTransactionManager.createSignatureHash(
+            transaction,
+            0,
+            utxo
+          ),
+        }
+      );
+
+      expect(result).toEqual({
+        isValid: false,
+        errors: ['left 1 extra items on the stack'],
+      });
+    });
+  });
+});
@@ -1,7 +1,11 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
 import { UTXOSyncManager } from '../../src/sync-manager.js';
 import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
 import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
 import { UTXOEnhancedMeshProtocol } from '../../src/enhanced-mesh-protocol.js';
 import { UTXOCompressionManager } from '../../src/utxo-compression-manager.js';
 import { CryptographicService, type KeyPair } from '../../src/cryptographic.js';
@@ -14,6 +18,9 @@ import {
 import {
   MessagePriority,
   type Block,
+  type GenesisConfig,
+  type MeshMessage,
+  type UTXOPersistenceConfig,
   type UTXOTransaction,
 } from '../../src/types.js';
 
@@ -333,6 +340,35 @@ describe('UTXOSyncManager', () => {
         'Invalid header chain'
       );
     });
+
+    test('should answer header requests with at most one batch', () => {
+      const getHeadersAfter = vi.fn(() => []);
+      Object.assign(mockBlockchain, { getHeadersAfter });
+
+      const batch = syncManager.handleHeaderRequest({
+        locator: ['tip-hash', 'genesis-hash'],
+        stopHash: 'stop-hash',
+        maxHeaders: 5000,
+      });
+
+      expect(batch).toEqual({ headers: [] });
+      expect(getHeadersAfter).toHaveBeenCalledWith(
+        ['tip-hash', 'genesis-hash'],
+        'stop-hash',
+        100
+      );
+    });
+
+    test('should add received header batches to the header tree', async () => {
+      const result = { isValid: true, errors: [], accepted: [] };
+      const addHeaders = vi.fn(async () => result);
+      Object.assign(mockBlockchain, { addHeaders });
+
+      await expect(
+        syncManager.handleHeaderBatch({ headers: [] })
+      ).resolves.toBe(result);
+      expect(addHeaders).toHaveBeenCalledWith([]);
+    });
   });
 
   describe('UTXO Block Synchronization', () => {
@@ -630,3 +666,152 @@ describe('UTXOSyncManager', () => {
     });
   });
 });
+
+describe('UTXOSyncManager headers-first sync', () => {
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const testGenesisConfig: GenesisConfig = {
+    chainId: 'sync-manager-test-v1',
+    networkName: 'Sync Manager Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'funded-address',
+        amount: 1000000,
+        description: 'Sync manager test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 10,
+      halvingInterval: 210000,
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'Sync Manager Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'testnet',
+    },
+  };
+
+  // Mesh link that delivers every message to the node at the other end
+  class MeshLink extends EventEmitter {
+    peer?: MeshLink;
+    sent: MeshMessage[] = [];
+
+    async sendMessage(message: MeshMessage): Promise<boolean> {
+      this.sent.push(message);
+      setImmediate(() => this.peer!.emit('message:received', message));
+      return true;
+    }
+  }
+
+  const chains: Blockchain[] = [];
+
+  const createBlockchain = async (): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      ),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      testGenesisConfig
+    );
+    await blockchain.waitForInitialization();
+    chains.push(blockchain);
+    return blockchain;
+  };
+
+  const createSyncManager = (
+    blockchain: Blockchain,
+    link: MeshLink,
+    nodeId: string
+  ): UTXOSyncManager =>
+    new UTXOSyncManager(
+      blockchain,
+      blockchain.getUTXOManager(),
+      link as unknown as UTXOEnhancedMeshProtocol,
+      {} as UTXOCompressionManager,
+      {} as CryptographicService,
+      { nodeId, headerBatchSize: 2, syncTimeout: 5000 }
+    );
+
+  afterEach(async () => {
+    for (const blockchain of chains.splice(0)) {
+      await blockchain.close();
+    }
+  });
+
+  test('should sync headers from a peer over the mesh', async () => {
+    const source = await createBlockchain();
+    const blocks: Block[] = [];
+    for (let i = 0; i < 3; i++) {
+      blocks.push(source.minePendingUTXOTransactions('miner-a')!);
+    }
+    const follower = await createBlockchain();
+
+    const sourceLink = new MeshLink();
+    const followerLink = new MeshLink();
+    sourceLink.peer = followerLink;
+    followerLink.peer = sourceLink;
+    createSyncManager(source, sourceLink, 'source-node');
+    const followerSync = createSyncManager(follower, followerLink, 'follower');
+
+    await (
+      followerSync as unknown as { syncHeaders(): Promise<void> }
+    ).syncHeaders();
+
+    expect(follower.getBestHeader()).toEqual(
+      BlockManager.createBlockHeader(blocks[2])
+    );
+    expect(follower.getBlocksToDownload(10).map(header => header.hash)).toEqual(
+      blocks.map(block => block.hash)
+    );
+    // Two header requests, the second ending at the short batch
+    expect(
+      followerLink.sent.map(message => (message.payload as any).type)
+    ).toEqual(['utxo_header_request', 'utxo_header_request']);
+    expect(sourceLink.sent).toHaveLength(2);
+    expect(sourceLink.sent.every(message => message.to === 'follower')).toBe(
+      true
+    );
+  });
+
+  test('should add unsolicited header batches to the header tree', async () => {
+    const source = await createBlockchain();
+    const block = source.minePendingUTXOTransactions('miner-a')!;
+    const follower = await createBlockchain();
+    const followerLink = new MeshLink();
+    createSyncManager(follower, followerLink, 'follower');
+
+    followerLink.emit('message:received', {
+      type: 'sync',
+      payload: {
+        type: 'utxo_header_batch',
+        batch: { headers: [BlockManager.createBlockHeader(block)] },
+      },
+      timestamp: Date.now(),
+      from: 'source-node',
+      signature: '',
+    } as MeshMessage);
+    await vi.waitFor(() =>
+      expect(follower.getBestHeader().hash).toBe(block.hash)
+    );
+  });
+});
@@ -10,6 +10,7 @@ import { DutyCycleManager } from '../../src/duty-cycle.js';
 import { NodeDiscoveryProtocol } from '../../src/node-discovery-protocol.js';
 import { UTXOReliableDeliveryManager } from '../../src/utxo-reliable-delivery-manager.js';
 import { CryptographicService, type KeyPair } from '../../src/cryptographic.js';
+import { UTXOCommitment } from '../../src/merkle/UTXOCommitment.js';
 import {
   UTXOSyncMessageType,
   type SyncPeer,
@@ -243,7 +244,8 @@ describe('Sync Strategies', () => {
 
         const snapshot = await internetStrategy.batchUTXOSetSync(
           height,
-          internetPeers
+          internetPeers,
+          'merkle_root'
         );
 
         expect(snapshot).toBeDefined();
@@ -270,13 +272,56 @@ describe('Sync Strategies', () => {
           internetStrategy as any,
           'downloadUTXOSnapshot'
         ).mockResolvedValue(mockSnapshot);
-        vi.spyOn(internetStrategy as any, 'verifyMerkleRoot').mockRejectedValue(
-          new Error('Invalid merkle root')
+
+        await expect(
+          internetStrategy.batchUTXOSetSync(
+            height,
+            internetPeers,
+            'a'.repeat(64)
+          )
+        ).rejects.toThrow(
+          `Snapshot UTXO root invalid_merkle_root does not match the root ${'a'.repeat(64)} committed at height 1000`
         );
+      });
+
+      test('should verify snapshot proofs against the committed UTXO root', async () => {
+        const utxos: UTXO[] = [0, 1, 2].map(outputIndex => ({
+          txId: 'ab'.repeat(32),
+          outputIndex,
+          value: 100 + outputIndex,
+          lockingScript: 'owner-address',
+          blockHeight: 5,
+          isSpent: false,
+        }));
+        const proof = UTXOCommitment.generateProof(utxos, 'ab'.repeat(32), 1)!;
+        const mockSnapshot: UTXOSetSnapshot = {
+          height: 5,
+          timestamp: Date.now(),
+          merkleRoot: proof.utxoRoot,
+          utxoCount: utxos.length,
+          totalValue: BigInt(303),
+          compressedUTXOs: [],
+          proofs: [proof],
+          signature: 'signature',
+        };
+        vi.spyOn(
+          internetStrategy as any,
+          'downloadUTXOSnapshot'
+        ).mockResolvedValue(mockSnapshot);
+        const internetPeers = testPeers.filter(p => p.type === 'internet');
 
         await expect(
-          internetStrategy.batchUTXOSetSync(height, internetPeers)
-        ).rejects.toThrow('Invalid merkle root');
+          internetStrategy.batchUTXOSetSync(5, internetPeers, proof.utxoRoot)
+        ).resolves.toBe(mockSnapshot);
+
+        mockSnapshot.proofs = [
+          { ...proof, utxo: { ...proof.utxo, value: 1000 } },
+        ];
+        await expect(
+          internetStrategy.batchUTXOSetSync(5, internetPeers, proof.utxoRoot)
+        ).rejects.toThrow(
+          `Snapshot proof for ${'ab'.repeat(32)}:1 does not match UTXO root ${proof.utxoRoot}`
+        );
       });
     });
 
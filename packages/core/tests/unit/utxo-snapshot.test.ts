@@ -0,0 +1,376 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UTXOSnapshotFile } from '../../src/utxo-snapshot.js';
+import { UTXOCommitment } from '../../src/merkle/UTXOCommitment.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { BlockManager } from '../../src/block.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import type {
+  Block,
+  GenesisConfig,
+  SnapshotValidationStatus,
+  UTXOPersistenceConfig,
+  UTXOSnapshot,
+} from '../../src/types.js';
+
+const testConfig: UTXOPersistenceConfig = {
+  enabled: true,
+  dbPath: ':memory:',
+  dbType: 'memory',
+  autoSave: true,
+  batchSize: 100,
+  compressionType: 'none',
+  utxoSetCacheSize: 1000,
+  cryptographicAlgorithm: 'secp256k1',
+  compactionStyle: 'size',
+};
+
+const createGenesisConfig = (
+  trust: Pick<
+    GenesisConfig['networkParams'],
+    'assumeUTXO' | 'assumeValid' | 'checkpoints'
+  > = {}
+): GenesisConfig => ({
+  chainId: 'utxo-snapshot-test-v1',
+  networkName: 'UTXO Snapshot Test Network',
+  version: '1.0.0',
+  initialAllocations: [
+    {
+      address: 'funded-address',
+      amount: 1000000,
+      description: 'UTXO snapshot test allocation',
+    },
+  ],
+  totalSupply: 21000000,
+  networkParams: {
+    initialDifficulty: 1,
+    targetBlockTime: 180,
+    adjustmentPeriod: 10,
+    maxDifficultyRatio: 4,
+    maxBlockSize: 1024 * 1024,
+    miningReward: 10,
+    halvingInterval: 210000,
+    ...trust,
+  },
+  metadata: {
+    timestamp: 1700000000000,
+    description: 'UTXO Snapshot Test Genesis Block',
+    creator: 'Test Suite',
+    networkType: 'testnet',
+  },
+});
+
+describe('UTXOSnapshotFile', () => {
+  const snapshot: UTXOSnapshot = {
+    chainId: 'utxo-snapshot-test-v1',
+    height: 1,
+    blockHash: 'bb'.repeat(32),
+    utxoRoot: 'cc'.repeat(32),
+    headers: [
+      {
+        index: 0,
+        timestamp: 1700000000000,
+        previousHash: '0',
+        merkleRoot: 'dd'.repeat(32),
+        hash: 'aa'.repeat(32),
+        nonce: 0,
+        transactionCount: 1,
+        difficulty: 1,
+      },
+      {
+        index: 1,
+        timestamp: 1700000180000,
+        previousHash: 'aa'.repeat(32),
+        merkleRoot: 'ee'.repeat(32),
+        hash: 'bb'.repeat(32),
+        nonce: 7,
+        transactionCount: 1,
+        difficulty: 1,
+        utxoRoot: 'cc'.repeat(32),
+      },
+    ],
+    utxos: [
+      {
+        txId: 'ff'.repeat(32),
+        outputIndex: 0,
+        value: 10,
+        lockingScript: 'miner-a',
+        blockHeight: 1,
+        isSpent: false,
+        isCoinbase: true,
+      },
+    ],
+  };
+
+  it('should round-trip a snapshot through its file encoding', () => {
+    expect(UTXOSnapshotFile.decode(UTXOSnapshotFile.encode(snapshot))).toEqual(
+      snapshot
+    );
+  });
+
+  it('should identify a file by the checksum at its end', () => {
+    const data = UTXOSnapshotFile.encode(snapshot);
+
+    expect(UTXOSnapshotFile.calculateHash(data)).toBe(
+      Buffer.from(data.subarray(data.length - 32)).toString('hex')
+    );
+    expect(UTXOSnapshotFile.calculateHash(data)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should reject corrupted and truncated files', () => {
+    const data = UTXOSnapshotFile.encode(snapshot);
+    data[10] ^= 0xff;
+
+    expect(() => UTXOSnapshotFile.decode(data)).toThrow(
+      'UTXO snapshot file checksum does not match'
+    );
+    expect(() => UTXOSnapshotFile.decode(data.subarray(0, 16))).toThrow(
+      'UTXO snapshot file is truncated'
+    );
+  });
+});
+
+describe('Blockchain UTXO snapshots', () => {
+  const chains: Blockchain[] = [];
+  let directory: string;
+
+  const createBlockchain = async (
+    genesisConfig: GenesisConfig = createGenesisConfig()
+  ): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      ),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      genesisConfig
+    );
+    await blockchain.waitForInitialization();
+    chains.push(blockchain);
+    return blockchain;
+  };
+
+  const mineBlocks = (blockchain: Blockchain, count: number): Block[] => {
+    const blocks: Block[] = [];
+    for (let i = 0; i < count; i++) {
+      blocks.push(blockchain.minePendingUTXOTransactions('miner-a')!);
+    }
+    return blocks;
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'utxo-snapshot-'));
+  });
+
+  afterEach(async () => {
+    for (const blockchain of chains.splice(0)) {
+      await blockchain.close();
+    }
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should snapshot the UTXO set at the tip', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 3);
+
+    const snapshot = await source.createUTXOSnapshot();
+
+    expect(snapshot.height).toBe(3);
+    expect(snapshot.blockHash).toBe(blocks[2].hash);
+    expect(snapshot.utxoRoot).toBe(blocks[2].utxoRoot);
+    expect(snapshot.headers.map(header => header.index)).toEqual([0, 1, 2, 3]);
+    expect(snapshot.utxos).toHaveLength(
+      source.getUTXOManager().getUTXOSetSize()
+    );
+  });
+
+  it('should roll the UTXO set back to earlier heights', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 3);
+
+    const snapshot = await source.createUTXOSnapshot(1);
+
+    expect(snapshot.blockHash).toBe(blocks[0].hash);
+    expect(snapshot.utxoRoot).toBe(blocks[0].utxoRoot);
+    expect(snapshot.headers).toHaveLength(2);
+    await expect(source.createUTXOSnapshot(4)).rejects.toThrow(
+      'Snapshot height 4 is not on the main chain'
+    );
+  });
+
+  it('should bootstrap a chain at genesis from a committed snapshot', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 3);
+    const path = join(directory, 'snapshot.utxo');
+    await source.exportUTXOSnapshot(path);
+    const target = await createBlockchain(
+      createGenesisConfig({
+        assumeValid: { height: blocks.length, hash: blocks.at(-1)!.hash },
+      })
+    );
+
+    expect(await target.importUTXOSnapshot(path)).toEqual({
+      isValid: true,
+      errors: [],
+    });
+
+    expect(target.getLatestBlock().hash).toBe(blocks[2].hash);
+    expect(target.getUTXOManager().getUTXORoot()).toBe(blocks[2].utxoRoot);
+    expect(target.getBalance('miner-a')).toBe(source.getBalance('miner-a'));
+    expect(target.getPruneState()).toEqual({ pruned: true, pruneHeight: 4 });
+    expect(target.getSnapshotValidation()).toEqual({
+      height: 3,
+      blockHash: blocks[2].hash,
+      state: 'validating',
+      validatedHeight: 0,
+    });
+
+    const next = target.minePendingUTXOTransactions('miner-b')!;
+    expect(await source.addBlock(next)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should trust snapshots pinned in the genesis config', async () => {
+    const source = await createBlockchain();
+    mineBlocks(source, 2);
+    const path = join(directory, 'snapshot.utxo');
+    const hash = await source.exportUTXOSnapshot(path);
+
+    const pinned = await createBlockchain(
+      createGenesisConfig({ assumeUTXO: [{ height: 2, hash }] })
+    );
+    const mispinned = await createBlockchain(
+      createGenesisConfig({ assumeUTXO: [{ height: 2, hash: 'a'.repeat(64) }] })
+    );
+
+    expect((await pinned.importUTXOSnapshot(path)).isValid).toBe(true);
+    expect((await mispinned.importUTXOSnapshot(path)).errors).toEqual([
+      `Snapshot hash ${hash} does not match the hash pinned at height 2`,
+    ]);
+  });
+
+  it('should trust committed snapshots buried by a checkpoint on the best header chain', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 4);
+    const path = join(directory, 'snapshot.utxo');
+    await source.exportUTXOSnapshot(path, 2);
+    const checkpoints = [{ height: 4, hash: blocks[3].hash }];
+    const headers = blocks.map(block => BlockManager.createBlockHeader(block));
+
+    const unsynced = await createBlockchain(
+      createGenesisConfig({ checkpoints })
+    );
+    const synced = await createBlockchain(createGenesisConfig({ checkpoints }));
+    expect((await synced.addHeaders(headers)).isValid).toBe(true);
+    const untrusted = await createBlockchain();
+
+    const error =
+      'Snapshot at height 2 is neither pinned in the genesis config nor an ancestor of a checkpoint on the best header chain';
+    expect((await unsynced.importUTXOSnapshot(path)).errors).toEqual([error]);
+    expect((await untrusted.importUTXOSnapshot(path)).errors).toEqual([error]);
+    expect(await synced.importUTXOSnapshot(path)).toEqual({
+      isValid: true,
+      errors: [],
+    });
+    expect(synced.getLatestBlock().hash).toBe(blocks[1].hash);
+  });
+
+  it('should reject snapshots whose UTXO set differs from the commitment', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 2);
+    const snapshot = await source.createUTXOSnapshot();
+    const utxos = snapshot.utxos.map(utxo =>
+      utxo.lockingScript === 'miner-a'
+        ? { ...utxo, value: utxo.value * 2 }
+        : utxo
+    );
+    const forged = await createBlockchain();
+    const forgedRoot = UTXOCommitment.calculateRoot(utxos);
+    const path = join(directory, 'forged.utxo');
+    await UTXOSnapshotFile.write(path, {
+      ...snapshot,
+      utxoRoot: forgedRoot,
+      utxos,
+    });
+
+    expect((await forged.importUTXOSnapshot(path)).errors).toEqual([
+      `Snapshot UTXO root ${forgedRoot} does not match the root ${blocks[1].utxoRoot} committed at height 2`,
+    ]);
+    expect(forged.getLatestBlock().index).toBe(0);
+  });
+
+  it('should reject unreadable files and chains past genesis', async () => {
+    const source = await createBlockchain();
+    mineBlocks(source, 1);
+    const path = join(directory, 'snapshot.utxo');
+    await source.exportUTXOSnapshot(path);
+    const corrupt = join(directory, 'corrupt.utxo');
+    await writeFile(corrupt, new Uint8Array(40));
+
+    expect((await source.importUTXOSnapshot(path)).errors).toEqual([
+      'UTXO snapshots can only be imported into a chain at genesis',
+    ]);
+    expect((await source.importUTXOSnapshot(corrupt)).errors).toEqual([
+      'Failed to read UTXO snapshot: UTXO snapshot file checksum does not match',
+    ]);
+  });
+
+  it('should validate historical blocks against the snapshot', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 3);
+    const path = join(directory, 'snapshot.utxo');
+    await source.exportUTXOSnapshot(path);
+    const target = await createBlockchain(
+      createGenesisConfig({
+        assumeValid: { height: blocks.length, hash: blocks.at(-1)!.hash },
+      })
+    );
+    await target.importUTXOSnapshot(path);
+    const validated: SnapshotValidationStatus[] = [];
+    target.on('snapshotValidated', status => validated.push(status));
+
+    expect((await target.validateSnapshotBlock(blocks[1])).errors).toEqual([
+      `Expected block 1 (${blocks[0].hash}), got ${blocks[1].hash}`,
+    ]);
+    for (const header of target.getSnapshotBlocksToValidate()) {
+      expect(
+        await target.validateSnapshotBlock(blocks[header.index - 1])
+      ).toEqual({ isValid: true, errors: [] });
+    }
+
+    const status: SnapshotValidationStatus = {
+      height: 3,
+      blockHash: blocks[2].hash,
+      state: 'valid',
+      validatedHeight: 3,
+    };
+    expect(validated).toEqual([status]);
+    expect(target.getSnapshotValidation()).toEqual(status);
+    expect(target.getSnapshotBlocksToValidate()).toEqual([]);
+  });
+
+  it('should restore an imported snapshot after a restart', async () => {
+    const source = await createBlockchain();
+    const blocks = mineBlocks(source, 2);
+    const path = join(directory, 'snapshot.utxo');
+    await source.exportUTXOSnapshot(path);
+    const target = await createBlockchain(
+      createGenesisConfig({
+        assumeValid: { height: blocks.length, hash: blocks.at(-1)!.hash },
+      })
+    );
+    await target.importUTXOSnapshot(path);
+    await target.validateSnapshotBlock(blocks[0]);
+
+    await target.load();
+
+    expect(target.getLatestBlock().hash).toBe(blocks[1].hash);
+    expect(target.getUTXOManager().getUTXORoot()).toBe(blocks[1].utxoRoot);
+    expect(target.getPruneState()).toEqual({ pruned: true, pruneHeight: 3 });
+    expect(target.getSnapshotValidation()?.validatedHeight).toBe(0);
+  });
+});
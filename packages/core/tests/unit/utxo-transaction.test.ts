@@ -1,6 +1,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { UTXOTransactionManager } from '../../src/utxo-transaction.js';
 import { UTXOManager } from '../../src/utxo.js';
+import {
+  CryptographicService,
+  type KeyPair,
+  type SignatureAlgorithm,
+} from '../../src/cryptographic.js';
+import { bytesToHex } from '@noble/hashes/utils';
 import type {
   UTXO,
   UTXOTransaction,
@@ -13,6 +19,27 @@ describe('UTXOTransactionManager', () => {
   let utxoManager: UTXOManager;
   let sampleUTXOs: UTXO[];
 
+  const createSignerUTXO = (
+    txId: string,
+    algorithm: SignatureAlgorithm = 'secp256k1'
+  ): { keyPair: KeyPair; address: string; utxo: UTXO } => {
+    const keyPair = CryptographicService.generateKeyPair(algorithm);
+    const address = CryptographicService.generateAddress(
+      keyPair.publicKey,
+      algorithm
+    );
+    const utxo: UTXO = {
+      txId,
+      outputIndex: 0,
+      value: 1000,
+      lockingScript: address,
+      blockHeight: 1,
+      isSpent: false,
+    };
+    utxoManager.addUTXO(utxo);
+    return { keyPair, address, utxo };
+  };
+
   beforeEach(() => {
     utxoTransactionManager = new UTXOTransactionManager();
     utxoManager = new UTXOManager();
@@ -21,7 +48,7 @@ describe('UTXOTransactionManager', () => {
       {
         txId: 'tx1',
         outputIndex: 0,
-        value: 100,
+        value: 1000,
         lockingScript: '1FromAddress',
         blockHeight: 1,
         isSpent: false,
@@ -29,7 +56,7 @@ describe('UTXOTransactionManager', () => {
       {
         txId: 'tx2',
         outputIndex: 0,
-        value: 50,
+        value: 500,
         lockingScript: '1FromAddress',
         blockHeight: 1,
         isSpent: false,
@@ -37,7 +64,7 @@ describe('UTXOTransactionManager', () => {
       {
         txId: 'tx3',
         outputIndex: 0,
-        value: 25,
+        value: 250,
         lockingScript: '1FromAddress',
         blockHeight: 1,
         isSpent: false,
@@ -86,7 +113,7 @@ describe('UTXOTransactionManager', () => {
       const exactUTXO: UTXO = {
         txId: 'exact-tx',
         outputIndex: 0,
-        value: 50.01, // 50 + generous fee allowance
+        value: 400, // 50 + generous fee allowance
         lockingScript: '1FromAddress',
         blockHeight: 1,
         isSpent: false,
@@ -124,7 +151,7 @@ describe('UTXOTransactionManager', () => {
         utxoTransactionManager.createTransaction(
           '1FromAddress',
           '1ToAddress',
-          200, // More than available (175)
+          2000, // More than available (1750)
           'test-private-key',
           sampleUTXOs
         );
@@ -135,7 +162,7 @@ describe('UTXOTransactionManager', () => {
       const transaction = utxoTransactionManager.createTransaction(
         '1FromAddress',
         '1ToAddress',
-        125, // Requires multiple UTXOs
+        1250, // Requires multiple UTXOs
         'test-private-key',
         sampleUTXOs
       );
@@ -144,7 +171,21 @@ describe('UTXOTransactionManager', () => {
 
       // Verify inputs reference correct UTXOs
       const inputTxIds = transaction.inputs.map(i => i.previousTxId);
-      expect(inputTxIds).toContain('tx1'); // 100 value UTXO should be included
+      expect(inputTxIds).toContain('tx1'); // 1000 value UTXO should be included
+    });
+
+    it('should reject amounts that are not whole base units', () => {
+      expect(() =>
+        utxoTransactionManager.createTransaction(
+          '1FromAddress',
+          '1ToAddress',
+          7.5,
+          'test-private-key',
+          sampleUTXOs
+        )
+      ).toThrow(
+        'Invalid amount: 7.5 (expected a positive integer of base units)'
+      );
     });
   });
 
@@ -152,12 +193,13 @@ describe('UTXOTransactionManager', () => {
     let validTransaction: UTXOTransaction;
 
     beforeEach(() => {
+      const signer = createSignerUTXO('signed-tx1');
       validTransaction = utxoTransactionManager.createTransaction(
-        '1FromAddress',
+        signer.address,
         '1ToAddress',
         50,
-        'test-private-key',
-        sampleUTXOs
+        bytesToHex(signer.keyPair.privateKey),
+        [signer.utxo]
       );
     });
 
@@ -183,8 +225,49 @@ describe('UTXOTransactionManager', () => {
       expect(validation.errors).toContain('Transaction ID is required');
     });
 
+    it('should derive the transaction ID from its contents', () => {
+      expect(validTransaction.id).toBe(
+        UTXOTransactionManager.calculateTransactionId(validTransaction)
+      );
+      expect(validTransaction.id).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should reject transactions that cannot be encoded', () => {
+      const fractional = {
+        ...validTransaction,
+        outputs: [{ ...validTransaction.outputs[0], value: 49.5 }],
+      };
+
+      const validation = utxoTransactionManager.validateTransaction(
+        fractional,
+        utxoManager
+      );
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Transaction cannot be encoded: Cannot encode output value: expected a non-negative safe integer, got 49.5'
+      );
+    });
+
+    it('should reject transaction whose ID does not match its contents', () => {
+      const relabeled = { ...validTransaction, id: 'f'.repeat(64) };
+      const altered = { ...validTransaction, lockTime: 1 };
+
+      for (const transaction of [relabeled, altered]) {
+        const validation = utxoTransactionManager.validateTransaction(
+          transaction,
+          utxoManager
+        );
+
+        expect(validation.isValid).toBe(false);
+        expect(validation.errors).toContain(
+          'Transaction ID does not match transaction contents'
+        );
+      }
+    });
+
     it('should reject transaction with no inputs and non-zero fee', () => {
-      const invalidTransaction = { ...validTransaction, inputs: [], fee: 0.5 };
+      const invalidTransaction = { ...validTransaction, inputs: [], fee: 500 };
 
       const validation = utxoTransactionManager.validateTransaction(
         invalidTransaction,
@@ -254,6 +337,43 @@ describe('UTXOTransactionManager', () => {
       expect(validation.errors).toContain('Output 0 has invalid value: -10');
     });
 
+    it('should reject output values that are not whole base units', () => {
+      const invalidTransaction = {
+        ...validTransaction,
+        outputs: validTransaction.outputs.map(output => ({
+          ...output,
+          value: output.value + 0.5,
+        })),
+      };
+
+      const validation = utxoTransactionManager.validateTransaction(
+        invalidTransaction,
+        utxoManager
+      );
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        `Output 0 has invalid value: ${validTransaction.outputs[0].value + 0.5}`
+      );
+    });
+
+    it('should require the fee to balance inputs and outputs exactly', () => {
+      const invalidTransaction = {
+        ...validTransaction,
+        fee: validTransaction.fee + 1,
+      };
+
+      const validation = utxoTransactionManager.validateTransaction(
+        invalidTransaction,
+        utxoManager
+      );
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        `Fee mismatch: expected ${validTransaction.fee}, got ${validTransaction.fee + 1}`
+      );
+    });
+
     it('should reject transaction with negative fee', () => {
       const invalidTransaction = { ...validTransaction, fee: -1 };
 
@@ -337,25 +457,25 @@ describe('UTXOTransactionManager', () => {
 
   describe('UTXO Selection', () => {
     it('should select optimal UTXOs for target amount', () => {
-      const selection = utxoTransactionManager.selectUTXOs(sampleUTXOs, 75);
+      const selection = utxoTransactionManager.selectUTXOs(sampleUTXOs, 750);
 
       expect(selection.selectedUTXOs).toHaveLength(1);
-      expect(selection.selectedUTXOs[0].value).toBe(100); // Should select largest UTXO
-      expect(selection.totalValue).toBe(100);
-      expect(selection.changeAmount).toBe(25);
+      expect(selection.selectedUTXOs[0].value).toBe(1000); // Should select largest UTXO
+      expect(selection.totalValue).toBe(1000);
+      expect(selection.changeAmount).toBe(250);
     });
 
     it('should select multiple UTXOs when needed', () => {
-      const selection = utxoTransactionManager.selectUTXOs(sampleUTXOs, 125);
+      const selection = utxoTransactionManager.selectUTXOs(sampleUTXOs, 1250);
 
       expect(selection.selectedUTXOs.length).toBeGreaterThan(1);
-      expect(selection.totalValue).toBeGreaterThanOrEqual(125);
+      expect(selection.totalValue).toBeGreaterThanOrEqual(1250);
     });
 
     it('should handle insufficient funds gracefully', () => {
-      const selection = utxoTransactionManager.selectUTXOs(sampleUTXOs, 200);
+      const selection = utxoTransactionManager.selectUTXOs(sampleUTXOs, 2000);
 
-      expect(selection.totalValue).toBe(175); // Total of all UTXOs
+      expect(selection.totalValue).toBe(1750); // Total of all UTXOs
       expect(selection.changeAmount).toBe(0);
     });
   });
@@ -450,6 +570,247 @@ describe('UTXOTransactionManager', () => {
         transaction2.inputs[0].unlockingScript
       );
     });
+
+    it('should verify ed25519 signatures', () => {
+      const signer = createSignerUTXO('ed25519-tx', 'ed25519');
+      const transaction = utxoTransactionManager.createTransaction(
+        signer.address,
+        '1ToAddress',
+        40,
+        bytesToHex(signer.keyPair.privateKey),
+        [signer.utxo],
+        'ed25519'
+      );
+
+      const validation = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager
+      );
+
+      expect(validation.errors).toHaveLength(0);
+      expect(validation.isValid).toBe(true);
+    });
+
+    it('should reject inputs signed by a key that does not own the UTXO', () => {
+      const signer = createSignerUTXO('owned-tx');
+      const transaction = utxoTransactionManager.createTransaction(
+        signer.address,
+        '1ToAddress',
+        40,
+        'someone-elses-key',
+        [signer.utxo]
+      );
+
+      const validation = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager
+      );
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Input owned-tx:0 failed OP_EQUALVERIFY'
+      );
+    });
+
+    it('should reject transactions whose outputs were altered after signing', () => {
+      const signer = createSignerUTXO('tampered-tx');
+      const transaction = utxoTransactionManager.createTransaction(
+        signer.address,
+        '1ToAddress',
+        40,
+        bytesToHex(signer.keyPair.privateKey),
+        [signer.utxo]
+      );
+      transaction.outputs[0].lockingScript = '1AttackerAddress';
+
+      const validation = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager
+      );
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Input tampered-tx:0 has invalid signature'
+      );
+    });
+
+    it('should reject malformed unlocking scripts', () => {
+      const signer = createSignerUTXO('malformed-tx');
+      const transaction = utxoTransactionManager.createTransaction(
+        signer.address,
+        '1ToAddress',
+        40,
+        bytesToHex(signer.keyPair.privateKey),
+        [signer.utxo]
+      );
+      transaction.inputs[0].unlockingScript = 'not-a-signature';
+
+      const validation = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager
+      );
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(
+        'Input malformed-tx:0 has malformed unlocking script'
+      );
+    });
+
+    it('should not commit to unlocking scripts in the signature hash', () => {
+      const signer = createSignerUTXO('sighash-tx');
+      const transaction = utxoTransactionManager.createTransaction(
+        signer.address,
+        '1ToAddress',
+        40,
+        bytesToHex(signer.keyPair.privateKey),
+        [signer.utxo]
+      );
+
+      const signedHash = utxoTransactionManager.createSignatureHash(
+        transaction,
+        0,
+        signer.utxo
+      );
+      const unsignedHash = utxoTransactionManager.createSignatureHash(
+        {
+          ...transaction,
+          inputs: transaction.inputs.map(input => ({
+            ...input,
+            unlockingScript: '',
+          })),
+        },
+        0,
+        signer.utxo
+      );
+
+      expect(bytesToHex(signedHash)).toBe(bytesToHex(unsignedHash));
+    });
+  });
+
+  describe('Lock Time', () => {
+    it('should treat transactions with zero lock time as final', () => {
+      const transaction = utxoTransactionManager.createTransaction(
+        '1FromAddress',
+        '1ToAddress',
+        50,
+        'test-private-key',
+        sampleUTXOs
+      );
+
+      expect(transaction.lockTime).toBe(0);
+      expect(
+        UTXOTransactionManager.isFinalTransaction(transaction, 1, Date.now())
+      ).toBe(true);
+    });
+
+    it('should create post-dated transactions with non-final sequences', () => {
+      const signer = createSignerUTXO('post-dated-tx');
+      const transaction = utxoTransactionManager.createTransaction(
+        signer.address,
+        '1ToAddress',
+        40,
+        bytesToHex(signer.keyPair.privateKey),
+        [signer.utxo],
+        'secp256k1',
+        50
+      );
+
+      expect(transaction.lockTime).toBe(50);
+      expect(transaction.inputs[0].sequence).toBeLessThan(0xffffffff);
+      expect(
+        UTXOTransactionManager.isFinalTransaction(transaction, 50, Date.now())
+      ).toBe(false);
+      expect(
+        UTXOTransactionManager.isFinalTransaction(transaction, 51, Date.now())
+      ).toBe(true);
+    });
+
+    it('should compare timestamp lock times against block time', () => {
+      const lockTime = 1_700_000_000_000;
+      const transaction = {
+        inputs: [
+          {
+            previousTxId: 'tx1',
+            outputIndex: 0,
+            unlockingScript: '',
+            sequence: 0,
+          },
+        ],
+        lockTime,
+      };
+
+      expect(
+        UTXOTransactionManager.isFinalTransaction(transaction, 1_000, lockTime)
+      ).toBe(false);
+      expect(
+        UTXOTransactionManager.isFinalTransaction(transaction, 1, lockTime + 1)
+      ).toBe(true);
+    });
+
+    it('should treat inputs with final sequences as ignoring lock time', () => {
+      const transaction = {
+        inputs: [
+          {
+            previousTxId: 'tx1',
+            outputIndex: 0,
+            unlockingScript: '',
+            sequence: 0xffffffff,
+          },
+        ],
+        lockTime: 1_000,
+      };
+
+      expect(
+        UTXOTransactionManager.isFinalTransaction(transaction, 1, Date.now())
+      ).toBe(true);
+    });
+
+    it('should reject non-final transactions when given a finality context', () => {
+      const signer = createSignerUTXO('not-final-tx');
+      const transaction = utxoTransactionManager.createTransaction(
+        signer.address,
+        '1ToAddress',
+        40,
+        bytesToHex(signer.keyPair.privateKey),
+        [signer.utxo],
+        'secp256k1',
+        50
+      );
+
+      expect(
+        utxoTransactionManager.validateTransaction(transaction, utxoManager)
+          .isValid
+      ).toBe(true);
+
+      const early = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager,
+        { blockHeight: 10, blockTime: Date.now() }
+      );
+      expect(early.isValid).toBe(false);
+      expect(early.errors[0]).toContain('Transaction is not final');
+
+      const mature = utxoTransactionManager.validateTransaction(
+        transaction,
+        utxoManager,
+        { blockHeight: 51, blockTime: Date.now() }
+      );
+      expect(mature.isValid).toBe(true);
+    });
+
+    it('should reject negative lock times', () => {
+      expect(() =>
+        utxoTransactionManager.createTransaction(
+          '1FromAddress',
+          '1ToAddress',
+          50,
+          'test-private-key',
+          sampleUTXOs,
+          'secp256k1',
+          -1
+        )
+      ).toThrow('Invalid lock time: -1');
+    });
   });
 
   describe('Edge Cases', () => {
@@ -469,7 +830,7 @@ describe('UTXOTransactionManager', () => {
       const dustUTXO: UTXO = {
         txId: 'dust-tx',
         outputIndex: 0,
-        value: 0.0001,
+        value: 10,
         lockingScript: '1FromAddress',
         blockHeight: 1,
         isSpent: false,
@@ -479,18 +840,18 @@ describe('UTXOTransactionManager', () => {
         utxoTransactionManager.createTransaction(
           '1FromAddress',
           '1ToAddress',
-          0.00005,
+          5,
           'test-private-key',
           [dustUTXO]
         );
-      }).toThrow(); // Should throw due to insufficient funds for fee
+      }).toThrow('Insufficient funds'); // Not enough left over for the fee
     });
 
     it('should handle large transactions with many UTXOs', () => {
       const manyUTXOs: UTXO[] = Array.from({ length: 10 }, (_, i) => ({
         txId: `tx-${i}`,
         outputIndex: 0,
-        value: 10,
+        value: 100,
         lockingScript: '1FromAddress',
         blockHeight: 1,
         isSpent: false,
@@ -501,7 +862,7 @@ describe('UTXOTransactionManager', () => {
       const transaction = utxoTransactionManager.createTransaction(
         '1FromAddress',
         '1ToAddress',
-        95, // Requires multiple UTXOs
+        700, // Requires multiple UTXOs
         'test-private-key',
         manyUTXOs
       );
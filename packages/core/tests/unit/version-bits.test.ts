@@ -0,0 +1,266 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  SoftForkDeployments,
+  VERSIONBITS_TOP_BITS,
+} from '../../src/version-bits.js';
+import { Blockchain } from '../../src/blockchain.js';
+import { UTXOManager } from '../../src/utxo.js';
+import { UTXOPersistenceManager } from '../../src/persistence.js';
+import { DatabaseFactory } from '../../src/database.js';
+import type {
+  Block,
+  GenesisConfig,
+  SoftForkDeployment,
+  UTXOPersistenceConfig,
+} from '../../src/types.js';
+
+const deployment: SoftForkDeployment = {
+  name: 'relative-locktime',
+  bit: 0,
+  startHeight: 4,
+  timeoutHeight: 16,
+  period: 4,
+  threshold: 3,
+};
+
+const SIGNAL = VERSIONBITS_TOP_BITS | 1;
+
+// Chain of blocks by height with the given versions; the fork label keeps
+// hashes of diverging chains apart
+const createChain = (
+  versions: Array<number | undefined>,
+  fork = 'main'
+): Array<Pick<Block, 'hash' | 'version'>> =>
+  versions.map((version, height) => ({
+    hash: `${fork}-${height}`,
+    version,
+  }));
+
+const repeat = (
+  version: number | undefined,
+  count: number
+): Array<number | undefined> =>
+  new Array<number | undefined>(count).fill(version);
+
+describe('SoftForkDeployments', () => {
+  it('should only count versions carrying the version bits prefix', () => {
+    expect(SoftForkDeployments.signals(SIGNAL, 0)).toBe(true);
+    expect(SoftForkDeployments.signals(VERSIONBITS_TOP_BITS, 0)).toBe(false);
+    expect(SoftForkDeployments.signals(1, 0)).toBe(false);
+    expect(SoftForkDeployments.signals(0x60000001, 0)).toBe(false);
+    expect(SoftForkDeployments.signals(undefined, 0)).toBe(false);
+  });
+
+  it('should start signalling at the first window past the start height', () => {
+    const deployments = new SoftForkDeployments([deployment]);
+    const chain = createChain(repeat(undefined, 4));
+
+    expect(deployments.getState(deployment.name, chain, 3)).toBe('defined');
+    expect(deployments.getState(deployment.name, chain)).toBe('started');
+    expect(deployments.computeBlockVersion(chain, 3)).toBe(
+      VERSIONBITS_TOP_BITS
+    );
+    expect(deployments.computeBlockVersion(chain)).toBe(SIGNAL);
+  });
+
+  it('should lock in after a signalling window and activate one window later', () => {
+    const deployments = new SoftForkDeployments([deployment]);
+    const chain = createChain([
+      ...repeat(undefined, 4),
+      SIGNAL,
+      VERSIONBITS_TOP_BITS,
+      SIGNAL,
+      SIGNAL,
+      ...repeat(SIGNAL, 4),
+    ]);
+
+    expect(deployments.getState(deployment.name, chain, 8)).toBe('locked_in');
+    expect(deployments.computeBlockVersion(chain, 8)).toBe(SIGNAL);
+    expect(deployments.getState(deployment.name, chain)).toBe('active');
+    expect(deployments.isActive(deployment.name, chain)).toBe(true);
+    expect(deployments.isActive(deployment.name, chain, 11)).toBe(false);
+    expect(deployments.computeBlockVersion(chain)).toBe(VERSIONBITS_TOP_BITS);
+  });
+
+  it('should fail windows short of the threshold once the timeout passes', () => {
+    const deployments = new SoftForkDeployments([deployment]);
+    const chain = createChain([
+      ...repeat(undefined, 4),
+      ...repeat(VERSIONBITS_TOP_BITS, 8),
+      ...repeat(SIGNAL, 2),
+      ...repeat(VERSIONBITS_TOP_BITS, 2),
+      ...repeat(SIGNAL, 4),
+    ]);
+
+    expect(deployments.getState(deployment.name, chain, 16)).toBe('failed');
+    expect(deployments.getState(deployment.name, chain)).toBe('failed');
+    expect(deployments.computeBlockVersion(chain)).toBe(VERSIONBITS_TOP_BITS);
+  });
+
+  it('should report signalling progress in the current window', () => {
+    const deployments = new SoftForkDeployments([deployment]);
+    const chain = createChain([
+      ...repeat(undefined, 4),
+      SIGNAL,
+      VERSIONBITS_TOP_BITS,
+    ]);
+
+    expect(deployments.getStatus(chain)).toEqual([
+      {
+        name: deployment.name,
+        bit: 0,
+        state: 'started',
+        since: 4,
+        period: 4,
+        threshold: 3,
+        elapsed: 2,
+        count: 1,
+      },
+    ]);
+  });
+
+  it('should keep the state of each fork separate', () => {
+    const deployments = new SoftForkDeployments([deployment]);
+    const prefix = repeat(undefined, 4);
+    const signalling = createChain([...prefix, ...repeat(SIGNAL, 4)], 'a');
+    const silent = createChain(
+      [...prefix, ...repeat(VERSIONBITS_TOP_BITS, 4)],
+      'b'
+    );
+
+    expect(deployments.getState(deployment.name, signalling)).toBe('locked_in');
+    expect(deployments.getState(deployment.name, silent)).toBe('started');
+  });
+
+  it('should treat unknown deployments as never active', () => {
+    const deployments = new SoftForkDeployments([deployment]);
+    const chain = createChain(repeat(undefined, 4));
+
+    expect(deployments.isActive('unknown', chain)).toBe(false);
+    expect(() => deployments.getState('unknown', chain)).toThrow(
+      'Unknown soft fork deployment unknown'
+    );
+  });
+});
+
+describe('Blockchain soft fork deployments', () => {
+  const testConfig: UTXOPersistenceConfig = {
+    enabled: true,
+    dbPath: ':memory:',
+    dbType: 'memory',
+    autoSave: true,
+    batchSize: 100,
+    compressionType: 'none',
+    utxoSetCacheSize: 1000,
+    cryptographicAlgorithm: 'secp256k1',
+    compactionStyle: 'size',
+  };
+
+  const testGenesisConfig: GenesisConfig = {
+    chainId: 'version-bits-test-v1',
+    networkName: 'Version Bits Test Network',
+    version: '1.0.0',
+    initialAllocations: [
+      {
+        address: 'funded-address',
+        amount: 1000000,
+        description: 'Version bits test allocation',
+      },
+    ],
+    totalSupply: 21000000,
+    networkParams: {
+      initialDifficulty: 1,
+      targetBlockTime: 180,
+      adjustmentPeriod: 10,
+      maxDifficultyRatio: 4,
+      maxBlockSize: 1024 * 1024,
+      miningReward: 10,
+      halvingInterval: 210000,
+      deployments: [
+        {
+          name: 'relative-locktime',
+          bit: 0,
+          startHeight: 0,
+          timeoutHeight: 100,
+          period: 2,
+          threshold: 2,
+        },
+      ],
+    },
+    metadata: {
+      timestamp: 1700000000000,
+      description: 'Version Bits Test Genesis Block',
+      creator: 'Test Suite',
+      networkType: 'testnet',
+    },
+  };
+
+  const chains: Blockchain[] = [];
+
+  const createBlockchain = async (): Promise<Blockchain> => {
+    const blockchain = new Blockchain(
+      new UTXOPersistenceManager(
+        DatabaseFactory.create(testConfig),
+        testConfig
+      ),
+      new UTXOManager(),
+      { targetBlockTime: 180 },
+      testGenesisConfig
+    );
+    await blockchain.waitForInitialization();
+    chains.push(blockchain);
+    return blockchain;
+  };
+
+  afterEach(async () => {
+    for (const blockchain of chains.splice(0)) {
+      await blockchain.close();
+    }
+  });
+
+  it('should signal from mined blocks until the deployment activates', async () => {
+    const blockchain = await createBlockchain();
+    const blocks: Block[] = [];
+    for (let i = 0; i < 5; i++) {
+      blocks.push(blockchain.minePendingUTXOTransactions('miner-a')!);
+    }
+
+    expect(blocks.map(block => block.version)).toEqual([
+      VERSIONBITS_TOP_BITS,
+      SIGNAL,
+      SIGNAL,
+      SIGNAL,
+      SIGNAL,
+    ]);
+    expect(blockchain.isDeploymentActive('relative-locktime')).toBe(true);
+    expect(blockchain.isDeploymentActive('relative-locktime', 5)).toBe(false);
+    expect(blockchain.getDeploymentStatus()).toEqual([
+      {
+        name: 'relative-locktime',
+        bit: 0,
+        state: 'active',
+        since: 6,
+        period: 2,
+        threshold: 2,
+        elapsed: 0,
+        count: 0,
+      },
+    ]);
+    expect(blockchain.createBlockTemplate('miner-a').block.version).toBe(
+      VERSIONBITS_TOP_BITS
+    );
+  });
+
+  it('should commit to the version in the block hash', async () => {
+    const source = await createBlockchain();
+    const follower = await createBlockchain();
+    const block = source.minePendingUTXOTransactions('miner-a')!;
+    const forged = { ...block, version: SIGNAL };
+
+    expect((await follower.addBlock(forged)).isValid).toBe(false);
+    expect(await follower.addBlock(block)).toEqual({
+      isValid: true,
+      errors: [],
+    });
+  });
+});
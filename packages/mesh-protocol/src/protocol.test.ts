@@ -2,7 +2,8 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { MeshProtocol } from './protocol.js';
 import { Logger } from '@lorachain/shared';
 import type { MeshConfig } from './protocol.js';
-import type { MeshMessage } from '@lorachain/core';
+import { UTXOTransactionManager } from '@lorachain/core';
+import type { MeshMessage, UTXOTransaction } from '@lorachain/core';
 
 // Mock the logger
 vi.mock('@lorachain/shared', () => ({
@@ -675,20 +676,21 @@ describe('MeshProtocol', () => {
     it('should handle UTXO transaction sending when connected', async () => {
       await meshProtocol.connect();
 
-      const mockUTXOTx = {
-        id: 'test-tx-1',
+      const mockUTXOTx: UTXOTransaction = {
+        id: '',
         inputs: [],
         outputs: [
           {
-            value: 100,
+            value: 100000,
             lockingScript: 'test-address',
             outputIndex: 0,
           },
         ],
         lockTime: 0,
         timestamp: Date.now(),
-        fee: 0.001,
+        fee: 1000,
       };
+      mockUTXOTx.id = UTXOTransactionManager.calculateTransactionId(mockUTXOTx);
 
       const result = await meshProtocol.sendUTXOTransaction(mockUTXOTx);
 
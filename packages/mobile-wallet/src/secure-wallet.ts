@@ -213,7 +213,8 @@ export class SecureMobileWallet {
       to,
       amount,
       bytesToHex(this.keyPair.privateKey),
-      availableUTXOs
+      availableUTXOs,
+      this.keyPair.algorithm
     );
 
     this.logger.info('UTXO transaction created', {
@@ -39,6 +39,7 @@ export interface EnhancedNodeConfig {
   minerAddress?: string;
   genesisConfig?: GenesisConfig | string;
   persistenceConfig?: UTXOPersistenceConfig;
+  signerPrivateKey?: string;
 
   // Peer management configuration
   peerManager?: Partial<PeerManagerConfig>;
@@ -214,6 +215,13 @@ export class EnhancedLorachainNode {
     // Wait for blockchain initialization to complete
     await this.blockchain.waitForInitialization();
 
+    if (this.config.signerPrivateKey) {
+      const signer = this.blockchain.setBlockSigner(
+        this.config.signerPrivateKey
+      );
+      this.logger.info('Block signer configured', { signer });
+    }
+
     this.isRunning = true;
     this.logger.info('Starting Enhanced Lorachain node', {
       nodeId: this.config.id,
@@ -252,7 +260,7 @@ export class EnhancedLorachainNode {
   }
 
   private startMining(): void {
-    const mineBlock = (): void => {
+    const mineBlock = async (): Promise<void> => {
       if (!this.isRunning) {
         return;
       }
@@ -264,7 +272,7 @@ export class EnhancedLorachainNode {
 
       const pendingTransactions = this.blockchain.getPendingTransactions();
       if (pendingTransactions.length === 0) {
-        setTimeout(mineBlock, 5000);
+        setTimeout(() => void mineBlock(), 5000);
         return;
       }
 
@@ -272,7 +280,7 @@ export class EnhancedLorachainNode {
         pendingTransactions: pendingTransactions.length,
       });
 
-      const newBlock = this.blockchain.minePendingTransactions(
+      const newBlock = await this.blockchain.minePendingTransactionsAsync(
         this.config.minerAddress
       );
 
@@ -285,10 +293,10 @@ export class EnhancedLorachainNode {
         this.broadcastBlock(newBlock);
       }
 
-      setTimeout(mineBlock, 1000);
+      setTimeout(() => void mineBlock(), 1000);
     };
 
-    setTimeout(mineBlock, 1000);
+    setTimeout(() => void mineBlock(), 1000);
   }
 
   async addTransaction(transaction: UTXOTransaction): Promise<boolean> {
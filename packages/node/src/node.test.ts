@@ -1,9 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { LorachainNode } from './node.js';
-import { Blockchain, BlockManager } from '@lorachain/core';
+import {
+  Blockchain,
+  BlockManager,
+  CryptographicService,
+} from '@lorachain/core';
 import { Logger } from '@lorachain/shared';
 import type { NodeConfig } from './node.js';
-import type { NetworkNode, GenesisConfig } from '@lorachain/core';
+import type {
+  NetworkNode,
+  GenesisConfig,
+  INodeDiscoveryProtocol,
+  UTXOTransaction,
+} from '@lorachain/core';
 
 // Mock the logger
 vi.mock('@lorachain/shared', () => ({
@@ -23,6 +32,26 @@ describe('LorachainNode', () => {
   let nodeConfig: NodeConfig;
   let testGenesisConfig: GenesisConfig;
 
+  // Genesis allocation the test payments spend
+  const fundedKeyPair = CryptographicService.generateKeyPair('secp256k1');
+  const fundedAddress = CryptographicService.generateAddress(
+    fundedKeyPair.publicKey,
+    'secp256k1'
+  );
+
+  const createPayment = async (
+    lorachainNode: LorachainNode
+  ): Promise<UTXOTransaction> => {
+    const blockchain = lorachainNode.getBlockchain();
+    await blockchain.waitForInitialization();
+    return blockchain.createUTXOTransaction(
+      fundedAddress,
+      'to-address',
+      100,
+      Buffer.from(fundedKeyPair.privateKey).toString('hex')
+    );
+  };
+
   beforeEach(() => {
     mockLogger = {
       info: vi.fn(),
@@ -40,7 +69,7 @@ describe('LorachainNode', () => {
       version: '1.0.0',
       initialAllocations: [
         {
-          address: 'lora1test000000000000000000000000000000000',
+          address: fundedAddress,
           amount: 1000000,
           description: 'Test allocation for node tests',
         },
@@ -184,24 +213,11 @@ describe('LorachainNode', () => {
   });
 
   describe('addTransaction', () => {
-    let transaction: any;
+    let transaction: UTXOTransaction;
 
-    beforeEach(() => {
+    beforeEach(async () => {
       node = new LorachainNode(nodeConfig);
-      transaction = {
-        id: `test-tx-${Date.now()}`,
-        inputs: [],
-        outputs: [
-          {
-            value: 100,
-            lockingScript: 'to-address',
-            outputIndex: 0,
-          },
-        ],
-        lockTime: 0,
-        timestamp: Date.now(),
-        fee: 0,
-      };
+      transaction = await createPayment(node);
     });
 
     it('should add valid transaction', async () => {
@@ -258,24 +274,24 @@ describe('LorachainNode', () => {
       const blockchain = node.getBlockchain();
       await blockchain.waitForInitialization();
 
-      // Create a valid block manually using BlockManager
-      const transaction = {
-        id: `block-test-tx-${Date.now()}`,
-        from: 'from-address',
-        to: 'to-address',
-        amount: 100,
-        fee: 1,
+      // Create a valid block manually using BlockManager, holding only the
+      // coinbase; other transactions need their UTXO form to be connected
+      const coinbase = {
+        id: `block-test-coinbase-${Date.now()}`,
+        from: 'network',
+        to: 'miner-address',
+        amount: 10,
+        fee: 0,
         timestamp: Date.now(),
-        signature: 'test-signature',
+        signature: 'utxo-signed',
         nonce: 0,
       };
-
       const latestBlock = blockchain.getLatestBlock();
 
       // Create a valid block using BlockManager
       validBlock = BlockManager.createBlock(
         latestBlock.index + 1,
-        [transaction],
+        [coinbase],
         latestBlock.hash,
         blockchain.getDifficulty(),
         'miner-address'
@@ -442,22 +458,9 @@ describe('LorachainNode', () => {
     });
 
     it('should mine blocks when transactions are available', async () => {
-      const transaction = {
-        id: `mining-test-tx-${Date.now()}`,
-        inputs: [],
-        outputs: [
-          {
-            value: 100,
-            lockingScript: 'to-address',
-            outputIndex: 0,
-          },
-        ],
-        lockTime: 0,
-        timestamp: Date.now(),
-        fee: 0,
-      };
+      const transaction = await createPayment(miningNode);
 
-      miningNode.addTransaction(transaction);
+      await miningNode.addTransaction(transaction);
       await miningNode.start();
 
       // Wait for mining to complete
@@ -505,6 +508,21 @@ describe('LorachainNode', () => {
     });
   });
 
+  describe('setDiscoveryProtocol', () => {
+    it('should advertise the prune height as blocks are pruned', async () => {
+      node = new LorachainNode(nodeConfig);
+      const blockchain = node.getBlockchain();
+      await blockchain.waitForInitialization();
+      const discovery = { setPruneHeight: vi.fn() };
+
+      node.setDiscoveryProtocol(discovery as unknown as INodeDiscoveryProtocol);
+      expect(discovery.setPruneHeight).toHaveBeenLastCalledWith(undefined);
+
+      blockchain.emit('prune', { pruned: true, pruneHeight: 12 });
+      expect(discovery.setPruneHeight).toHaveBeenLastCalledWith(12);
+    });
+  });
+
   describe('node types', () => {
     it('should handle light node configuration', () => {
       const lightConfig = { ...nodeConfig, type: 'light' as const };
@@ -546,20 +564,7 @@ describe('LorachainNode', () => {
     });
 
     it('should log transaction broadcast', async () => {
-      const transaction = {
-        id: `broadcast-test-tx-${Date.now()}`,
-        inputs: [],
-        outputs: [
-          {
-            value: 100,
-            lockingScript: 'to-address',
-            outputIndex: 0,
-          },
-        ],
-        lockTime: 0,
-        timestamp: Date.now(),
-        fee: 0,
-      };
+      const transaction = await createPayment(node);
 
       await node.addTransaction(transaction);
 
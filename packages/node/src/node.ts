@@ -7,6 +7,8 @@ import {
   DatabaseFactory,
   CryptographicService,
   type GenesisConfig,
+  type INodeDiscoveryProtocol,
+  type PruneState,
   type UTXOPersistenceConfig,
 } from '@lorachain/core';
 import { Logger } from '@lorachain/shared';
@@ -21,12 +23,14 @@ export interface NodeConfig {
   minerAddress?: string;
   genesisConfig?: GenesisConfig | string; // Genesis config or chain ID (required)
   persistenceConfig?: UTXOPersistenceConfig; // Optional persistence config
+  signerPrivateKey?: string; // Block signing key for proof-of-authority chains
 }
 
 export class LorachainNode {
   private blockchain: Blockchain;
   private config: NodeConfig;
   private peers: NetworkNode[] = [];
+  private discovery?: INodeDiscoveryProtocol;
   private logger = Logger.getInstance();
   private isRunning = false;
 
@@ -35,6 +39,9 @@ export class LorachainNode {
 
     // Initialize blockchain with required parameters (NO BACKWARDS COMPATIBILITY)
     this.blockchain = this.initializeBlockchain(config);
+    this.blockchain.on('prune', (state: PruneState) =>
+      this.advertisePruneState(state)
+    );
 
     this.logger.info('Lorachain node initialized', { nodeId: config.id });
   }
@@ -94,6 +101,15 @@ export class LorachainNode {
 
     // Wait for blockchain initialization to complete
     await this.blockchain.waitForInitialization();
+    // Loading the chain restores the prune height of earlier runs
+    this.advertisePruneState(this.blockchain.getPruneState());
+
+    if (this.config.signerPrivateKey) {
+      const signer = this.blockchain.setBlockSigner(
+        this.config.signerPrivateKey
+      );
+      this.logger.info('Block signer configured', { signer });
+    }
 
     this.isRunning = true;
     this.logger.info('Starting Lorachain node', {
@@ -120,7 +136,9 @@ export class LorachainNode {
   }
 
   private startMining(): void {
-    const mineBlock = (): void => {
+    // Proof of work runs on worker threads, leaving the event loop free to
+    // serve peers; a competing block cancels the job and yields null
+    const mineBlock = async (): Promise<void> => {
       if (!this.isRunning) {
         return;
       }
@@ -132,7 +150,7 @@ export class LorachainNode {
 
       const pendingTransactions = this.blockchain.getPendingTransactions();
       if (pendingTransactions.length === 0) {
-        setTimeout(mineBlock, 5000);
+        setTimeout(() => void mineBlock(), 5000);
         return;
       }
 
@@ -140,7 +158,7 @@ export class LorachainNode {
         pendingTransactions: pendingTransactions.length,
       });
 
-      const newBlock = this.blockchain.minePendingTransactions(
+      const newBlock = await this.blockchain.minePendingTransactionsAsync(
         this.config.minerAddress
       );
 
@@ -153,10 +171,10 @@ export class LorachainNode {
         this.broadcastBlock(newBlock);
       }
 
-      setTimeout(mineBlock, 1000);
+      setTimeout(() => void mineBlock(), 1000);
     };
 
-    setTimeout(mineBlock, 1000);
+    setTimeout(() => void mineBlock(), 1000);
   }
 
   async addTransaction(transaction: UTXOTransaction): Promise<boolean> {
@@ -224,6 +242,21 @@ export class LorachainNode {
     }
   }
 
+  /**
+   * Advertise this node's prune height in the discovery protocol's beacons,
+   * keeping it current as the blockchain prunes block bodies
+   */
+  setDiscoveryProtocol(discovery: INodeDiscoveryProtocol): void {
+    this.discovery = discovery;
+    this.advertisePruneState(this.blockchain.getPruneState());
+  }
+
+  private advertisePruneState(state: PruneState): void {
+    this.discovery?.setPruneHeight(
+      state.pruned ? state.pruneHeight : undefined
+    );
+  }
+
   getBlockchain(): Blockchain {
     return this.blockchain;
   }